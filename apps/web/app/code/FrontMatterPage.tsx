@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import MainLayout from '@/components/layout/MainLayout';
+import FrontMatterContent from '@/components/content/FrontMatterContent';
+import { useVersionStore } from '@/stores/version-store';
+import { useContentStore } from '@/stores/content-store';
+import type {
+  CommitteesSection,
+  FrontMatterSection,
+  FrontMatterType,
+} from '@/stores/content-store';
+import './FrontMatterPage.css';
+
+interface FrontMatterPageProps {
+  /**
+   * Front matter section to show
+   */
+  type: FrontMatterType;
+}
+
+/**
+ * Front matter page (preface, introduction or committees)
+ *
+ * Loads the section for the current version from
+ * /data/{version}/content/front-matter/{type}.json.
+ */
+export default function FrontMatterPage({ type }: FrontMatterPageProps) {
+  const [section, setSection] = useState<FrontMatterSection | CommitteesSection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const currentVersion = useVersionStore((state) => state.currentVersion);
+  const loadFrontMatter = useContentStore((state) => state.loadFrontMatter);
+
+  useEffect(() => {
+    if (!currentVersion) return;
+
+    setLoading(true);
+    loadFrontMatter(type, currentVersion).then((loaded) => {
+      setSection(loaded);
+      setLoading(false);
+    });
+  }, [type, currentVersion, loadFrontMatter]);
+
+  return (
+    <MainLayout>
+      <div className="front-matter-page">
+        {loading ? (
+          <p>Loading...</p>
+        ) : section ? (
+          <>
+            <h1 className="front-matter-page--title">{section.title}</h1>
+            <FrontMatterContent section={section} />
+          </>
+        ) : (
+          <p className="front-matter-page--error">
+            This section is not available for the selected version.
+          </p>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import MainLayout from '@/components/layout/MainLayout';
+import WhatChanged from '@/components/version-changes/WhatChanged';
+import { useVersionStore } from '@/stores/version-store';
+import { useVersionChangesStore, VersionChanges } from '@/stores/version-changes-store';
+import './page.css';
+
+/**
+ * What changed page
+ *
+ * Lists the articles that changed between the current version and the
+ * edition before it, loaded from /data/{version}/changes-{from}-{to}.json.
+ */
+export default function ChangesPage() {
+  const [changes, setChanges] = useState<VersionChanges | null>(null);
+  const currentVersion = useVersionStore((state) => state.currentVersion);
+  // Re-render once the versions load so the previous edition can be found
+  useVersionStore((state) => state.availableVersions);
+  const getPreviousVersionId = useVersionChangesStore((state) => state.getPreviousVersionId);
+  const loadChanges = useVersionChangesStore((state) => state.loadChanges);
+  const loading = useVersionChangesStore((state) => state.loading);
+  const error = useVersionChangesStore((state) => state.error);
+  const previousVersion = currentVersion ? getPreviousVersionId(currentVersion) : null;
+
+  // Load the changes from the previous edition
+  useEffect(() => {
+    if (!currentVersion || !previousVersion) {
+      setChanges(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadChanges(previousVersion, currentVersion).then((result) => {
+      if (!cancelled) setChanges(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentVersion, previousVersion, loadChanges]);
+
+  // Link to the article in the edition it belongs to
+  const buildHref = useCallback(
+    (path: string, version: string): string => `${path}?${new URLSearchParams({ version }).toString()}`,
+    []
+  );
+
+  return (
+    <MainLayout>
+      <div className="changes-page">
+        <h1 className="changes-page--title">What Changed</h1>
+        {!previousVersion ? (
+          <p>There is no earlier edition to compare this version with.</p>
+        ) : loading && !changes ? (
+          <p>Loading...</p>
+        ) : error && !changes ? (
+          <p className="changes-page--error">{error}</p>
+        ) : changes ? (
+          <WhatChanged changes={changes} buildHref={buildHref} />
+        ) : null}
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,8 @@
+import FrontMatterPage from '../FrontMatterPage';
+
+/**
+ * Committees page (front matter)
+ */
+export default function CommitteesPage() {
+  return <FrontMatterPage type="committees" />;
+}
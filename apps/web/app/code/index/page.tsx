@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import MainLayout from '@/components/layout/MainLayout';
+import BookIndex, { BookIndexLetter } from '@/components/book-index/BookIndex';
+import { useVersionStore } from '@/stores/version-store';
+import { useAmendmentDateStore } from '@/stores/amendment-date-store';
+import './page.css';
+
+/**
+ * Back-of-book index page
+ *
+ * Lists the A–Z index terms for the current version, loaded from
+ * /data/{version}/index.json, with references linking to their provisions.
+ */
+export default function IndexPage() {
+  const [letters, setLetters] = useState<BookIndexLetter[]>([]);
+  const [introduction, setIntroduction] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const currentVersion = useVersionStore((state) => state.currentVersion);
+  const getVersionDataPath = useVersionStore((state) => state.getVersionDataPath);
+  const selectedDate = useAmendmentDateStore((state) => state.selectedDate);
+
+  // Load index from version-specific JSON
+  useEffect(() => {
+    if (!currentVersion) return;
+
+    const dataPath = getVersionDataPath(currentVersion);
+    setLoading(true);
+
+    fetch(`${dataPath}/index.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Failed to load index: ${res.statusText}`);
+        return res.json();
+      })
+      .then((data) => {
+        setLetters(data.letters || []);
+        setIntroduction(data.introduction || '');
+        setError(null);
+        setLoading(false);
+      })
+      .catch((err) => {
+        console.error('Failed to load index:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load index');
+        setLoading(false);
+      });
+  }, [currentVersion, getVersionDataPath]);
+
+  // Build URL with version and date query parameters
+  const buildHref = useCallback(
+    (path: string): string => {
+      const params = new URLSearchParams();
+      if (currentVersion) {
+        params.set('version', currentVersion);
+      }
+      if (selectedDate) {
+        params.set('date', selectedDate);
+      }
+      return `${path}?${params.toString()}`;
+    },
+    [currentVersion, selectedDate]
+  );
+
+  return (
+    <MainLayout>
+      <div className="index-page">
+        <h1 className="index-page--title">Index</h1>
+        {introduction && <p className="index-page--introduction">{introduction}</p>}
+        {loading ? (
+          <p>Loading...</p>
+        ) : error ? (
+          <p className="index-page--error">{error}</p>
+        ) : (
+          <BookIndex letters={letters} buildHref={buildHref} />
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,8 @@
+import FrontMatterPage from '../FrontMatterPage';
+
+/**
+ * Introduction page (front matter)
+ */
+export default function IntroductionPage() {
+  return <FrontMatterPage type="introduction" />;
+}
@@ -0,0 +1,8 @@
+import FrontMatterPage from '../FrontMatterPage';
+
+/**
+ * Preface page (front matter)
+ */
+export default function PrefacePage() {
+  return <FrontMatterPage type="preface" />;
+}
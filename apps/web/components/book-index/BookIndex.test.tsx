@@ -0,0 +1,77 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import BookIndex, { BookIndexLetter } from './BookIndex';
+import {
+  TESTID_BOOK_INDEX,
+  GET_TESTID_BOOK_INDEX_LETTER,
+} from '@repo/constants/src/testids';
+
+// Mock the Link component
+vi.mock('@repo/ui/link', () => ({
+  __esModule: true,
+  default: ({ children, href }: any) => <a href={href}>{children}</a>,
+}));
+
+describe('BookIndex', () => {
+  const letters: BookIndexLetter[] = [
+    {
+      letter: 'A',
+      terms: [
+        {
+          id: 'group-1',
+          termId: 'term-1',
+          term: 'Attics',
+          references: [
+            {
+              target: 'nbc.divB.part9.sect10.subsect14.art1',
+              label: '9.10.14.1',
+              division: 'B',
+              path: '/code/nbc.divB/9/10/14/1',
+            },
+          ],
+          subterms: [
+            {
+              id: 'sub-1',
+              term: 'fire separations',
+              references: [
+                { target: 'missing.target', label: 'missing.target', path: null },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ];
+
+  it('should render letters, terms and subterms', () => {
+    render(<BookIndex letters={letters} />);
+
+    expect(screen.getByTestId(TESTID_BOOK_INDEX)).toBeInTheDocument();
+    expect(screen.getByTestId(GET_TESTID_BOOK_INDEX_LETTER('A'))).toBeInTheDocument();
+    expect(screen.getByText('Attics')).toBeInTheDocument();
+    expect(screen.getByText('fire separations')).toBeInTheDocument();
+  });
+
+  it('should link resolved references using buildHref', () => {
+    render(
+      <BookIndex letters={letters} buildHref={(path) => `${path}?version=2024`} />
+    );
+
+    const link = screen.getByText('9.10.14.1 (Div B)');
+    expect(link.closest('a')).toHaveAttribute('href', '/code/nbc.divB/9/10/14/1?version=2024');
+  });
+
+  it('should render unresolved references as plain text', () => {
+    render(<BookIndex letters={letters} />);
+
+    expect(screen.getByText('missing.target').closest('a')).toBeNull();
+  });
+
+  it('should disable letters without terms in the jump navigation', () => {
+    render(<BookIndex letters={letters} />);
+
+    expect(screen.getByText('A', { selector: 'a' })).toHaveAttribute('href', '#index-A');
+    expect(screen.getByText('B', { selector: 'span' })).toHaveAttribute('aria-disabled', 'true');
+  });
+});
@@ -0,0 +1,157 @@
+'use client';
+
+import Link from '@repo/ui/link';
+import {
+  TESTID_BOOK_INDEX,
+  GET_TESTID_BOOK_INDEX_LETTER,
+} from '@repo/constants/src/testids';
+import './BookIndex.css';
+
+/**
+ * Index reference resolved to a content path (from index.json)
+ */
+export interface BookIndexReference {
+  target: string;
+  label: string;
+  division?: string;
+  path: string | null;
+}
+
+export interface BookIndexSubterm {
+  id: string;
+  term: string;
+  references: BookIndexReference[];
+}
+
+export interface BookIndexTerm {
+  id: string;
+  termId: string;
+  term: string;
+  references: BookIndexReference[];
+  subterms: BookIndexSubterm[];
+}
+
+export interface BookIndexLetter {
+  letter: string;
+  terms: BookIndexTerm[];
+}
+
+export interface BookIndexProps {
+  /**
+   * Letter groups from index.json
+   */
+  letters: BookIndexLetter[];
+  /**
+   * Build the link href for a resolved content path
+   * (e.g., to append version and date query parameters)
+   */
+  buildHref?: (path: string) => string;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * BookIndex Component
+ *
+ * Renders the back-of-book index as an A–Z listing of terms and subterms.
+ * Each reference links to its provision; references that could not be
+ * resolved to a content path are shown as plain text.
+ *
+ * Features:
+ * - A–Z jump navigation (letters without terms are disabled)
+ * - Terms with nested subterms
+ * - Reference links labelled with provision number and division
+ */
+export default function BookIndex({
+  letters,
+  buildHref = (path) => path,
+  className = '',
+}: BookIndexProps) {
+  const availableLetters = new Set(letters.map((l) => l.letter.toUpperCase()));
+
+  const renderReferences = (references: BookIndexReference[]) => {
+    if (references.length === 0) return null;
+
+    return (
+      <span className="book-index--references">
+        {references.map((reference, index) => {
+          const label = reference.division
+            ? `${reference.label} (Div ${reference.division})`
+            : reference.label;
+
+          return (
+            <span key={`${reference.target}-${index}`} className="book-index--reference">
+              {reference.path ? (
+                <Link href={buildHref(reference.path)}>{label}</Link>
+              ) : (
+                <span className="book-index--reference-unresolved">{label}</span>
+              )}
+              {index < references.length - 1 ? ', ' : null}
+            </span>
+          );
+        })}
+      </span>
+    );
+  };
+
+  return (
+    <div className={`book-index ${className}`} data-testid={TESTID_BOOK_INDEX}>
+      <nav className="book-index--letters" aria-label="Index letters">
+        {ALPHABET.map((letter) =>
+          availableLetters.has(letter) ? (
+            <a
+              key={letter}
+              href={`#index-${letter}`}
+              className="book-index--letter-link"
+            >
+              {letter}
+            </a>
+          ) : (
+            <span
+              key={letter}
+              className="book-index--letter-link --disabled"
+              aria-disabled="true"
+            >
+              {letter}
+            </span>
+          )
+        )}
+      </nav>
+
+      {letters.map((letter) => (
+        <section
+          key={letter.letter}
+          id={`index-${letter.letter.toUpperCase()}`}
+          className="book-index--letter"
+          data-testid={GET_TESTID_BOOK_INDEX_LETTER(letter.letter)}
+        >
+          <h2 className="book-index--letter-title">{letter.letter}</h2>
+          <ul className="book-index--terms">
+            {letter.terms.map((term) => (
+              <li key={term.id} className="book-index--term">
+                <span className="book-index--term-name">{term.term}</span>
+                {term.references.length > 0 ? ', ' : null}
+                {renderReferences(term.references)}
+                {term.subterms.length > 0 && (
+                  <ul className="book-index--subterms">
+                    {term.subterms.map((subterm) => (
+                      <li key={subterm.id} className="book-index--subterm">
+                        <span className="book-index--term-name">{subterm.term}</span>
+                        {subterm.references.length > 0 ? ', ' : null}
+                        {renderReferences(subterm.references)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
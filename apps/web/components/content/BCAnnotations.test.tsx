@@ -0,0 +1,43 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import BCAnnotations from './BCAnnotations';
+import type { BCAnnotation } from '@/stores/content-store';
+import {
+  TESTID_BC_ANNOTATIONS,
+  TESTID_BC_ANNOTATIONS_TOGGLE,
+} from '@repo/constants/src/testids';
+
+describe('BCAnnotations', () => {
+  const annotations: BCAnnotation[] = [
+    { type: 'bc_variation', content: 'This Sentence differs from the NBC.' },
+  ];
+
+  it('should render nothing without annotations', () => {
+    const { container } = render(<BCAnnotations annotations={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should render each annotation with its type', () => {
+    render(<BCAnnotations annotations={annotations} />);
+
+    expect(screen.getByTestId(TESTID_BC_ANNOTATIONS)).toHaveTextContent('BC variation');
+    expect(screen.getByText('This Sentence differs from the NBC.')).toBeInTheDocument();
+    expect(screen.queryByTestId(TESTID_BC_ANNOTATIONS_TOGGLE)).toBeNull();
+  });
+
+  it('should hide annotations but keep the toggle when turned off', () => {
+    const onShowChange = vi.fn();
+    render(<BCAnnotations annotations={annotations} show={false} onShowChange={onShowChange} />);
+
+    expect(screen.queryByText('This Sentence differs from the NBC.')).toBeNull();
+
+    const toggle = screen.getByTestId(TESTID_BC_ANNOTATIONS_TOGGLE);
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    expect(toggle).toHaveTextContent('Show BC annotations (1)');
+
+    fireEvent.click(toggle);
+    expect(onShowChange).toHaveBeenCalledWith(true);
+  });
+});
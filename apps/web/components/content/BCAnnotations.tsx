@@ -0,0 +1,93 @@
+'use client';
+
+import {
+  TESTID_BC_ANNOTATIONS,
+  TESTID_BC_ANNOTATIONS_TOGGLE,
+} from '@repo/constants/src/testids';
+import type { BCAnnotation } from '@/stores/content-store';
+import './BCAnnotations.css';
+
+export interface BCAnnotationsProps {
+  /**
+   * BC-specific annotations on a sentence (clause.bcAnnotations)
+   */
+  annotations: BCAnnotation[];
+  /**
+   * Show the annotations (from useUIStore().showBCAnnotations)
+   */
+  show?: boolean;
+  /**
+   * Called when the reader toggles annotations; no toggle is rendered without it
+   */
+  onShowChange?: (show: boolean) => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Turn an annotation type (e.g., "bc_variation") into a label ("BC variation")
+ */
+function getTypeLabel(type: string): string {
+  const label = type.replace(/[_-]+/g, ' ').trim().replace(/^bc\b/i, 'BC');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * BCAnnotations Component
+ *
+ * Shows where a sentence departs from the National Building Code as a
+ * distinct layer under the sentence. Readers can hide the layer; the
+ * toggle stays visible so it can be turned back on.
+ *
+ * @example
+ * ```tsx
+ * const { showBCAnnotations, setShowBCAnnotations } = useUIStore();
+ * <BCAnnotations
+ *   annotations={clause.bcAnnotations || []}
+ *   show={showBCAnnotations}
+ *   onShowChange={setShowBCAnnotations}
+ * />
+ * ```
+ */
+export default function BCAnnotations({
+  annotations,
+  show = true,
+  onShowChange,
+  className = '',
+}: BCAnnotationsProps) {
+  if (annotations.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside
+      className={`bc-annotations ${className}`}
+      aria-label="BC annotations"
+      data-testid={TESTID_BC_ANNOTATIONS}
+    >
+      {onShowChange && (
+        <button
+          type="button"
+          className="bc-annotations--toggle"
+          aria-pressed={show}
+          onClick={() => onShowChange(!show)}
+          data-testid={TESTID_BC_ANNOTATIONS_TOGGLE}
+        >
+          {show ? 'Hide BC annotations' : `Show BC annotations (${annotations.length})`}
+        </button>
+      )}
+      {show && (
+        <ul className="bc-annotations--list">
+          {annotations.map((annotation, index) => (
+            <li key={index} className="bc-annotations--item">
+              <span className="bc-annotations--type">{getTypeLabel(annotation.type)}</span>
+              <p className="bc-annotations--content">{annotation.content}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
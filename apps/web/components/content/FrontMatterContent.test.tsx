@@ -0,0 +1,83 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import FrontMatterContent from './FrontMatterContent';
+import type { CommitteesSection, FrontMatterSection } from '@/stores/content-store';
+import { TESTID_FRONT_MATTER } from '@repo/constants/src/testids';
+
+describe('FrontMatterContent', () => {
+  it('should render headings, paragraphs, lists and figures', () => {
+    const preface: FrontMatterSection = {
+      id: 'preface',
+      type: 'preface',
+      title: 'Preface',
+      content: [
+        { type: 'heading', id: 'h1', content: 'Objective-based Codes', level: 1 },
+        { type: 'paragraph', id: 'p1', content: 'The Code is objective-based.' },
+        { type: 'list', id: 'l1', listType: 'numbered', items: ['Safety', 'Health'] },
+        { type: 'list', id: 'l2', listType: 'bulleted', items: ['Accessibility'] },
+        { type: 'figure', id: 'f1', title: 'Code structure', imageUrl: 'structure.png', altText: 'Diagram' },
+      ],
+    };
+
+    render(<FrontMatterContent section={preface} />);
+
+    expect(screen.getByRole('heading', { level: 2, name: 'Objective-based Codes' })).toBeInTheDocument();
+    expect(screen.getByText('The Code is objective-based.')).toBeInTheDocument();
+    const lists = screen.getAllByRole('list');
+    expect(lists[0].tagName).toBe('OL');
+    expect(within(lists[0]).getAllByRole('listitem')).toHaveLength(2);
+    expect(lists[1].tagName).toBe('UL');
+    expect(screen.getByRole('img', { name: 'Diagram' })).toHaveAttribute('src', 'structure.png');
+    expect(screen.getByText('Code structure')).toBeInTheDocument();
+  });
+
+  it('should render tables with header rows in the table head', () => {
+    const introduction: FrontMatterSection = {
+      id: 'intro',
+      type: 'introduction',
+      title: 'Introduction',
+      content: [
+        {
+          type: 'table',
+          id: 't1',
+          title: 'Accreditation Bodies',
+          headers: [['Body', 'Role']],
+          rows: [
+            { cells: [{ content: 'Body', isHeader: true }, { content: 'Role', isHeader: true }] },
+            { cells: [{ content: 'SCC' }, { content: 'Accreditation' }] },
+          ],
+        },
+      ],
+    };
+
+    render(<FrontMatterContent section={introduction} />);
+
+    const table = screen.getByRole('table', { name: 'Accreditation Bodies' });
+    expect(within(table).getAllByRole('columnheader').map((th) => th.textContent)).toEqual(['Body', 'Role']);
+    expect(within(table).getByRole('cell', { name: 'SCC' })).toBeInTheDocument();
+  });
+
+  it('should render committee tables and notes', () => {
+    const committees: CommitteesSection = {
+      id: 'committees',
+      type: 'committees',
+      title: 'Committees',
+      tables: [
+        {
+          id: 'ct1',
+          title: 'Building Code Committee',
+          headers: [],
+          rows: [{ cells: [{ content: 'J. Smith' }, { content: 'Chair' }] }],
+        },
+      ],
+      notes: [{ id: 'n1', content: 'Term began in 2022.' }],
+    };
+
+    render(<FrontMatterContent section={committees} />);
+
+    expect(screen.getByTestId(TESTID_FRONT_MATTER)).toHaveClass('front-matter-content--committees');
+    expect(screen.getByRole('table', { name: 'Building Code Committee' })).toHaveTextContent('J. Smith');
+    expect(screen.getByText('Term began in 2022.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,143 @@
+'use client';
+
+import type { ElementType } from 'react';
+import { TESTID_FRONT_MATTER } from '@repo/constants/src/testids';
+import type {
+  CommitteesSection,
+  FrontMatterItem,
+  FrontMatterSection,
+  FrontMatterTable,
+} from '@/stores/content-store';
+import './FrontMatterContent.css';
+
+export interface FrontMatterContentProps {
+  /**
+   * Preface, introduction or committees section (from useContentStore().loadFrontMatter)
+   */
+  section: FrontMatterSection | CommitteesSection;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * Render a front matter table, with header rows in the table head
+ */
+function FrontMatterTableView({ table }: { table: FrontMatterTable }) {
+  const headerRows = table.rows.filter((row) => row.cells.some((cell) => cell.isHeader));
+  const bodyRows = table.rows.filter((row) => !row.cells.some((cell) => cell.isHeader));
+
+  return (
+    <div className="front-matter-content--table-wrapper">
+      <table className="front-matter-content--table">
+        {table.title && (
+          <caption className="front-matter-content--table-title">{table.title}</caption>
+        )}
+        {headerRows.length > 0 && (
+          <thead>
+            {headerRows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.cells.map((cell, cellIndex) => (
+                  <th key={cellIndex} scope="col" colSpan={cell.colspan} rowSpan={cell.rowspan}>
+                    {cell.content}
+                  </th>
+                ))}
+              </tr>
+            ))}
+          </thead>
+        )}
+        <tbody>
+          {bodyRows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.cells.map((cell, cellIndex) => (
+                <td key={cellIndex} colSpan={cell.colspan} rowSpan={cell.rowspan}>
+                  {cell.content}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Render one preface or introduction content item
+ *
+ * Headings are shifted down one level so the page title stays the only h1.
+ */
+function FrontMatterItemView({ item }: { item: FrontMatterItem }) {
+  switch (item.type) {
+    case 'heading': {
+      const Heading = `h${Math.min(Math.max(item.level, 1) + 1, 6)}` as ElementType;
+      return <Heading className="front-matter-content--heading">{item.content}</Heading>;
+    }
+    case 'paragraph':
+      return <p className="front-matter-content--paragraph">{item.content}</p>;
+    case 'list': {
+      const List = item.listType === 'numbered' ? 'ol' : 'ul';
+      return (
+        <List className={`front-matter-content--list front-matter-content--list-${item.listType}`}>
+          {item.items.map((listItem, index) => (
+            <li key={index}>{listItem}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'table':
+      return <FrontMatterTableView table={item} />;
+    case 'figure':
+      return (
+        <figure className="front-matter-content--figure">
+          <img src={item.imageUrl} alt={item.altText} />
+          {item.title && <figcaption>{item.title}</figcaption>}
+        </figure>
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * FrontMatterContent Component
+ *
+ * Renders a front matter section: preface and introduction content items
+ * (headings, paragraphs, bulleted and numbered lists, tables and figures),
+ * or the committee member tables followed by their notes.
+ *
+ * @example
+ * ```tsx
+ * const loadFrontMatter = useContentStore((state) => state.loadFrontMatter);
+ * const section = await loadFrontMatter('introduction');
+ * {section && <FrontMatterContent section={section} />}
+ * ```
+ */
+export default function FrontMatterContent({ section, className = '' }: FrontMatterContentProps) {
+  return (
+    <div
+      className={`front-matter-content front-matter-content--${section.type} ${className}`}
+      data-testid={TESTID_FRONT_MATTER}
+    >
+      {section.type === 'committees' ? (
+        <>
+          {section.tables.map((table) => (
+            <FrontMatterTableView key={table.id} table={table} />
+          ))}
+          {section.notes.length > 0 && (
+            <div className="front-matter-content--notes">
+              {section.notes.map((note) => (
+                <p key={note.id} className="front-matter-content--note">
+                  {note.content}
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        section.content.map((item) => <FrontMatterItemView key={item.id} item={item} />)
+      )}
+    </div>
+  );
+}
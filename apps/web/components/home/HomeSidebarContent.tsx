@@ -2,17 +2,28 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { NavigationTree } from '@/components/navigation/NavigationTree';
-import { VersionSelector } from '@/components/navigation';
+import { VersionSelector, FutureDateBanner } from '@/components/navigation';
 import { useNavigationStore } from '@/stores/navigation-store';
 import { useVersionStore } from '@/stores/version-store';
 import { useAmendmentDateStore } from '@/stores/amendment-date-store';
+import { getDateStatus } from '@/lib/point-in-time';
 import './HomeSidebarContent.css';
 
 interface AmendmentDate {
   effectiveDate: string;
   displayDate: string;
   count: number;
-  type: 'amendment' | 'original';
+  type: 'amendment' | 'original' | 'mixed';
+  status?: 'pending' | 'in-force';
+}
+
+/**
+ * Latest date already in force (dates are newest first; pending dates
+ * can be previewed but are never the default)
+ */
+function getLatestInForceDate(dates: AmendmentDate[]): string {
+  const latest = dates.find(d => getDateStatus(d.effectiveDate) === 'in-force') || dates[0];
+  return latest.effectiveDate;
 }
 
 interface AmendmentDatesData {
@@ -27,7 +38,8 @@ interface AmendmentDatesData {
  * Sidebar content for the homepage, including:
  * - BC Building Code title and description
  * - Version selector (Position 1)
- * - Effective date filter (Position 2 - loaded from amendment-dates.json, defaults to latest)
+ * - Effective date filter (Position 2 - loaded from amendment-dates.json, defaults to latest in force;
+ *   future dates can be previewed under a banner)
  * - TOC search (Position 3 - with real-time filtering)
  * - Navigation tree (Position 4)
  * 
@@ -85,13 +97,13 @@ export default function HomeSidebarContent() {
             const urlDateValid = currentSelectedDate && data.dates.some(d => d.effectiveDate === currentSelectedDate);
             
             if (!urlDateValid) {
-              // URL date not valid or not present, use latest
-              setSelectedDate(data.dates[0].effectiveDate);
+              // URL date not valid or not present, use latest in force
+              setSelectedDate(getLatestInForceDate(data.dates));
             }
             // If URL date is valid, keep it (already set from initializeFromUrl)
           } else {
-            // Version changed: always reset to latest date
-            setSelectedDate(data.dates[0].effectiveDate);
+            // Version changed: always reset to latest date in force
+            setSelectedDate(getLatestInForceDate(data.dates));
           }
         }
       })
@@ -107,6 +119,11 @@ export default function HomeSidebarContent() {
     console.log('Selected effective date:', e.target.value);
   }, [setSelectedDate]);
 
+  // Go back from a future date preview to the code in force today
+  const handleReturnToCurrent = useCallback(() => {
+    setSelectedDate(getLatestInForceDate(allDates));
+  }, [allDates, setSelectedDate]);
+
   // Debounced search handler
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -159,15 +176,22 @@ export default function HomeSidebarContent() {
             onChange={handleDateChange}
           >
             {allDates.length > 0 ? (
-              allDates.map((date, index) => (
-                <option key={date.effectiveDate} value={date.effectiveDate}>
-                  {date.displayDate} {index === 0 ? '(Latest)' : ''}
-                </option>
-              ))
+              allDates.map((date) => {
+                const isPending = getDateStatus(date.effectiveDate) === 'pending';
+                const isLatest = !isPending && date.effectiveDate === getLatestInForceDate(allDates);
+                return (
+                  <option key={date.effectiveDate} value={date.effectiveDate}>
+                    {date.displayDate} {isPending ? '(Upcoming)' : isLatest ? '(Latest)' : ''}
+                  </option>
+                );
+              })
             ) : (
               <option value="">Loading...</option>
             )}
           </select>
+          {allDates.length > 0 && (
+            <FutureDateBanner date={selectedDate} onReturnToCurrent={handleReturnToCurrent} />
+          )}
         </div>
 
         {/* Divider */}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import FutureDateBanner from './FutureDateBanner';
+import { TESTID_FUTURE_DATE_BANNER } from '@repo/constants/src/testids';
+
+describe('FutureDateBanner', () => {
+  const today = '2025-06-01';
+
+  it('should render nothing for dates already in force', () => {
+    const { container } = render(<FutureDateBanner date="2025-06-01" today={today} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should render nothing without a selected date', () => {
+    const { container } = render(<FutureDateBanner date={null} today={today} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should warn that a future date is a preview and return to today', () => {
+    const onReturnToCurrent = vi.fn();
+    render(<FutureDateBanner date="2026-01-01" today={today} onReturnToCurrent={onReturnToCurrent} />);
+
+    expect(screen.getByTestId(TESTID_FUTURE_DATE_BANNER)).toHaveTextContent(
+      'you are reading the code as it will be in force on January 1, 2026'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'View the code in force today' }));
+    expect(onReturnToCurrent).toHaveBeenCalled();
+  });
+});
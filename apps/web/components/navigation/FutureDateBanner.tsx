@@ -0,0 +1,69 @@
+'use client';
+
+import { TESTID_FUTURE_DATE_BANNER } from '@repo/constants/src/testids';
+import { formatEffectiveDate, getDateStatus } from '@/lib/point-in-time';
+import './FutureDateBanner.css';
+
+export interface FutureDateBannerProps {
+  /**
+   * Selected effective date (YYYY-MM-DD)
+   */
+  date: string | null;
+  /**
+   * Today's date (YYYY-MM-DD); defaults to the reader's current date
+   */
+  today?: string;
+  /**
+   * Called to go back to the latest date in force; no button is rendered without it
+   */
+  onReturnToCurrent?: () => void;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * FutureDateBanner Component
+ *
+ * Warns readers that the selected effective date is in the future, so the
+ * code is shown as it will read once pending amendments come into force.
+ * Nothing is rendered for dates already in force.
+ *
+ * @example
+ * ```tsx
+ * const { selectedDate, setSelectedDate, getLatestInForceDate } = useAmendmentDateStore();
+ * <FutureDateBanner
+ *   date={selectedDate}
+ *   onReturnToCurrent={() => setSelectedDate(getLatestInForceDate())}
+ * />
+ * ```
+ */
+export default function FutureDateBanner({
+  date,
+  today,
+  onReturnToCurrent,
+  className = '',
+}: FutureDateBannerProps) {
+  if (!date || getDateStatus(date, today) !== 'pending') {
+    return null;
+  }
+
+  return (
+    <div
+      className={`future-date-banner ${className}`}
+      role="status"
+      data-testid={TESTID_FUTURE_DATE_BANNER}
+    >
+      <p className="future-date-banner--text">
+        <strong>Preview:</strong> you are reading the code as it will be in force on{' '}
+        {formatEffectiveDate(date)}. These amendments are not yet in force.
+      </p>
+      {onReturnToCurrent && (
+        <button type="button" className="future-date-banner--button" onClick={onReturnToCurrent}>
+          View the code in force today
+        </button>
+      )}
+    </div>
+  );
+}
@@ -502,4 +502,41 @@ describe('NavigationTree', () => {
       expect(mockToggleNode).toHaveBeenCalled();
     });
   });
+
+  describe('Deleted provisions', () => {
+    it('should render a numbered placeholder instead of the title', () => {
+      (useNavigationStore as any).mockReturnValue({
+        navigationTree: [
+          {
+            id: 'article-9-10-1-1',
+            number: '9.10.1.1',
+            title: '9.10.1.1 Application',
+            type: 'article',
+            path: '/code/nbc.divB/9/10/1/1',
+            deleted: true,
+          },
+          {
+            id: 'article-9-10-1-2',
+            number: '9.10.1.2',
+            title: '9.10.1.2 Definitions',
+            type: 'article',
+            path: '/code/nbc.divB/9/10/1/2',
+          },
+        ],
+        expandedNodes: new Set<string>(),
+        currentPath: '',
+        toggleNode: mockToggleNode,
+        setCurrentPath: mockSetCurrentPath,
+        searchQuery: '',
+        filteredTree: [],
+        matchingNodeIds: new Set<string>(),
+      });
+
+      render(<NavigationTree />);
+
+      expect(screen.getByText('9.10.1.1 [Deleted]')).toHaveClass('nav-tree-title--deleted');
+      expect(screen.queryByText('9.10.1.1 Application')).not.toBeInTheDocument();
+      expect(screen.getByText('9.10.1.2 Definitions')).toBeInTheDocument();
+    });
+  });
 });
@@ -31,6 +31,7 @@ interface NavigationTreeProps {
  * - Active node highlighting with blue background
  * - Hierarchical indentation (16px per level for children, 24px for parent)
  * - Scroll-to-active functionality
+ * - "[Deleted]" placeholders for deleted provisions
  * 
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5, 10.1
  */
@@ -173,7 +174,14 @@ export function NavigationTree({ className = '', onNodeClick }: NavigationTreePr
               aria-current={isActive ? 'page' : undefined}
             >
               <span className="nav-tree-text">
-                <span className="nav-tree-title">{node.title}</span>
+                {node.deleted ? (
+                  // Deleted provisions keep their number so the numbering stays intact
+                  <span className="nav-tree-title nav-tree-title--deleted">
+                    {node.number ? `${node.number} [Deleted]` : '[Deleted]'}
+                  </span>
+                ) : (
+                  <span className="nav-tree-title">{node.title}</span>
+                )}
               </span>
             </button>
           </div>
@@ -8,4 +8,5 @@ export { NavigationTree } from './NavigationTree';
 export { Breadcrumbs } from './Breadcrumbs';
 export { PrevNextNav } from './PrevNextNav';
 export { default as VersionSelector } from './VersionSelector';
+export { default as FutureDateBanner } from './FutureDateBanner';
 export type { NavigationNode } from '@/stores/navigation-store';
@@ -0,0 +1,74 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import WhatChanged from './WhatChanged';
+import type { VersionChanges } from '@/stores/version-changes-store';
+import { GET_TESTID_WHAT_CHANGED_FILTER } from '@repo/constants/src/testids';
+
+// Mock the Link component
+vi.mock('@repo/ui/link', () => ({
+  __esModule: true,
+  default: ({ children, href }: any) => <a href={href}>{children}</a>,
+}));
+
+describe('WhatChanged', () => {
+  const location = (number: string, title: string) => ({
+    id: `art-${number}`,
+    number,
+    title,
+    path: `/code/nbc.divB/${number.split('.').join('/')}`,
+    divisionId: 'nbc.divB',
+    partNumber: '9',
+  });
+
+  const changes: VersionChanges = {
+    from: '2024',
+    to: '2027',
+    summary: { added: 1, removed: 1, moved: 0, renumbered: 1, reworded: 0 },
+    groups: [
+      {
+        divisionId: 'nbc.divB',
+        divisionTitle: 'Acceptable Solutions',
+        partNumber: '9',
+        partTitle: 'Housing and Small Buildings',
+        changes: [
+          { types: ['renumbered'], from: location('9.10.1.2', 'Definitions'), to: location('9.10.1.5', 'Definitions') },
+          { types: ['removed'], from: location('9.10.1.6', 'Heating') },
+          { types: ['added'], to: location('9.10.1.7', 'Sprinklers') },
+        ],
+      },
+    ],
+  };
+
+  it('should render changes grouped by division and part', () => {
+    render(<WhatChanged changes={changes} />);
+
+    expect(screen.getByText('What changed in 2027')).toBeInTheDocument();
+    expect(screen.getByText('Acceptable Solutions – Part 9 Housing and Small Buildings')).toBeInTheDocument();
+    expect(screen.getByText('(formerly 9.10.1.2)')).toBeInTheDocument();
+    expect(screen.getByTestId(GET_TESTID_WHAT_CHANGED_FILTER('added'))).toHaveTextContent('Added (1)');
+  });
+
+  it('should link removed articles to the older edition', () => {
+    const buildHref = (path: string, version: string) => `${path}?version=${version}`;
+    render(<WhatChanged changes={changes} buildHref={buildHref} />);
+
+    expect(screen.getByText('9.10.1.6 Heating').closest('a')).toHaveAttribute(
+      'href',
+      '/code/nbc.divB/9/10/1/6?version=2024'
+    );
+    expect(screen.getByText('9.10.1.7 Sprinklers').closest('a')).toHaveAttribute(
+      'href',
+      '/code/nbc.divB/9/10/1/7?version=2027'
+    );
+  });
+
+  it('should hide change types that are toggled off', () => {
+    render(<WhatChanged changes={changes} />);
+
+    fireEvent.click(screen.getByTestId(GET_TESTID_WHAT_CHANGED_FILTER('removed')));
+
+    expect(screen.queryByText('9.10.1.6 Heating')).not.toBeInTheDocument();
+    expect(screen.getByTestId(GET_TESTID_WHAT_CHANGED_FILTER('removed'))).toHaveAttribute('aria-pressed', 'false');
+  });
+});
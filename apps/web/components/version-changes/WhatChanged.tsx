@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import Link from '@repo/ui/link';
+import {
+  TESTID_WHAT_CHANGED,
+  GET_TESTID_WHAT_CHANGED_FILTER,
+} from '@repo/constants/src/testids';
+import type {
+  ArticleChange,
+  VersionChanges,
+  VersionChangeType,
+} from '@/stores/version-changes-store';
+import './WhatChanged.css';
+
+const CHANGE_TYPES: VersionChangeType[] = ['added', 'removed', 'moved', 'renumbered', 'reworded'];
+
+const CHANGE_LABELS: Record<VersionChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  renumbered: 'Renumbered',
+  reworded: 'Reworded',
+};
+
+export interface WhatChangedProps {
+  /**
+   * Changes between two editions (from changes-{from}-{to}.json)
+   */
+  changes: VersionChanges;
+  /**
+   * Panel heading (defaults to "What changed in {to}")
+   */
+  heading?: string;
+  /**
+   * Build the link href for a content path in a version
+   * (removed articles link to the older edition)
+   */
+  buildHref?: (path: string, version: string) => string;
+  /**
+   * Optional CSS class name
+   */
+  className?: string;
+}
+
+/**
+ * WhatChanged Component
+ *
+ * Browses the articles that changed between two editions, grouped by
+ * division and part. Each change type can be toggled on and off.
+ *
+ * @example
+ * ```tsx
+ * const changes = await loadChanges('2024', '2027');
+ * <WhatChanged changes={changes} buildHref={(path, version) => `${path}?version=${version}`} />
+ * ```
+ */
+export default function WhatChanged({
+  changes,
+  heading = `What changed in ${changes.to}`,
+  buildHref = (path) => path,
+  className = '',
+}: WhatChangedProps) {
+  const [activeTypes, setActiveTypes] = useState<Set<VersionChangeType>>(new Set(CHANGE_TYPES));
+
+  const toggleType = (type: VersionChangeType) => {
+    const next = new Set(activeTypes);
+    if (next.has(type)) {
+      next.delete(type);
+    } else {
+      next.add(type);
+    }
+    setActiveTypes(next);
+  };
+
+  const groups = changes.groups
+    .map((group) => ({
+      ...group,
+      changes: group.changes.filter((change) => change.types.some((type) => activeTypes.has(type))),
+    }))
+    .filter((group) => group.changes.length > 0);
+
+  const renderChange = (change: ArticleChange) => {
+    const location = change.to ?? change.from!;
+    const version = change.to ? changes.to : changes.from;
+    const formerNumber = change.from && change.to && change.from.number !== change.to.number
+      ? change.from.number
+      : null;
+
+    return (
+      <li key={`${change.from?.id}-${change.to?.id}`} className="what-changed--item">
+        <span className="what-changed--badges">
+          {change.types.map((type) => (
+            <span key={type} className={`what-changed--badge what-changed--badge-${type}`}>
+              {CHANGE_LABELS[type]}
+            </span>
+          ))}
+        </span>
+        <Link href={buildHref(location.path, version)}>
+          {location.number} {location.title}
+        </Link>
+        {formerNumber && (
+          <span className="what-changed--former">(formerly {formerNumber})</span>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section className={`what-changed ${className}`} data-testid={TESTID_WHAT_CHANGED}>
+      <h2 className="what-changed--title">{heading}</h2>
+      <p className="what-changed--subtitle">Compared with the {changes.from} edition</p>
+
+      <div className="what-changed--filters" role="group" aria-label="Filter by change type">
+        {CHANGE_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            className="what-changed--filter"
+            aria-pressed={activeTypes.has(type)}
+            onClick={() => toggleType(type)}
+            data-testid={GET_TESTID_WHAT_CHANGED_FILTER(type)}
+          >
+            {CHANGE_LABELS[type]} ({changes.summary[type] || 0})
+          </button>
+        ))}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="what-changed--empty">No changes to show.</p>
+      ) : (
+        groups.map((group) => (
+          <section
+            key={`${group.divisionId}-${group.partNumber}`}
+            className="what-changed--group"
+          >
+            <h3 className="what-changed--group-title">
+              {group.divisionTitle} – Part {group.partNumber} {group.partTitle}
+            </h3>
+            <ul className="what-changed--list">{group.changes.map(renderChange)}</ul>
+          </section>
+        ))
+      )}
+    </section>
+  );
+}
@@ -8,7 +8,8 @@ import { useSearchClient, useSearchMetadata } from './useSearchClient';
 import * as searchClient from '../lib/search-client';
 
 // Mock the search client
-vi.mock('../lib/search-client', () => ({
+vi.mock('../lib/search-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/search-client')>()),
   getSearchClient: vi.fn(),
 }));
 
@@ -78,6 +79,7 @@ describe('useSearchClient', () => {
       totalAmendments: 5,
       totalRevisionDates: 2,
       totalGlossaryTerms: 50,
+      totalApplicationNotes: 0,
     },
     divisions: [],
     revisionDates: [],
@@ -352,6 +354,7 @@ describe('useSearchMetadata', () => {
       totalAmendments: 5,
       totalRevisionDates: 2,
       totalGlossaryTerms: 50,
+      totalApplicationNotes: 0,
     },
     divisions: [{ id: 'nbc.divA', letter: 'A', title: 'Division A', parts: [] }],
     revisionDates: [{ effectiveDate: '2024-08-27', displayDate: 'Aug 27, 2024', count: 1, type: 'amendment' as const }],
@@ -5,20 +5,23 @@
  * - Initialize the search index for the current version
  * - Perform searches with filters
  * - Get suggestions
+ * - Resolve provision numbers for "go to" navigation
  * - Access metadata (TOC, divisions, revision dates)
  * - Track loading and error states
  * - Automatically reinitialize when version changes
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useId } from 'react';
 import {
   getSearchClient,
+  SearchCancelledError,
   type SearchResult,
   type SearchOptions,
   type SearchMetadata,
   type TableOfContentsItem,
   type RevisionDate,
   type SearchableContentType,
+  type ResolvedProvision,
 } from '../lib/search-client';
 import { useCurrentVersionId } from '../stores/version-store';
 
@@ -41,6 +44,7 @@ interface UseSearchClientReturn extends UseSearchClientState {
   // Search actions
   search: (query: string, options?: SearchOptions) => Promise<void>;
   getSuggestions: (query: string, limit?: number) => Promise<void>;
+  resolveReference: (input: string) => ResolvedProvision | null;
   clearResults: () => void;
   clearError: () => void;
   
@@ -111,6 +115,9 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
 
   const client = useMemo(() => getSearchClient(), []);
 
+  // Searches of this hook only supersede each other, not those of other components
+  const channel = useId();
+
   /**
    * Initialize the search client for the current version
    * Reinitializes when version changes
@@ -153,7 +160,7 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
       try {
         setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
-        const results = await client.search(query, options, activeVersion);
+        const results = await client.search(query, options, activeVersion, channel);
 
         setState((prev) => ({
           ...prev,
@@ -161,6 +168,9 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
           results,
         }));
       } catch (error) {
+        // A newer search is already running
+        if (error instanceof SearchCancelledError) return;
+
         setState((prev) => ({
           ...prev,
           isLoading: false,
@@ -169,7 +179,7 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
         }));
       }
     },
-    [client, activeVersion]
+    [client, activeVersion, channel]
   );
 
   /**
@@ -178,13 +188,14 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
   const getSuggestions = useCallback(
     async (query: string, limit: number = 5) => {
       try {
-        const suggestions = await client.getSuggestions(query, limit, activeVersion);
+        const suggestions = await client.getSuggestions(query, limit, activeVersion, channel);
 
         setState((prev) => ({
           ...prev,
           suggestions,
         }));
       } catch (error) {
+        if (error instanceof SearchCancelledError) return;
         console.error('Failed to get suggestions:', error);
         setState((prev) => ({
           ...prev,
@@ -192,6 +203,14 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
         }));
       }
     },
+    [client, activeVersion, channel]
+  );
+
+  /**
+   * Resolve a provision number (e.g. "9.10.14.1.(3)(b)") in the current version
+   */
+  const resolveReference = useCallback(
+    (input: string) => client.resolveReference(input, activeVersion),
     [client, activeVersion]
   );
 
@@ -246,6 +265,7 @@ export function useSearchClient(autoInitialize: boolean = true, version?: string
     ...state,
     search,
     getSuggestions,
+    resolveReference,
     clearResults,
     clearError,
     tableOfContents,
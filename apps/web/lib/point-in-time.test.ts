@@ -0,0 +1,252 @@
+/**
+ * Unit tests for point-in-time utilities
+ */
+
+import {
+  getAmendmentInForce,
+  getDateStatus,
+  getProvisionStatus,
+  getRevisionInForce,
+  materializeArticle,
+  materializeClause,
+  materializeTable,
+  type AmendmentRecords,
+} from './point-in-time';
+import type { Article, Clause, Revision, Table } from '@/stores/content-store';
+import type { AmendmentRecord } from '@/stores/amendment-history-store';
+
+// Revision histories carry dates only; earlier wording is in the amendment records
+const revisions: Revision[] = [
+  { type: 'original', effectiveDate: '2024-03-08', status: 'superseded' },
+  { type: 'revision', effectiveDate: '2025-03-10', sequence: 2, revisionType: 'amendment', status: 'current' },
+  { type: 'revision', effectiveDate: '2025-03-10', sequence: 1, revisionType: 'errata', status: 'superseded' },
+];
+
+const clause: Clause = {
+  id: 'sent-1',
+  number: '1',
+  text: 'Guards shall be 1 070 mm high.',
+  glossaryTerms: [],
+  revisions,
+};
+
+const record = (
+  locationId: string,
+  type: AmendmentRecord['type'],
+  effectiveDate: string | undefined,
+  content: string
+): AmendmentRecord => ({ locationId, type, effectiveDate, content });
+
+const amendments: AmendmentRecords = {
+  'sent-1': [
+    record('sent-1', 'original', '2024-03-08', 'Guards shall be 900 mm high.'),
+    record('sent-1', 'replace', '2025-03-10', 'Guards shall be 1 070 mm high.'),
+  ],
+};
+
+describe('getRevisionInForce', () => {
+  it('should pick the latest revision effective on or before the date', () => {
+    expect(getRevisionInForce(revisions, '2024-12-31')?.type).toBe('original');
+    expect(getRevisionInForce(revisions, '2025-03-10')?.sequence).toBe(2);
+  });
+
+  it('should return null before the provision was enacted', () => {
+    expect(getRevisionInForce(revisions, '2024-01-01')).toBeNull();
+  });
+});
+
+describe('getAmendmentInForce', () => {
+  it('should pick the latest wording record effective on or before the date', () => {
+    const records = [
+      record('sent-1', 'original', undefined, 'Original'),
+      record('sent-1', 'annotation', '2024-06-01', 'BC note'),
+      record('sent-1', 'replace', '2025-03-10', 'Replaced'),
+    ];
+
+    expect(getAmendmentInForce(records, '2024-12-31')?.content).toBe('Original');
+    expect(getAmendmentInForce(records, '2025-03-10')?.content).toBe('Replaced');
+    expect(getAmendmentInForce(records.slice(1), '2024-12-31')).toBeNull();
+  });
+});
+
+describe('materializeClause', () => {
+  it('should rebuild earlier wording from the amendment records', () => {
+    expect(materializeClause(clause, '2024-06-01', amendments)).toMatchObject({
+      text: 'Guards shall be 900 mm high.',
+      wordingUnavailable: undefined,
+    });
+    expect(materializeClause(clause, '2025-06-01', amendments)).toEqual({
+      ...clause,
+      subclauses: undefined,
+      tables: undefined,
+      deleted: undefined,
+      wordingUnavailable: undefined,
+    });
+  });
+
+  it('should keep clauses without revision history unchanged', () => {
+    const { revisions: _, ...unrevised } = clause;
+    expect(materializeClause(unrevised, '2024-06-01')).toEqual(unrevised);
+  });
+
+  it('should return null for clauses not yet enacted', () => {
+    expect(materializeClause(clause, '2023-01-01', amendments)).toBeNull();
+  });
+
+  it('should return null before an inserted clause takes effect', () => {
+    const inserted: Clause = { id: 'sent-4', number: '4', text: 'Glass guards shall be tested.', glossaryTerms: [] };
+    const records = { 'sent-4': [record('sent-4', 'insert', '2025-03-10', 'Glass guards shall be tested.')] };
+
+    expect(materializeClause(inserted, '2024-06-01', records)).toBeNull();
+    expect(materializeClause(inserted, '2025-06-01', records)?.text).toBe('Glass guards shall be tested.');
+  });
+
+  it('should keep deleted clauses as placeholders and restore them before deletion', () => {
+    const deleted: Clause = { id: 'sent-2', number: '2', text: '', glossaryTerms: [], deleted: true };
+    const records = {
+      'sent-2': [
+        record('sent-2', 'original', '2024-03-08', 'Openings shall be limited.'),
+        record('sent-2', 'delete', '2025-03-10', ''),
+      ],
+    };
+
+    expect(materializeClause(deleted, '2025-06-01', records)).toMatchObject({ text: '', deleted: true });
+    expect(materializeClause(deleted, '2024-06-01', records)).toMatchObject({
+      text: 'Openings shall be limited.',
+      deleted: undefined,
+    });
+  });
+});
+
+describe('wording not recorded by the source', () => {
+  it('should keep the current wording and flag clauses amended without a record', () => {
+    expect(materializeClause(clause, '2024-06-01')).toMatchObject({
+      text: 'Guards shall be 1 070 mm high.',
+      wordingUnavailable: true,
+    });
+    expect(materializeClause(clause, '2025-06-01')?.wordingUnavailable).toBeUndefined();
+  });
+
+  it('should flag clauses before their first replacement', () => {
+    const records = { 'sent-1': [record('sent-1', 'replace', '2025-03-10', 'Guards shall be 1 070 mm high.')] };
+
+    expect(materializeClause(clause, '2024-06-01', records)).toMatchObject({
+      text: 'Guards shall be 1 070 mm high.',
+      wordingUnavailable: true,
+    });
+  });
+
+  it('should flag tables whose earlier rows are not recorded', () => {
+    const table: Table = {
+      id: 'table-1',
+      number: '9.1.1.1.',
+      title: 'Limits',
+      headers: [],
+      rows: [{ cells: [{ text: '20' }] }],
+      revisions,
+    };
+
+    expect(materializeTable(table, '2024-06-01')).toMatchObject({
+      title: 'Limits',
+      rows: table.rows,
+      wordingUnavailable: true,
+    });
+    expect(materializeTable(table, '2025-06-01')?.wordingUnavailable).toBeUndefined();
+  });
+});
+
+describe('materializeTable', () => {
+  const table: Table = {
+    id: 'table-1',
+    number: '9.1.1.1.',
+    title: 'Limits',
+    headers: [],
+    rows: [{ cells: [{ text: '20' }] }],
+  };
+
+  it('should drop tables before they are inserted and empty them once deleted', () => {
+    const records = {
+      'table-1': [
+        record('table-1', 'insert', '2024-03-08', ''),
+        record('table-1', 'delete', '2026-01-01', ''),
+      ],
+    };
+
+    expect(materializeTable(table, '2024-01-01', records)).toBeNull();
+    expect(materializeTable(table, '2025-06-01', records)).toMatchObject({ rows: table.rows, wordingUnavailable: true });
+    expect(materializeTable(table, '2026-06-01', records)).toMatchObject({ rows: [], deleted: true });
+  });
+});
+
+describe('materializeArticle', () => {
+  const article: Article = {
+    id: 'art-1',
+    number: '9.1.1.1.',
+    title: 'Application',
+    type: 'article',
+    clauses: [
+      clause,
+      {
+        id: 'sent-2',
+        number: '2',
+        text: 'Added wording',
+        glossaryTerms: [],
+        revisions: [{ type: 'revision', effectiveDate: '2025-03-10', status: 'current' }],
+      },
+    ],
+    notes: [],
+    effectiveDate: '2024-03-08',
+  };
+
+  it('should drop clauses not yet enacted and rebuild the others', () => {
+    const materialized = materializeArticle(article, '2024-06-01', amendments);
+
+    expect(materialized?.title).toBe('Application');
+    expect(materialized?.clauses.map((c) => c.text)).toEqual(['Guards shall be 900 mm high.']);
+  });
+
+  it('should return null before the article took effect', () => {
+    expect(materializeArticle(article, '2023-01-01')).toBeNull();
+  });
+});
+
+describe('getDateStatus', () => {
+  it('should treat dates after today as pending', () => {
+    expect(getDateStatus('2025-03-11', '2025-03-10')).toBe('pending');
+    expect(getDateStatus('2025-03-10', '2025-03-10')).toBe('in-force');
+  });
+});
+
+describe('getProvisionStatus', () => {
+  it('should report when a provision came into force and its next amendment', () => {
+    const status = getProvisionStatus(revisions, '2024-12-31');
+
+    expect(status).toMatchObject({ state: 'in-force', effectiveDate: '2024-03-08' });
+    expect(status?.upcoming?.sequence).toBe(1);
+  });
+
+  it('should report provisions not yet in force as pending', () => {
+    expect(getProvisionStatus(revisions, '2024-01-01')).toMatchObject({
+      state: 'pending',
+      effectiveDate: '2024-03-08',
+    });
+  });
+
+  it('should report repealed provisions', () => {
+    const repealed: Revision[] = [
+      ...revisions,
+      { type: 'revision', effectiveDate: '2026-01-01', deleted: true },
+    ];
+
+    expect(getProvisionStatus(repealed, '2025-06-01')?.upcoming?.deleted).toBe(true);
+    expect(getProvisionStatus(repealed, '2026-06-01')).toEqual({
+      state: 'repealed',
+      effectiveDate: '2026-01-01',
+      upcoming: undefined,
+    });
+  });
+
+  it('should return null without revision history', () => {
+    expect(getProvisionStatus(undefined, '2025-01-01')).toBeNull();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Point-in-Time Utilities for BC Building Code Interactive Web App
+ *
+ * Content chunks carry the latest wording of each provision together with
+ * its revision history, which dates each revision but does not keep its
+ * wording. These helpers rebuild the content in force on a given effective
+ * date (YYYY-MM-DD): the revisions tell when a provision was enacted or
+ * repealed, and the BC amendment records (amendment-history.json) carry the
+ * wording each insert, replace or modify put in force.
+ *
+ * Provisions without history are taken as unchanged since enactment. Where
+ * the wording on the date is recorded nowhere (an earlier revision with no
+ * amendment record, or table rows, which amendment records do not carry),
+ * the current wording is kept and flagged `wordingUnavailable`.
+ */
+
+import type { Article, Clause, Table, Revision } from '@/stores/content-store';
+import type { AmendmentRecord } from '@/stores/amendment-history-store';
+
+/**
+ * Whether an effective date has come into force
+ */
+export type DateStatus = 'pending' | 'in-force';
+
+/**
+ * State of a provision on a date
+ */
+export interface ProvisionStatus {
+  state: 'pending' | 'in-force' | 'repealed';
+  /**
+   * Date the provision comes into force (pending), has been in force
+   * since (in-force) or was repealed on (repealed)
+   */
+  effectiveDate: string;
+  /**
+   * Next revision after the date, if any (e.g., an amendment or repeal
+   * coming into force later)
+   */
+  upcoming?: Revision;
+}
+
+/**
+ * Get today's date (YYYY-MM-DD) in the reader's time zone
+ */
+export function getToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Format an effective date (YYYY-MM-DD) for display (e.g., "March 10, 2025")
+ */
+export function formatEffectiveDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!year || !month || !day) return date;
+
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Check whether an effective date is still to come or already in force
+ */
+export function getDateStatus(date: string, today: string = getToday()): DateStatus {
+  return date > today ? 'pending' : 'in-force';
+}
+
+/**
+ * Get the state of a provision on a date from its revision history
+ *
+ * @returns The provision status, or null when it has no revision history
+ */
+export function getProvisionStatus(revisions: Revision[] | undefined, date: string): ProvisionStatus | null {
+  if (!revisions || revisions.length === 0) return null;
+
+  const sorted = [...revisions].sort(compareRevisions);
+  const upcoming = sorted.find((revision) => revision.effectiveDate > date);
+  const inForce = getRevisionInForce(revisions, date);
+
+  if (!inForce) {
+    return { state: 'pending', effectiveDate: sorted[0].effectiveDate, upcoming };
+  }
+
+  return {
+    state: inForce.deleted ? 'repealed' : 'in-force',
+    effectiveDate: inForce.effectiveDate,
+    upcoming,
+  };
+}
+
+/**
+ * Get the revision of a provision in force on a date
+ *
+ * The latest revision effective on or before the date wins; revisions
+ * sharing an effective date are ordered by sequence.
+ *
+ * @returns The revision in force, or null if the provision was not yet enacted
+ */
+export function getRevisionInForce(revisions: Revision[], date: string): Revision | null {
+  let inForce: Revision | null = null;
+
+  for (const revision of revisions) {
+    if (revision.effectiveDate > date) continue;
+    if (!inForce || compareRevisions(revision, inForce) >= 0) {
+      inForce = revision;
+    }
+  }
+
+  return inForce;
+}
+
+/**
+ * BC amendment records by location_id, oldest first
+ */
+export type AmendmentRecords = Record<string, AmendmentRecord[]>;
+
+/**
+ * Wording of a provision in force on a date
+ */
+interface WordingInForce {
+  deleted: boolean;
+  /** Amendment record whose content is the wording in force, if any */
+  record?: AmendmentRecord;
+  /** The wording in force is the provision's current wording */
+  current: boolean;
+}
+
+/**
+ * Materialise an article as worded on a date
+ *
+ * Article titles are not versioned in the source, so the current title is kept.
+ *
+ * @returns The article in force, or null if it was not yet enacted
+ */
+export function materializeArticle(
+  article: Article,
+  date: string,
+  amendments: AmendmentRecords = {}
+): Article | null {
+  if (article.effectiveDate && article.effectiveDate > date) return null;
+
+  const wording = resolveWording(article.revisions, amendments[article.id], date);
+  if (wording === null) return null;
+  if (wording.deleted) {
+    return { ...article, clauses: [], notes: [], deleted: true };
+  }
+
+  return {
+    ...article,
+    clauses: materializeList(article.clauses, (clause) => materializeClause(clause, date, amendments)) ?? [],
+    deleted: wording.current ? article.deleted : undefined,
+  };
+}
+
+/**
+ * Materialise a sentence, clause or subclause as worded on a date
+ *
+ * Deleted provisions are kept as empty placeholders so numbering stays intact.
+ *
+ * @returns The clause in force, or null if it was not yet enacted
+ */
+export function materializeClause(
+  clause: Clause,
+  date: string,
+  amendments: AmendmentRecords = {}
+): Clause | null {
+  const wording = resolveWording(clause.revisions, amendments[clause.id], date);
+  if (wording === null) return null;
+  if (wording.deleted) {
+    return {
+      ...clause,
+      text: '',
+      glossaryTerms: [],
+      subclauses: undefined,
+      tables: undefined,
+      figures: undefined,
+      equations: undefined,
+      deleted: true,
+    };
+  }
+
+  return {
+    ...clause,
+    text: wording.record && !wording.current ? wording.record.content : clause.text,
+    subclauses: materializeList(clause.subclauses, (subclause) => materializeClause(subclause, date, amendments)),
+    tables: materializeList(clause.tables, (table) => materializeTable(table, date, amendments)),
+    deleted: wording.current ? clause.deleted : undefined,
+    wordingUnavailable: (!wording.current && !wording.record) || undefined,
+  };
+}
+
+/**
+ * Materialise a table as worded on a date
+ *
+ * Amendment records do not carry table rows, so a table is only dropped,
+ * deleted or flagged; its current title and rows are kept.
+ *
+ * @returns The table in force, or null if it was not yet enacted
+ */
+export function materializeTable(
+  table: Table,
+  date: string,
+  amendments: AmendmentRecords = {}
+): Table | null {
+  const wording = resolveWording(table.revisions, amendments[table.id], date);
+  if (wording === null) return null;
+  if (wording.deleted) {
+    return { ...table, headers: [], rows: [], deleted: true };
+  }
+
+  return {
+    ...table,
+    deleted: wording.current ? table.deleted : undefined,
+    wordingUnavailable: !wording.current || undefined,
+  };
+}
+
+/**
+ * Get the wording record of a provision in force on a date
+ *
+ * Annotations do not change the wording and are skipped. Records without an
+ * effective date count as in force from the start; among records in force,
+ * the last one (records are oldest first) wins.
+ *
+ * @returns The record in force, or null if none has taken effect yet
+ */
+export function getAmendmentInForce(records: AmendmentRecord[], date: string): AmendmentRecord | null {
+  let inForce: AmendmentRecord | null = null;
+
+  for (const record of records) {
+    if (record.type === 'annotation') continue;
+    if (record.effectiveDate && record.effectiveDate > date) continue;
+    inForce = record;
+  }
+
+  return inForce;
+}
+
+/**
+ * Resolve the wording of a provision in force on a date from its revisions
+ * and amendment records
+ *
+ * @returns The wording in force, or null if the provision was not yet enacted
+ */
+function resolveWording(
+  revisions: Revision[] | undefined,
+  records: AmendmentRecord[] | undefined,
+  date: string
+): WordingInForce | null {
+  const revision = revisions && revisions.length > 0 ? getRevisionInForce(revisions, date) : undefined;
+  if (revision === null) return null;
+  if (revision?.deleted) return { deleted: true, current: false };
+
+  const currentRevision = revisions?.find((candidate) => candidate.status === 'current')
+    ?? (revisions && [...revisions].sort(compareRevisions)[revisions.length - 1]);
+  const revisionIsCurrent = !revision || revision === currentRevision;
+
+  const wordingRecords = (records || []).filter((record) => record.type !== 'annotation');
+  if (wordingRecords.length === 0) return { deleted: false, current: revisionIsCurrent };
+
+  const record = getAmendmentInForce(wordingRecords, date);
+  if (!record) {
+    // Inserted later, or worded before the first amendment as no record shows
+    return wordingRecords[0].type === 'insert' ? null : { deleted: false, current: false };
+  }
+  if (record.type === 'delete' || record.type === 'remove') return { deleted: true, current: false };
+  return {
+    deleted: false,
+    record,
+    current: revisionIsCurrent && record === wordingRecords[wordingRecords.length - 1],
+  };
+}
+
+/**
+ * Order revisions by effective date, then sequence (originals first)
+ */
+export function compareRevisions(a: Revision, b: Revision): number {
+  if (a.effectiveDate !== b.effectiveDate) {
+    return a.effectiveDate < b.effectiveDate ? -1 : 1;
+  }
+  return (a.sequence ?? (a.type === 'original' ? -1 : 0)) - (b.sequence ?? (b.type === 'original' ? -1 : 0));
+}
+
+/**
+ * Materialise each item of an optional list, dropping those not yet enacted
+ */
+function materializeList<T>(items: T[] | undefined, materialize: (item: T) => T | null): T[] | undefined {
+  if (!items) return undefined;
+  return items.map(materialize).filter((item): item is T => item !== null);
+}
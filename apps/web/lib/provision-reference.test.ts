@@ -0,0 +1,189 @@
+/**
+ * Unit tests for provision reference parsing and resolution
+ */
+
+import { parseProvisionReference, resolveProvisionReference } from './provision-reference';
+import { buildSearchIndex } from '@bc-building-code/search-indexer';
+
+const article = (id: string, content: object[] = []) => ({
+  id,
+  type: 'article',
+  number: Number(id.slice(id.lastIndexOf('art') + 3)),
+  title: 'Article',
+  content,
+});
+
+const section = (id: string, subsections: Array<{ id: string; articles: object[] }> = []) => ({
+  id,
+  type: 'section',
+  number: Number(id.slice(id.lastIndexOf('sect') + 4)),
+  title: 'Section',
+  subsections: subsections.map((subsection) => ({
+    ...subsection,
+    type: 'subsection',
+    number: Number(subsection.id.slice(subsection.id.lastIndexOf('subsect') + 7)),
+    title: 'Subsection',
+  })),
+});
+
+const divisionWithArticle = (letter: string) => ({
+  id: `nbc.div${letter}`,
+  type: 'division',
+  letter,
+  title: `Division ${letter}`,
+  parts: [
+    {
+      id: `nbc.div${letter}.part1`,
+      type: 'part',
+      number: 1,
+      title: 'General',
+      sections: [
+        section(`nbc.div${letter}.part1.sect1`, [
+          { id: `nbc.div${letter}.part1.sect1.subsect1`, articles: [article(`nbc.div${letter}.part1.sect1.subsect1.art1`)] },
+        ]),
+      ],
+    },
+  ],
+});
+
+const figure = (id: string) => ({ id, type: 'figure', title: 'Figure', graphic: { src: `${id}.png`, alt_text: '' } });
+
+// Documents as the indexer builds them, so table and figure numbers are the ones it derives
+const { documents } = buildSearchIndex({
+  document_type: 'bc_building_code',
+  version: '2024',
+  divisions: [
+    divisionWithArticle('A'),
+    {
+      ...divisionWithArticle('B'),
+      parts: [
+        ...divisionWithArticle('B').parts,
+        {
+          id: 'nbc.divB.part9',
+          type: 'part',
+          number: 9,
+          title: 'Housing and Small Buildings',
+          sections: [
+            section('nbc.divB.part9.sect8'),
+            section('nbc.divB.part9.sect10', [
+              { id: 'nbc.divB.part9.sect10.subsect14', articles: [article('nbc.divB.part9.sect10.subsect14.art1')] },
+            ]),
+            section('nbc.divB.part9.sect20', [
+              {
+                id: 'nbc.divB.part9.sect20.subsect17',
+                articles: [
+                  article('nbc.divB.part9.sect20.subsect17.art4', [
+                    figure('nbc.divB.part9.sect20.subsect17.art4.fig1'),
+                    figure('nbc.divB.part9.sect20.subsect17.art4.fig2'),
+                  ]),
+                ],
+              },
+            ]),
+            section('nbc.divB.part9.sect23', [
+              {
+                id: 'nbc.divB.part9.sect23.subsect3',
+                articles: [
+                  article('nbc.divB.part9.sect23.subsect3.art4', [
+                    { id: 'nbc.divB.part9.sect23.subsect3.art4.table1', type: 'table', title: 'Nailing', structure: { body_rows: [] } },
+                  ]),
+                ],
+              },
+            ]),
+          ],
+          special_tables: [
+            {
+              id: 'nbc.divB.part9.spectables1',
+              type: 'spectables',
+              title: 'Span Tables',
+              table_prefix: 'A-',
+              tables: [{ id: 'nbc.divB.part9.spectables1.table1', type: 'table', title: 'Floor Joists', structure: { body_rows: [] } }],
+            },
+          ],
+          appendix: {
+            id: 'nbc.divB.part9.appendix',
+            type: 'part_appendix',
+            application_notes: [
+              { id: 'nbc.divB.part9.appendix.note-9.10.14.1', type: 'application_note', number: 'A-9.10.14.1.(1)', title: 'Spatial Separation' },
+            ],
+          },
+        },
+      ],
+    },
+    divisionWithArticle('C'),
+  ],
+} as unknown as Parameters<typeof buildSearchIndex>[0]);
+
+const resolve = (input: string) => {
+  const reference = parseProvisionReference(input);
+  return reference && resolveProvisionReference(reference, documents);
+};
+
+describe('parseProvisionReference', () => {
+  it.each([
+    ['9.10.14.1', { kind: 'article', numbers: [9, 10, 14, 1] }],
+    ['9.10.14.1.(3)(b)', { kind: 'clause', numbers: [9, 10, 14, 1], sentence: 3, clause: 'b' }],
+    ['9.10.14.1.(3)(b)(ii)', { kind: 'clause', numbers: [9, 10, 14, 1], sentence: 3, clause: 'b', subclause: 'ii' }],
+    ['Sentence 3.2.5.7.(1)', { kind: 'sentence', numbers: [3, 2, 5, 7], sentence: 1 }],
+    ['Div B 9.8', { kind: 'section', division: 'B', numbers: [9, 8] }],
+    ['Division A, Part 1', { kind: 'part', division: 'A', numbers: [1] }],
+    ['B.9.23.3.5', { kind: 'article', division: 'B', numbers: [9, 23, 3, 5] }],
+    ['Subsection 9.10.14.', { kind: 'subsection', numbers: [9, 10, 14] }],
+    ['Table 9.23.3.4.', { kind: 'table', label: '9.23.3.4' }],
+    ['Figure 9.20.17.4.-A', { kind: 'figure', label: '9.20.17.4.-A' }],
+    ['A-9.10.14.1', { kind: 'note', label: 'A-9.10.14.1' }],
+    ['Note A-9.10.14.1.(1)', { kind: 'note', label: 'A-9.10.14.1.(1)' }],
+  ])('should parse %s', (input, expected) => {
+    expect(parseProvisionReference(input)).toEqual(expected);
+  });
+
+  it.each(['9', 'guard height', 'Article 9.10', 'Sentence 9.10.(1)', 'Div C A.1.1', 'Table of contents', '2.5 m'])(
+    'should not treat %s as a reference',
+    (input) => {
+      expect(parseProvisionReference(input)).toBeNull();
+    }
+  );
+});
+
+describe('resolveProvisionReference', () => {
+  it('should resolve numbers to their documents', () => {
+    expect(resolve('Part 9')?.document.id).toBe('nbc.divB.part9');
+    expect(resolve('Div B 9.8')?.urlPath).toBe('/code/nbc.divB/9/8');
+    expect(resolve('Article 9.10.14.1')?.urlPath).toBe('/code/nbc.divB/9/10/14/1');
+    expect(resolve('Table 9.23.3.4')?.urlPath).toBe('/code/nbc.divB/9/23/3/4#nbc.divB.part9.sect23.subsect3.art4.table1');
+    expect(resolve('table a-1')?.document.id).toBe('nbc.divB.part9.spectables1.table1');
+    expect(resolve('Figure 9.20.17.4.-A')?.document.id).toBe('nbc.divB.part9.sect20.subsect17.art4.fig1');
+    expect(resolve('Figure 9.20.17.4.-B')?.document.id).toBe('nbc.divB.part9.sect20.subsect17.art4.fig2');
+  });
+
+  it('should resolve an article number to the first of its lettered figures', () => {
+    expect(resolve('Figure 9.20.17.4')?.document.id).toBe('nbc.divB.part9.sect20.subsect17.art4.fig1');
+    expect(resolve('Figure 9.20.17')).toBeNull();
+  });
+
+  it('should anchor sentences and clauses in their article', () => {
+    expect(resolve('9.10.14.1.(3)')?.urlPath).toBe(
+      '/code/nbc.divB/9/10/14/1#nbc.divB.part9.sect10.subsect14.art1.sent3'
+    );
+    expect(resolve('9.10.14.1.(3)(b)(ii)')?.urlPath).toBe(
+      '/code/nbc.divB/9/10/14/1#nbc.divB.part9.sect10.subsect14.art1.sent3.clause2'
+    );
+  });
+
+  it('should prefer Division B, then A, then C', () => {
+    expect(resolve('1.1.1.1')?.document.id).toBe('nbc.divB.part1.sect1.subsect1.art1');
+    expect(resolve('Div A 1.1.1.1')?.document.id).toBe('nbc.divA.part1.sect1.subsect1.art1');
+    expect(resolve('C.1.1.1.1')?.document.id).toBe('nbc.divC.part1.sect1.subsect1.art1');
+  });
+
+  it('should resolve application notes by their full or article number', () => {
+    expect(resolve('A-9.10.14.1.(1)')?.document.id).toBe('nbc.divB.part9.appendix.note-9.10.14.1');
+    expect(resolve('Note A-9.10.14.1')?.document.id).toBe('nbc.divB.part9.appendix.note-9.10.14.1');
+    expect(resolve('A-9.10.14.10')).toBeNull();
+  });
+
+  it('should return null for provisions the version does not have', () => {
+    expect(resolve('9.10.14.2')).toBeNull();
+    expect(resolve('Div A 9.8')).toBeNull();
+    expect(resolve('Table 9.23.3.5')).toBeNull();
+  });
+});
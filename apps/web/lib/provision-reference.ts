@@ -0,0 +1,269 @@
+/**
+ * Provision References
+ *
+ * Parses provision numbers as people write them and resolves them to the
+ * search document they refer to:
+ *
+ * - `9.10`, `9.10.14`, `9.10.14.1`   section, subsection, article
+ * - `9.10.14.1.(3)`, `9.10.14.1.(3)(b)`  sentence, clause (subclauses such as `(ii)` resolve to their clause)
+ * - `Part 9`, `Article 9.10.14.1`, `Sentence 3.2.5.7.(1)`  with the kind written out
+ * - `Div B 9.8`, `Division A 1.1`, `B.9.23.3.4`  with a division
+ * - `Table 9.23.3.4`, `Figure 9.20.17.4.-A`, `Table A-1`  tables and figures (numbered by
+ *   their article, as the indexer labels them; `Figure 9.20.17.4` finds the first of `-A`, `-B`)
+ * - `A-9.10.14.1.(1)`, `Note A-9.10.14.1`  application notes
+ *
+ * Numbers without a division resolve to Division B when it has the provision,
+ * then Division A, then Division C.
+ *
+ * @example
+ * ```ts
+ * parseProvisionReference('Div B 9.10.14.1.(3)(b)');
+ * // → { kind: 'clause', division: 'B', numbers: [9, 10, 14, 1], sentence: 3, clause: 'b' }
+ * ```
+ */
+
+import type { SearchDocument } from '@bc-building-code/search-indexer';
+
+/**
+ * Kind of provision a reference points to
+ */
+export type ProvisionKind =
+  | 'part'
+  | 'section'
+  | 'subsection'
+  | 'article'
+  | 'sentence'
+  | 'clause'
+  | 'table'
+  | 'figure'
+  | 'note';
+
+/**
+ * Parsed provision reference
+ */
+export interface ProvisionReference {
+  kind: ProvisionKind;
+  /** Division letter (A, B or C), when given */
+  division?: string;
+  /** Part, section, subsection and article numbers (parts to clauses) */
+  numbers?: number[];
+  /** Sentence number */
+  sentence?: number;
+  /** Clause letter */
+  clause?: string;
+  /** Subclause numeral (i, ii, ...) */
+  subclause?: string;
+  /** Table or figure number (e.g. "9.23.3.4", "A-1"), or note number (e.g. "A-9.10.14.1.(1)") */
+  label?: string;
+}
+
+/**
+ * Provision reference resolved to a search document
+ */
+export interface ResolvedProvision {
+  reference: ProvisionReference;
+  /** Document of the provision (the article, for sentences and clauses) */
+  document: SearchDocument;
+  /** URL of the provision, with an anchor for sentences and clauses */
+  urlPath: string;
+}
+
+/**
+ * Kind words, as written before the number
+ */
+const KIND_WORDS: Record<string, ProvisionKind> = {
+  part: 'part',
+  section: 'section',
+  subsection: 'subsection',
+  article: 'article',
+  sentence: 'sentence',
+  clause: 'clause',
+  subclause: 'clause',
+  table: 'table',
+  figure: 'figure',
+  note: 'note',
+  'appendix note': 'note',
+};
+
+/**
+ * Structural kind by number of levels (9, 9.10, 9.10.14, 9.10.14.1)
+ */
+const LEVEL_KINDS: ProvisionKind[] = ['part', 'section', 'subsection', 'article'];
+
+/**
+ * Division order for numbers without a division
+ */
+const DIVISION_PREFERENCE = ['B', 'A', 'C'];
+
+/**
+ * Structural number with optional division and sentence, clause and subclause
+ * (e.g. "B.9.10.14.1.(3)(b)(ii)")
+ */
+const STRUCTURAL_PATTERN = /^(?:([abc])\.)?(\d+(?:\.\d+){0,3})\.?(?:\((\d+)\)(?:\(([a-z])\)(?:\(([ivx]+)\))?)?)?$/i;
+
+/**
+ * Table or figure number (e.g. "9.23.3.4.", "9.20.17.4.-A", "A-1")
+ */
+const LABEL_PATTERN = /^(?:[a-z]-)?\d+(?:\.\d+)*\.?(?:-[a-z0-9]+)?$/i;
+
+/**
+ * Application note number without its "A-" prefix (e.g. "9.10.14.1.(1)")
+ */
+const NOTE_PATTERN = /^\d+(?:\.\d+)*\.?(?:\(\d+\)(?:\([a-z]\))?)?$/i;
+
+/**
+ * Parse a provision reference
+ *
+ * @param input - Reference as typed (e.g. "Sentence 3.2.5.7.(1)", "Div B 9.8", "A-9.10.14.1")
+ * @returns Parsed reference, or null when the input is not a provision reference
+ */
+export function parseProvisionReference(input: string): ProvisionReference | null {
+  let rest = input.trim().replace(/\s+/g, ' ');
+
+  // Division prefix ("Div B", "Division B,")
+  let division: string | undefined;
+  const divisionMatch = /^div(?:ision)?\.? ?([abc])\b[ ,:-]*/i.exec(rest);
+  if (divisionMatch) {
+    division = divisionMatch[1].toUpperCase();
+    rest = rest.slice(divisionMatch[0].length);
+  }
+
+  // Kind word ("Article", "Table")
+  let kindWord: ProvisionKind | undefined;
+  const kindMatch = /^(appendix note|subsection|subclause|sentence|section|article|clause|figure|table|part|note)\b\.? ?/i.exec(rest);
+  if (kindMatch) {
+    kindWord = KIND_WORDS[kindMatch[1].toLowerCase()];
+    rest = rest.slice(kindMatch[0].length);
+  }
+
+  const body = rest.replace(/ /g, '');
+  if (!body) return null;
+
+  if (kindWord === 'table' || kindWord === 'figure') {
+    return LABEL_PATTERN.test(body) ? { kind: kindWord, division, label: body.replace(/\.$/, '') } : null;
+  }
+
+  const noteMatch = /^a-(.+)$/i.exec(body);
+  if (kindWord === 'note' || noteMatch) {
+    const number = noteMatch ? noteMatch[1] : body;
+    return NOTE_PATTERN.test(number) ? { kind: 'note', division, label: `A-${number}` } : null;
+  }
+
+  const match = STRUCTURAL_PATTERN.exec(body);
+  if (!match) return null;
+
+  const [, letter, numberText, sentence, clause, subclause] = match;
+  if (letter) {
+    if (division && division !== letter.toUpperCase()) return null;
+    division = letter.toUpperCase();
+  }
+
+  const numbers = numberText.split('.').map(Number);
+  const kind: ProvisionKind = clause ? 'clause' : sentence ? 'sentence' : LEVEL_KINDS[numbers.length - 1];
+
+  // Sentences and clauses belong to articles
+  if (sentence && numbers.length !== 4) return null;
+  // A written kind must agree with the number ("Article 9.10" is not an article)
+  if (kindWord && kindWord !== kind) return null;
+  // A bare number ("9") is a search term, not a part
+  if (numbers.length === 1 && !kindWord && !division) return null;
+
+  const reference: ProvisionReference = { kind, numbers };
+  if (division) reference.division = division;
+  if (sentence) reference.sentence = Number(sentence);
+  if (clause) reference.clause = clause.toLowerCase();
+  if (subclause) reference.subclause = subclause.toLowerCase();
+  return reference;
+}
+
+/**
+ * Normalize a table, figure or note number for comparison ("9.10.14.1.(1)" → "9.10.14.1(1)")
+ */
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/\s+/g, '').replace(/\.(?=\(|-|$)/g, '');
+}
+
+/**
+ * Match a document against a reference
+ *
+ * @returns 0 for an exact match, 1 for a lettered table, figure or a note matched by a
+ *          shorter number, null for no match
+ */
+function matchDocument(doc: SearchDocument, reference: ProvisionReference): number | null {
+  if (reference.division && doc.divisionLetter !== reference.division) return null;
+
+  switch (reference.kind) {
+    case 'table':
+    case 'figure': {
+      if (doc.type !== reference.kind) return null;
+      const marker = reference.kind === 'table' ? ' Table ' : ' Figure ';
+      const position = doc.articleNumber.lastIndexOf(marker);
+      if (position === -1) return null;
+      const number = normalizeLabel(doc.articleNumber.slice(position + marker.length));
+      const wanted = normalizeLabel(reference.label!);
+      if (number === wanted) return 0;
+      // "Figure 9.20.17.4" finds the lettered figures of the article, such as "9.20.17.4.-A"
+      return number.startsWith(`${wanted}-`) ? 1 : null;
+    }
+    case 'note': {
+      if (doc.type !== 'application-note') return null;
+      const number = normalizeLabel(doc.articleNumber);
+      const wanted = normalizeLabel(reference.label!);
+      if (number === wanted) return 0;
+      // "A-9.10.14.1" finds the notes on its sentences, such as "A-9.10.14.1.(1)"
+      return number.startsWith(wanted) && /^[.(]/.test(number.slice(wanted.length)) ? 1 : null;
+    }
+    default: {
+      const type = reference.kind === 'sentence' || reference.kind === 'clause' ? 'article' : reference.kind;
+      if (doc.type !== type) return null;
+      return doc.articleNumber === `${doc.divisionLetter}.${reference.numbers!.join('.')}` ? 0 : null;
+    }
+  }
+}
+
+/**
+ * URL of a resolved provision
+ * Sentences and clauses are anchored by their content IDs ("{article}.sent3.clause2")
+ */
+function buildProvisionUrl(doc: SearchDocument, reference: ProvisionReference): string {
+  if (!reference.sentence) return doc.urlPath;
+
+  let anchor = `${doc.id}.sent${reference.sentence}`;
+  if (reference.clause) {
+    anchor += `.clause${reference.clause.charCodeAt(0) - 'a'.charCodeAt(0) + 1}`;
+  }
+  return `${doc.urlPath}#${anchor}`;
+}
+
+/**
+ * Resolve a provision reference against a version's documents
+ *
+ * @param reference - Parsed reference
+ * @param documents - Search documents of the version
+ * @returns Resolved provision, or null when the version has no such provision
+ */
+export function resolveProvisionReference(
+  reference: ProvisionReference,
+  documents: Iterable<SearchDocument>
+): ResolvedProvision | null {
+  let best: { doc: SearchDocument; rank: number[] } | null = null;
+
+  for (const doc of documents) {
+    const match = matchDocument(doc, reference);
+    if (match === null) continue;
+
+    // Exact numbers first, then by division preference
+    const rank = [match, DIVISION_PREFERENCE.indexOf(doc.divisionLetter)];
+    if (!best || rank[0] < best.rank[0] || (rank[0] === best.rank[0] && rank[1] < best.rank[1])) {
+      best = { doc, rank };
+    }
+  }
+
+  if (!best) return null;
+
+  return {
+    reference,
+    document: best.doc,
+    urlPath: buildProvisionUrl(best.doc, reference),
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * Unit tests for redline utilities
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseBCBC, validateSchema, type JSONSchema } from '@bc-building-code/bcbc-parser';
+import { diffWords, compareArticle } from './redline';
+import type { AmendmentRecords } from './point-in-time';
+import type { Article } from '@/stores/content-store';
+
+describe('diffWords', () => {
+  it('should mark inserted and removed words', () => {
+    expect(diffWords('The wall shall be 100 mm thick.', 'The wall shall be 150 mm thick.')).toEqual([
+      { type: 'equal', text: 'The wall shall be ' },
+      { type: 'delete', text: '100' },
+      { type: 'insert', text: '150' },
+      { type: 'equal', text: ' mm thick.' },
+    ]);
+  });
+
+  it('should join back into both texts', () => {
+    const before = 'Guards shall be provided.';
+    const after = 'Guards and handrails shall be provided where required.';
+    const segments = diffWords(before, after);
+
+    expect(segments.filter((s) => s.type !== 'insert').map((s) => s.text).join('')).toBe(before);
+    expect(segments.filter((s) => s.type !== 'delete').map((s) => s.text).join('')).toBe(after);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', 'Added')).toEqual([{ type: 'insert', text: 'Added' }]);
+    expect(diffWords('Removed', '')).toEqual([{ type: 'delete', text: 'Removed' }]);
+  });
+});
+
+describe('compareArticle', () => {
+  const article: Article = {
+    id: 'art-1',
+    number: '9.8.8.1.',
+    title: 'Required Guards',
+    type: 'article',
+    notes: [],
+    clauses: [
+      {
+        id: 'sent-1',
+        number: '1',
+        text: 'Guards shall be 1 070 mm high.',
+        glossaryTerms: [],
+        revisions: [
+          { type: 'original', effectiveDate: '2024-03-08' },
+          {
+            type: 'revision',
+            effectiveDate: '2025-03-10',
+            revisionType: 'amendment',
+            changeSummary: 'Raised guard height',
+          },
+        ],
+      },
+      {
+        id: 'sent-2',
+        number: '2',
+        text: '',
+        glossaryTerms: [],
+        deleted: true,
+        revisions: [
+          { type: 'original', effectiveDate: '2024-03-08' },
+          { type: 'revision', effectiveDate: '2025-03-10', revisionType: 'amendment', deleted: true },
+        ],
+      },
+      {
+        id: 'sent-3',
+        number: '3',
+        text: 'Glass guards shall be tested.',
+        glossaryTerms: [],
+        revisions: [
+          { type: 'revision', effectiveDate: '2025-03-10', revisionType: 'errata' },
+        ],
+      },
+    ],
+  };
+  const amendments: AmendmentRecords = {
+    'sent-1': [
+      { locationId: 'sent-1', type: 'original', effectiveDate: '2024-03-08', content: 'Guards shall be 900 mm high.' },
+      { locationId: 'sent-1', type: 'replace', effectiveDate: '2025-03-10', content: 'Guards shall be 1 070 mm high.' },
+    ],
+    'sent-2': [
+      { locationId: 'sent-2', type: 'original', effectiveDate: '2024-03-08', content: 'Openings shall be limited.' },
+    ],
+  };
+
+  it('should classify changed, removed and added clauses', () => {
+    const comparison = compareArticle(article, '2024-03-08', '2025-03-10', amendments);
+
+    expect(comparison.clauses.map((c) => [c.id, c.status])).toEqual([
+      ['sent-1', 'changed'],
+      ['sent-2', 'removed'],
+      ['sent-3', 'added'],
+    ]);
+    expect(comparison.clauses[0].segments).toContainEqual({ type: 'delete', text: '900' });
+  });
+
+  it('should list the revisions that took effect between the dates', () => {
+    const comparison = compareArticle(article, '2024-03-08', '2025-03-10');
+
+    expect(comparison.changes).toHaveLength(3);
+    expect(comparison.changes[0]).toEqual({
+      provisionId: 'sent-1',
+      effectiveDate: '2025-03-10',
+      edit: 'replace',
+      revisionType: 'amendment',
+      changeSummary: 'Raised guard height',
+      note: undefined,
+    });
+  });
+
+  it('should derive the edit each revision makes from the history', () => {
+    const comparison = compareArticle(article, '2024-03-08', '2025-03-10');
+
+    expect(comparison.changes.map((c) => [c.provisionId, c.edit, c.revisionType])).toEqual([
+      ['sent-1', 'replace', 'amendment'],
+      ['sent-2', 'delete', 'amendment'],
+      ['sent-3', 'add', 'errata'],
+    ]);
+  });
+
+  it('should report wording the source does not record as unavailable', () => {
+    const schemaArticle: Article = {
+      ...article,
+      revisions: [
+        { type: 'original', effectiveDate: '2024-03-08', status: 'superseded' },
+        { type: 'revision', effectiveDate: '2025-03-10', revisionType: 'amendment', status: 'current' },
+      ],
+      clauses: [
+        {
+          id: 'sent-1',
+          number: '1',
+          text: 'Guards shall be 1 070 mm high.',
+          glossaryTerms: [],
+          revisions: [
+            { type: 'original', effectiveDate: '2024-03-08', status: 'superseded' },
+            { type: 'revision', effectiveDate: '2025-03-10', revisionType: 'amendment', status: 'current' },
+          ],
+        },
+      ],
+    };
+
+    const comparison = compareArticle(schemaArticle, '2024-03-08', '2025-03-10');
+
+    expect(comparison.wordingUnavailable).toBe(true);
+    expect(comparison.title).toEqual([{ type: 'equal', text: 'Required Guards' }]);
+    expect(comparison.clauses).toEqual([
+      { id: 'sent-1', number: '1', status: 'unavailable', segments: [] },
+    ]);
+    expect(compareArticle(schemaArticle, '2025-03-10', '2025-03-10').wordingUnavailable).toBe(false);
+  });
+
+  it('should report no changes when comparing a date with itself', () => {
+    const comparison = compareArticle(article, '2025-03-10', '2025-03-10', amendments);
+
+    expect(comparison.changes).toHaveLength(0);
+    expect(comparison.clauses.every((c) => c.status === 'unchanged')).toBe(true);
+  });
+});
+
+describe('compareArticle on source data', () => {
+  const articleId = 'nbc.divB.part9.sect8.subsect8.art1';
+  const sourceSchema: JSONSchema = JSON.parse(
+    readFileSync(join(__dirname, '../../../data/source/bc-building-code-schema.json'), 'utf-8')
+  );
+  const original = { type: 'original', effective_date: '2024-03-08', sequence: null, status: 'superseded' };
+  const amendment = {
+    type: 'revision',
+    revision_type: 'amendment',
+    revision_id: 'rev-2025-1',
+    sequence: 1,
+    effective_date: '2025-03-10',
+    status: 'current',
+  };
+  const rawArticle = {
+    id: articleId,
+    type: 'article',
+    number: 1,
+    title: 'Required Guards',
+    content: [
+      {
+        id: `${articleId}.sent1`,
+        type: 'sentence',
+        number: 1,
+        text: 'Guards shall be 1 070 mm high.',
+        revisions: [original, { ...amendment, change_summary: 'Raised guard height' }],
+      },
+      {
+        id: `${articleId}.sent2`,
+        type: 'sentence',
+        number: 2,
+        text: '',
+        deleted: true,
+        revisions: [original, { ...amendment, deleted: true }],
+      },
+      {
+        id: `${articleId}.sent3`,
+        type: 'sentence',
+        number: 3,
+        text: 'Glass guards shall be tested.',
+        revisions: [amendment],
+      },
+    ],
+  };
+  const originalRecord = (sentence: number, content: string) => ({
+    location_id: `${articleId}.sent${sentence}`,
+    type: 'original',
+    effective_date: '2024-03-08',
+    status: 'superseded',
+    content,
+  });
+  const amendmentRecord = (sentence: number, type: string, content: string) => ({
+    location_id: `${articleId}.sent${sentence}`,
+    type,
+    amendment_id: 'bc-2025-1',
+    revision_type: 'amendment',
+    revision_id: 'rev-2025-1',
+    effective_date: '2025-03-10',
+    status: 'current',
+    content,
+  });
+  const bcAmendments = [
+    originalRecord(1, 'Guards shall be 900 mm high.'),
+    { ...amendmentRecord(1, 'replace', 'Guards shall be 1 070 mm high.'), change_summary: 'Raised guard height' },
+    originalRecord(2, 'Openings shall be limited.'),
+    amendmentRecord(2, 'delete', ''),
+    amendmentRecord(3, 'insert', 'Glass guards shall be tested.'),
+  ];
+  const document = parseBCBC({
+    document_type: 'bc_building_code',
+    version: '2024',
+    metadata: { title: 'BC Building Code' },
+    volumes: [
+      {
+        id: 'vol-2',
+        type: 'volume',
+        number: 2,
+        title: 'Volume 2',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing and Small Buildings',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect8',
+                    type: 'section',
+                    number: 8,
+                    title: 'Stairs, Ramps, Handrails and Guards',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect8.subsect8',
+                        type: 'subsection',
+                        number: 8,
+                        title: 'Guards',
+                        articles: [rawArticle],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    bc_amendments: bcAmendments,
+  });
+  const article: Article = document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0];
+  const amendments: AmendmentRecords = document.amendments ?? {};
+
+  it('should use a fixture that matches the source schema', () => {
+    const definition = (name: string): JSONSchema => ({
+      $ref: `#/definitions/${name}`,
+      definitions: sourceSchema.definitions,
+    });
+
+    expect(validateSchema(rawArticle, definition('article'), { strict: true })).toEqual([]);
+    for (const amendmentRecord of bcAmendments) {
+      expect(validateSchema(amendmentRecord, definition('bc_amendment'), { strict: true })).toEqual([]);
+    }
+  });
+
+  it('should diff the wording the amendment records put in force', () => {
+    const comparison = compareArticle(article, '2024-03-08', '2025-03-10', amendments);
+
+    expect(comparison.wordingUnavailable).toBe(false);
+    expect(comparison.clauses.map((c) => [c.id, c.status])).toEqual([
+      [`${articleId}.sent1`, 'changed'],
+      [`${articleId}.sent2`, 'removed'],
+      [`${articleId}.sent3`, 'added'],
+    ]);
+    expect(comparison.clauses[0].segments).toEqual([
+      { type: 'equal', text: 'Guards shall be ' },
+      { type: 'delete', text: '900' },
+      { type: 'insert', text: '1 070' },
+      { type: 'equal', text: ' mm high.' },
+    ]);
+    expect(comparison.clauses[1].segments).toEqual([{ type: 'delete', text: 'Openings shall be limited.' }]);
+  });
+
+  it('should take the edit of each change from the amendment record', () => {
+    const comparison = compareArticle(article, '2024-03-08', '2025-03-10', amendments);
+
+    expect(comparison.changes.map((c) => [c.provisionId, c.edit, c.changeSummary])).toEqual([
+      [`${articleId}.sent1`, 'replace', 'Raised guard height'],
+      [`${articleId}.sent2`, 'delete', undefined],
+      [`${articleId}.sent3`, 'add', undefined],
+    ]);
+  });
+});
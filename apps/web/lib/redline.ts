@@ -0,0 +1,351 @@
+/**
+ * Redline Utilities for BC Building Code Interactive Web App
+ *
+ * Compares the wording of an article on two effective dates: each sentence,
+ * clause and subclause is materialised on both dates from the amendment
+ * records (see point-in-time.ts) and diffed word by word, and the amendments
+ * (or, for provisions without amendment records, the revisions) that took
+ * effect in between are listed with their change summaries.
+ *
+ * Where the source does not record a provision's wording on one of the
+ * dates, the provision is reported as unavailable rather than diffed.
+ */
+
+import { compareRevisions, materializeArticle, type AmendmentRecords } from './point-in-time';
+import type { Article, Clause, Revision } from '@/stores/content-store';
+import type { AmendmentRecord } from '@/stores/amendment-history-store';
+
+/**
+ * Run of words that is unchanged, inserted or removed
+ */
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Comparison of one sentence, clause or subclause
+ */
+export interface ClauseComparison {
+  id: string;
+  number: string;
+  /** `unavailable` when the wording on either date is not recorded (no segments) */
+  status: 'added' | 'removed' | 'changed' | 'unchanged' | 'unavailable';
+  segments: DiffSegment[];
+}
+
+/**
+ * Edit a revision makes to its provision
+ */
+export type RevisionEdit = 'add' | 'replace' | 'delete';
+
+/**
+ * Revision that took effect between the two dates
+ */
+export interface RevisionChange {
+  provisionId: string;
+  effectiveDate: string;
+  /**
+   * Taken from the amendment record type (insert adds, delete and remove
+   * delete, others replace); without records, derived from the revision
+   * history (the first revision adds, a deletion deletes, others replace)
+   */
+  edit: RevisionEdit;
+  /** Source of the change (amendment, errata, ...) */
+  revisionType?: Revision['revisionType'];
+  changeSummary?: string;
+  note?: string;
+}
+
+/**
+ * Comparison of an article between two effective dates
+ */
+export interface ArticleComparison {
+  fromDate: string;
+  toDate: string;
+  title: DiffSegment[];
+  clauses: ClauseComparison[];
+  changes: RevisionChange[];
+  /** The wording of any of its clauses is not recorded on one of the dates */
+  wordingUnavailable: boolean;
+}
+
+/**
+ * Diff two texts word by word
+ *
+ * Whitespace is kept as its own tokens so the segments join back into the
+ * original texts.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Longest common subsequence lengths of the token suffixes
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const runs: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      runs.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('delete', a[i]);
+      i++;
+    } else {
+      push('insert', b[j]);
+      j++;
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+
+  return groupChanges(runs);
+}
+
+/**
+ * Group each stretch of changes into one removal followed by one insertion
+ *
+ * Whitespace between two changes is folded into them, so "900" → "1 070"
+ * reads as one replacement rather than a change around a shared space.
+ */
+function groupChanges(runs: DiffSegment[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    // Whitespace both sides end with stays unchanged
+    const trailing = deleted && inserted ? commonTrailingWhitespace(deleted, inserted) : '';
+    const removedText = deleted.slice(0, deleted.length - trailing.length);
+    const insertedText = inserted.slice(0, inserted.length - trailing.length);
+    if (removedText) segments.push({ type: 'delete', text: removedText });
+    if (insertedText) segments.push({ type: 'insert', text: insertedText });
+    if (trailing) segments.push({ type: 'equal', text: trailing });
+    deleted = '';
+    inserted = '';
+  };
+
+  runs.forEach((run, index) => {
+    if (run.type === 'delete') {
+      deleted += run.text;
+    } else if (run.type === 'insert') {
+      inserted += run.text;
+    } else if ((deleted || inserted) && !run.text.trim() && runs[index + 1]) {
+      deleted += run.text;
+      inserted += run.text;
+    } else {
+      flush();
+      const last = segments[segments.length - 1];
+      if (last && last.type === 'equal') {
+        last.text += run.text;
+      } else {
+        segments.push(run);
+      }
+    }
+  });
+  flush();
+
+  return segments;
+}
+
+/**
+ * Whitespace at the end of both texts
+ */
+function commonTrailingWhitespace(a: string, b: string): string {
+  const trailing = a.match(/\s+$/)?.[0] ?? '';
+  let length = 0;
+  while (length < trailing.length && b.endsWith(trailing.slice(trailing.length - length - 1))) {
+    length++;
+  }
+  return trailing.slice(trailing.length - length);
+}
+
+/**
+ * Compare an article as worded on two effective dates
+ *
+ * Clauses are listed in their order on the later date, with removed
+ * clauses kept where they used to be.
+ */
+export function compareArticle(
+  article: Article,
+  fromDate: string,
+  toDate: string,
+  amendments: AmendmentRecords = {}
+): ArticleComparison {
+  const before = materializeArticle(article, fromDate, amendments);
+  const after = materializeArticle(article, toDate, amendments);
+  const beforeClauses = flattenClauses(before?.clauses ?? []);
+  const afterClauses = flattenClauses(after?.clauses ?? []);
+  const beforeById = new Map(beforeClauses.map((clause) => [clause.id, clause]));
+  const afterIds = new Set(afterClauses.map((clause) => clause.id));
+
+  const clauses: ClauseComparison[] = [];
+  let index = 0;
+  const pushRemoved = (clause: Clause) => {
+    if (!afterIds.has(clause.id)) {
+      clauses.push(compareClause(clause, undefined));
+    }
+  };
+
+  for (const clause of afterClauses) {
+    if (beforeById.has(clause.id)) {
+      // Removed clauses that preceded this one on the earlier date
+      while (index < beforeClauses.length && beforeClauses[index].id !== clause.id) {
+        pushRemoved(beforeClauses[index++]);
+      }
+      index++;
+    }
+    clauses.push(compareClause(beforeById.get(clause.id), clause));
+  }
+  while (index < beforeClauses.length) {
+    pushRemoved(beforeClauses[index++]);
+  }
+
+  return {
+    fromDate,
+    toDate,
+    title: diffWords(before?.title ?? '', after?.title ?? ''),
+    clauses,
+    changes: collectChanges(article, fromDate, toDate, amendments),
+    wordingUnavailable: clauses.some((clause) => clause.status === 'unavailable'),
+  };
+}
+
+/**
+ * Compare one clause; a missing or deleted side counts as empty
+ */
+function compareClause(before: Clause | undefined, after: Clause | undefined): ClauseComparison {
+  const beforeText = before && !before.deleted ? before.text : '';
+  const afterText = after && !after.deleted ? after.text : '';
+  const clause = (after ?? before) as Clause;
+
+  if (before?.wordingUnavailable || after?.wordingUnavailable) {
+    return { id: clause.id, number: clause.number, status: 'unavailable', segments: [] };
+  }
+
+  let status: ClauseComparison['status'];
+  if (beforeText === afterText) {
+    status = 'unchanged';
+  } else if (!beforeText) {
+    status = 'added';
+  } else if (!afterText) {
+    status = 'removed';
+  } else {
+    status = 'changed';
+  }
+
+  return {
+    id: clause.id,
+    number: clause.number,
+    status,
+    segments: diffWords(beforeText, afterText),
+  };
+}
+
+/**
+ * List the revisions of an article and its clauses and tables that took
+ * effect after the earlier date and on or before the later one
+ *
+ * A provision's amendment records are listed when it has any, as they say
+ * which edit was made; its revisions are listed otherwise.
+ */
+function collectChanges(
+  article: Article,
+  fromDate: string,
+  toDate: string,
+  amendments: AmendmentRecords
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+  const inRange = (date: string | undefined): date is string => Boolean(date && date > fromDate && date <= toDate);
+  const collect = (provisionId: string, revisions: Revision[] | undefined) => {
+    const records = (amendments[provisionId] || []).filter((record) => record.type !== 'annotation');
+    if (records.length > 0) {
+      for (const record of records) {
+        if (!inRange(record.effectiveDate)) continue;
+        changes.push({
+          provisionId,
+          effectiveDate: record.effectiveDate,
+          edit: getAmendmentEdit(record),
+          revisionType: record.revisionType,
+          changeSummary: record.changeSummary,
+          note: record.note,
+        });
+      }
+      return;
+    }
+
+    const history = [...(revisions || [])].sort(compareRevisions);
+    history.forEach((revision, index) => {
+      if (inRange(revision.effectiveDate)) {
+        changes.push({
+          provisionId,
+          effectiveDate: revision.effectiveDate,
+          edit: revision.deleted ? 'delete' : index === 0 ? 'add' : 'replace',
+          revisionType: revision.revisionType,
+          changeSummary: revision.changeSummary,
+          note: revision.note,
+        });
+      }
+    });
+  };
+
+  collect(article.id, article.revisions);
+  for (const clause of flattenClauses(article.clauses)) {
+    collect(clause.id, clause.revisions);
+    for (const table of clause.tables || []) {
+      collect(table.id, table.revisions);
+    }
+  }
+
+  return changes.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+}
+
+/**
+ * Edit an amendment record makes to its provision
+ */
+function getAmendmentEdit(record: AmendmentRecord): RevisionEdit {
+  switch (record.type) {
+    case 'original':
+    case 'insert':
+      return 'add';
+    case 'delete':
+    case 'remove':
+      return 'delete';
+    default:
+      return 'replace';
+  }
+}
+
+/**
+ * Flatten clauses and their subclauses in reading order
+ */
+function flattenClauses(clauses: Clause[]): Clause[] {
+  return clauses.flatMap((clause) => [clause, ...flattenClauses(clause.subclauses || [])]);
+}
+
+/**
+ * Split text into words and runs of whitespace
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\S+|\s+/g) || [];
+}
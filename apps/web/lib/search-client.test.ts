@@ -0,0 +1,219 @@
+/**
+ * Unit tests for the search client (worker and main-thread modes)
+ */
+
+import { BCBCSearchClient, SearchCancelledError, SearchQuerySyntaxError } from './search-client';
+import {
+  createSearchWorkerHandler,
+  type SearchWorkerRequest,
+  type SearchWorkerResponse,
+} from './search-worker-protocol';
+import {
+  computeChecksum,
+  exportSearchIndex,
+  type SearchDocument,
+  type SearchMetadata,
+} from '@bc-building-code/search-indexer';
+
+const documents = [
+  { id: 'art1', type: 'article', articleNumber: 'B.9.9.1.1', divisionLetter: 'B', title: 'Stair Width', text: 'Exit stairs', path: '', searchPriority: 5 },
+  { id: 'art2', type: 'article', articleNumber: 'B.9.9.1.2', divisionLetter: 'B', title: 'Handrails', text: 'Handrails on stairs', path: '', searchPriority: 5, objectiveKeys: ['OS3'] },
+] as SearchDocument[];
+
+const metadata = { version: '2024', tableOfContents: [] } as unknown as SearchMetadata;
+
+const documentsJson = JSON.stringify(documents);
+
+// Files served under /data/2024/search/ (search-index.json is absent unless a test sets it)
+let searchIndexJson: string | null = null;
+
+/**
+ * Worker stand-in running the real worker handler with asynchronous message delivery
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static failToStart = false;
+
+  onmessage: ((event: { data: SearchWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  received: SearchWorkerRequest[] = [];
+  private handle = createSearchWorkerHandler((response) => {
+    setTimeout(() => this.onmessage?.({ data: response }), 0);
+  });
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: SearchWorkerRequest) {
+    this.received.push(request);
+    setTimeout(() => {
+      if (FakeWorker.failToStart) {
+        this.onerror?.({ message: 'Failed to load worker script' });
+      } else {
+        this.handle(request);
+      }
+    }, 0);
+  }
+
+  terminate() {}
+}
+
+describe('BCBCSearchClient', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    FakeWorker.failToStart = false;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    searchIndexJson = null;
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith('search-index.json')) {
+        return { ok: searchIndexJson !== null, statusText: 'Not Found', json: async () => JSON.parse(searchIndexJson!) };
+      }
+      return {
+        ok: true,
+        text: async () => documentsJson,
+        json: async () => (url.endsWith('documents.json') ? JSON.parse(documentsJson) : metadata),
+      };
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should build the index on the main thread when workers are unavailable', async () => {
+    const client = new BCBCSearchClient();
+    await client.initialize('2024');
+
+    expect(fetch).toHaveBeenCalledWith('/data/2024/search/documents.json');
+    expect(client.isInitialized('2024')).toBe(true);
+    expect(client.getDocument('art2')?.title).toBe('Handrails');
+    expect(client.getMetadata()).toEqual(metadata);
+    expect((await client.search('stair')).map((result) => result.document.id)).toEqual(['art1', 'art2']);
+    expect(await client.getSuggestions('hand')).toEqual(['Handrails']);
+  });
+
+  it('should resolve provision references for go-to navigation', async () => {
+    const client = new BCBCSearchClient();
+    expect(client.resolveReference('9.9.1.2')).toBeNull();
+
+    await client.initialize('2024');
+    expect(client.resolveReference('9.9.1.2')?.document.id).toBe('art2');
+    expect(client.resolveReference('Div A 9.9.1.2')).toBeNull();
+  });
+
+  describe('with a prebuilt index', () => {
+    // Indexed text that is not in documents.json shows whether the index was imported or rebuilt
+    const indexedDocuments = documents.map((doc) => (doc.id === 'art2' ? { ...doc, text: 'Guard height' } : doc));
+
+    it('should import the index when its checksum matches documents.json', async () => {
+      searchIndexJson = await exportSearchIndex(indexedDocuments, metadata, documentsJson);
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      expect(fetch).toHaveBeenCalledWith('/data/2024/search/search-index.json');
+      expect((await client.search('guard')).map((result) => result.document.id)).toEqual(['art2']);
+    });
+
+    it('should rebuild the index when it is stale', async () => {
+      searchIndexJson = await exportSearchIndex(indexedDocuments, metadata, JSON.stringify(indexedDocuments));
+      expect(JSON.parse(searchIndexJson).documentsChecksum).not.toBe(computeChecksum(documentsJson));
+
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      expect(await client.search('guard')).toEqual([]);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('stale'));
+    });
+  });
+
+  describe('with a worker', () => {
+    beforeEach(() => {
+      vi.stubGlobal('Worker', FakeWorker);
+    });
+
+    it('should build the index and answer queries in the worker', async () => {
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      expect(FakeWorker.instances).toHaveLength(1);
+      expect(client.getDocumentCount()).toBe(2);
+
+      const results = await client.search('stair', { limit: 1 });
+      expect(results.map((result) => result.document.id)).toEqual(['art1']);
+      expect(FakeWorker.instances[0].received.map((request) => request.type)).toEqual(['init', 'search']);
+    });
+
+    it('should look documents up on the main thread without querying the worker', async () => {
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      const post = vi.fn();
+      await createSearchWorkerHandler(post)({ type: 'init', id: 1, version: '2024' });
+      expect(post).toHaveBeenCalledWith({ type: 'ready', id: 1, metadata });
+
+      expect(client.getDocumentCount()).toBe(2);
+      expect(client.getDocument('art1')?.title).toBe('Stair Width');
+      expect(client.getDocument('missing')).toBeUndefined();
+      expect(client.getDocumentsByObjective('OS3').map((doc) => doc.id)).toEqual(['art2']);
+      expect(client.resolveReference('9.9.1.2')?.document.id).toBe('art2');
+      expect(FakeWorker.instances[0].received.map((request) => request.type)).toEqual(['init']);
+    });
+
+    it('should cancel a pending search when a newer one is made', async () => {
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      const stale = client.search('stai');
+      const latest = client.search('hand');
+
+      await expect(stale).rejects.toBeInstanceOf(SearchCancelledError);
+      expect((await latest).map((result) => result.document.id)).toEqual(['art2']);
+      expect(FakeWorker.instances[0].received).toContainEqual({ type: 'cancel', id: 2 });
+    });
+
+    it('should only cancel pending searches on the same channel', async () => {
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      const store = client.search('stai', {}, undefined, 'search-store');
+      const hook = client.search('hand', {}, undefined, 'hook');
+      const latestStore = client.search('stair', {}, undefined, 'search-store');
+
+      await expect(store).rejects.toBeInstanceOf(SearchCancelledError);
+      expect((await hook).map((result) => result.document.id)).toEqual(['art2']);
+      expect(await latestStore).toHaveLength(2);
+    });
+
+    it('should keep search and suggestion requests independent', async () => {
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      const [results, suggestions] = await Promise.all([
+        client.search('stair'),
+        client.getSuggestions('hand'),
+      ]);
+
+      expect(results).toHaveLength(2);
+      expect(suggestions).toEqual(['Handrails']);
+    });
+
+    it('should report query syntax errors from the worker', async () => {
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      await expect(client.search('stair part:nine')).rejects.toThrow(SearchQuerySyntaxError);
+    });
+
+    it('should fall back to the main thread when the worker fails to start', async () => {
+      FakeWorker.failToStart = true;
+      const client = new BCBCSearchClient();
+      await client.initialize('2024');
+
+      expect((await client.search('hand')).map((result) => result.document.id)).toEqual(['art2']);
+      expect(FakeWorker.instances[0].received).toHaveLength(1);
+    });
+  });
+});
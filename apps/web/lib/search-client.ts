@@ -1,17 +1,33 @@
 /**
  * BCBC Search Client
  * 
- * Runtime FlexSearch client that loads pre-generated documents and metadata,
- * builds the search index in the browser, and provides search functionality.
+ * Runtime FlexSearch client that loads pre-generated documents, metadata and
+ * the prebuilt search index, and provides search functionality.
  * 
  * Architecture:
- * - Build time: Generate documents.json + metadata.json (flat data)
- * - Runtime: Load JSON, build FlexSearch index, perform searches
+ * - Build time: Generate documents.json + metadata.json (flat data) and
+ *   search-index.json (serialized FlexSearch index stamped with the documents checksum)
+ * - Runtime: Load JSON, import the index (or rebuild it when stale), perform searches
  * 
- * This approach is simpler and more maintainable than exporting FlexSearch state.
+ * Index building and queries run in a Web Worker (search.worker.ts) so typing
+ * and scrolling stay responsive on low-end devices. The documents are also
+ * loaded on the main thread, so document lookups and provision references are
+ * answered synchronously without a worker round trip. A newer search or suggestion request
+ * cancels the pending one of the same kind on the same channel, which rejects
+ * with SearchCancelledError, so callers with their own channels (the search
+ * store, each useSearchClient hook) do not cancel each other. Where workers are
+ * unavailable (or the worker fails to start) the same SearchEngine runs on the
+ * main thread.
  */
 
-import FlexSearch from 'flexsearch';
+import { loadSearchEngine, type SearchEngine } from './search-engine';
+import { SearchQuerySyntaxError } from './search-query';
+import {
+  parseProvisionReference,
+  resolveProvisionReference,
+  type ResolvedProvision,
+} from './provision-reference';
+import type { SearchWorkerQuery, SearchWorkerResponse } from './search-worker-protocol';
 
 // Re-export types from indexer
 export type {
@@ -23,6 +39,16 @@ export type {
   IndexableContentType as SearchableContentType,
 } from '@bc-building-code/search-indexer';
 
+export type { SearchResult } from './search-engine';
+
+// Query language (phrases, AND/OR, -exclusions, field qualifiers)
+export { parseSearchQuery, SearchQuerySyntaxError } from './search-query';
+export type { ParsedSearchQuery, SearchQueryTerm } from './search-query';
+
+// Provision references ("9.10.14.1.(3)(b)", "Table 9.23.3.4", "A-9.10.14.1")
+export { parseProvisionReference } from './provision-reference';
+export type { ProvisionKind, ProvisionReference, ResolvedProvision } from './provision-reference';
+
 import type {
   SearchDocument,
   SearchMetadata,
@@ -31,17 +57,25 @@ import type {
   SearchOptions,
   IndexableContentType as SearchableContentType,
 } from '@bc-building-code/search-indexer';
+import type { SearchResult } from './search-engine';
+
+/**
+ * Rejection of a search or suggestion request superseded by a newer one
+ * Callers should ignore it rather than report an error
+ */
+export class SearchCancelledError extends Error {
+  constructor(message: string = 'Search request was superseded by a newer one') {
+    super(message);
+    this.name = 'SearchCancelledError';
+  }
+}
 
 /**
- * Search result with score and highlights
+ * Request waiting for a worker response
  */
-export interface SearchResult {
-  document: SearchDocument;
-  score: number;
-  highlights: Array<{
-    field: string;
-    text: string;
-  }>;
+interface PendingRequest {
+  resolve: (response: SearchWorkerResponse) => void;
+  reject: (error: Error) => void;
 }
 
 /**
@@ -51,26 +85,40 @@ export interface SearchResult {
  */
 export class BCBCSearchClient {
   // Version-specific caches
-  private indexCache: Map<string, FlexSearch.Document<SearchDocument>> = new Map();
+  private engineCache: Map<string, SearchEngine> = new Map(); // Main-thread fallback only
   private documentsCache: Map<string, Map<string, SearchDocument>> = new Map();
   private metadataCache: Map<string, SearchMetadata> = new Map();
+  private pendingInitializations: Map<string, Promise<void>> = new Map();
   
   // Current version state
   private currentVersion: string | null = null;
   private initialized = false;
 
+  // Worker state (undefined until first use, null when running on the main thread)
+  private worker: Worker | null | undefined;
+  private nextRequestId = 1;
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private latestRequests: Map<string, number> = new Map(); // Keyed by query type and channel
+
+  /**
+   * @param useWorker - Run the index in a Web Worker when available (default: true)
+   */
+  constructor(private useWorker: boolean = true) {}
+
   /**
    * Initialize the search client for a specific version
-   * Loads documents and metadata, builds FlexSearch index
+   * Loads documents and metadata, imports (or builds) the FlexSearch index
    * 
    * @param version - Version ID (e.g., "2024", "2027")
    * @param documentsUrl - URL to documents.json (default: /data/{version}/search/documents.json)
    * @param metadataUrl - URL to metadata.json (default: /data/{version}/search/metadata.json)
+   * @param indexUrl - URL to search-index.json (default: /data/{version}/search/search-index.json)
    */
   async initialize(
     version: string = '2024',
     documentsUrl?: string,
-    metadataUrl?: string
+    metadataUrl?: string,
+    indexUrl?: string
   ): Promise<void> {
     // Check if already initialized for this version
     if (this.currentVersion === version && this.initialized) {
@@ -78,91 +126,69 @@ export class BCBCSearchClient {
     }
 
     // Check if version is already cached
-    if (this.indexCache.has(version)) {
+    if (this.documentsCache.has(version)) {
       this.currentVersion = version;
       this.initialized = true;
       console.log(`Using cached search index for version ${version}`);
       return;
     }
 
-    // Set default URLs with version path
-    const defaultDocumentsUrl = `/data/${version}/search/documents.json`;
-    const defaultMetadataUrl = `/data/${version}/search/metadata.json`;
-    
-    const finalDocumentsUrl = documentsUrl || defaultDocumentsUrl;
-    const finalMetadataUrl = metadataUrl || defaultMetadataUrl;
+    // Share an initialization already in progress for this version
+    let initialization = this.pendingInitializations.get(version);
+    if (!initialization) {
+      initialization = this.loadIndex(version, documentsUrl, metadataUrl, indexUrl).finally(() => {
+        this.pendingInitializations.delete(version);
+      });
+      this.pendingInitializations.set(version, initialization);
+    }
+    await initialization;
 
+    // Set as current version
+    this.currentVersion = version;
+    this.initialized = true;
+  }
+
+  /**
+   * Load a version's data and index (in the worker when available)
+   */
+  private async loadIndex(
+    version: string,
+    documentsUrl?: string,
+    metadataUrl?: string,
+    indexUrl?: string
+  ): Promise<void> {
     console.time(`Search index initialization (${version})`);
 
     try {
-      // Load documents and metadata in parallel
-      const [documentsData, metadataData] = await Promise.all([
-        fetch(finalDocumentsUrl).then((r) => {
-          if (!r.ok) throw new Error(`Failed to load documents for version ${version}: ${r.statusText}`);
-          return r.json();
-        }),
-        fetch(finalMetadataUrl).then((r) => {
-          if (!r.ok) throw new Error(`Failed to load metadata for version ${version}: ${r.statusText}`);
-          return r.json();
-        }),
-      ]);
-
-      // Create FlexSearch index with field-specific configuration
-      const index = new FlexSearch.Document<SearchDocument>({
-        tokenize: 'forward',
-        optimize: true,
-        resolution: 9,
-        cache: 100,
-        context: {
-          depth: 2,
-          bidirectional: true,
-          resolution: 9,
-        },
-        document: {
-          id: 'id',
-          index: [
-            {
-              field: 'articleNumber',
-              tokenize: 'strict',
-              resolution: 9,
-            },
-            {
-              field: 'title',
-              tokenize: 'forward',
-              resolution: 9,
-            },
-            {
-              field: 'text',
-              tokenize: 'forward',
-              resolution: 5,
-            },
-            {
-              field: 'path',
-              tokenize: 'forward',
-              resolution: 3,
-            },
-          ],
-          store: true as any,
-        },
-      });
+      let data: { documents: SearchDocument[]; metadata: SearchMetadata } | null = null;
+
+      if (this.getWorker()) {
+        try {
+          // The worker builds the index while the main thread keeps its own copy of the documents
+          const [response, documents] = await Promise.all([
+            this.request({ type: 'init', version, documentsUrl, metadataUrl, indexUrl }),
+            this.fetchDocuments(version, documentsUrl),
+          ]);
+          if (response.type === 'ready') {
+            data = { documents, metadata: response.metadata };
+          }
+        } catch (error) {
+          // Errors reported by a running worker are real; a worker that failed to start falls back
+          if (this.worker) throw error;
+        }
+      }
 
-      // Create documents map for this version
-      const documents = new Map<string, SearchDocument>();
-      
-      // Add documents to index and map
-      documentsData.forEach((doc: SearchDocument) => {
-        documents.set(doc.id, doc);
-        index.add(doc);
-      });
+      if (!data) {
+        const { engine, ...loaded } = await loadSearchEngine(version, documentsUrl, metadataUrl, indexUrl);
+        this.engineCache.set(version, engine);
+        data = loaded;
+      }
 
-      // Cache the index, documents, and metadata for this version
-      this.indexCache.set(version, index);
+      // Cache the documents and metadata for this version
+      const documents = new Map<string, SearchDocument>();
+      data.documents.forEach((doc) => documents.set(doc.id, doc));
       this.documentsCache.set(version, documents);
-      this.metadataCache.set(version, metadataData);
-      
-      // Set as current version
-      this.currentVersion = version;
-      this.initialized = true;
+      this.metadataCache.set(version, data.metadata);
 
       console.timeEnd(`Search index initialization (${version})`);
       console.log(`Loaded ${documents.size} documents for version ${version}`);
@@ -173,240 +199,149 @@ export class BCBCSearchClient {
   }
 
   /**
-   * Perform a search
-   * 
-   * @param query - Search query string
-   * @param options - Search options (filters, pagination)
-   * @param version - Optional version ID (defaults to current version)
-   * @returns Array of search results with scores and highlights
+   * Load a version's documents for lookups on the main thread
    */
-  async search(query: string, options: SearchOptions = {}, version?: string): Promise<SearchResult[]> {
-    const searchVersion = version || this.currentVersion;
-    
-    if (!searchVersion) {
-      throw new Error('No version specified and no current version set');
-    }
-    
-    // Ensure version is initialized
-    if (!this.indexCache.has(searchVersion)) {
-      await this.initialize(searchVersion);
-    }
-
-    if (!query || query.trim().length < 2) {
-      return [];
+  private async fetchDocuments(version: string, documentsUrl?: string): Promise<SearchDocument[]> {
+    const response = await fetch(documentsUrl || `/data/${version}/search/documents.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to load documents for version ${version}: ${response.statusText}`);
     }
-    
-    const index = this.indexCache.get(searchVersion)!;
-    const documents = this.documentsCache.get(searchVersion)!;
-
-    const {
-      divisionFilter,
-      partFilter,
-      sectionFilter,
-      amendmentsOnly = false,
-      tablesOnly = false,
-      figuresOnly = false,
-      contentTypes,
-      effectiveDate,
-      limit = 50,
-      offset = 0,
-    } = options;
-
-    // Check if query is article number format (e.g., "A.1.2.3.4")
-    const articleNumberMatch = query.match(/^([A-C])\.(\d+)\.(\d+)\.(\d+)\.(\d+)$/i);
-    if (articleNumberMatch) {
-      return this.searchByArticleNumber(query, searchVersion);
-    }
-
-    // Perform FlexSearch across all fields
-    const rawResults = index.search(query, {
-      limit: limit * 3, // Get more results for filtering
-      enrich: true,
-    });
-
-    // Combine results from all fields with field-specific scoring
-    const resultMap = new Map<string, { doc: SearchDocument; fieldScores: number[] }>();
-
-    rawResults.forEach((fieldResult: any, fieldIndex: number) => {
-      if (!fieldResult.result) return;
-
-      fieldResult.result.forEach((item: any) => {
-        const doc = documents.get(item.id);
-        if (!doc) return;
+    return response.json();
+  }
 
-        if (!resultMap.has(item.id)) {
-          resultMap.set(item.id, { doc, fieldScores: [] });
-        }
+  /**
+   * Get the search worker, creating it on first use
+   * Returns null when workers are unavailable (SSR, tests, old browsers)
+   */
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
 
-        // Field-specific score weights
-        let fieldScore = 1;
-        switch (fieldIndex) {
-          case 0:
-            fieldScore = 10; // articleNumber
-            break;
-          case 1:
-            fieldScore = 5; // title
-            break;
-          case 2:
-            fieldScore = 1; // text
-            break;
-          case 3:
-            fieldScore = 2; // path
-            break;
-          default:
-            fieldScore = 0.5;
-        }
+    this.worker = null;
+    if (!this.useWorker || typeof Worker === 'undefined') return null;
 
-        resultMap.get(item.id)!.fieldScores.push(fieldScore);
-      });
-    });
+    try {
+      const worker = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleWorkerMessage(event.data);
+      worker.onerror = (event) => this.handleWorkerFailure(event);
+      this.worker = worker;
+    } catch (error) {
+      console.warn('Search worker unavailable, searching on the main thread:', error);
+    }
 
-    // Apply filters and calculate final scores
-    let filtered = Array.from(resultMap.values())
-      .filter(({ doc }) => {
-        // Division filter
-        if (divisionFilter && doc.divisionLetter !== divisionFilter) return false;
-        
-        // Part filter
-        if (partFilter !== undefined && doc.partNumber !== partFilter) return false;
-        
-        // Section filter
-        if (sectionFilter !== undefined && doc.sectionNumber !== sectionFilter) return false;
-        
-        // Amendments filter
-        if (amendmentsOnly && !doc.hasAmendment) return false;
-        
-        // Tables filter
-        if (tablesOnly && !doc.hasTables) return false;
-        
-        // Figures filter
-        if (figuresOnly && !doc.hasFigures) return false;
-        
-        // Content types filter
-        if (contentTypes && contentTypes.length > 0 && !contentTypes.includes(doc.type)) {
-          return false;
-        }
-        
-        // Effective date filter
-        if (effectiveDate && doc.latestAmendmentDate && doc.latestAmendmentDate !== effectiveDate) {
-          return false;
-        }
-        
-        return true;
-      })
-      .map(({ doc, fieldScores }) => ({
-        document: doc,
-        score: this.calculateFinalScore(doc, fieldScores, query),
-        highlights: this.generateHighlights(doc, query),
-      }));
-
-    // Sort by score (descending)
-    filtered.sort((a, b) => b.score - a.score);
-
-    // Apply pagination
-    return filtered.slice(offset, offset + limit);
+    return this.worker;
   }
 
   /**
-   * Search by exact article number
+   * Send a query to the worker
+   * Search and suggestion queries cancel the pending query of the same type on the same channel
    */
-  private searchByArticleNumber(articleNum: string, version: string): SearchResult[] {
-    const results: SearchResult[] = [];
-    const documents = this.documentsCache.get(version);
-    
-    if (!documents) {
-      return results;
+  private request(query: SearchWorkerQuery, channel?: string): Promise<SearchWorkerResponse> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(new Error('Search worker is not running'));
     }
 
-    for (const doc of documents.values()) {
-      if (doc.articleNumber === articleNum) {
-        results.push({
-          document: doc,
-          score: 1000, // Very high score for exact match
-          highlights: [],
-        });
-        break;
+    const id = this.nextRequestId++;
+
+    if (channel !== undefined) {
+      const key = `${query.type}:${channel}`;
+      const previousId = this.latestRequests.get(key);
+      const previous = previousId !== undefined ? this.pendingRequests.get(previousId) : undefined;
+      if (previousId !== undefined && previous) {
+        this.pendingRequests.delete(previousId);
+        worker.postMessage({ type: 'cancel', id: previousId });
+        previous.reject(new SearchCancelledError());
       }
+      this.latestRequests.set(key, id);
     }
 
-    return results;
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      worker.postMessage({ ...query, id });
+    });
   }
 
   /**
-   * Calculate final score for a document
+   * Settle the request a worker response belongs to
    */
-  private calculateFinalScore(
-    doc: SearchDocument,
-    fieldScores: number[],
-    query: string
-  ): number {
-    // Sum field scores
-    let score = fieldScores.reduce((sum, s) => sum + s, 0);
-
-    // Apply search priority from document
-    score *= doc.searchPriority / 5;
-
-    // Boost amendments
-    if (doc.hasAmendment) {
-      score *= 1.5;
-    }
-
-    // Boost exact phrase match in title
-    if (doc.title.toLowerCase().includes(query.toLowerCase())) {
-      score *= 2;
+  private handleWorkerMessage(response: SearchWorkerResponse): void {
+    const pending = this.pendingRequests.get(response.id);
+    // Already rejected as superseded
+    if (!pending) return;
+
+    this.pendingRequests.delete(response.id);
+    if (response.type === 'error') {
+      pending.reject(
+        response.name === 'SearchQuerySyntaxError'
+          ? new SearchQuerySyntaxError(response.message)
+          : new Error(response.message)
+      );
+    } else if (response.type === 'cancelled') {
+      pending.reject(new SearchCancelledError());
+    } else {
+      pending.resolve(response);
     }
-
-    return score;
   }
 
   /**
-   * Generate highlights for search results
+   * Stop using a worker that failed to load or crashed
+   * Pending requests are rejected; later ones run on the main thread
    */
-  private generateHighlights(doc: SearchDocument, query: string): Array<{ field: string; text: string }> {
-    const highlights: Array<{ field: string; text: string }> = [];
-    const queryLower = query.toLowerCase();
-
-    // Title highlight
-    if (doc.title.toLowerCase().includes(queryLower)) {
-      highlights.push({
-        field: 'title',
-        text: this.highlightText(doc.title, query),
-      });
-    }
+  private handleWorkerFailure(event: ErrorEvent): void {
+    console.warn('Search worker failed, searching on the main thread:', event.message);
 
-    // Text snippet highlight
-    const textLower = doc.text.toLowerCase();
-    const index = textLower.indexOf(queryLower);
-    if (index !== -1) {
-      const start = Math.max(0, index - 50);
-      const end = Math.min(doc.text.length, index + query.length + 50);
-      const snippet = doc.text.substring(start, end);
-
-      highlights.push({
-        field: 'text',
-        text:
-          (start > 0 ? '...' : '') +
-          this.highlightText(snippet, query) +
-          (end < doc.text.length ? '...' : ''),
-      });
+    this.worker?.terminate();
+    this.worker = null;
+
+    // Indexes built in the worker are gone; versions are rebuilt on next use
+    for (const version of this.documentsCache.keys()) {
+      if (!this.engineCache.has(version)) this.clearVersionCache(version);
     }
 
-    return highlights;
+    const pending = Array.from(this.pendingRequests.values());
+    this.pendingRequests.clear();
+    pending.forEach(({ reject }) => reject(new Error(`Search worker failed: ${event.message}`)));
   }
 
   /**
-   * Highlight query text in a string
+   * Perform a search
+   * 
+   * @param query - Search query (phrases, AND/OR, -exclusions and field qualifiers such as part:9)
+   * @param options - Search options (filters, pagination)
+   * @param version - Optional version ID (defaults to current version)
+   * @param channel - Caller whose pending search this one supersedes (default: "default")
+   * @returns Array of search results with scores and highlights
+   * @throws SearchQuerySyntaxError when the query cannot be parsed (the message explains the fix)
+   * @throws SearchCancelledError when a newer search on the same channel supersedes this one
    */
-  private highlightText(text: string, query: string): string {
-    const regex = new RegExp(`(${this.escapeRegex(query)})`, 'gi');
-    return text.replace(regex, '<mark class="bg-yellow-200 px-0.5">$1</mark>');
-  }
+  async search(
+    query: string,
+    options: SearchOptions = {},
+    version?: string,
+    channel: string = 'default'
+  ): Promise<SearchResult[]> {
+    const searchVersion = version || this.currentVersion;
+    
+    if (!searchVersion) {
+      throw new Error('No version specified and no current version set');
+    }
+    
+    // Ensure version is initialized
+    if (!this.documentsCache.has(searchVersion)) {
+      await this.initialize(searchVersion);
+    }
 
-  /**
-   * Escape regex special characters
-   */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (!query || query.trim().length < 2) {
+      return [];
+    }
+
+    const engine = this.engineCache.get(searchVersion);
+    if (engine) {
+      return engine.search(query, options);
+    }
+
+    const response = await this.request({ type: 'search', version: searchVersion, query, options }, channel);
+    return response.type === 'results' ? response.results : [];
   }
 
   /**
@@ -415,39 +350,52 @@ export class BCBCSearchClient {
    * @param query - Partial query string
    * @param limit - Maximum number of suggestions (default: 5)
    * @param version - Optional version ID (defaults to current version)
+   * @param channel - Caller whose pending suggestions these supersede (default: "default")
    * @returns Array of suggestion strings
+   * @throws SearchCancelledError when newer suggestions on the same channel supersede these
    */
-  async getSuggestions(query: string, limit: number = 5, version?: string): Promise<string[]> {
+  async getSuggestions(
+    query: string,
+    limit: number = 5,
+    version?: string,
+    channel: string = 'default'
+  ): Promise<string[]> {
     const searchVersion = version || this.currentVersion;
     
     if (!searchVersion || query.length < 2) {
       return [];
     }
 
-    const results = await this.search(query, { limit: limit * 3 }, searchVersion);
-    
-    // Extract unique titles, prioritizing shorter/more relevant ones
-    const suggestions = new Set<string>();
-    
-    // Sort by relevance and title length (shorter titles first)
-    const sorted = results.sort((a, b) => {
-      // First by score
-      if (b.score !== a.score) return b.score - a.score;
-      // Then by title length (shorter is better for suggestions)
-      return a.document.title.length - b.document.title.length;
-    });
-    
-    for (const result of sorted) {
-      const title = result.document.title.trim();
-      // Skip empty titles
-      if (!title) continue;
-      
-      suggestions.add(title);
-      if (suggestions.size >= limit) break;
+    // Ensure version is initialized
+    if (!this.documentsCache.has(searchVersion)) {
+      await this.initialize(searchVersion);
     }
 
-    const suggestionArray = Array.from(suggestions);
-    return suggestionArray;
+    const engine = this.engineCache.get(searchVersion);
+    if (engine) {
+      return engine.getSuggestions(query, limit);
+    }
+
+    const response = await this.request({ type: 'suggest', version: searchVersion, query, limit }, channel);
+    return response.type === 'suggestions' ? response.suggestions : [];
+  }
+
+  /**
+   * Resolve a provision reference for "go to" navigation
+   * Runs on the main thread against the loaded documents (no index query needed)
+   * 
+   * @param input - Reference as typed (e.g. "9.10.14.1.(3)(b)", "Sentence 3.2.5.7.(1)", "Div B 9.8")
+   * @param version - Optional version ID (defaults to current version)
+   * @returns Resolved provision with its URL, or null when the input is not a reference
+   *          to a provision of the version (or the version is not initialized)
+   */
+  resolveReference(input: string, version?: string): ResolvedProvision | null {
+    const searchVersion = version || this.currentVersion;
+    const documents = searchVersion ? this.documentsCache.get(searchVersion) : undefined;
+    const reference = parseProvisionReference(input);
+    if (!documents || !reference) return null;
+
+    return resolveProvisionReference(reference, documents.values());
   }
 
   /**
@@ -464,6 +412,19 @@ export class BCBCSearchClient {
     return documents?.get(id);
   }
 
+  /**
+   * Get all documents serving an objective, sub-objective or functional statement key
+   */
+  getDocumentsByObjective(key: string, version?: string): SearchDocument[] {
+    const searchVersion = version || this.currentVersion;
+    if (!searchVersion) return [];
+    
+    const documents = this.documentsCache.get(searchVersion);
+    if (!documents) return [];
+    
+    return Array.from(documents.values()).filter(doc => doc.objectiveKeys?.includes(key));
+  }
+
   /**
    * Get metadata for a specific version
    * 
@@ -525,7 +486,7 @@ export class BCBCSearchClient {
     const searchVersion = version || this.currentVersion;
     if (!searchVersion) return false;
     
-    return this.indexCache.has(searchVersion);
+    return this.documentsCache.has(searchVersion);
   }
 
   /**
@@ -554,7 +515,8 @@ export class BCBCSearchClient {
    * @param version - Version ID to clear from cache
    */
   clearVersionCache(version: string): void {
-    this.indexCache.delete(version);
+    this.engineCache.delete(version);
+    this.worker?.postMessage({ type: 'clear', version });
     this.documentsCache.delete(version);
     this.metadataCache.delete(version);
     
@@ -570,7 +532,8 @@ export class BCBCSearchClient {
    * Clear all version caches
    */
   clearAllCaches(): void {
-    this.indexCache.clear();
+    this.engineCache.clear();
+    this.worker?.postMessage({ type: 'clear' });
     this.documentsCache.clear();
     this.metadataCache.clear();
     this.currentVersion = null;
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the search engine
+ */
+
+import { SearchEngine } from './search-engine';
+import { SearchQuerySyntaxError } from './search-query';
+import type { SearchDocument } from '@bc-building-code/search-indexer';
+
+const createDocument = (id: string, overrides: Partial<SearchDocument> = {}): SearchDocument => ({
+  id,
+  type: 'article',
+  articleNumber: '',
+  title: '',
+  text: '',
+  snippet: '',
+  divisionId: 'nbc.divB',
+  divisionLetter: 'B',
+  divisionTitle: 'Acceptable Solutions',
+  partId: 'nbc.divB.part9',
+  partNumber: 9,
+  partTitle: 'Housing and Small Buildings',
+  sectionId: 'nbc.divB.part9.sect9',
+  sectionNumber: 9,
+  sectionTitle: 'Means of Egress',
+  subsectionId: 'nbc.divB.part9.sect9.subsect1',
+  subsectionNumber: 1,
+  subsectionTitle: 'General',
+  path: 'Division B > Part 9 > Section 9.9',
+  breadcrumbs: [],
+  urlPath: '',
+  hasAmendment: false,
+  hasInternalRefs: false,
+  hasExternalRefs: false,
+  hasTermRefs: false,
+  hasTables: false,
+  hasFigures: false,
+  searchPriority: 5,
+  ...overrides,
+});
+
+const documents: SearchDocument[] = [
+  createDocument('art1', {
+    articleNumber: 'B.9.9.1.1',
+    title: 'Stair Width',
+    text: 'The width of required exit stairs shall be not less than 900 mm.',
+  }),
+  createDocument('art2', {
+    articleNumber: 'B.9.9.1.2',
+    title: 'Handrails',
+    text: 'Handrails shall be provided on stairs with more than 2 risers.',
+    hasTables: true,
+  }),
+  createDocument('art3', {
+    articleNumber: 'B.9.9.1.3',
+    title: 'Stair Treads',
+    text: 'Revoked.',
+    deleted: true,
+  }),
+];
+
+describe('SearchEngine', () => {
+  const engine = new SearchEngine(documents);
+
+  it('should rank title matches first and highlight the query', () => {
+    const results = engine.search('stair');
+
+    expect(results.map((result) => result.document.id)).toEqual(['art1', 'art2']);
+    expect(results[0].highlights[0]).toEqual({
+      field: 'title',
+      text: '<mark class="bg-yellow-200 px-0.5">Stair</mark> Width',
+    });
+  });
+
+  it('should apply filters and hide deleted provisions unless requested', () => {
+    expect(engine.search('stair', { tablesOnly: true }).map((result) => result.document.id)).toEqual(['art2']);
+    expect(engine.search('treads')).toEqual([]);
+    expect(engine.search('treads', { includeDeleted: true })[0].document.id).toBe('art3');
+  });
+
+  it('should rank the provision a query refers to first', () => {
+    expect(engine.search('B.9.9.1.2')[0]).toMatchObject({ document: { id: 'art2' }, score: 1000 });
+    expect(engine.search('9.9.1.1.(1)')[0].document.id).toBe('art1');
+    expect(engine.search('Article 9.9.1.2', { limit: 1 }).map((result) => result.document.id)).toEqual(['art2']);
+    expect(engine.search('9.9.1.3')).toEqual([]);
+    expect(engine.search('9.9.1.3', { includeDeleted: true })[0].document.id).toBe('art3');
+  });
+
+  it('should resolve provision references', () => {
+    expect(engine.resolveReference('Sentence 9.9.1.2.(2)')?.document.id).toBe('art2');
+    expect(engine.resolveReference('9.9.1.4')).toBeNull();
+    expect(engine.resolveReference('stair')).toBeNull();
+  });
+
+  it('should match exact phrases and drop excluded words', () => {
+    expect(engine.search('"exit stairs"').map((result) => result.document.id)).toEqual(['art1']);
+    expect(engine.search('"stairs exit"')).toEqual([]);
+    expect(engine.search('stairs -handrails').map((result) => result.document.id)).toEqual(['art1']);
+  });
+
+  it('should combine OR alternatives and field qualifiers', () => {
+    expect(engine.search('width OR risers').map((result) => result.document.id).sort()).toEqual(['art1', 'art2']);
+    expect(engine.search('title:stair').map((result) => result.document.id)).toEqual(['art1']);
+    expect(engine.search('stairs table:').map((result) => result.document.id)).toEqual([]);
+    expect(engine.search('stairs part:9 div:B').map((result) => result.document.id).sort()).toEqual(['art1', 'art2']);
+  });
+
+  it('should reject queries with syntax errors', () => {
+    expect(() => engine.search('"exit stairs')).toThrow(SearchQuerySyntaxError);
+    expect(engine.getSuggestions('"exit sta')).toEqual([]);
+  });
+
+  it('should suggest unique titles', () => {
+    expect(engine.getSuggestions('stair', 1)).toEqual(['Stair Width']);
+    expect(engine.getSuggestions('s')).toEqual([]);
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * BCBC Search Engine
+ *
+ * FlexSearch index and query logic for one version's documents.
+ * Shared by the search worker and the main-thread fallback in the search client.
+ */
+
+import type FlexSearch from 'flexsearch';
+import {
+  createFlexSearchIndex,
+  importSearchIndex,
+  isSearchIndexCurrent,
+  type SerializedSearchIndex,
+} from '@bc-building-code/search-indexer/search-index';
+import { createRankingModel } from '@bc-building-code/search-indexer/ranking';
+import { DEFAULT_INDEXER_CONFIG } from '@bc-building-code/search-indexer/config';
+
+import type { RankingModel, SearchDocument, SearchMetadata, SearchOptions } from '@bc-building-code/search-indexer';
+import {
+  getQueryTerms,
+  parseSearchQuery,
+  SearchQuerySyntaxError,
+  type SearchQueryTerm,
+} from './search-query';
+import {
+  parseProvisionReference,
+  resolveProvisionReference,
+  type ResolvedProvision,
+} from './provision-reference';
+import { SearchRanker, type GroupMatch } from './search-ranking';
+
+/**
+ * Search result with score and highlights
+ */
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  highlights: Array<{
+    field: string;
+    text: string;
+  }>;
+}
+
+/**
+ * Lowercase words separated by single spaces, padded with a space on each side
+ */
+function normalizeForMatching(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+}
+
+/**
+ * Check whether a document contains a word (as a word prefix) or an exact phrase
+ */
+function matchesTerm(doc: SearchDocument, term: SearchQueryTerm): boolean {
+  const needle = normalizeForMatching(term.text).trimEnd();
+  if (!needle) return false;
+
+  const haystack = normalizeForMatching(term.field === 'title' ? doc.title : `${doc.title} ${doc.text}`);
+  return haystack.includes(term.phrase ? `${needle} ` : needle);
+}
+
+/**
+ * Search engine for a single version
+ * Builds the FlexSearch index from the version's documents and runs queries
+ * against it, ranking results with the version's ranking model
+ */
+export class SearchEngine {
+  private index: FlexSearch.Document<SearchDocument>;
+  private documents: Map<string, SearchDocument> = new Map();
+  private ranker: SearchRanker;
+
+  /**
+   * @param documents - Documents from documents.json
+   * @param prebuiltIndex - Index imported from search-index.json (built from documents when omitted)
+   * @param ranking - Ranking model from metadata.json (created from the default indexer configuration when omitted)
+   */
+  constructor(
+    documents: SearchDocument[],
+    prebuiltIndex?: FlexSearch.Document<SearchDocument>,
+    ranking: RankingModel = createRankingModel(DEFAULT_INDEXER_CONFIG, documents)
+  ) {
+    this.index = prebuiltIndex || createFlexSearchIndex(ranking.fields);
+    this.ranker = new SearchRanker(ranking, documents.length, (word, field) => this.countDocuments(word, field));
+
+    documents.forEach((doc) => {
+      this.documents.set(doc.id, doc);
+      if (!prebuiltIndex) this.index.add(doc);
+    });
+  }
+
+  /**
+   * Perform a search
+   *
+   * @param query - Search query (phrases, AND/OR, -exclusions and field qualifiers; see search-query.ts)
+   * @param options - Search options (filters, pagination); qualifiers in the query take precedence
+   * @returns Array of search results with scores and highlights
+   * @throws SearchQuerySyntaxError when the query cannot be parsed
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    if (!query || query.trim().length < 2) {
+      return [];
+    }
+
+    // A provision number ("9.10.14.1", "Sentence 3.2.5.7.(1)", "Table 9.23.3.4") is the top hit
+    const provision = this.resolveReference(query);
+    const provisionHit: SearchResult | null = provision && (!provision.document.deleted || options.includeDeleted)
+      ? { document: provision.document, score: 1000, highlights: [] }
+      : null;
+
+    const parsed = parseSearchQuery(query);
+
+    const {
+      divisionFilter,
+      partFilter,
+      sectionFilter,
+      amendmentsOnly = false,
+      tablesOnly = false,
+      figuresOnly = false,
+      bcAnnotationsOnly = false,
+      contentTypes,
+      objectiveFilter,
+      effectiveDate,
+      includeDeleted = false,
+      limit = 50,
+      offset = 0,
+    } = { ...options, ...parsed.filters };
+
+    // Combine the documents matching any group (OR), with the fields each group matched
+    const resultMap = new Map<string, { doc: SearchDocument; matches: GroupMatch[] }>();
+    for (const group of parsed.groups) {
+      if (group.length > 0) {
+        this.matchGroup(group, limit * 3, resultMap); // Get more results for filtering
+      }
+    }
+
+    const highlightTerms = getQueryTerms(parsed);
+
+    // Apply filters and calculate final scores
+    let filtered = Array.from(resultMap.values())
+      .filter(({ doc }) => {
+        // Deleted provisions are hidden unless requested
+        if (doc.deleted && !includeDeleted) return false;
+
+        // Excluded words and phrases
+        if (parsed.exclude.some((term) => matchesTerm(doc, term))) return false;
+
+        // Division filter
+        if (divisionFilter && doc.divisionLetter !== divisionFilter) return false;
+
+        // Part filter
+        if (partFilter !== undefined && doc.partNumber !== partFilter) return false;
+
+        // Section filter
+        if (sectionFilter !== undefined && doc.sectionNumber !== sectionFilter) return false;
+
+        // Amendments filter
+        if (amendmentsOnly && !doc.hasAmendment) return false;
+
+        // Tables filter
+        if (tablesOnly && !doc.hasTables) return false;
+
+        // Figures filter
+        if (figuresOnly && !doc.hasFigures) return false;
+
+        // BC annotations filter
+        if (bcAnnotationsOnly && !doc.hasBCAnnotation) return false;
+
+        // Content types filter
+        if (contentTypes && contentTypes.length > 0 && !contentTypes.includes(doc.type)) {
+          return false;
+        }
+
+        // Objective filter
+        if (objectiveFilter && !doc.objectiveKeys?.includes(objectiveFilter)) return false;
+
+        // Effective date filter (a year or month matches every date in it)
+        if (effectiveDate && doc.latestAmendmentDate && !doc.latestAmendmentDate.startsWith(effectiveDate)) {
+          return false;
+        }
+
+        return true;
+      })
+      .map(({ doc, matches }) => ({
+        document: doc,
+        score: this.ranker.score(doc, matches),
+        highlights: this.generateHighlights(doc, highlightTerms),
+      }));
+
+    // Sort by score (descending)
+    filtered.sort((a, b) => b.score - a.score);
+
+    if (provisionHit) {
+      provisionHit.score = Math.max(provisionHit.score, (filtered[0]?.score ?? 0) + 1);
+      filtered = [provisionHit, ...filtered.filter((result) => result.document.id !== provisionHit.document.id)];
+    }
+
+    // Apply pagination
+    return filtered.slice(offset, offset + limit);
+  }
+
+  /**
+   * Add the documents matching every term of a query group (AND) to the results
+   */
+  private matchGroup(
+    group: SearchQueryTerm[],
+    limit: number,
+    resultMap: Map<string, { doc: SearchDocument; matches: GroupMatch[] }>
+  ): void {
+    const anyFieldText = group.filter((term) => !term.field).map((term) => term.text).join(' ');
+    const titleText = group.filter((term) => term.field === 'title').map((term) => term.text).join(' ');
+
+    const searches: Array<Map<string, string[]>> = [];
+    if (anyFieldText) searches.push(this.searchFields(anyFieldText, limit));
+    if (titleText) searches.push(this.searchFields(titleText, limit, 'title'));
+
+    // Documents must be found by every search and contain the exact phrases
+    const [first, ...rest] = searches;
+    for (const [id, fields] of first) {
+      if (rest.some((found) => !found.has(id))) continue;
+
+      const doc = this.documents.get(id)!;
+      if (!group.every((term) => !term.phrase || matchesTerm(doc, term))) continue;
+
+      if (!resultMap.has(id)) {
+        resultMap.set(id, { doc, matches: [] });
+      }
+      resultMap.get(id)!.matches.push({ group, fields: [...fields, ...rest.flatMap((found) => found.get(id)!)] });
+    }
+  }
+
+  /**
+   * Run a FlexSearch query and collect the fields each document was found in
+   *
+   * @param query - Words to find (all of them, in the same field)
+   * @param limit - Maximum results per field
+   * @param field - Only search this field
+   */
+  private searchFields(query: string, limit: number, field?: string): Map<string, string[]> {
+    const rawResults = this.index.search(query, field ? { limit, index: field } : { limit });
+    const found = new Map<string, string[]>();
+
+    rawResults.forEach((fieldResult) => {
+      fieldResult.result.forEach((resultId) => {
+        const id = String(resultId);
+        if (!this.documents.has(id)) return;
+        found.set(id, [...(found.get(id) || []), fieldResult.field]);
+      });
+    });
+
+    return found;
+  }
+
+  /**
+   * Number of documents containing a word in a field (for term weighting)
+   */
+  private countDocuments(word: string, field: string): number {
+    return this.index
+      .search(word, { limit: this.documents.size, index: field })
+      .reduce((count, fieldResult) => count + fieldResult.result.length, 0);
+  }
+
+  /**
+   * Get search suggestions based on partial query
+   *
+   * @param query - Partial query string
+   * @param limit - Maximum number of suggestions (default: 5)
+   * @returns Array of suggestion strings
+   */
+  getSuggestions(query: string, limit: number = 5): string[] {
+    if (query.length < 2) {
+      return [];
+    }
+
+    let results: SearchResult[];
+    try {
+      results = this.search(query, { limit: limit * 3 });
+    } catch (error) {
+      // Incomplete syntax while typing (e.g. an open quote) has no suggestions
+      if (error instanceof SearchQuerySyntaxError) return [];
+      throw error;
+    }
+
+    // Extract unique titles, prioritizing shorter/more relevant ones
+    const suggestions = new Set<string>();
+
+    // Sort by relevance and title length (shorter titles first)
+    const sorted = results.sort((a, b) => {
+      // First by score
+      if (b.score !== a.score) return b.score - a.score;
+      // Then by title length (shorter is better for suggestions)
+      return a.document.title.length - b.document.title.length;
+    });
+
+    for (const result of sorted) {
+      const title = result.document.title.trim();
+      // Skip empty titles
+      if (!title) continue;
+
+      suggestions.add(title);
+      if (suggestions.size >= limit) break;
+    }
+
+    return Array.from(suggestions);
+  }
+
+  /**
+   * Resolve a provision reference (e.g. "9.10.14.1.(3)(b)", "Table 9.23.3.4", "A-9.10.14.1")
+   *
+   * @param input - Reference as typed
+   * @returns Resolved provision, or null when the input is not a reference to a provision of this version
+   */
+  resolveReference(input: string): ResolvedProvision | null {
+    const reference = parseProvisionReference(input);
+    return reference ? resolveProvisionReference(reference, this.documents.values()) : null;
+  }
+
+  /**
+   * Generate highlights for search results
+   */
+  private generateHighlights(doc: SearchDocument, terms: string[]): Array<{ field: string; text: string }> {
+    const highlights: Array<{ field: string; text: string }> = [];
+    const termsLower = terms.map((term) => term.toLowerCase());
+
+    // Title highlight
+    const titleLower = doc.title.toLowerCase();
+    if (termsLower.some((term) => titleLower.includes(term))) {
+      highlights.push({
+        field: 'title',
+        text: this.highlightText(doc.title, terms),
+      });
+    }
+
+    // Text snippet highlight, around the first term found
+    const textLower = doc.text.toLowerCase();
+    const firstMatch = termsLower
+      .map((term) => ({ index: textLower.indexOf(term), length: term.length }))
+      .filter((match) => match.index !== -1)
+      .sort((a, b) => a.index - b.index)[0];
+    if (firstMatch) {
+      const start = Math.max(0, firstMatch.index - 50);
+      const end = Math.min(doc.text.length, firstMatch.index + firstMatch.length + 50);
+      const snippet = doc.text.substring(start, end);
+
+      highlights.push({
+        field: 'text',
+        text:
+          (start > 0 ? '...' : '') +
+          this.highlightText(snippet, terms) +
+          (end < doc.text.length ? '...' : ''),
+      });
+    }
+
+    return highlights;
+  }
+
+  /**
+   * Highlight query terms in a string
+   */
+  private highlightText(text: string, terms: string[]): string {
+    // Longest first so a phrase wins over its own words
+    const alternatives = [...terms].sort((a, b) => b.length - a.length).map((term) => this.escapeRegex(term));
+    const regex = new RegExp(`(${alternatives.join('|')})`, 'gi');
+    return text.replace(regex, '<mark class="bg-yellow-200 px-0.5">$1</mark>');
+  }
+
+  /**
+   * Escape regex special characters
+   */
+  private escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+/**
+ * Compute the SHA-256 checksum (hex) of file content
+ * Returns null where Web Crypto is unavailable (insecure contexts)
+ */
+async function computeChecksum(content: string): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Load a version's documents and metadata and create its search engine
+ *
+ * Imports the prebuilt index (search-index.json) when it matches the loaded
+ * documents.json; builds the index from the documents when the file is
+ * missing, stale or cannot be verified. Results are ranked with the ranking
+ * model in metadata.json.
+ *
+ * @param version - Version ID (e.g., "2024", "2027")
+ * @param documentsUrl - URL to documents.json (default: /data/{version}/search/documents.json)
+ * @param metadataUrl - URL to metadata.json (default: /data/{version}/search/metadata.json)
+ * @param indexUrl - URL to search-index.json (default: /data/{version}/search/search-index.json)
+ */
+export async function loadSearchEngine(
+  version: string,
+  documentsUrl?: string,
+  metadataUrl?: string,
+  indexUrl?: string
+): Promise<{ documents: SearchDocument[]; metadata: SearchMetadata; engine: SearchEngine }> {
+  const finalDocumentsUrl = documentsUrl || `/data/${version}/search/documents.json`;
+  const finalMetadataUrl = metadataUrl || `/data/${version}/search/metadata.json`;
+  const finalIndexUrl = indexUrl || `/data/${version}/search/search-index.json`;
+
+  // Load documents, metadata and the prebuilt index in parallel
+  const [documentsJson, metadata, serializedIndex] = await Promise.all([
+    fetch(finalDocumentsUrl).then((r) => {
+      if (!r.ok) throw new Error(`Failed to load documents for version ${version}: ${r.statusText}`);
+      return r.text();
+    }),
+    fetch(finalMetadataUrl).then((r) => {
+      if (!r.ok) throw new Error(`Failed to load metadata for version ${version}: ${r.statusText}`);
+      return r.json();
+    }),
+    // The prebuilt index is optional; older builds do not have one
+    fetch(finalIndexUrl)
+      .then((r) => (r.ok ? (r.json() as Promise<SerializedSearchIndex>) : null))
+      .catch(() => null),
+  ]);
+
+  const documents: SearchDocument[] = JSON.parse(documentsJson);
+
+  let prebuiltIndex: FlexSearch.Document<SearchDocument> | undefined;
+  if (serializedIndex) {
+    const checksum = await computeChecksum(documentsJson);
+    if (checksum && isSearchIndexCurrent(serializedIndex, checksum)) {
+      prebuiltIndex = importSearchIndex(serializedIndex);
+    } else {
+      console.warn(`Prebuilt search index for version ${version} is stale or unverifiable, rebuilding`);
+    }
+  }
+
+  return { documents, metadata, engine: new SearchEngine(documents, prebuiltIndex, metadata.ranking) };
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the search query language
+ */
+
+import { getQueryTerms, parseSearchQuery, SearchQuerySyntaxError } from './search-query';
+
+describe('parseSearchQuery', () => {
+  it('should parse phrases, qualifiers and exclusions', () => {
+    expect(parseSearchQuery('"guard height" part:9 -stair')).toEqual({
+      groups: [[{ text: 'guard height', phrase: true }]],
+      exclude: [{ text: 'stair', phrase: false }],
+      filters: { partFilter: 9 },
+    });
+  });
+
+  it('should split OR alternatives and treat AND as implied', () => {
+    const parsed = parseSearchQuery('guard AND height OR title:"handrail" -"stair well"');
+
+    expect(parsed.groups).toEqual([
+      [{ text: 'guard', phrase: false }, { text: 'height', phrase: false }],
+      [{ text: 'handrail', phrase: true, field: 'title' }],
+    ]);
+    expect(parsed.exclude).toEqual([{ text: 'stair well', phrase: true }]);
+    expect(getQueryTerms(parsed)).toEqual(['guard', 'height', 'handrail']);
+  });
+
+  it('should map qualifiers onto search options', () => {
+    expect(parseSearchQuery('table:span div:b section:23 amended:2025-03').filters).toEqual({
+      contentTypes: ['table'],
+      divisionFilter: 'B',
+      sectionFilter: 23,
+      amendmentsOnly: true,
+      effectiveDate: '2025-03',
+    });
+    expect(parseSearchQuery('table:span').groups).toEqual([[{ text: 'span', phrase: false }]]);
+    expect(parseSearchQuery('joists amended: figure:').filters).toEqual({
+      amendmentsOnly: true,
+      contentTypes: ['figure'],
+    });
+  });
+
+  it('should keep provision numbers and lowercase operators as words', () => {
+    expect(parseSearchQuery('9.10.14.1 or 3.2.5.7.(1)').groups).toEqual([
+      [
+        { text: '9.10.14.1', phrase: false },
+        { text: 'or', phrase: false },
+        { text: '3.2.5.7.(1)', phrase: false },
+      ],
+    ]);
+  });
+
+  it('should search for unknown qualifiers as literal text', () => {
+    expect(parseSearchQuery('Exception: guards').groups).toEqual([
+      [
+        { text: 'Exception:', phrase: false },
+        { text: 'guards', phrase: false },
+      ],
+    ]);
+    expect(parseSearchQuery('Note: A-9.10 part:9')).toEqual({
+      groups: [
+        [
+          { text: 'Note:', phrase: false },
+          { text: 'A-9.10', phrase: false },
+        ],
+      ],
+      exclude: [],
+      filters: { partFilter: 9 },
+    });
+    expect(parseSearchQuery('guard -level:2').exclude).toEqual([{ text: 'level:2', phrase: false }]);
+  });
+
+  it.each([
+    ['"guard height part:9', 'Missing closing quote after "guard height part:9'],
+    ['guard part:nine', 'part: needs a number'],
+    ['guard div:D', 'div: needs a division letter'],
+    ['guard amended:March', 'amended: needs a date'],
+    ['guard part:9 part:3', 'part: can only be used once'],
+    ['guard -part:9', 'part: cannot be excluded'],
+    ['OR guard', 'OR needs a search term before it'],
+    ['guard OR', 'OR needs a search term after it'],
+    ['guard AND OR height', 'AND OR is missing a search term in between'],
+    ['part:9 -stair', 'Add a word or phrase to search for'],
+    ['title:', 'title: needs a word or phrase'],
+  ])('should explain the syntax error in %s', (query, message) => {
+    expect(() => parseSearchQuery(query)).toThrow(SearchQuerySyntaxError);
+    expect(() => parseSearchQuery(query)).toThrow(message);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Search Query Language
+ *
+ * Parses the search box syntax into terms and SearchOptions filters:
+ *
+ * - `guard height`        both words (AND is implied; `AND` may be written out)
+ * - `"guard height"`      exact phrase
+ * - `guard OR railing`    either side
+ * - `-stair`              exclude provisions mentioning "stair" (also `-"stair well"`)
+ * - `title:guard`         word or phrase in the title (`-title:` excludes)
+ * - `table:span`          term, in tables only (`figure:` for figures; either alone filters)
+ * - `div:B`, `part:9`, `section:8`  division, part and section filters
+ * - `amended:2025-03-10`  provisions last amended on a date; `amended:2025` or
+ *                         `amended:2025-03` for a year or month, `amended:` for any date
+ *
+ * AND binds tighter than OR; exclusions and filters apply to the whole query.
+ * Words ending in a colon that are not a field above (`Exception:`, `Note:`)
+ * are searched for as typed.
+ *
+ * @example
+ * ```ts
+ * parseSearchQuery('"guard height" part:9 -stair');
+ * // → { groups: [[{ text: 'guard height', phrase: true }]],
+ * //     exclude: [{ text: 'stair', phrase: false }], filters: { partFilter: 9 } }
+ * ```
+ */
+
+import type { IndexableContentType, SearchOptions } from '@bc-building-code/search-indexer';
+
+/**
+ * Word or phrase of a query
+ */
+export interface SearchQueryTerm {
+  text: string;
+  phrase: boolean;
+  /** Only match in this field (title:) */
+  field?: 'title';
+}
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  /** Alternatives (OR); a document matches a group when it matches all of its terms */
+  groups: SearchQueryTerm[][];
+  /** Terms a document must not contain */
+  exclude: SearchQueryTerm[];
+  /** Filters from field qualifiers */
+  filters: Partial<SearchOptions>;
+}
+
+/**
+ * Invalid search query syntax
+ * The message explains the problem and how to fix it, ready to show to the user
+ */
+export class SearchQuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQuerySyntaxError';
+  }
+}
+
+/**
+ * Supported field qualifiers
+ */
+const QUALIFIERS = ['title', 'table', 'figure', 'div', 'part', 'section', 'amended'] as const;
+
+type Qualifier = (typeof QUALIFIERS)[number];
+
+/**
+ * Token of the query string
+ */
+interface Token {
+  text: string;
+  phrase: boolean;
+  negated: boolean;
+  qualifier?: Qualifier;
+}
+
+/**
+ * Split the query into tokens (words, quoted phrases, qualifiers and operators)
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    if (/\s/.test(query[position])) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    let negated = false;
+    if (query[position] === '-' && position + 1 < query.length && !/\s/.test(query[position + 1])) {
+      negated = true;
+      position++;
+    }
+
+    // Qualifier prefix (a supported field name followed by a colon); other
+    // words ending in a colon, such as "Exception:" or "Note:", are search text
+    let qualifier: Qualifier | undefined;
+    const qualifierMatch = /^([a-z]+):/i.exec(query.slice(position));
+    const name = qualifierMatch?.[1].toLowerCase();
+    if (qualifierMatch && (QUALIFIERS as readonly string[]).includes(name!)) {
+      qualifier = name as Qualifier;
+      position += qualifierMatch[0].length;
+    }
+
+    if (query[position] === '"') {
+      const end = query.indexOf('"', position + 1);
+      if (end === -1) {
+        throw new SearchQuerySyntaxError(
+          `Missing closing quote after ${query.slice(start)}. Add a " to end the phrase.`
+        );
+      }
+      tokens.push({ text: query.slice(position + 1, end).trim(), phrase: true, negated, qualifier });
+      position = end + 1;
+    } else {
+      const match = /^[^\s"]*/.exec(query.slice(position));
+      const text = match ? match[0] : '';
+      tokens.push({ text, phrase: false, negated, qualifier });
+      position += text.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Describe a token as typed, for error messages
+ */
+function describeToken(token: Token): string {
+  const value = token.phrase ? `"${token.text}"` : token.text;
+  return `${token.negated ? '-' : ''}${token.qualifier ? `${token.qualifier}:` : ''}${value}`;
+}
+
+/**
+ * Apply a filter qualifier (div:, part:, section:, amended:, table:, figure:)
+ */
+function applyFilter(token: Token, filters: Partial<SearchOptions>, used: Set<Qualifier>): void {
+  const qualifier = token.qualifier!;
+  const value = token.text;
+
+  if (token.negated) {
+    throw new SearchQuerySyntaxError(`${qualifier}: cannot be excluded. Remove the "-" before ${describeToken(token)}.`);
+  }
+  if (used.has(qualifier) && qualifier !== 'table' && qualifier !== 'figure') {
+    throw new SearchQuerySyntaxError(`${qualifier}: can only be used once per search.`);
+  }
+  used.add(qualifier);
+
+  switch (qualifier) {
+    case 'div':
+      if (!/^[a-c]$/i.test(value)) {
+        throw new SearchQuerySyntaxError(`div: needs a division letter A, B or C, e.g. div:B.`);
+      }
+      filters.divisionFilter = value.toUpperCase();
+      break;
+    case 'part':
+    case 'section':
+      if (!/^\d+$/.test(value)) {
+        throw new SearchQuerySyntaxError(`${qualifier}: needs a number, e.g. ${qualifier}:9.`);
+      }
+      filters[qualifier === 'part' ? 'partFilter' : 'sectionFilter'] = Number(value);
+      break;
+    case 'amended':
+      if (value && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
+        throw new SearchQuerySyntaxError(
+          `amended: needs a date as YYYY, YYYY-MM or YYYY-MM-DD, e.g. amended:2025-03-10.`
+        );
+      }
+      filters.amendmentsOnly = true;
+      if (value) filters.effectiveDate = value;
+      break;
+    case 'table':
+    case 'figure': {
+      const contentType: IndexableContentType = qualifier;
+      if (!filters.contentTypes?.includes(contentType)) {
+        filters.contentTypes = [...(filters.contentTypes || []), contentType];
+      }
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/**
+ * Parse a search query
+ *
+ * @param query - Query as typed in the search box
+ * @returns Parsed query
+ * @throws SearchQuerySyntaxError with a message explaining how to fix the query
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { groups: [[]], exclude: [], filters: {} };
+  const usedQualifiers = new Set<Qualifier>();
+  let pendingOperator: string | null = 'start';
+
+  for (const token of tokenize(query)) {
+    const operator = !token.phrase && !token.negated && !token.qualifier && /^(AND|OR)$/.test(token.text)
+      ? token.text
+      : null;
+
+    if (operator) {
+      if (pendingOperator) {
+        throw new SearchQuerySyntaxError(
+          pendingOperator === 'start'
+            ? `${operator} needs a search term before it.`
+            : `${pendingOperator} ${operator} is missing a search term in between.`
+        );
+      }
+      if (operator === 'OR') parsed.groups.push([]);
+      pendingOperator = operator;
+      continue;
+    }
+
+    if (token.qualifier && token.qualifier !== 'title') {
+      applyFilter(token, parsed.filters, usedQualifiers);
+      // table:span and figure:span also search for the term
+      if (token.qualifier !== 'table' && token.qualifier !== 'figure') continue;
+    } else if (token.qualifier === 'title' && !token.text) {
+      throw new SearchQuerySyntaxError('title: needs a word or phrase, e.g. title:guard or title:"guard height".');
+    }
+
+    if (!token.text) continue;
+
+    const term: SearchQueryTerm = { text: token.text, phrase: token.phrase };
+    if (token.qualifier === 'title') term.field = 'title';
+
+    if (token.negated) {
+      parsed.exclude.push(term);
+    } else {
+      parsed.groups[parsed.groups.length - 1].push(term);
+      pendingOperator = null;
+    }
+  }
+
+  if (pendingOperator && pendingOperator !== 'start') {
+    throw new SearchQuerySyntaxError(`${pendingOperator} needs a search term after it.`);
+  }
+
+  if (parsed.groups.every((group) => group.length === 0)) {
+    const given = parsed.exclude.length > 0 || usedQualifiers.size > 0;
+    throw new SearchQuerySyntaxError(
+      given
+        ? 'Add a word or phrase to search for along with the exclusions and filters.'
+        : 'Enter a word or phrase to search for.'
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Positive words and phrases of a parsed query (for highlighting)
+ */
+export function getQueryTerms(parsed: ParsedSearchQuery): string[] {
+  return Array.from(new Set(parsed.groups.flat().map((term) => term.text)));
+}
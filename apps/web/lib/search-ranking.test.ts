@@ -0,0 +1,108 @@
+/**
+ * Relevance tests for config-driven search ranking
+ */
+
+import { createRankingModel } from '@bc-building-code/search-indexer/ranking';
+import { DEFAULT_INDEXER_CONFIG } from '@bc-building-code/search-indexer/config';
+import type { RankingModel, SearchDocument } from '@bc-building-code/search-indexer';
+import { SearchEngine } from './search-engine';
+
+const createDocument = (id: string, overrides: Partial<SearchDocument> = {}): SearchDocument =>
+  ({
+    id,
+    type: 'article',
+    articleNumber: '',
+    title: 'General',
+    text: '',
+    path: '',
+    divisionLetter: 'B',
+    hasAmendment: false,
+    searchPriority: 5,
+    ...overrides,
+  }) as SearchDocument;
+
+const ids = (engine: SearchEngine, query: string) => engine.search(query).map((result) => result.document.id);
+
+const rankWith = (documents: SearchDocument[], model: Partial<RankingModel> = {}) =>
+  new SearchEngine(documents, undefined, { ...createRankingModel(DEFAULT_INDEXER_CONFIG, documents), ...model });
+
+describe('search relevance', () => {
+  it('should weight fields by their configured scoreWeight', () => {
+    const documents = [
+      createDocument('text', { text: 'Guards are required around openings in floors' }),
+      createDocument('title', { title: 'Guards', text: 'Required around openings in floors' }),
+    ];
+
+    expect(ids(rankWith(documents), 'guards')).toEqual(['title', 'text']);
+
+    const titleIgnored = DEFAULT_INDEXER_CONFIG.fields.map((field) =>
+      field.field === 'title' ? { ...field, scoreWeight: 0 } : field
+    );
+    expect(ids(rankWith(documents, { fields: titleIgnored }), 'guards')).toEqual(['text', 'title']);
+  });
+
+  it('should rank rare words above common ones', () => {
+    const documents = [
+      createDocument('common', { text: 'Stairs in dwelling units' }),
+      createDocument('rare', { text: 'Winders in dwelling units' }),
+      createDocument('other1', { text: 'Stairs serving exits' }),
+      createDocument('other2', { text: 'Stairs and ramps' }),
+    ];
+
+    expect(ids(rankWith(documents), 'stairs OR winders')[0]).toBe('rare');
+  });
+
+  it('should rank repeated words and shorter fields higher', () => {
+    const documents = [
+      createDocument('once', { text: 'Handrails on stairs with risers and landings' }),
+      createDocument('repeated', { text: 'Handrails on stairs and handrails on ramps' }),
+      createDocument('long', { text: 'Handrails on stairs with risers and landings in exits serving assembly occupancies' }),
+    ];
+
+    expect(ids(rankWith(documents), 'handrails')).toEqual(['repeated', 'once', 'long']);
+  });
+
+  it('should boost query words close together', () => {
+    const documents = [
+      createDocument('apart', { text: 'fire stops where openings pass through walls and a separation' }),
+      createDocument('adjacent', { text: 'a fire separation where openings pass through walls and stops' }),
+    ];
+
+    const results = rankWith(documents).search('fire separation');
+    expect(results.map((result) => result.document.id)).toEqual(['adjacent', 'apart']);
+    expect(results[0].score / results[1].score).toBeCloseTo(DEFAULT_INDEXER_CONFIG.ranking.proximity.boost);
+
+    const noProximity = rankWith(documents, { proximity: { window: 8, boost: 1 } }).search('fire separation');
+    expect(noProximity[0].score).toBeCloseTo(noProximity[1].score);
+  });
+
+  it('should apply content type priorities and amendment boosts from the model', () => {
+    const documents = [
+      createDocument('article', { text: 'Joist spans for floors' }),
+      createDocument('amended', { text: 'Joist spans for decks', hasAmendment: true }),
+      createDocument('table', { type: 'table', text: 'Joist spans for roofs' }),
+    ];
+
+    // Table priority 7; article priority 5, x1.5 when amended
+    expect(ids(rankWith(documents), 'joist')).toEqual(['amended', 'table', 'article']);
+
+    const contentTypes = {
+      ...createRankingModel(DEFAULT_INDEXER_CONFIG, documents).contentTypes,
+      article: { priority: 5, amendmentBoost: 1 },
+    };
+    expect(ids(rankWith(documents, { contentTypes }), 'joist')).toEqual(['table', 'article', 'amended']);
+  });
+
+  it('should boost documents whose title contains the query', () => {
+    const documents = [
+      createDocument('partial', { title: 'Guards for Decks', text: 'Guards around landings' }),
+      createDocument('exact', { title: 'Guard Height', text: 'Guard height for landings' }),
+    ];
+
+    const results = rankWith(documents).search('guard height');
+    expect(results[0].document.id).toBe('exact');
+
+    const unboosted = rankWith(documents, { titleMatchBoost: 1 }).search('guard height');
+    expect(results[0].score / unboosted[0].score).toBeCloseTo(DEFAULT_INDEXER_CONFIG.ranking.titleMatchBoost);
+  });
+});
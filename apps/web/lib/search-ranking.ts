@@ -0,0 +1,160 @@
+/**
+ * Search Ranking
+ *
+ * Scores search results with the ranking model from metadata.json:
+ *
+ * - Term weighting: BM25 per field (rare words and repeated words in short
+ *   fields score higher), multiplied by the field's scoreWeight
+ * - Proximity: query words close together in a field multiply the score, up
+ *   to proximity.boost for adjacent words
+ * - Content type: priority, and amendmentBoost for amended provisions
+ * - Title match: titleMatchBoost when the query appears in the title
+ */
+
+import { getFieldText, tokenizeForRanking } from '@bc-building-code/search-indexer/ranking';
+import type { RankingModel, SearchDocument } from '@bc-building-code/search-indexer';
+import type { SearchQueryTerm } from './search-query';
+
+/**
+ * Query group (OR alternative) a document matched, with the fields it was found in
+ */
+export interface GroupMatch {
+  group: SearchQueryTerm[];
+  fields: string[];
+}
+
+/**
+ * Upper bound of cached document frequencies (the cache is cleared when full)
+ */
+const MAX_CACHED_FREQUENCIES = 5000;
+
+/**
+ * Scores documents against a query with a ranking model
+ */
+export class SearchRanker {
+  private fieldWeights: Map<string, number>;
+  private documentFrequencies: Map<string, number> = new Map();
+
+  /**
+   * @param model - Ranking model (from metadata.json)
+   * @param documentCount - Number of indexed documents
+   * @param countDocuments - Number of documents containing a word (as a word prefix) in a field
+   */
+  constructor(
+    private model: RankingModel,
+    private documentCount: number,
+    private countDocuments: (word: string, field: string) => number
+  ) {
+    this.fieldWeights = new Map(model.fields.map(({ field, scoreWeight }) => [field, scoreWeight]));
+  }
+
+  /**
+   * Score a document
+   *
+   * @param doc - Matched document
+   * @param matches - Query groups the document matched, with their fields
+   * @returns Relevance score (higher is better)
+   */
+  score(doc: SearchDocument, matches: GroupMatch[]): number {
+    const tokenCache = new Map<string, string[]>();
+    const tokens = (field: string): string[] => {
+      if (!tokenCache.has(field)) tokenCache.set(field, tokenizeForRanking(getFieldText(doc, field)));
+      return tokenCache.get(field)!;
+    };
+
+    let score = 0;
+    let proximity = 1;
+
+    for (const { group, fields } of matches) {
+      const words = Array.from(new Set(group.flatMap((term) => tokenizeForRanking(term.text))));
+
+      for (const field of new Set(fields)) {
+        score += (this.fieldWeights.get(field) ?? 0) * this.termWeight(tokens(field), field, words);
+        proximity = Math.max(proximity, this.proximityBoost(tokens(field), words));
+      }
+    }
+
+    score *= proximity;
+    score *= this.contentTypeFactor(doc);
+
+    // Boost exact query match in title
+    const title = doc.title.toLowerCase();
+    if (matches.some(({ group }) => title.includes(group.map((term) => term.text).join(' ').toLowerCase()))) {
+      score *= this.model.titleMatchBoost;
+    }
+
+    return score;
+  }
+
+  /**
+   * BM25 weight of the query words in a field
+   */
+  private termWeight(fieldTokens: string[], field: string, words: string[]): number {
+    const { k1, b } = this.model.termWeighting;
+    const averageLength = this.model.averageFieldLengths[field] || fieldTokens.length || 1;
+    const lengthNorm = 1 - b + b * (fieldTokens.length / averageLength);
+
+    return words.reduce((sum, word) => {
+      const frequency = fieldTokens.filter((token) => token.startsWith(word)).length;
+      if (frequency === 0) return sum;
+      return sum + this.inverseDocumentFrequency(word, field) * ((frequency * (k1 + 1)) / (frequency + k1 * lengthNorm));
+    }, 0);
+  }
+
+  /**
+   * BM25 inverse document frequency of a word in a field
+   */
+  private inverseDocumentFrequency(word: string, field: string): number {
+    const key = `${field}:${word}`;
+    let frequency = this.documentFrequencies.get(key);
+    if (frequency === undefined) {
+      if (this.documentFrequencies.size >= MAX_CACHED_FREQUENCIES) this.documentFrequencies.clear();
+      frequency = this.countDocuments(word, field);
+      this.documentFrequencies.set(key, frequency);
+    }
+
+    return Math.log(1 + (this.documentCount - frequency + 0.5) / (frequency + 0.5));
+  }
+
+  /**
+   * Proximity multiplier from the shortest span of a field containing every query word
+   */
+  private proximityBoost(fieldTokens: string[], words: string[]): number {
+    const { window, boost } = this.model.proximity;
+    if (words.length < 2) return 1;
+
+    // Positions of tokens matching each word, in order
+    const hits: Array<{ position: number; word: number }> = [];
+    fieldTokens.forEach((token, position) => {
+      words.forEach((word, index) => {
+        if (token.startsWith(word)) hits.push({ position, word: index });
+      });
+    });
+
+    // Shortest window containing every word
+    const counts = new Array<number>(words.length).fill(0);
+    let found = 0;
+    let shortest = Infinity;
+    let left = 0;
+    for (const hit of hits) {
+      if (counts[hit.word]++ === 0) found++;
+      while (found === words.length) {
+        shortest = Math.min(shortest, hit.position - hits[left].position + 1);
+        if (--counts[hits[left].word] === 0) found--;
+        left++;
+      }
+    }
+
+    if (shortest > window) return 1;
+    return 1 + (boost - 1) * Math.min(1, words.length / shortest);
+  }
+
+  /**
+   * Content type priority, with the amendment boost for amended provisions
+   */
+  private contentTypeFactor(doc: SearchDocument): number {
+    const contentType = this.model.contentTypes[doc.type];
+    if (!contentType) return doc.searchPriority;
+    return contentType.priority * (doc.hasAmendment ? contentType.amendmentBoost : 1);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * BCBC Search Worker Protocol
+ *
+ * Messages exchanged between the search client (main thread) and the search
+ * worker, and the worker-side message handler.
+ *
+ * Every query carries a request ID that its response echoes. The client cancels
+ * a query it no longer needs (e.g. the user typed another character) by posting
+ * `cancel` with that ID; the worker answers `cancelled` instead of running it.
+ */
+
+import type { SearchMetadata, SearchOptions } from '@bc-building-code/search-indexer';
+import { loadSearchEngine, type SearchEngine, type SearchResult } from './search-engine';
+
+/**
+ * Query sent to the worker (answered with a response carrying the same ID)
+ */
+export type SearchWorkerQuery =
+  | { type: 'init'; version: string; documentsUrl?: string; metadataUrl?: string; indexUrl?: string }
+  | { type: 'search'; version: string; query: string; options: SearchOptions }
+  | { type: 'suggest'; version: string; query: string; limit: number };
+
+/**
+ * Message from the client to the worker
+ */
+export type SearchWorkerRequest =
+  | (SearchWorkerQuery & { id: number })
+  | { type: 'cancel'; id: number }
+  | { type: 'clear'; version?: string };
+
+/**
+ * Message from the worker to the client
+ */
+export type SearchWorkerResponse =
+  | { type: 'ready'; id: number; metadata: SearchMetadata }
+  | { type: 'results'; id: number; results: SearchResult[] }
+  | { type: 'suggestions'; id: number; suggestions: string[] }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string; name?: string };
+
+/**
+ * Let messages already queued (such as cancellations) be handled before running a query
+ */
+function yieldToMessages(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Create the worker-side message handler
+ * Keeps one search engine per version and answers queries through `post`
+ *
+ * @param post - Sends a response to the client (postMessage in the worker)
+ * @returns Handler for messages from the client
+ */
+export function createSearchWorkerHandler(
+  post: (response: SearchWorkerResponse) => void
+): (request: SearchWorkerRequest) => Promise<void> {
+  const engines = new Map<string, Promise<SearchEngine>>();
+  const activeQueries = new Set<number>();
+  const cancelledQueries = new Set<number>();
+
+  const runQuery = async (request: SearchWorkerQuery & { id: number }): Promise<void> => {
+    activeQueries.add(request.id);
+
+    try {
+      if (request.type === 'init') {
+        const loading = loadSearchEngine(request.version, request.documentsUrl, request.metadataUrl, request.indexUrl);
+        const engine = loading.then((data) => data.engine);
+        engines.set(request.version, engine);
+        engine.catch(() => {
+          if (engines.get(request.version) === engine) engines.delete(request.version);
+        });
+
+        // The client loads its own copy of the documents, so only the metadata goes back
+        const { metadata } = await loading;
+        post({ type: 'ready', id: request.id, metadata });
+        return;
+      }
+
+      const engine = engines.get(request.version);
+      if (!engine) {
+        throw new Error(`Search index for version ${request.version} is not initialized`);
+      }
+
+      // Queries arriving while the index builds wait here; stale ones get cancelled meanwhile
+      const readyEngine = await engine;
+      await yieldToMessages();
+      if (cancelledQueries.has(request.id)) {
+        post({ type: 'cancelled', id: request.id });
+        return;
+      }
+
+      switch (request.type) {
+        case 'search':
+          post({ type: 'results', id: request.id, results: readyEngine.search(request.query, request.options) });
+          break;
+        case 'suggest':
+          post({ type: 'suggestions', id: request.id, suggestions: readyEngine.getSuggestions(request.query, request.limit) });
+          break;
+      }
+    } catch (error) {
+      post({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error),
+        // Lets the client rethrow query syntax errors as SearchQuerySyntaxError
+        name: error instanceof Error ? error.name : undefined,
+      });
+    } finally {
+      activeQueries.delete(request.id);
+      cancelledQueries.delete(request.id);
+    }
+  };
+
+  return async (request) => {
+    switch (request.type) {
+      case 'cancel':
+        if (activeQueries.has(request.id)) cancelledQueries.add(request.id);
+        return;
+      case 'clear':
+        if (request.version) {
+          engines.delete(request.version);
+        } else {
+          engines.clear();
+        }
+        return;
+      default:
+        return runQuery(request);
+    }
+  };
+}
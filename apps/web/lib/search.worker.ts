@@ -0,0 +1,14 @@
+/**
+ * BCBC Search Worker
+ *
+ * Builds the FlexSearch index and runs queries off the main thread.
+ * Created by the search client; see search-worker-protocol.ts for the messages.
+ */
+
+import { createSearchWorkerHandler, type SearchWorkerRequest } from './search-worker-protocol';
+
+const handleMessage = createSearchWorkerHandler((response) => self.postMessage(response));
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  handleMessage(event.data);
+};
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for unit conversion utilities
+ */
+
+import {
+  normalizeUnit,
+  detectMeasurements,
+  convertMeasurement,
+  splitMeasurements,
+  formatImperial,
+  formatFeetAndInches,
+  type ConversionFactor,
+} from './unit-conversion';
+
+const factors: ConversionFactor[] = [
+  { fromUnit: 'mm', toUnit: 'in.', factor: 0.03937, expression: 'mm × 0.03937 = in.' },
+  { fromUnit: 'm', toUnit: 'ft', factor: 3.281, expression: 'm × 3.281 = ft' },
+  { fromUnit: 'm²', toUnit: 'ft²', factor: 10.76, expression: 'm² × 10.76 = ft²' },
+  { fromUnit: 'kPa', toUnit: 'psf', factor: 20.89, expression: 'kPa × 20.89 = psf' },
+  { fromUnit: 'L/s', toUnit: 'gpm', factor: 13.2, expression: 'L/s × 13.2 = gpm (imp.)' },
+  { fromUnit: '°C', toUnit: '°F', factor: 1.8, offset: 32, expression: '°C × 1.8 + 32 = °F' },
+];
+
+describe('normalizeUnit', () => {
+  it('should map ASCII spellings to canonical units', () => {
+    expect(normalizeUnit('m2')).toBe('m²');
+    expect(normalizeUnit('l/s')).toBe('L/s');
+  });
+
+  it('should leave canonical units unchanged', () => {
+    expect(normalizeUnit('kPa')).toBe('kPa');
+  });
+});
+
+describe('detectMeasurements', () => {
+  it('should detect measurements with space-grouped digits', () => {
+    const result = detectMeasurements('not less than 1 200 mm above the floor', factors);
+    expect(result).toEqual([{ text: '1 200 mm', value: 1200, unit: 'mm', index: 14 }]);
+  });
+
+  it('should prefer the longest unit', () => {
+    const result = detectMeasurements('a width of 900 mm and a length of 3 m', factors);
+    expect(result.map((m) => m.unit)).toEqual(['mm', 'm']);
+  });
+
+  it('should normalize aliased units', () => {
+    const result = detectMeasurements('an area of 9.5 m2', factors);
+    expect(result[0]).toMatchObject({ value: 9.5, unit: 'm²' });
+  });
+
+  it('should detect compound and symbol units', () => {
+    const result = detectMeasurements('0.3 L/s at 2.4 kPa and 21°C', factors);
+    expect(result.map((m) => m.unit)).toEqual(['L/s', 'kPa', '°C']);
+  });
+
+  it('should not match units inside words or references', () => {
+    expect(detectMeasurements('Article 9.10.14.1 applies to 3 mats', factors)).toEqual([]);
+  });
+
+  it('should return no matches without factors', () => {
+    expect(detectMeasurements('1 200 mm', [])).toEqual([]);
+  });
+});
+
+describe('convertMeasurement', () => {
+  it('should convert using the factor', () => {
+    const result = convertMeasurement(2.4, 'kPa', factors);
+    expect(result?.unit).toBe('psf');
+    expect(result?.display).toBe('50.1 psf');
+  });
+
+  it('should apply the offset for temperatures', () => {
+    expect(convertMeasurement(20, '°C', factors)?.value).toBe(68);
+  });
+
+  it('should return null for units without a factor', () => {
+    expect(convertMeasurement(5, 'kg', factors)).toBeNull();
+  });
+});
+
+describe('formatImperial', () => {
+  it('should show feet and inches for long inch values', () => {
+    expect(formatImperial(47.244, 'in.')).toBe('3 ft 11 1/4 in.');
+  });
+
+  it('should round short values to three significant figures', () => {
+    expect(formatImperial(3.5433, 'in.')).toBe('3.54 in.');
+  });
+});
+
+describe('formatFeetAndInches', () => {
+  it('should omit zero inches', () => {
+    expect(formatFeetAndInches(24)).toBe('2 ft');
+  });
+
+  it('should show fractions of an inch', () => {
+    expect(formatFeetAndInches(12.125)).toBe('1 ft 1/8 in.');
+  });
+});
+
+describe('splitMeasurements', () => {
+  it('should split text into plain runs and measurements', () => {
+    const segments = splitMeasurements('at least 1 200 mm wide', factors);
+
+    expect(segments.map((s) => s.type)).toEqual(['text', 'measurement', 'text']);
+    expect(segments[0]).toEqual({ type: 'text', text: 'at least ' });
+    expect(segments[2]).toEqual({ type: 'text', text: ' wide' });
+    const measurement = segments[1];
+    expect(measurement.type === 'measurement' && measurement.converted.display).toBe(
+      '3 ft 11 1/4 in.'
+    );
+  });
+
+  it('should return the text as a single run when nothing is detected', () => {
+    expect(splitMeasurements('no measurements here', factors)).toEqual([
+      { type: 'text', text: 'no measurements here' },
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Unit Conversion Utilities for BC Building Code Interactive Web App
+ *
+ * Detects metric measurements in clause text (e.g., "1 200 mm", "2.5 kPa",
+ * "0.3 L/s") and converts them to imperial equivalents using the conversion
+ * factors generated from the code's conversions table (conversions.json).
+ *
+ * Numbers follow the code's SI style: spaces group digits ("1 200").
+ */
+
+/**
+ * Conversion factor from conversions.json (imperial = metric × factor + offset)
+ */
+export interface ConversionFactor {
+  fromUnit: string;
+  toUnit: string;
+  factor: number;
+  offset?: number;
+  expression: string;
+}
+
+/**
+ * Measurement detected in text
+ */
+export interface MeasurementMatch {
+  /** Matched text (e.g., "1 200 mm") */
+  text: string;
+  /** Numeric value (e.g., 1200) */
+  value: number;
+  /** Canonical metric unit (e.g., "mm", "m²") */
+  unit: string;
+  /** Start offset in the source text */
+  index: number;
+}
+
+/**
+ * Imperial equivalent of a measurement
+ */
+export interface ConvertedMeasurement {
+  value: number;
+  unit: string;
+  /** Formatted for display (e.g., "3 ft 11 1/4 in.", "52.2 psf") */
+  display: string;
+}
+
+/**
+ * Text split into plain runs and measurements
+ */
+export type MeasurementSegment =
+  | { type: 'text'; text: string }
+  | { type: 'measurement'; text: string; match: MeasurementMatch; converted: ConvertedMeasurement };
+
+/**
+ * ASCII spellings of units that appear in clause text
+ */
+const UNIT_ALIASES: Record<string, string> = {
+  mm2: 'mm²',
+  cm2: 'cm²',
+  m2: 'm²',
+  km2: 'km²',
+  mm3: 'mm³',
+  cm3: 'cm³',
+  m3: 'm³',
+  'm^2': 'm²',
+  'm^3': 'm³',
+  l: 'L',
+  'l/s': 'L/s',
+  'L/sec': 'L/s',
+  '° C': '°C',
+};
+
+/**
+ * SI number: digit groups separated by spaces, optional decimals
+ */
+const NUMBER_PATTERN = '\\d{1,3}(?:[ \\u00a0]\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+
+/**
+ * Normalize a unit spelling to the canonical unit used in conversions.json
+ */
+export function normalizeUnit(unit: string): string {
+  return UNIT_ALIASES[unit] || unit;
+}
+
+/**
+ * Build the measurement pattern for the units available in the factors
+ */
+function buildMeasurementPattern(factors: ConversionFactor[]): RegExp | null {
+  const canonicalUnits = new Set(factors.map((f) => f.fromUnit));
+  const spellings = [
+    ...canonicalUnits,
+    ...Object.keys(UNIT_ALIASES).filter((alias) => canonicalUnits.has(UNIT_ALIASES[alias])),
+  ];
+  if (spellings.length === 0) return null;
+
+  // Longest first so "mm" wins over "m" and "L/s" over "L"
+  const unitPattern = spellings
+    .sort((a, b) => b.length - a.length)
+    .map((unit) => unit.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('|');
+
+  return new RegExp(
+    `(?<![\\w.])(${NUMBER_PATTERN})[ \\u00a0]?(${unitPattern})(?![\\w²³/^])`,
+    'g'
+  );
+}
+
+/**
+ * Detect metric measurements in text
+ *
+ * @param text - Plain text (references already rendered or stripped)
+ * @param factors - Conversion factors (only their units are detected)
+ * @returns Measurements in order of appearance
+ */
+export function detectMeasurements(text: string, factors: ConversionFactor[]): MeasurementMatch[] {
+  const pattern = buildMeasurementPattern(factors);
+  if (!pattern || !text) return [];
+
+  const matches: MeasurementMatch[] = [];
+  let match;
+
+  while ((match = pattern.exec(text)) !== null) {
+    matches.push({
+      text: match[0],
+      value: parseFloat(match[1].replace(/[ \u00a0]/g, '')),
+      unit: normalizeUnit(match[2]),
+      index: match.index,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Convert a metric value to its imperial equivalent
+ *
+ * @param value - Metric value
+ * @param unit - Metric unit (any supported spelling)
+ * @param factors - Conversion factors
+ * @returns Converted measurement, or null if no factor exists for the unit
+ */
+export function convertMeasurement(
+  value: number,
+  unit: string,
+  factors: ConversionFactor[]
+): ConvertedMeasurement | null {
+  const factor = factors.find((f) => f.fromUnit === normalizeUnit(unit));
+  if (!factor) return null;
+
+  const converted = value * factor.factor + (factor.offset || 0);
+
+  return {
+    value: converted,
+    unit: factor.toUnit,
+    display: formatImperial(converted, factor.toUnit),
+  };
+}
+
+/**
+ * Split text into plain runs and converted measurements
+ *
+ * @param text - Plain text
+ * @param factors - Conversion factors
+ * @returns Segments covering the whole text
+ */
+export function splitMeasurements(text: string, factors: ConversionFactor[]): MeasurementSegment[] {
+  const segments: MeasurementSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of detectMeasurements(text, factors)) {
+    const converted = convertMeasurement(match.value, match.unit, factors);
+    if (!converted) continue;
+
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'measurement', text: match.text, match, converted });
+    lastIndex = match.index + match.text.length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Format an imperial value for display
+ *
+ * Inch values of a foot or more are shown as feet and inches, rounded to
+ * the nearest 1/8 in. Other values are rounded to three significant figures.
+ */
+export function formatImperial(value: number, unit: string): string {
+  if (/^in\.?$/.test(unit) && Math.abs(value) >= 12) {
+    return formatFeetAndInches(value);
+  }
+  return `${formatNumber(value)} ${unit}`;
+}
+
+/**
+ * Format inches as feet and inches (e.g., 47.24 → "3 ft 11 1/4 in.")
+ */
+export function formatFeetAndInches(totalInches: number): string {
+  const eighths = Math.round(totalInches * 8);
+  const feet = Math.floor(eighths / 96);
+  const remainingEighths = eighths - feet * 96;
+  const inches = Math.floor(remainingEighths / 8);
+  const fraction = reduceEighths(remainingEighths % 8);
+
+  const inchText = [inches > 0 || !fraction ? String(inches) : '', fraction]
+    .filter(Boolean)
+    .join(' ');
+
+  return inchText === '0' ? `${feet} ft` : `${feet} ft ${inchText} in.`;
+}
+
+/**
+ * Reduce a count of eighths to a fraction string (e.g., 2 → "1/4")
+ */
+function reduceEighths(eighths: number): string {
+  if (eighths === 0) return '';
+  let numerator = eighths;
+  let denominator = 8;
+  while (numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+  return `${numerator}/${denominator}`;
+}
+
+/**
+ * Round to three significant figures without trailing zeros
+ */
+function formatNumber(value: number): string {
+  if (value === 0) return '0';
+  return String(Number(value.toPrecision(3)));
+}
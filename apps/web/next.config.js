@@ -9,7 +9,7 @@ const nextConfig = {
   // Exclude FlexSearch from server-side bundling
   serverExternalPackages: ['flexsearch'],
   // Transpile monorepo packages
-  transpilePackages: ['@repo/ui', '@repo/data', '@repo/constants'],
+  transpilePackages: ['@repo/ui', '@repo/data', '@repo/constants', '@bc-building-code/search-indexer'],
 };
 
 module.exports = nextConfig;
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { useVersionStore } from './version-store';
+import { getDateStatus, type DateStatus } from '@/lib/point-in-time';
 
 /**
  * Amendment date interface
@@ -9,7 +10,10 @@ export interface AmendmentDate {
   date: string;
   label: string;
   description?: string;
+  /** Latest date already in force */
   isLatest?: boolean;
+  /** Pending dates come into force in the future and can only be previewed */
+  status: DateStatus;
 }
 
 /**
@@ -22,6 +26,8 @@ interface AmendmentDateStore {
   loading: boolean;
   initialized: boolean;
   setSelectedDate: (date: string | null) => void;
+  getSelectedDateStatus: () => DateStatus | null;
+  getLatestInForceDate: () => string | null;
   loadDates: (version: string, options?: { preserveUrlDate?: boolean }) => Promise<void>;
   initializeFromUrl: () => void;
 }
@@ -31,8 +37,10 @@ interface AmendmentDateStore {
  * Manages selected amendment date and available dates
  * 
  * URL Sync Behavior:
- * - On initial load: Read date from URL if present, otherwise use latest
- * - On version change: Reset to latest date, update URL
+ * - On initial load: Read date from URL if present, otherwise use latest in force
+ * - On version change: Reset to latest date in force, update URL
+ *
+ * Future (pending) dates stay selectable so readers can preview them.
  * - On date change: Update URL
  */
 export const useAmendmentDateStore = create<AmendmentDateStore>()(
@@ -63,6 +71,23 @@ export const useAmendmentDateStore = create<AmendmentDateStore>()(
           }
         },
 
+        /**
+         * Whether the selected date is in force or a preview of a future date
+         */
+        getSelectedDateStatus: () => {
+          const { selectedDate } = get();
+          return selectedDate ? getDateStatus(selectedDate) : null;
+        },
+
+        /**
+         * Latest available date already in force (dates are newest first)
+         */
+        getLatestInForceDate: () => {
+          const { availableDates } = get();
+          const latest = availableDates.find(d => d.status === 'in-force') || availableDates[0];
+          return latest?.date || null;
+        },
+
         /**
          * Initialize date from URL on first load
          * Called once after versions are loaded
@@ -101,12 +126,17 @@ export const useAmendmentDateStore = create<AmendmentDateStore>()(
             const rawData = await response.json();
             
             // Transform the data from JSON format to store format
-            const transformedDates: AmendmentDate[] = (rawData.dates || []).map((d: any, index: number) => ({
+            // (the build ships only effective dates; status is worked out against today here)
+            const transformedDates: AmendmentDate[] = (rawData.dates || []).map((d: any) => ({
               date: d.effectiveDate,
               label: d.displayDate,
               description: `${d.count} ${d.type === 'original' ? 'original provisions' : 'amendments'}`,
-              isLatest: index === 0
+              status: getDateStatus(d.effectiveDate),
             }));
+            const latestInForce = transformedDates.find(d => d.status === 'in-force') || transformedDates[0];
+            if (latestInForce) {
+              latestInForce.isLatest = true;
+            }
             
             // Cache dates by version
             const { datesByVersion, selectedDate } = get();
@@ -122,12 +152,12 @@ export const useAmendmentDateStore = create<AmendmentDateStore>()(
               if (isValidDate) {
                 dateToSelect = selectedDate;
               } else {
-                // URL date not valid for this version, use latest
-                dateToSelect = transformedDates[0]?.date || null;
+                // URL date not valid for this version, use latest in force
+                dateToSelect = latestInForce?.date || null;
               }
             } else {
-              // Version changed or no URL date - use latest
-              dateToSelect = transformedDates[0]?.date || null;
+              // Version changed or no URL date - use latest in force
+              dateToSelect = latestInForce?.date || null;
             }
             
             set({ 
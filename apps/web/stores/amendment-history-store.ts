@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { useVersionStore } from './version-store';
+
+/**
+ * BC amendment to one provision (from amendment-history.json)
+ */
+export interface AmendmentRecord {
+  locationId: string;
+  type: 'original' | 'revision' | 'annotation' | 'insert' | 'replace' | 'modify' | 'delete' | 'remove';
+  amendmentId?: string;
+  revisionId?: string;
+  revisionType?: 'amendment' | 'errata' | 'policy' | 'accessibility' | 'correction';
+  annotationType?: string;
+  sequence?: number;
+  effectiveDate?: string;
+  status?: 'current' | 'superseded';
+  content: string;  // Wording put in force (annotation text for annotations)
+  changeSummary?: string;
+  note?: string;
+}
+
+/**
+ * Amendment history store state interface
+ */
+interface AmendmentHistoryStore {
+  amendments: Record<string, AmendmentRecord[]>;
+  loadedVersion: string | null;
+  loading: boolean;
+  getHistory: (provisionId: string, includeDescendants?: boolean) => AmendmentRecord[];
+  loadAmendmentHistory: (version?: string) => Promise<void>;
+}
+
+/**
+ * Amendment history store
+ * Manages the BC amendment records of each provision for the current version
+ */
+export const useAmendmentHistoryStore = create<AmendmentHistoryStore>()(
+  devtools(
+    (set, get) => ({
+      amendments: {},
+      loadedVersion: null,
+      loading: false,
+
+      /**
+       * Get the amendments to a provision, oldest first
+       * (with includeDescendants, also those to its sentences and clauses)
+       */
+      getHistory: (provisionId, includeDescendants = true) => {
+        const { amendments } = get();
+        const records = Object.entries(amendments)
+          .filter(([locationId]) =>
+            locationId === provisionId ||
+            (includeDescendants && locationId.startsWith(`${provisionId}.`))
+          )
+          .flatMap(([, locationRecords]) => locationRecords);
+
+        return records.sort((a, b) =>
+          (a.effectiveDate || '').localeCompare(b.effectiveDate || '') ||
+          (a.sequence ?? 0) - (b.sequence ?? 0)
+        );
+      },
+
+      loadAmendmentHistory: async (version) => {
+        const versionStore = useVersionStore.getState();
+        const dataPath = versionStore.getVersionDataPath(version);
+        const versionId = version || versionStore.currentVersion || '2024';
+
+        // Already loaded for this version
+        if (get().loadedVersion === versionId) return;
+
+        set({ loading: true });
+        try {
+          const response = await fetch(`${dataPath}/amendment-history.json`);
+          if (response.ok) {
+            const data = await response.json();
+            set({ amendments: data.amendments || {}, loadedVersion: versionId, loading: false });
+          } else {
+            console.error('Failed to load amendment history');
+            set({ amendments: {}, loading: false });
+          }
+        } catch (error) {
+          console.error('Error loading amendment history:', error);
+          set({ amendments: {}, loading: false });
+        }
+      },
+    }),
+    { name: 'amendment-history-store' }
+  )
+);
@@ -1,6 +1,32 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { useVersionStore } from './version-store';
+import { useAmendmentDateStore } from './amendment-date-store';
+import { useAmendmentHistoryStore } from './amendment-history-store';
+import { materializeArticle } from '@/lib/point-in-time';
+
+/**
+ * Revision interface (one version of a provision's wording)
+ */
+export interface Revision {
+  type: 'original' | 'revision';
+  effectiveDate: string;
+  revisionType?: 'amendment' | 'errata' | 'policy' | 'accessibility' | 'correction';
+  revisionId?: string;
+  sequence?: number;
+  status?: 'current' | 'superseded';
+  deleted?: boolean;
+  changeSummary?: string;
+  note?: string;
+}
+
+/**
+ * BC-specific annotation (where a sentence departs from the National Building Code)
+ */
+export interface BCAnnotation {
+  type: string;
+  content: string;
+}
 
 /**
  * Clause interface
@@ -14,6 +40,11 @@ export interface Clause {
   tables?: Table[];
   figures?: Figure[];
   equations?: Equation[];
+  bcAnnotations?: BCAnnotation[];
+  deleted?: boolean;
+  revisions?: Revision[];
+  /** Set by point-in-time materialisation when the wording on the date is not recorded (current wording kept) */
+  wordingUnavailable?: boolean;
 }
 
 /**
@@ -43,6 +74,10 @@ export interface Table {
   headers: TableHeader[];
   rows: TableRow[];
   notes?: string[];
+  deleted?: boolean;
+  revisions?: Revision[];
+  /** Set by point-in-time materialisation when the rows on the date are not recorded (current rows kept) */
+  wordingUnavailable?: boolean;
 }
 
 /**
@@ -64,18 +99,113 @@ export interface Equation {
   number: string;
   latex: string;
   display: 'inline' | 'block';
+  plainText?: string;
+  mathml?: string;
+  image?: string;
+  imageSrc?: string;
+  description?: string;
 }
 
 /**
- * Note reference interface
+ * Note reference interface (resolved application note)
  */
 export interface NoteReference {
+  id: string;
+  noteNumber: string;
+  noteTitle: string;
+  noteContent: string;
+  relatedSections?: string[];
+}
+
+/**
+ * Application note interfaces (part appendix chunk)
+ */
+export interface NoteParagraph {
+  id: string;
+  content: string;
+}
+
+export interface NoteDivision {
+  id: string;
+  title: string;
+  paragraphs: NoteParagraph[];
+  tables?: Table[];
+  figures?: Figure[];
+}
+
+export interface ApplicationNote {
   id: string;
   number: string;
   title: string;
+  refs?: string;
+  paragraphs: NoteParagraph[];
+  divisions: NoteDivision[];
+  tables?: Table[];
+  figures?: Figure[];
+  deleted?: boolean;
+  revisions?: Revision[];
+}
+
+export interface PartAppendix {
+  id: string;
+  type: 'part_appendix';
+  introduction?: string;
+  applicationNotes: ApplicationNote[];
+}
+
+/**
+ * Special tables group for a part (e.g., the Part 9 span tables)
+ */
+export interface SpecialTables {
+  id: string;
+  type: 'spectables';
+  title: string;
+  tablePrefix?: string;
+  tocEntry?: string;
+  tables: Table[];
+}
+
+/**
+ * Front matter interfaces (content/front-matter/{preface|introduction|committees} chunks)
+ */
+export interface FrontMatterTableCell {
   content: string;
+  colspan?: number;
+  rowspan?: number;
+  isHeader?: boolean;
+}
+
+export interface FrontMatterTable {
+  id: string;
+  title?: string;
+  headers: string[][];
+  rows: Array<{ cells: FrontMatterTableCell[] }>;
+}
+
+export type FrontMatterItem =
+  | { type: 'paragraph'; id: string; content: string }
+  | { type: 'heading'; id: string; content: string; level: number }
+  | ({ type: 'table' } & FrontMatterTable)
+  | { type: 'figure'; id: string; title?: string; imageUrl: string; altText: string }
+  | { type: 'list'; id: string; listType: 'bulleted' | 'numbered'; items: string[] };
+
+export interface FrontMatterSection {
+  id: string;
+  type: 'preface' | 'introduction';
+  title: string;
+  content: FrontMatterItem[];
 }
 
+export interface CommitteesSection {
+  id: string;
+  type: 'committees';
+  title: string;
+  tables: FrontMatterTable[];
+  notes: Array<{ id: string; content: string }>;
+}
+
+export type FrontMatterType = FrontMatterSection['type'] | CommitteesSection['type'];
+
 /**
  * Article interface
  */
@@ -88,6 +218,8 @@ export interface Article {
   notes: NoteReference[];
   effectiveDate?: string;
   amendedDate?: string;
+  deleted?: boolean;
+  revisions?: Revision[];
 }
 
 /**
@@ -98,7 +230,17 @@ interface ContentStore {
   loading: boolean;
   error: string | null;
   contentCache: Map<string, Article>;
+  appendixCache: Map<string, PartAppendix>;
+  specialTablesCache: Map<string, SpecialTables>;
+  frontMatterCache: Map<string, FrontMatterSection | CommitteesSection>;
   loadContent: (path: string, version?: string) => Promise<void>;
+  loadAppendix: (path: string, version?: string) => Promise<PartAppendix | null>;
+  loadSpecialTables: (path: string, version?: string) => Promise<SpecialTables | null>;
+  loadFrontMatter: (
+    type: FrontMatterType,
+    version?: string
+  ) => Promise<FrontMatterSection | CommitteesSection | null>;
+  getContentAt: (date?: string | null) => Article | null;
   clearContent: () => void;
   clearError: () => void;
 }
@@ -115,6 +257,9 @@ export const useContentStore = create<ContentStore>()(
       loading: false,
       error: null,
       contentCache: new Map(),
+      appendixCache: new Map(),
+      specialTablesCache: new Map(),
+      frontMatterCache: new Map(),
 
       loadContent: async (path, version) => {
         // Get version data path from version store
@@ -160,6 +305,116 @@ export const useContentStore = create<ContentStore>()(
         }
       },
 
+      /**
+       * Load the application notes for a part (e.g., "nbc-divb/part-9/appendix")
+       * so notes can be shown next to the articles that reference them
+       */
+      loadAppendix: async (path, version) => {
+        const versionStore = useVersionStore.getState();
+        const dataPath = versionStore.getVersionDataPath(version);
+        const versionId = version || versionStore.currentVersion || '2024';
+        const cacheKey = `${versionId}:${path}`;
+
+        const { appendixCache } = get();
+        if (appendixCache.has(cacheKey)) {
+          return appendixCache.get(cacheKey)!;
+        }
+
+        try {
+          const response = await fetch(`${dataPath}/content/${path}.json`);
+          if (!response.ok) {
+            return null;
+          }
+          const appendix: PartAppendix = await response.json();
+          const newCache = new Map(get().appendixCache);
+          newCache.set(cacheKey, appendix);
+          set({ appendixCache: newCache });
+          return appendix;
+        } catch (error) {
+          console.error('Error loading appendix:', error);
+          return null;
+        }
+      },
+
+      /**
+       * Load a special tables group (e.g., "nbc-divb/part-9/tables-spectables1")
+       */
+      loadSpecialTables: async (path, version) => {
+        const versionStore = useVersionStore.getState();
+        const dataPath = versionStore.getVersionDataPath(version);
+        const versionId = version || versionStore.currentVersion || '2024';
+        const cacheKey = `${versionId}:${path}`;
+
+        const { specialTablesCache } = get();
+        if (specialTablesCache.has(cacheKey)) {
+          return specialTablesCache.get(cacheKey)!;
+        }
+
+        try {
+          const response = await fetch(`${dataPath}/content/${path}.json`);
+          if (!response.ok) {
+            return null;
+          }
+          const specialTables: SpecialTables = await response.json();
+          const newCache = new Map(get().specialTablesCache);
+          newCache.set(cacheKey, specialTables);
+          set({ specialTablesCache: newCache });
+          return specialTables;
+        } catch (error) {
+          console.error('Error loading special tables:', error);
+          return null;
+        }
+      },
+
+      /**
+       * Load a front matter section ("preface", "introduction" or "committees")
+       */
+      loadFrontMatter: async (type, version) => {
+        const versionStore = useVersionStore.getState();
+        const dataPath = versionStore.getVersionDataPath(version);
+        const versionId = version || versionStore.currentVersion || '2024';
+        const cacheKey = `${versionId}:${type}`;
+
+        const { frontMatterCache } = get();
+        if (frontMatterCache.has(cacheKey)) {
+          return frontMatterCache.get(cacheKey)!;
+        }
+
+        try {
+          const response = await fetch(`${dataPath}/content/front-matter/${type}.json`);
+          if (!response.ok) {
+            return null;
+          }
+          const section: FrontMatterSection | CommitteesSection = await response.json();
+          const newCache = new Map(get().frontMatterCache);
+          newCache.set(cacheKey, section);
+          set({ frontMatterCache: newCache });
+          return section;
+        } catch (error) {
+          console.error('Error loading front matter:', error);
+          return null;
+        }
+      },
+
+      /**
+       * Materialise the current content as worded on an effective date
+       * (defaults to the selected amendment date; latest wording when none),
+       * using the loaded amendment history for earlier wording.
+       * Returns null when the article was not in force on that date.
+       * Returns a new object on each call, so memoise it in components.
+       */
+      getContentAt: (date) => {
+        const { currentContent } = get();
+        if (!currentContent) return null;
+
+        const effectiveDate = date === undefined
+          ? useAmendmentDateStore.getState().selectedDate
+          : date;
+        if (!effectiveDate) return currentContent;
+
+        return materializeArticle(currentContent, effectiveDate, useAmendmentHistoryStore.getState().amendments);
+      },
+
       clearContent: () => set({ currentContent: null, error: null }),
 
       clearError: () => set({ error: null }),
@@ -19,6 +19,8 @@ export { useContentStore } from './content-store';
 export type {
   Article,
   Clause,
+  Revision,
+  BCAnnotation,
   Table,
   TableHeader,
   TableCell,
@@ -26,6 +28,17 @@ export type {
   Figure,
   Equation,
   NoteReference,
+  NoteParagraph,
+  NoteDivision,
+  ApplicationNote,
+  PartAppendix,
+  SpecialTables,
+  FrontMatterTable,
+  FrontMatterTableCell,
+  FrontMatterItem,
+  FrontMatterSection,
+  CommitteesSection,
+  FrontMatterType,
 } from './content-store';
 
 export { useGlossaryStore } from './glossary-store';
@@ -34,5 +47,17 @@ export type { GlossaryEntry } from './glossary-store';
 export { useAmendmentDateStore } from './amendment-date-store';
 export type { AmendmentDate } from './amendment-date-store';
 
+export { useAmendmentHistoryStore } from './amendment-history-store';
+export type { AmendmentRecord } from './amendment-history-store';
+
+export { useVersionChangesStore } from './version-changes-store';
+export type {
+  VersionChangeType,
+  ArticleLocation,
+  ArticleChange,
+  VersionChangeGroup,
+  VersionChanges,
+} from './version-changes-store';
+
 export { useUIStore } from './ui-store';
 export type { ModalType } from './ui-store';
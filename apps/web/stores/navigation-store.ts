@@ -16,8 +16,9 @@ export interface NavigationNode {
   id: string;
   number: string;
   title: string;
-  type: 'volume' | 'division' | 'part' | 'section' | 'subsection' | 'article';
+  type: 'volume' | 'division' | 'part' | 'section' | 'subsection' | 'article' | 'spectables' | 'table';
   path: string;
+  deleted?: boolean;
   children?: NavigationNode[];
 }
 
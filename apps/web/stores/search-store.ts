@@ -9,6 +9,7 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import {
   getSearchClient,
+  SearchCancelledError,
   type SearchResult,
   type SearchOptions,
   type SearchMetadata,
@@ -18,6 +19,12 @@ import {
 } from '../lib/search-client';
 import { useVersionStore } from './version-store';
 
+/**
+ * Search client channel of the store's searches, pages and suggestions
+ * (a newer request replaces the store's pending one, not other callers')
+ */
+const SEARCH_CHANNEL = 'search-store';
+
 /**
  * Search filters interface
  */
@@ -28,6 +35,7 @@ export interface SearchFilters {
   amendmentsOnly?: boolean;
   tablesOnly?: boolean;
   figuresOnly?: boolean;
+  bcAnnotationsOnly?: boolean;
   contentTypes?: SearchableContentType[];
   effectiveDate?: string;
 }
@@ -192,7 +200,7 @@ export const useSearchStore = create<SearchStore>()(
             offset: 0,
           };
 
-          const results = await client.search(query, searchOptions, searchVersion);
+          const results = await client.search(query, searchOptions, searchVersion, SEARCH_CHANNEL);
 
           set({
             isSearching: false,
@@ -200,6 +208,9 @@ export const useSearchStore = create<SearchStore>()(
             hasMore: results.length >= limit,
           });
         } catch (error) {
+          // A newer search is already running
+          if (error instanceof SearchCancelledError) return;
+
           set({
             isSearching: false,
             searchError: error as Error,
@@ -231,7 +242,7 @@ export const useSearchStore = create<SearchStore>()(
             offset: newOffset,
           };
 
-          const newResults = await client.search(query, searchOptions, searchVersion);
+          const newResults = await client.search(query, searchOptions, searchVersion, SEARCH_CHANNEL);
 
           set({
             isSearching: false,
@@ -240,6 +251,9 @@ export const useSearchStore = create<SearchStore>()(
             hasMore: newResults.length >= limit,
           });
         } catch (error) {
+          // A new search replaced the one being paged
+          if (error instanceof SearchCancelledError) return;
+
           set({
             isSearching: false,
             searchError: error as Error,
@@ -264,9 +278,10 @@ export const useSearchStore = create<SearchStore>()(
 
         try {
           const client = getSearchClient();
-          const suggestions = await client.getSuggestions(query, 10, searchVersion);
+          const suggestions = await client.getSuggestions(query, 10, searchVersion, SEARCH_CHANNEL);
           set({ suggestions });
         } catch (error) {
+          if (error instanceof SearchCancelledError) return;
           console.error('Failed to get suggestions:', error);
           set({ suggestions: [] });
         }
@@ -14,18 +14,20 @@ interface UIStore {
   mobileMenuOpen: boolean;
   activeModal: ModalType;
   modalData: any;
+  showBCAnnotations: boolean;
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
   toggleMobileMenu: () => void;
   setMobileMenuOpen: (open: boolean) => void;
   openModal: (type: Exclude<ModalType, null>, data: any) => void;
   closeModal: () => void;
+  setShowBCAnnotations: (show: boolean) => void;
 }
 
 /**
  * UI store
- * Manages UI state including sidebar, mobile menu, and modals
- * Persists sidebar state to localStorage
+ * Manages UI state including sidebar, mobile menu, modals and reader settings
+ * Persists sidebar state and reader settings to localStorage
  */
 export const useUIStore = create<UIStore>()(
   devtools(
@@ -35,6 +37,7 @@ export const useUIStore = create<UIStore>()(
         mobileMenuOpen: false,
         activeModal: null,
         modalData: null,
+        showBCAnnotations: true,
 
         toggleSidebar: () =>
           set((state) => ({ sidebarOpen: !state.sidebarOpen })),
@@ -50,10 +53,15 @@ export const useUIStore = create<UIStore>()(
           set({ activeModal: type, modalData: data }),
 
         closeModal: () => set({ activeModal: null, modalData: null }),
+
+        setShowBCAnnotations: (show) => set({ showBCAnnotations: show }),
       }),
       {
         name: 'ui-storage',
-        partialize: (state) => ({ sidebarOpen: state.sidebarOpen }),
+        partialize: (state) => ({
+          sidebarOpen: state.sidebarOpen,
+          showBCAnnotations: state.showBCAnnotations,
+        }),
       }
     ),
     { name: 'ui-store' }
@@ -0,0 +1,130 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { useVersionStore } from './version-store';
+
+/**
+ * How an article changed between editions
+ */
+export type VersionChangeType = 'added' | 'removed' | 'moved' | 'renumbered' | 'reworded';
+
+/**
+ * Where an article sits in one edition
+ */
+export interface ArticleLocation {
+  id: string;
+  number: string;
+  title: string;
+  path: string;
+  divisionId: string;
+  partNumber: string;
+}
+
+/**
+ * Change to one article between editions
+ */
+export interface ArticleChange {
+  types: VersionChangeType[];
+  from?: ArticleLocation;
+  to?: ArticleLocation;
+  matchedBy?: 'id' | 'number' | 'text';
+}
+
+/**
+ * Changes within one part of the newer edition
+ */
+export interface VersionChangeGroup {
+  divisionId: string;
+  divisionTitle: string;
+  partNumber: string;
+  partTitle: string;
+  changes: ArticleChange[];
+}
+
+/**
+ * Changes between two editions (from changes-{from}-{to}.json)
+ */
+export interface VersionChanges {
+  from: string;
+  to: string;
+  summary: Record<VersionChangeType, number>;
+  groups: VersionChangeGroup[];
+}
+
+/**
+ * Version changes store state interface
+ */
+interface VersionChangesStore {
+  changesByKey: Map<string, VersionChanges>;
+  loading: boolean;
+  error: string | null;
+  getPreviousVersionId: (versionId?: string) => string | null;
+  loadChanges: (fromVersion: string, toVersion: string) => Promise<VersionChanges | null>;
+}
+
+/**
+ * Version changes store
+ * Loads the article changes between two editions (e.g., 2024 → 2027)
+ */
+export const useVersionChangesStore = create<VersionChangesStore>()(
+  devtools(
+    (set, get) => ({
+      changesByKey: new Map(),
+      loading: false,
+      error: null,
+
+      /**
+       * Get the edition before a version (by year), which it is compared with
+       */
+      getPreviousVersionId: (versionId) => {
+        const { availableVersions, currentVersion } = useVersionStore.getState();
+        const version = availableVersions.find((v) => v.id === (versionId || currentVersion));
+        if (!version) return null;
+
+        const previous = availableVersions
+          .filter((v) => v.year < version.year)
+          .sort((a, b) => b.year - a.year)[0];
+        return previous?.id || null;
+      },
+
+      /**
+       * Load changes-{from}-{to}.json from the newer version's data directory
+       */
+      loadChanges: async (fromVersion, toVersion) => {
+        const cacheKey = `${fromVersion}-${toVersion}`;
+        const { changesByKey } = get();
+        if (changesByKey.has(cacheKey)) {
+          return changesByKey.get(cacheKey)!;
+        }
+
+        const dataPath = useVersionStore.getState().getVersionDataPath(toVersion);
+        set({ loading: true, error: null });
+        try {
+          const response = await fetch(`${dataPath}/changes-${cacheKey}.json`);
+          if (!response.ok) {
+            throw new Error(`Failed to load: ${response.status}`);
+          }
+          const data = await response.json();
+          const changes: VersionChanges = {
+            from: data.from,
+            to: data.to,
+            summary: data.summary,
+            groups: data.groups || [],
+          };
+
+          const newMap = new Map(get().changesByKey);
+          newMap.set(cacheKey, changes);
+          set({ changesByKey: newMap, loading: false });
+          return changes;
+        } catch (error) {
+          console.error('Error loading version changes:', error);
+          set({
+            error: error instanceof Error ? error.message : 'Unknown error',
+            loading: false,
+          });
+          return null;
+        }
+      },
+    }),
+    { name: 'version-changes-store' }
+  )
+);
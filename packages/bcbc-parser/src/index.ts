@@ -8,21 +8,60 @@
 export type {
   BCBCDocument,
   DocumentMetadata,
+  FrontMatter,
+  FrontMatterSection,
+  FrontMatterItem,
+  FrontMatterParagraph,
+  FrontMatterHeading,
+  FrontMatterTable,
+  FrontMatterFigure,
+  FrontMatterList,
+  CommitteesSection,
+  CommitteeNote,
+  Volume,
+  IndexSection,
+  IndexLetter,
+  IndexGroup,
+  IndexSubterm,
+  IndexReference,
+  ConversionsSection,
+  TableStructure,
+  TableEntry,
+  ConversionFactor,
   Division,
   Part,
   Section,
   Subsection,
   Article,
   Clause,
+  Revision,
+  RevisionType,
+  RevisionState,
   Table,
   TableRow,
   TableCell,
   Figure,
   Equation,
   NoteReference,
+  SeeAlsoLink,
+  BCAnnotation,
+  PartAppendix,
+  SpecialTables,
+  ApplicationNote,
+  NoteDivision,
+  NoteParagraph,
+  Objective,
+  SubObjective,
+  ObjectiveSource,
+  FunctionalStatement,
   GlossaryEntry,
   AmendmentDate,
+  AmendmentRecord,
+  AmendmentRecordType,
   ValidationError,
+  ReferenceKind,
+  BrokenReference,
+  BrokenReferenceReport,
   ContentType,
   HierarchyLevel,
 } from './types';
@@ -34,12 +73,27 @@ export {
   extractContentIds,
   getGlossaryMap,
   getAmendmentDates,
+  getAmendmentHistory,
+  getRevisionStates,
+  parseConversionFactors,
+  getConversionFactors,
+  getSpecialTableNumber,
 } from './parser';
 
 // Export validator functions
 export {
   validateBCBC,
   validateCrossReferences,
+  findBrokenReferences,
   validateRequiredFields,
   validateDataTypes,
 } from './validators';
+
+// Export JSON Schema validation
+export { validateSchema } from './schema-validator';
+export type {
+  JSONSchema,
+  JSONSchemaDefinition,
+  JSONSchemaType,
+  SchemaValidationOptions,
+} from './schema-validator';
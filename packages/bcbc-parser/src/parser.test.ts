@@ -3,8 +3,18 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseBCBC, extractContentIds, getGlossaryMap, getAmendmentDates } from './parser';
-import type { BCBCDocument } from './types';
+import {
+  parseBCBC,
+  extractContentIds,
+  getGlossaryMap,
+  getAmendmentDates,
+  getAmendmentHistory,
+  getRevisionStates,
+  parseConversionFactors,
+  getConversionFactors,
+  getSpecialTableNumber,
+} from './parser';
+import type { BCBCDocument, Revision } from './types';
 
 describe('parseBCBC', () => {
   it('should throw error for invalid input', () => {
@@ -408,3 +418,784 @@ describe('getAmendmentDates', () => {
     expect(dates).toEqual(['2024-01-01', '2024-03-01']);
   });
 });
+
+/**
+ * Build a minimal volume-based source document around a single article
+ */
+function buildRawDocument(articleContent: unknown[], partExtras: Record<string, unknown> = {}) {
+  return {
+    document_type: 'bc_building_code',
+    version: '2024',
+    metadata: { title: 'Test', volumes: [] },
+    volumes: [
+      {
+        id: 'vol-1',
+        type: 'volume',
+        number: 1,
+        title: 'Volume 1',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Division B',
+            number: '',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Part 9',
+                ...partExtras,
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    type: 'section',
+                    number: 10,
+                    title: 'Section 10',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect14',
+                        type: 'subsection',
+                        number: 14,
+                        title: 'Subsection 14',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect14.art1',
+                            type: 'article',
+                            number: 1,
+                            title: 'Article 1',
+                            content: articleContent,
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    glossary: {},
+  };
+}
+
+describe('objectives and functional statements', () => {
+  const input = buildRawDocument([
+    {
+      id: 'sent-1',
+      type: 'sentence',
+      number: 1,
+      text: 'Buildings shall be separated.',
+      intent_reference: 'intent-9.10.14.1-1',
+      objectives: [
+        {
+          id: 'obj-os3',
+          key: 'OS3',
+          source: 'nbc',
+          title: 'Fire Safety',
+          definition: 'An objective of this Code is to limit the probability...',
+          sub_objectives: [
+            {
+              id: 'obj-os3-1',
+              key: 'OS3.1',
+              source: 'nbc',
+              title: 'Fire spread',
+              definition: 'Fire spreading beyond its point of origin',
+            },
+          ],
+        },
+      ],
+      functional_statements: [
+        { id: 'fs-f30', key: 'F30', source: 'nbc', definition: 'To minimize the risk of injury' },
+      ],
+    },
+    {
+      id: 'sent-2',
+      type: 'sentence',
+      number: 2,
+      text: 'No attributions here.',
+    },
+  ]);
+
+  it('should parse objectives, sub-objectives and functional statements on sentences', () => {
+    const result = parseBCBC(input);
+    const clause = result.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses[0];
+
+    expect(clause.intentReference).toBe('intent-9.10.14.1-1');
+    expect(clause.objectives).toHaveLength(1);
+    expect(clause.objectives![0].key).toBe('OS3');
+    expect(clause.objectives![0].source).toBe('nbc');
+    expect(clause.objectives![0].subObjectives[0].key).toBe('OS3.1');
+    expect(clause.objectives![0].subObjectives[0].title).toBe('Fire spread');
+    expect(clause.functionalStatements).toEqual([
+      { id: 'fs-f30', key: 'F30', source: 'nbc', definition: 'To minimize the risk of injury' },
+    ]);
+  });
+});
+
+describe('application notes', () => {
+  const noteId = 'nbc.divB.part9.appendix.note-9.10.14.1';
+  const sentences = [
+    {
+      id: 'sent-1',
+      type: 'sentence',
+      number: 1,
+      text: 'Spatial separation applies (see Note [REF:internal:' + noteId + ':short]).',
+      clauses: [
+        {
+          id: 'clause-a',
+          type: 'clause',
+          letter: 'a',
+          text: 'as described in [REF:internal:' + noteId + ':long]',
+        },
+      ],
+    },
+    {
+      id: 'sent-2',
+      type: 'sentence',
+      number: 2,
+      text: 'Refer to [REF:internal:nbc.divB.part9.sect10:long].',
+    },
+  ];
+  const note = {
+    id: noteId,
+    type: 'application_note',
+    number: 'A-9.10.14.1.(1)',
+    title: 'Spatial Separation',
+    paragraphs: [{ id: 'p1', content: 'Spatial separation limits fire spread.' }],
+    divisions: [
+      {
+        id: 'div1',
+        type: 'note_division',
+        title: 'Unprotected Openings',
+        paragraphs: [{ id: 'p2', content: 'Openings are limited.' }],
+      },
+    ],
+  };
+  const buildWithNotes = (notes: unknown[]) =>
+    buildRawDocument(sentences, {
+      appendix: { id: 'nbc.divB.part9.appendix', type: 'part_appendix', application_notes: notes },
+    });
+  const input = buildWithNotes([note]);
+
+  it('should parse part appendices with application notes', () => {
+    const result = parseBCBC(input);
+    const appendix = result.volumes[0].divisions[0].parts[0].appendix;
+
+    expect(appendix?.type).toBe('part_appendix');
+    expect(appendix?.applicationNotes).toHaveLength(1);
+    expect(appendix?.applicationNotes[0].number).toBe('A-9.10.14.1.(1)');
+    expect(appendix?.applicationNotes[0].divisions[0].title).toBe('Unprotected Openings');
+  });
+
+  it('should resolve note references to the application note content', () => {
+    const result = parseBCBC(input);
+    const article = result.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0];
+
+    // Duplicate note references collapse; references to provisions are not notes
+    expect(article.notes).toHaveLength(1);
+    expect(article.notes[0]).toEqual({
+      id: noteId,
+      noteNumber: 'A-9.10.14.1.(1)',
+      noteTitle: 'Spatial Separation',
+      noteContent: 'Spatial separation limits fire spread.\n\nUnprotected Openings\n\nOpenings are limited.',
+      relatedSections: ['nbc.divB.part9.sect10.subsect14.art1'],
+    });
+  });
+
+  it('should keep the deleted flag and revisions of notes and not resolve references to deleted notes', () => {
+    const deletedNote = {
+      ...note,
+      deleted: true,
+      revisions: [
+        { type: 'original', effective_date: '2024-03-08', status: 'superseded' },
+        { type: 'revision', effective_date: '2025-03-10', revision_type: 'amendment', status: 'current', deleted: true },
+      ],
+    };
+    const result = parseBCBC(buildWithNotes([deletedNote]));
+    const parsedPart = result.volumes[0].divisions[0].parts[0];
+
+    expect(parsedPart.appendix?.applicationNotes[0]).toMatchObject({
+      deleted: true,
+      revisions: [
+        { type: 'original', effectiveDate: '2024-03-08', status: 'superseded' },
+        { type: 'revision', effectiveDate: '2025-03-10', revisionType: 'amendment', status: 'current', deleted: true },
+      ],
+    });
+    expect(parsedPart.sections[0].subsections[0].articles[0].notes).toEqual([]);
+  });
+});
+
+describe('conversion factors', () => {
+  const conversions = {
+    id: 'nbc.2020.vol1.conversions',
+    type: 'conversions' as const,
+    table_id: 'nbc.2020.vol1.conversions.table1',
+    table_title: 'Conversion Factors',
+    table_structure: {
+      columns: 3,
+      header_rows: [[{ content: 'To Convert' }, { content: 'To' }, { content: 'Multiply by' }]],
+      body_rows: [
+        [{ content: 'mm' }, { content: 'in.' }, { content: '0.039 37' }],
+        [{ content: 'm<sup>2</sup>' }, { content: 'ft<sup>2</sup>' }, { content: '10.76' }],
+        [{ content: '°C' }, { content: '°F' }, { content: '1.8 °C + 32' }],
+        [{ content: 'note' }, { content: '' }, { content: '' }],
+      ],
+    },
+  };
+
+  it('should parse conversions table rows into factors', () => {
+    const factors = parseConversionFactors(conversions);
+
+    expect(factors).toEqual([
+      { fromUnit: 'mm', toUnit: 'in.', factor: 0.03937, offset: undefined, expression: '0.039 37' },
+      { fromUnit: 'm²', toUnit: 'ft²', factor: 10.76, offset: undefined, expression: '10.76' },
+      { fromUnit: '°C', toUnit: '°F', factor: 1.8, offset: 32, expression: '1.8 °C + 32' },
+    ]);
+  });
+
+  it('should merge conversion factors across volumes without duplicates', () => {
+    const document = parseBCBC({
+      ...buildRawDocument([]),
+      volumes: [
+        { id: 'vol-1', type: 'volume', number: 1, title: 'Volume 1', divisions: [], conversions },
+        {
+          id: 'vol-2',
+          type: 'volume',
+          number: 2,
+          title: 'Volume 2',
+          divisions: [],
+          conversions: { ...conversions, id: 'nbc.2020.vol2.conversions' },
+        },
+      ],
+    });
+
+    expect(getConversionFactors(document)).toHaveLength(3);
+  });
+});
+
+describe('special tables', () => {
+  const specialTables = [
+    {
+      id: 'nbc.divB.part9.spectables1',
+      type: 'spectables',
+      title: 'Span Tables',
+      table_prefix: 'A-',
+      toc_entry: 'Span Tables for Wood Joists, Rafters and Beams',
+      tables: [
+        {
+          id: 'nbc.divB.part9.spectables1.table1',
+          type: 'table',
+          title: 'Maximum Spans for Floor Joists',
+          structure: {
+            columns: 2,
+            header_rows: [[{ content: 'Species' }, { content: 'Span, mm' }]],
+            body_rows: [[{ content: 'D.Fir-L' }, { content: '3 980' }]],
+          },
+        },
+      ],
+    },
+  ];
+
+  it('should parse special tables on parts', () => {
+    const document = parseBCBC(buildRawDocument([], { special_tables: specialTables }));
+    const part = document.volumes[0].divisions[0].parts[0];
+
+    expect(part.specialTables).toHaveLength(1);
+    expect(part.specialTables![0]).toMatchObject({
+      id: 'nbc.divB.part9.spectables1',
+      type: 'spectables',
+      title: 'Span Tables',
+      tablePrefix: 'A-',
+      tocEntry: 'Span Tables for Wood Joists, Rafters and Beams',
+    });
+    expect(part.specialTables![0].tables[0].title).toBe('Maximum Spans for Floor Joists');
+    expect(part.specialTables![0].tables[0].number).toBe('A-1');
+    expect(part.specialTables![0].tables[0].rows).toHaveLength(2);
+  });
+
+  it('should number special tables from their IDs rather than their position', () => {
+    const tables = [
+      { ...specialTables[0].tables[0], id: 'nbc.divB.part9.spectables1.table3' },
+      { ...specialTables[0].tables[0], id: 'nbc.divB.part9.spectables1.joists' },
+    ];
+    const document = parseBCBC(buildRawDocument([], { special_tables: [{ ...specialTables[0], tables }] }));
+    const parsed = document.volumes[0].divisions[0].parts[0].specialTables![0].tables;
+
+    expect(parsed.map((table) => table.number)).toEqual(['A-3', '']);
+    expect(getSpecialTableNumber(undefined, 'nbc.divB.part9.spectables1.table12')).toBe('12');
+  });
+
+  it('should leave specialTables undefined for parts without them', () => {
+    const document = parseBCBC(buildRawDocument([]));
+
+    expect(document.volumes[0].divisions[0].parts[0].specialTables).toBeUndefined();
+  });
+});
+
+describe('see also links', () => {
+  const target = 'nbc.divB.part9.sect10.subsect15.art2';
+
+  it('should parse see also strings on parts, subsections and articles', () => {
+    const raw = buildRawDocument([], {
+      see_also: `See also Section [REF:internal:nbc.divB.part3.sect2:long].`,
+    });
+    raw.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].see_also =
+      `See also Article [REF:internal:${target}:long] and [REF:internal:${target}:short].`;
+
+    const document = parseBCBC(raw);
+    const part = document.volumes[0].divisions[0].parts[0];
+    const article = part.sections[0].subsections[0].articles[0];
+
+    expect(part.seeAlso).toEqual([
+      {
+        id: undefined,
+        content: 'See also Section [REF:internal:nbc.divB.part3.sect2:long].',
+        targetIds: ['nbc.divB.part3.sect2'],
+      },
+    ]);
+    expect(part.sections[0].subsections[0].seeAlso).toBeUndefined();
+    expect(article.seeAlso![0].targetIds).toEqual([target]);
+  });
+
+  it('should parse see also entries on sentences and clauses', () => {
+    const document = parseBCBC(
+      buildRawDocument([
+        {
+          id: 'sent-1',
+          type: 'sentence',
+          number: 1,
+          text: 'Buildings shall be separated.',
+          see_also: [{ id: 'sa-1', content: `See [REF:internal:${target}:long].` }, { id: 'sa-2', content: ' ' }],
+          clauses: [
+            {
+              id: 'clause-a',
+              type: 'clause',
+              letter: 'a',
+              text: 'Clause a',
+              see_also: [{ id: 'sa-3', content: `See [REF:internal:${target}]` }],
+            },
+          ],
+        },
+      ])
+    );
+    const clauses = document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses;
+
+    expect(clauses[0].seeAlso).toEqual([
+      { id: 'sa-1', content: `See [REF:internal:${target}:long].`, targetIds: [target] },
+    ]);
+    expect(clauses[1].seeAlso![0]).toMatchObject({ id: 'sa-3', targetIds: [target] });
+  });
+});
+
+describe('deleted provisions', () => {
+  it('should carry deleted flags on sections, subsections and articles', () => {
+    const raw = buildRawDocument([]);
+    const section = raw.volumes[0].divisions[0].parts[0].sections[0];
+    section.deleted = true;
+    section.subsections[0].articles[0].deleted = true;
+
+    const parsed = parseBCBC(raw).volumes[0].divisions[0].parts[0].sections[0];
+
+    expect(parsed.deleted).toBe(true);
+    expect(parsed.subsections[0].deleted).toBeUndefined();
+    expect(parsed.subsections[0].articles[0].deleted).toBe(true);
+  });
+
+  it('should keep deleted sentences, clauses, tables and figures as placeholders', () => {
+    const document = parseBCBC(
+      buildRawDocument([
+        { id: 'sent-1', type: 'sentence', number: 1, text: '', deleted: true },
+        {
+          id: 'sent-2',
+          type: 'sentence',
+          number: 2,
+          text: 'Live sentence',
+          tables: [{ id: 'table-1', type: 'table', title: 'Old table', deleted: true }],
+          figures: [{ id: 'figure-1', type: 'figure', title: 'Old figure', deleted: true }],
+          clauses: [
+            {
+              id: 'clause-a',
+              type: 'clause',
+              letter: 'a',
+              text: 'Clause a',
+              deleted: true,
+              subclauses: [{ id: 'subclause-i', type: 'subclause', number: 1, text: 'Subclause i', deleted: true }],
+            },
+          ],
+        },
+      ])
+    );
+    const clauses = document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses;
+
+    expect(clauses.map((clause) => clause.id)).toEqual(['sent-1', 'sent-2', 'clause-a']);
+    expect(clauses[0]).toMatchObject({ number: '1', text: '', deleted: true });
+    expect(clauses[1].deleted).toBeUndefined();
+    expect(clauses[1].tables![0].deleted).toBe(true);
+    expect(clauses[1].figures![0].deleted).toBe(true);
+    expect(clauses[2].deleted).toBe(true);
+    expect(clauses[2].subclauses![0].deleted).toBe(true);
+  });
+});
+
+describe('BC annotations', () => {
+  it('should keep BC annotations on sentences', () => {
+    const document = parseBCBC(
+      buildRawDocument([
+        {
+          id: 'sent-1',
+          type: 'sentence',
+          number: 1,
+          text: 'Sentence with a BC variation',
+          bc_annotations: [
+            { type: 'bc_variation', content: 'This Sentence differs from the NBC.' },
+            { type: 'bc_variation', content: ' ' },
+          ],
+        },
+        { id: 'sent-2', type: 'sentence', number: 2, text: 'NBC sentence' },
+        {
+          id: 'sent-3',
+          type: 'sentence',
+          number: 3,
+          text: '',
+          bc_annotations: [{ type: 'bc_addition', content: 'Sentence 3 is a BC addition.' }],
+        },
+      ])
+    );
+    const clauses = document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses;
+
+    expect(clauses[0].bcAnnotations).toEqual([
+      { type: 'bc_variation', content: 'This Sentence differs from the NBC.' },
+    ]);
+    expect(clauses[1].bcAnnotations).toBeUndefined();
+    expect(clauses[2]).toMatchObject({
+      id: 'sent-3',
+      text: '',
+      bcAnnotations: [{ type: 'bc_addition', content: 'Sentence 3 is a BC addition.' }],
+    });
+  });
+});
+
+describe('revisions', () => {
+  it('should keep every revision of sentences, clauses and tables', () => {
+    const document = parseBCBC(
+      buildRawDocument([
+        {
+          id: 'sent-1',
+          type: 'sentence',
+          number: 1,
+          text: 'Current wording',
+          revisions: [
+            { type: 'original', effective_date: '2024-03-08', sequence: null, status: 'superseded' },
+            {
+              type: 'revision',
+              effective_date: '2025-03-10',
+              revision_type: 'amendment',
+              revision_id: 'rev-1',
+              sequence: 1,
+              status: 'current',
+              change_summary: 'Clarified scope',
+            },
+          ],
+          tables: [
+            {
+              id: 'table-1',
+              type: 'table',
+              title: 'Limits',
+              revisions: [{ type: 'original', effective_date: '2024-03-08', status: 'current' }],
+            },
+          ],
+          clauses: [
+            {
+              id: 'clause-a',
+              type: 'clause',
+              letter: 'a',
+              text: 'Clause a',
+              revisions: [{ type: 'revision', effective_date: '2025-03-10', deleted: true }],
+            },
+          ],
+        },
+      ])
+    );
+    const clauses = document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses;
+
+    expect(clauses[0].revisions).toEqual([
+      { type: 'original', effectiveDate: '2024-03-08', status: 'superseded' },
+      {
+        type: 'revision',
+        effectiveDate: '2025-03-10',
+        revisionType: 'amendment',
+        revisionId: 'rev-1',
+        sequence: 1,
+        status: 'current',
+        changeSummary: 'Clarified scope',
+      },
+    ]);
+    expect(clauses[0].tables![0].revisions).toEqual([
+      { type: 'original', effectiveDate: '2024-03-08', status: 'current' },
+    ]);
+    expect(clauses[1].revisions).toEqual([{ type: 'revision', effectiveDate: '2025-03-10', deleted: true }]);
+  });
+
+  it('should tell pending, in-force, superseded and repealed revisions apart', () => {
+    const revisions: Revision[] = [
+      { type: 'original', effectiveDate: '2024-03-08', status: 'superseded' },
+      { type: 'revision', effectiveDate: '2025-03-10', status: 'superseded', sequence: 1 },
+      { type: 'revision', effectiveDate: '2025-03-10', status: 'superseded', sequence: 2 },
+      { type: 'revision', effectiveDate: '2027-01-01', status: 'current', deleted: true },
+    ];
+
+    expect(getRevisionStates(revisions, '2024-01-01')).toEqual(['pending', 'pending', 'pending', 'pending']);
+    expect(getRevisionStates(revisions, '2026-06-01')).toEqual(['superseded', 'superseded', 'in-force', 'pending']);
+    expect(getRevisionStates(revisions, '2027-01-01')).toEqual(['superseded', 'superseded', 'superseded', 'repealed']);
+  });
+});
+
+describe('amendment history', () => {
+  const article = 'nbc.divB.part9.sect10.subsect14.art1';
+  const raw = {
+    ...buildRawDocument([{ id: `${article}.sent1`, type: 'sentence', number: 1, text: 'Text' }]),
+    bc_amendments: [
+      {
+        location_id: `${article}.sent1`,
+        type: 'replace',
+        amendment_id: 'bc-2025-3',
+        revision_type: 'amendment',
+        sequence: 2,
+        effective_date: '2025-03-10',
+        status: 'current',
+        content: 'New text',
+        change_summary: 'Raised guard height',
+        note: 'Ministerial Order M123',
+      },
+      {
+        location_id: article,
+        type: 'original',
+        effective_date: '2024-03-08',
+        status: 'current',
+        content: 'Article 1',
+      },
+      {
+        location_id: `${article}.sent1`,
+        type: 'replace',
+        amendment_id: 'bc-2025-2',
+        sequence: 1,
+        effective_date: '2025-03-10',
+        status: 'superseded',
+        content: 'Interim text',
+      },
+      { type: 'annotation', content: 'No location' },
+    ],
+  };
+
+  it('should keep full amendment records keyed by location_id', () => {
+    const document = parseBCBC(raw);
+
+    expect(Object.keys(document.amendments!)).toEqual([`${article}.sent1`, article]);
+    expect(document.amendments![`${article}.sent1`].map((r) => r.amendmentId)).toEqual(['bc-2025-2', 'bc-2025-3']);
+    expect(document.amendments![`${article}.sent1`][1]).toEqual({
+      locationId: `${article}.sent1`,
+      type: 'replace',
+      amendmentId: 'bc-2025-3',
+      revisionType: 'amendment',
+      sequence: 2,
+      effectiveDate: '2025-03-10',
+      status: 'current',
+      content: 'New text',
+      changeSummary: 'Raised guard height',
+      note: 'Ministerial Order M123',
+    });
+  });
+
+  it('should return the history of a provision and its descendants, oldest first', () => {
+    const document = parseBCBC(raw);
+
+    expect(getAmendmentHistory(document, article).map((r) => r.effectiveDate)).toEqual([
+      '2024-03-08',
+      '2025-03-10',
+      '2025-03-10',
+    ]);
+    expect(getAmendmentHistory(document, article, false)).toHaveLength(1);
+    expect(getAmendmentHistory(document, 'nbc.divB.part9.sect10.subsect14.art10')).toEqual([]);
+  });
+});
+
+describe('front matter', () => {
+  it('should parse preface, introduction and committees content', () => {
+    const document = parseBCBC({
+      ...buildRawDocument([]),
+      front_matter: {
+        id: 'fm',
+        preface: {
+          id: 'preface',
+          type: 'preface',
+          content: [
+            { type: 'heading', id: 'p-h1', content: 'Background', level: 2 },
+            { type: 'paragraph', id: 'p-1', content: 'The BC Building Code is ...' },
+            { type: 'paragraph', content: ' ' },
+            { type: 'list', list_type: 'numbered', items: ['First', '', 'Second'] },
+          ],
+        },
+        introduction: {
+          id: 'intro',
+          type: 'introduction',
+          title: 'Standards and Conformity Assessment',
+          content: [
+            {
+              type: 'table',
+              id: 'intro-t1',
+              title: 'Accredited Bodies',
+              structure: {
+                columns: 2,
+                header_rows: [[{ content: 'Body' }, { content: 'Role' }]],
+                body_rows: [[{ content: 'SCC' }, { content: 'Accreditation' }]],
+              },
+            },
+            { type: 'figure', id: 'intro-f1', title: 'Logo', graphic: { src: 'logo.png' } },
+          ],
+        },
+        committees: {
+          id: 'committees',
+          type: 'committees',
+          tables: [
+            {
+              id: 'committees-t1',
+              type: 'table',
+              title: 'Building Code Committee',
+              structure: { columns: 2, body_rows: [[{ content: 'J. Smith' }, { content: 'Chair' }]] },
+            },
+          ],
+          notes: [{ id: 'n1', content: 'Term began in 2022.' }, { content: '' }],
+        },
+      },
+    });
+
+    expect(document.frontMatter?.preface).toEqual({
+      id: 'preface',
+      type: 'preface',
+      title: 'Preface',
+      content: [
+        { type: 'heading', id: 'p-h1', content: 'Background', level: 2 },
+        { type: 'paragraph', id: 'p-1', content: 'The BC Building Code is ...' },
+        { type: 'list', id: 'preface-4', listType: 'numbered', items: ['First', 'Second'] },
+      ],
+    });
+    expect(document.frontMatter?.introduction?.title).toBe('Standards and Conformity Assessment');
+    expect(document.frontMatter?.introduction?.content[0]).toMatchObject({
+      type: 'table',
+      title: 'Accredited Bodies',
+      headers: [['Body', 'Role']],
+    });
+    expect(document.frontMatter?.introduction?.content[1]).toEqual({
+      type: 'figure',
+      id: 'intro-f1',
+      title: 'Logo',
+      imageUrl: 'logo.png',
+      altText: 'Logo',
+    });
+    expect(document.frontMatter?.committees).toMatchObject({
+      title: 'Committees',
+      tables: [{ id: 'committees-t1', title: 'Building Code Committee' }],
+      notes: [{ id: 'n1', content: 'Term began in 2022.' }],
+    });
+  });
+
+  it('should fall back to the volume preface', () => {
+    const raw = buildRawDocument([]);
+    (raw.volumes[0] as Record<string, unknown>).preface = {
+      id: 'vol-1-preface',
+      type: 'preface',
+      content: [{ type: 'paragraph', id: 'p-1', content: 'Preface text' }],
+    };
+
+    const document = parseBCBC(raw);
+
+    expect(document.frontMatter).toEqual({
+      id: 'front-matter',
+      preface: {
+        id: 'vol-1-preface',
+        type: 'preface',
+        title: 'Preface',
+        content: [{ type: 'paragraph', id: 'p-1', content: 'Preface text' }],
+      },
+    });
+    expect(parseBCBC(buildRawDocument([])).frontMatter).toBeUndefined();
+  });
+});
+
+describe('equations', () => {
+  it('should keep every equation representation', () => {
+    const document = parseBCBC(
+      buildRawDocument([
+        {
+          id: 'sent-1',
+          type: 'sentence',
+          number: 1,
+          text: 'The slope factor is',
+          equations: [
+            {
+              id: 'eq-1',
+              type: 'display',
+              latex: 'C_{s}\\frac{60\\text{°}-a}{53\\text{°}}',
+              plainText: 'C_s(60°-a)/(53°)',
+              mathml: '<math><mi>C</mi></math>',
+              image: 'eg02764a',
+              imageSrc: 'graphics/eg02764a.eps',
+            },
+            { id: 'eq-2', type: 'inline', latex: 'S_s' },
+          ],
+        },
+      ])
+    );
+    const [equation, inlineEquation] =
+      document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses[0].equations!;
+
+    expect(equation).toMatchObject({
+      id: 'eq-1',
+      display: 'block',
+      plainText: 'C_s(60°-a)/(53°)',
+      mathml: '<math><mi>C</mi></math>',
+      image: 'eg02764a',
+      imageSrc: 'graphics/eg02764a.eps',
+    });
+    expect(inlineEquation).toMatchObject({ id: 'eq-2', display: 'inline', latex: 'S_s' });
+    expect(inlineEquation.plainText).toBeUndefined();
+  });
+});
+
+describe('figures', () => {
+  it('should read the figure graphic', () => {
+    const document = parseBCBC(
+      buildRawDocument([
+        {
+          id: 'sent-1',
+          type: 'sentence',
+          number: 1,
+          text: 'See Figure 9.23.13.7.-A.',
+          figures: [
+            {
+              id: 'fig-1',
+              type: 'figure',
+              title: 'Braced wall bands',
+              graphic: { src: 'graphics/gg/003/gg00312a.eps', alt_text: 'Plan of braced wall bands', width: '12cm' },
+            },
+            { id: 'fig-2', type: 'figure', title: 'Untitled graphic', graphic: { src: 'gg00313a.eps' } },
+          ],
+        },
+      ])
+    );
+    const [figure, noAltFigure] =
+      document.volumes[0].divisions[0].parts[0].sections[0].subsections[0].articles[0].clauses[0].figures!;
+
+    expect(figure).toMatchObject({
+      imageUrl: 'graphics/gg/003/gg00312a.eps',
+      altText: 'Plan of braced wall bands',
+      width: '12cm',
+    });
+    expect(figure.height).toBeUndefined();
+    expect(noAltFigure.altText).toBe('Untitled graphic');
+  });
+});
@@ -13,15 +13,36 @@ import type {
   Subsection,
   Article,
   Clause,
+  Revision,
+  RevisionType,
+  RevisionState,
   Table,
   TableRow,
   TableCell,
   Figure,
   Equation,
   NoteReference,
+  SeeAlsoLink,
+  BCAnnotation,
+  PartAppendix,
+  SpecialTables,
+  ApplicationNote,
+  NoteDivision,
+  NoteParagraph,
+  Objective,
+  FunctionalStatement,
   GlossaryEntry,
   AmendmentDate,
+  AmendmentRecord,
+  AmendmentRecordType,
   DocumentMetadata,
+  FrontMatter,
+  FrontMatterSection,
+  FrontMatterItem,
+  CommitteesSection,
+  Volume,
+  ConversionsSection,
+  ConversionFactor,
 } from './types';
 
 /**
@@ -45,12 +66,50 @@ interface RawBCBCDocument {
       subtitle?: string;
     }>;
   };
+  front_matter?: RawFrontMatter;
   volumes: RawVolume[];
   glossary: Record<string, RawGlossaryEntry>;
   bc_amendments?: any[];
   statistics?: any;
 }
 
+interface RawFrontMatter {
+  id: string;
+  preface?: RawFrontMatterSection;
+  introduction?: RawFrontMatterSection;
+  committees?: RawCommittees;
+}
+
+interface RawFrontMatterSection {
+  id: string;
+  type: 'preface' | 'introduction';
+  title?: string;
+  content: RawFrontMatterItem[];
+}
+
+interface RawFrontMatterItem {
+  type: 'paragraph' | 'heading' | 'table' | 'figure' | 'list';
+  id?: string;
+  content?: string;
+  level?: number;
+  title?: string;
+  structure?: RawTableStructure;
+  graphic?: {
+    src?: string;
+    alt_text?: string;
+  };
+  list_type?: 'bulleted' | 'numbered';
+  items?: string[];
+}
+
+interface RawCommittees {
+  id: string;
+  type: 'committees';
+  title?: string;
+  tables?: RawTable[];
+  notes?: Array<{ id?: string; content?: string }>;
+}
+
 interface RawVolume {
   id: string;
   type: 'volume';
@@ -73,7 +132,12 @@ interface RawVolume {
     type: 'conversions';
     table_id: string;
     table_title: string;
-    table_structure: any;
+    table_structure: {
+      columns: number | null;
+      column_specs?: Array<{ name: string; width: string }>;
+      header_rows?: Array<Array<{ content: string; align?: any; colspan?: number; rowspan?: number }>>;
+      body_rows: Array<Array<{ content: string; align?: any; colspan?: number; rowspan?: number }>>;
+    };
   };
 }
 
@@ -92,6 +156,53 @@ interface RawPart {
   number: string | number;
   title: string;
   sections: RawSection[];
+  special_tables?: RawSpecialTables[];
+  appendix?: RawPartAppendix;
+  see_also?: string;
+}
+
+interface RawSpecialTables {
+  id: string;
+  type: 'spectables';
+  title: string;
+  table_prefix?: string;
+  toc_entry?: string;
+  tables: RawTable[];
+}
+
+interface RawPartAppendix {
+  id: string;
+  type: 'part_appendix';
+  introduction?: string;
+  application_notes: RawApplicationNote[];
+}
+
+interface RawApplicationNote {
+  id: string;
+  type: 'application_note';
+  number: string;
+  title: string;
+  refs?: string;
+  paragraphs?: RawNoteParagraph[];
+  divisions?: RawNoteDivision[];
+  tables?: RawTable[];
+  figures?: RawFigure[];
+  deleted?: boolean;
+  revisions?: RawRevision[];
+}
+
+interface RawNoteDivision {
+  id: string;
+  type: 'note_division';
+  title: string;
+  paragraphs?: RawNoteParagraph[];
+  tables?: RawTable[];
+  figures?: RawFigure[];
+}
+
+interface RawNoteParagraph {
+  id?: string;
+  content?: string;
 }
 
 interface RawSection {
@@ -100,6 +211,7 @@ interface RawSection {
   number: string | number;
   title: string;
   subsections: RawSubsection[];
+  deleted?: boolean;
 }
 
 interface RawSubsection {
@@ -108,6 +220,8 @@ interface RawSubsection {
   number: string | number;
   title: string;
   articles: RawArticle[];
+  see_also?: string;
+  deleted?: boolean;
 }
 
 interface RawArticle {
@@ -119,6 +233,8 @@ interface RawArticle {
   effective_date?: string;
   amended_date?: string;
   revisions?: RawRevision[];
+  see_also?: string;
+  deleted?: boolean;
 }
 
 interface RawSentence {
@@ -131,6 +247,44 @@ interface RawSentence {
   figures?: RawFigure[];
   equations?: RawEquation[];
   revisions?: RawRevision[];
+  objectives?: RawObjective[];
+  functional_statements?: RawFunctionalStatement[];
+  intent_reference?: string;
+  see_also?: RawSeeAlsoEntry[];
+  bc_annotations?: RawBCAnnotation[];
+  deleted?: boolean;
+}
+
+interface RawBCAnnotation {
+  type: string;
+  content: string;
+}
+
+interface RawSeeAlsoEntry {
+  id?: string;
+  content?: string;
+}
+
+interface RawObjective {
+  id: string;
+  key: string;
+  source?: 'nbc' | 'bc';
+  title?: string;
+  definition?: string;
+  sub_objectives?: Array<{
+    id: string;
+    key: string;
+    source?: 'nbc' | 'bc';
+    title?: string;
+    definition?: string;
+  }>;
+}
+
+interface RawFunctionalStatement {
+  id: string;
+  key: string;
+  source?: 'nbc' | 'bc';
+  definition?: string;
 }
 
 interface RawClause {
@@ -143,6 +297,8 @@ interface RawClause {
   figures?: RawFigure[];
   equations?: RawEquation[];
   revisions?: RawRevision[];
+  see_also?: RawSeeAlsoEntry[];
+  deleted?: boolean;
 }
 
 interface RawSubclause {
@@ -154,6 +310,7 @@ interface RawSubclause {
   figures?: RawFigure[];
   equations?: RawEquation[];
   revisions?: RawRevision[];
+  deleted?: boolean;
 }
 
 interface RawTable {
@@ -161,13 +318,16 @@ interface RawTable {
   type: 'table';
   title?: string;
   caption?: string;
-  structure?: {
-    columns: number;
-    column_specs?: Array<{ name: string; width: string }>;
-    header_rows?: Array<Array<{ content: string; colspan?: number; rowspan?: number }>>;
-    body_rows?: Array<Array<{ content: string; colspan?: number; rowspan?: number }>>;
-  };
+  structure?: RawTableStructure;
   revisions?: RawRevision[];
+  deleted?: boolean;
+}
+
+interface RawTableStructure {
+  columns: number;
+  column_specs?: Array<{ name: string; width: string }>;
+  header_rows?: Array<Array<{ content: string; colspan?: number; rowspan?: number }>>;
+  body_rows?: Array<Array<{ content: string; colspan?: number; rowspan?: number }>>;
 }
 
 interface RawFigure {
@@ -178,13 +338,24 @@ interface RawFigure {
   caption?: string;
   image_url?: string;
   alt_text?: string;
+  graphic?: {
+    src?: string;
+    alt_text?: string;
+    width?: string;
+    height?: string;
+  };
+  deleted?: boolean;
 }
 
 interface RawEquation {
   id: string;
-  type: 'equation';
+  type: 'display' | 'inline' | 'equation';
   number?: string;
   latex?: string;
+  plainText?: string;
+  mathml?: string;
+  image?: string;
+  imageSrc?: string;
   description?: string;
 }
 
@@ -203,16 +374,32 @@ interface RawAmendment {
   note?: string;
 }
 
+interface RawBCAmendment {
+  location_id?: string;
+  type?: AmendmentRecordType;
+  annotation_type?: string;
+  amendment_id?: string;
+  revision_type?: RevisionType;
+  revision_id?: string;
+  sequence?: number | null;
+  effective_date?: string;
+  date?: string;
+  status?: 'current' | 'superseded';
+  content?: string;
+  change_summary?: string;
+  note?: string;
+}
+
 interface RawRevision {
   type: 'original' | 'revision';
   effective_date: string;
+  revision_type?: RevisionType;
   revision_id?: string;
-  sequence?: number;
-  status?: string;
+  sequence?: number | null;
+  status?: 'current' | 'superseded';
   deleted?: boolean;
-  text?: string;
-  title?: string;
-  content?: string;
+  change_summary?: string;
+  note?: string;
 }
 
 /**
@@ -247,6 +434,14 @@ export function parseBCBC(jsonData: unknown): BCBCDocument {
   // Parse volumes
   const volumes = raw.volumes.map(parseVolumeData);
 
+  // Fill in article note references from the part appendices
+  resolveNoteReferences(volumes);
+
+  // Parse front matter (older sources only carry a preface inside Volume 1)
+  const frontMatter = raw.front_matter
+    ? parseFrontMatterData(raw.front_matter)
+    : parseVolumePrefaceAsFrontMatter(raw.volumes);
+
   // Parse glossary
   const glossary: GlossaryEntry[] = parseGlossary(raw.glossary || {});
 
@@ -261,18 +456,126 @@ export function parseBCBC(jsonData: unknown): BCBCDocument {
     canonical_version: raw.canonical_version,
     generated_timestamp: raw.generated_timestamp,
     metadata,
+    frontMatter,
     volumes,
     glossary,
     amendmentDates,
+    amendments: raw.bc_amendments ? parseBCAmendments(raw.bc_amendments) : undefined,
     bc_amendments: raw.bc_amendments,
     statistics: raw.statistics,
   };
 }
 
+/**
+ * Parse front matter from raw data
+ */
+function parseFrontMatterData(raw: RawFrontMatter): FrontMatter {
+  return {
+    id: raw.id,
+    preface: raw.preface ? parseFrontMatterSection(raw.preface, 'Preface') : undefined,
+    introduction: raw.introduction
+      ? parseFrontMatterSection(raw.introduction, 'Introduction')
+      : undefined,
+    committees: raw.committees ? parseCommitteesData(raw.committees) : undefined,
+  };
+}
+
+/**
+ * Build front matter from the first volume preface, for sources without front_matter
+ */
+function parseVolumePrefaceAsFrontMatter(volumes: RawVolume[]): FrontMatter | undefined {
+  const preface = volumes.find((volume) => volume.preface)?.preface;
+  if (!preface) return undefined;
+
+  return {
+    id: 'front-matter',
+    preface: parseFrontMatterSection(preface, 'Preface'),
+  };
+}
+
+/**
+ * Parse a preface or introduction from raw data
+ */
+function parseFrontMatterSection(
+  raw: RawFrontMatterSection,
+  defaultTitle: string
+): FrontMatterSection {
+  return {
+    id: raw.id,
+    type: raw.type,
+    title: raw.title || defaultTitle,
+    content: (raw.content || [])
+      .map((item, index) => parseFrontMatterItem(item, `${raw.id}-${index + 1}`))
+      .filter((item): item is FrontMatterItem => item !== null),
+  };
+}
+
+/**
+ * Parse one front matter content item
+ *
+ * Items without an ID get one from their position; unknown item types and
+ * empty paragraphs or lists are dropped.
+ */
+function parseFrontMatterItem(raw: RawFrontMatterItem, fallbackId: string): FrontMatterItem | null {
+  const id = raw.id || fallbackId;
+
+  switch (raw.type) {
+    case 'paragraph':
+      return raw.content?.trim() ? { type: 'paragraph', id, content: raw.content } : null;
+    case 'heading':
+      return raw.content?.trim()
+        ? { type: 'heading', id, content: raw.content, level: raw.level || 2 }
+        : null;
+    case 'table':
+      return {
+        type: 'table',
+        id,
+        title: raw.title,
+        ...parseTableStructure(raw.structure),
+      };
+    case 'figure':
+      return raw.graphic?.src
+        ? {
+            type: 'figure',
+            id,
+            title: raw.title,
+            imageUrl: raw.graphic.src,
+            altText: raw.graphic.alt_text || raw.title || '',
+          }
+        : null;
+    case 'list': {
+      const items = (raw.items || []).filter((item) => item.trim());
+      return items.length > 0
+        ? { type: 'list', id, listType: raw.list_type || 'bulleted', items }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse the committees section from raw data
+ */
+function parseCommitteesData(raw: RawCommittees): CommitteesSection {
+  return {
+    id: raw.id,
+    type: 'committees',
+    title: raw.title || 'Committees',
+    tables: (raw.tables || []).map(parseTableData),
+    notes: (raw.notes || [])
+      .filter((note) => note.content?.trim())
+      .map((note, index) => ({
+        id: note.id || `${raw.id}-note-${index + 1}`,
+        content: note.content as string,
+      })),
+  };
+}
+
 /**
  * Parse a volume from raw data
  */
-function parseVolumeData(raw: RawVolume): any {
+function parseVolumeData(raw: RawVolume): Volume {
   return {
     id: raw.id,
     type: raw.type,
@@ -309,6 +612,79 @@ function parsePartData(raw: RawPart): Part {
     title: raw.title,
     type: 'part',
     sections: raw.sections.map(parseSectionData),
+    specialTables: raw.special_tables?.map(parseSpecialTablesData),
+    appendix: raw.appendix ? parsePartAppendixData(raw.appendix) : undefined,
+    seeAlso: parseSeeAlso(raw.see_also),
+  };
+}
+
+/**
+ * Parse a special tables group (spectables) from raw data
+ */
+function parseSpecialTablesData(raw: RawSpecialTables): SpecialTables {
+  return {
+    id: raw.id,
+    type: 'spectables',
+    title: raw.title,
+    tablePrefix: raw.table_prefix,
+    tocEntry: raw.toc_entry,
+    tables: (raw.tables || []).map((table) => ({
+      ...parseTableData(table),
+      number: getSpecialTableNumber(raw.table_prefix, table.id) ?? '',
+    })),
+  };
+}
+
+/**
+ * Parse a part appendix (application notes) from raw data
+ */
+function parsePartAppendixData(raw: RawPartAppendix): PartAppendix {
+  return {
+    id: raw.id,
+    type: 'part_appendix',
+    introduction: raw.introduction,
+    applicationNotes: (raw.application_notes || []).map(parseApplicationNoteData),
+  };
+}
+
+/**
+ * Parse an application note from raw data
+ */
+function parseApplicationNoteData(raw: RawApplicationNote): ApplicationNote {
+  return {
+    id: raw.id,
+    number: raw.number,
+    title: raw.title,
+    refs: raw.refs,
+    paragraphs: (raw.paragraphs || []).map(parseNoteParagraphData),
+    divisions: (raw.divisions || []).map(parseNoteDivisionData),
+    tables: raw.tables?.map(parseTableData),
+    figures: raw.figures?.map(parseFigureData),
+    deleted: raw.deleted || undefined,
+    revisions: parseRevisions(raw.revisions),
+  };
+}
+
+/**
+ * Parse an application note division from raw data
+ */
+function parseNoteDivisionData(raw: RawNoteDivision): NoteDivision {
+  return {
+    id: raw.id,
+    title: raw.title,
+    paragraphs: (raw.paragraphs || []).map(parseNoteParagraphData),
+    tables: raw.tables?.map(parseTableData),
+    figures: raw.figures?.map(parseFigureData),
+  };
+}
+
+/**
+ * Parse an application note paragraph from raw data
+ */
+function parseNoteParagraphData(raw: RawNoteParagraph, index: number): NoteParagraph {
+  return {
+    id: raw.id || String(index + 1),
+    content: raw.content || '',
   };
 }
 
@@ -322,6 +698,7 @@ function parseSectionData(raw: RawSection): Section {
     title: raw.title,
     type: 'section',
     subsections: raw.subsections.map(parseSubsectionData),
+    deleted: raw.deleted || undefined,
   };
 }
 
@@ -335,6 +712,8 @@ function parseSubsectionData(raw: RawSubsection): Subsection {
     title: raw.title,
     type: 'subsection',
     articles: raw.articles.map(parseArticleData),
+    seeAlso: parseSeeAlso(raw.see_also),
+    deleted: raw.deleted || undefined,
   };
 }
 
@@ -349,15 +728,24 @@ function parseArticleData(raw: RawArticle): Article {
   if (raw.content && Array.isArray(raw.content)) {
     for (const sentence of raw.content) {
       // Add sentence text as a clause if it has text
-      if (sentence.text && sentence.text.trim()) {
+      // (deleted sentences are kept as placeholders so numbering stays intact,
+      // and annotation-only sentences so BC annotations are not lost)
+      if ((sentence.text && sentence.text.trim()) || sentence.deleted || sentence.bc_annotations?.length) {
         clauses.push({
           id: sentence.id,
           number: String(sentence.number),
-          text: sentence.text,
-          glossaryTerms: extractGlossaryTerms(sentence.text),
+          text: sentence.text || '',
+          glossaryTerms: extractGlossaryTerms(sentence.text || ''),
           tables: sentence.tables?.map(parseTableData),
           figures: sentence.figures?.map(parseFigureData),
           equations: sentence.equations?.map(parseEquationData),
+          objectives: sentence.objectives?.map(parseObjectiveData),
+          functionalStatements: sentence.functional_statements?.map(parseFunctionalStatementData),
+          intentReference: sentence.intent_reference || undefined,
+          seeAlso: parseSeeAlso(sentence.see_also),
+          bcAnnotations: parseBCAnnotations(sentence.bc_annotations),
+          deleted: sentence.deleted || undefined,
+          revisions: parseRevisions(sentence.revisions),
         });
       }
 
@@ -368,9 +756,14 @@ function parseArticleData(raw: RawArticle): Article {
         }
       }
 
-      // Extract note references from sentence
-      const sentenceNotes = extractNoteReferences(sentence.text);
-      notes.push(...sentenceNotes);
+      // Extract note references from sentence, clause and subclause text
+      notes.push(...extractNoteReferences(sentence.text || ''));
+      for (const clause of sentence.clauses || []) {
+        notes.push(...extractNoteReferences(clause.text || ''));
+        for (const subclause of clause.subclauses || []) {
+          notes.push(...extractNoteReferences(subclause.text || ''));
+        }
+      }
     }
   }
 
@@ -383,6 +776,9 @@ function parseArticleData(raw: RawArticle): Article {
     notes,
     effectiveDate: raw.effective_date,
     amendedDate: raw.amended_date,
+    seeAlso: parseSeeAlso(raw.see_also),
+    deleted: raw.deleted || undefined,
+    revisions: parseRevisions(raw.revisions),
   };
 }
 
@@ -403,6 +799,8 @@ function parseClauseData(raw: RawClause): Clause {
         tables: subclause.tables?.map(parseTableData),
         figures: subclause.figures?.map(parseFigureData),
         equations: subclause.equations?.map(parseEquationData),
+        deleted: subclause.deleted || undefined,
+        revisions: parseRevisions(subclause.revisions),
       });
     }
   }
@@ -416,18 +814,73 @@ function parseClauseData(raw: RawClause): Clause {
     tables: raw.tables?.map(parseTableData),
     figures: raw.figures?.map(parseFigureData),
     equations: raw.equations?.map(parseEquationData),
+    seeAlso: parseSeeAlso(raw.see_also),
+    deleted: raw.deleted || undefined,
+    revisions: parseRevisions(raw.revisions),
   };
 }
 
+/**
+ * Parse "see also" cross-links from raw data
+ * 
+ * Parts, subsections and articles carry a single see-also string;
+ * sentences and clauses carry a list of entries.
+ */
+function parseSeeAlso(raw: string | RawSeeAlsoEntry[] | undefined): SeeAlsoLink[] | undefined {
+  if (!raw) return undefined;
+
+  const entries: RawSeeAlsoEntry[] = typeof raw === 'string' ? [{ content: raw }] : raw;
+  const links = entries
+    .filter((entry) => entry.content && entry.content.trim())
+    .map((entry) => ({
+      id: entry.id,
+      content: entry.content!,
+      targetIds: extractInternalReferenceIds(entry.content!),
+    }));
+
+  return links.length > 0 ? links : undefined;
+}
+
+/**
+ * Parse the BC-specific annotations on a sentence
+ */
+function parseBCAnnotations(raw: RawBCAnnotation[] | undefined): BCAnnotation[] | undefined {
+  if (!raw) return undefined;
+
+  const annotations = raw
+    .filter((annotation) => annotation.content && annotation.content.trim())
+    .map((annotation) => ({
+      type: annotation.type,
+      content: annotation.content,
+    }));
+
+  return annotations.length > 0 ? annotations : undefined;
+}
+
 /**
  * Parse a table from raw data
  */
 function parseTableData(raw: RawTable): Table {
+  return {
+    id: raw.id,
+    number: extractNumberFromId(raw.id),
+    title: raw.title || '',
+    caption: raw.caption,
+    ...parseTableStructure(raw.structure),
+    deleted: raw.deleted || undefined,
+    revisions: parseRevisions(raw.revisions),
+  };
+}
+
+/**
+ * Parse table header and body rows from a raw table structure
+ */
+function parseTableStructure(raw: RawTableStructure | undefined): Pick<Table, 'headers' | 'rows'> {
   const rows: TableRow[] = [];
 
   // Parse header rows
-  if (raw.structure?.header_rows) {
-    for (const headerRow of raw.structure.header_rows) {
+  if (raw?.header_rows) {
+    for (const headerRow of raw.header_rows) {
       rows.push({
         cells: headerRow.map((cell) => ({
           content: cell.content || '',
@@ -440,8 +893,8 @@ function parseTableData(raw: RawTable): Table {
   }
 
   // Parse body rows
-  if (raw.structure?.body_rows) {
-    for (const bodyRow of raw.structure.body_rows) {
+  if (raw?.body_rows) {
+    for (const bodyRow of raw.body_rows) {
       rows.push({
         cells: bodyRow.map((cell) => ({
           content: cell.content || '',
@@ -454,15 +907,33 @@ function parseTableData(raw: RawTable): Table {
   }
 
   return {
-    id: raw.id,
-    number: extractNumberFromId(raw.id),
-    title: raw.title || '',
-    caption: raw.caption,
-    headers: raw.structure?.header_rows?.map((row) => row.map((cell) => cell.content || '')) || [],
+    headers: raw?.header_rows?.map((row) => row.map((cell) => cell.content || '')) || [],
     rows,
   };
 }
 
+/**
+ * Parse the revision history of a provision
+ * 
+ * Every revision is kept (not just the current one) so the provisions in
+ * force on any effective date can be worked out downstream.
+ */
+function parseRevisions(raw: RawRevision[] | undefined): Revision[] | undefined {
+  if (!raw || !Array.isArray(raw) || raw.length === 0) return undefined;
+
+  return raw.map((revision) => ({
+    type: revision.type,
+    effectiveDate: revision.effective_date,
+    revisionType: revision.revision_type,
+    revisionId: revision.revision_id,
+    sequence: revision.sequence ?? undefined,
+    status: revision.status,
+    deleted: revision.deleted || undefined,
+    changeSummary: revision.change_summary,
+    note: revision.note,
+  }));
+}
+
 /**
  * Parse a figure from raw data
  */
@@ -472,8 +943,11 @@ function parseFigureData(raw: RawFigure): Figure {
     number: raw.number || extractNumberFromId(raw.id),
     title: raw.title || '',
     caption: raw.caption,
-    imageUrl: raw.image_url || '',
-    altText: raw.alt_text || raw.title || 'Figure',
+    imageUrl: raw.graphic?.src || raw.image_url || '',
+    altText: raw.graphic?.alt_text || raw.alt_text || raw.title || 'Figure',
+    width: raw.graphic?.width || undefined,
+    height: raw.graphic?.height || undefined,
+    deleted: raw.deleted || undefined,
   };
 }
 
@@ -484,11 +958,48 @@ function parseEquationData(raw: RawEquation): Equation {
   return {
     id: raw.id,
     number: raw.number || extractNumberFromId(raw.id),
+    display: raw.type === 'inline' ? 'inline' : 'block',
     latex: raw.latex || '',
+    plainText: raw.plainText || undefined,
+    mathml: raw.mathml || undefined,
+    image: raw.image || undefined,
+    imageSrc: raw.imageSrc || undefined,
     description: raw.description,
   };
 }
 
+/**
+ * Parse an objective (with its sub-objectives) from raw data
+ */
+function parseObjectiveData(raw: RawObjective): Objective {
+  return {
+    id: raw.id,
+    key: raw.key,
+    source: raw.source,
+    title: raw.title || '',
+    definition: raw.definition || '',
+    subObjectives: (raw.sub_objectives || []).map((sub) => ({
+      id: sub.id,
+      key: sub.key,
+      source: sub.source,
+      title: sub.title || '',
+      definition: sub.definition || '',
+    })),
+  };
+}
+
+/**
+ * Parse a functional statement from raw data
+ */
+function parseFunctionalStatementData(raw: RawFunctionalStatement): FunctionalStatement {
+  return {
+    id: raw.id,
+    key: raw.key,
+    source: raw.source,
+    definition: raw.definition || '',
+  };
+}
+
 /**
  * Parse glossary from raw object format to array
  */
@@ -500,6 +1011,7 @@ function parseGlossary(raw: Record<string, RawGlossaryEntry>): GlossaryEntry[] {
       id: key,
       term: value.term,
       definition: value.definition,
+      locationId: value.location_id,
       relatedTerms: value.related_terms,
     });
   }
@@ -562,6 +1074,55 @@ function extractAmendmentDatesFromBCAmendments(bcAmendments: any[]): AmendmentDa
   return dates;
 }
 
+/**
+ * Parse bc_amendments into full amendment records keyed by location_id
+ * 
+ * Records for a provision are ordered oldest first (by effective date,
+ * then sequence); records without a location are skipped.
+ */
+function parseBCAmendments(bcAmendments: RawBCAmendment[]): Record<string, AmendmentRecord[]> {
+  const amendments: Record<string, AmendmentRecord[]> = {};
+
+  for (const amendment of bcAmendments) {
+    if (!amendment.location_id) continue;
+
+    const record: AmendmentRecord = {
+      locationId: amendment.location_id,
+      type: amendment.type || 'revision',
+      amendmentId: amendment.amendment_id,
+      revisionId: amendment.revision_id,
+      revisionType: amendment.revision_type,
+      annotationType: amendment.annotation_type,
+      sequence: amendment.sequence ?? undefined,
+      effectiveDate: amendment.effective_date || amendment.date,
+      status: amendment.status,
+      content: amendment.content || '',
+      changeSummary: amendment.change_summary,
+      note: amendment.note,
+    };
+
+    if (!amendments[record.locationId]) {
+      amendments[record.locationId] = [];
+    }
+    amendments[record.locationId].push(record);
+  }
+
+  for (const records of Object.values(amendments)) {
+    records.sort(compareAmendmentRecords);
+  }
+
+  return amendments;
+}
+
+/**
+ * Order amendment records by effective date, then sequence
+ * (records without a date come first)
+ */
+function compareAmendmentRecords(a: AmendmentRecord, b: AmendmentRecord): number {
+  const byDate = (a.effectiveDate || '').localeCompare(b.effectiveDate || '');
+  return byDate || (a.sequence ?? 0) - (b.sequence ?? 0);
+}
+
 /**
  * Extract amendment dates from revisions throughout the document (DEPRECATED - kept for reference)
  * Scans all articles, sentences, clauses, and tables for revision effective dates
@@ -693,6 +1254,89 @@ function extractNoteReferences(text: string): NoteReference[] {
   return notes;
 }
 
+/**
+ * Extract internal reference target IDs from text
+ * Format: [REF:internal:targetId] or [REF:internal:targetId:short|long]
+ */
+export function extractInternalReferenceIds(text: string): string[] {
+  const ids: string[] = [];
+  const regex = /\[REF:internal:([^:\]]+)(?::(?:short|long))?\]/g;
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    if (!ids.includes(match[1])) {
+      ids.push(match[1]);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Resolve article note references against the application notes
+ * in the part appendices
+ * 
+ * References that do not point at an application note (e.g., internal
+ * references to other provisions) or point at a deleted one are dropped,
+ * and repeated references to the same note within an article are collapsed.
+ */
+function resolveNoteReferences(volumes: Volume[]): void {
+  const divisions = volumes.flatMap(v => v.divisions);
+
+  // Index every application note by ID
+  const notesById = new Map<string, ApplicationNote>();
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      for (const note of part.appendix?.applicationNotes || []) {
+        if (!note.deleted) notesById.set(note.id, note);
+      }
+    }
+  }
+
+  // Collect the articles referencing each note
+  const referencingArticles = new Map<string, string[]>();
+  const articles = divisions.flatMap(d =>
+    d.parts.flatMap(p => p.sections.flatMap(s => s.subsections.flatMap(ss => ss.articles)))
+  );
+  for (const article of articles) {
+    for (const ref of article.notes) {
+      if (!notesById.has(ref.id)) continue;
+      const articleIds = referencingArticles.get(ref.id) || [];
+      if (!articleIds.includes(article.id)) {
+        articleIds.push(article.id);
+      }
+      referencingArticles.set(ref.id, articleIds);
+    }
+  }
+
+  for (const article of articles) {
+    const resolved: NoteReference[] = [];
+    for (const ref of article.notes) {
+      const note = notesById.get(ref.id);
+      if (!note || resolved.some(r => r.id === ref.id)) continue;
+      resolved.push({
+        id: note.id,
+        noteNumber: note.number,
+        noteTitle: note.title,
+        noteContent: getApplicationNoteText(note),
+        relatedSections: referencingArticles.get(note.id),
+      });
+    }
+    article.notes = resolved;
+  }
+}
+
+/**
+ * Flatten application note paragraphs (including note divisions) to text
+ */
+function getApplicationNoteText(note: ApplicationNote): string {
+  const paragraphs = [
+    ...note.paragraphs.map(p => p.content),
+    ...note.divisions.flatMap(d => [d.title, ...d.paragraphs.map(p => p.content)]),
+  ];
+  return paragraphs.filter(Boolean).join('\n\n');
+}
+
 /**
  * Extract number from ID string
  * Example: "nbc.divA.part1.sect1.subsect1.art1" -> "1.1.1.1"
@@ -712,6 +1356,16 @@ function extractNumberFromId(id: string): string {
   return numbers.join('.') || id;
 }
 
+/**
+ * Get the number of a special table from its ID and its group's prefix
+ * Example: ("A-", "nbc.divB.part9.spectables1.table3") -> "A-3"
+ * @returns The table number, or undefined when the ID does not end in a table number
+ */
+export function getSpecialTableNumber(tablePrefix: string | undefined, tableId: string): string | undefined {
+  const match = tableId.split('.').pop()?.match(/^table(\d+)$/);
+  return match ? `${tablePrefix || ''}${match[1]}` : undefined;
+}
+
 /**
  * Parse a specific division from BCBC JSON
  * @param jsonData - Raw JSON data
@@ -754,6 +1408,12 @@ export function extractContentIds(document: BCBCDocument): string[] {
           }
         }
       }
+      for (const specialTables of part.specialTables || []) {
+        ids.push(specialTables.id);
+        for (const table of specialTables.tables) {
+          ids.push(table.id);
+        }
+      }
     }
   }
 
@@ -777,6 +1437,151 @@ export function getGlossaryMap(document: BCBCDocument): Map<string, GlossaryEntr
   return map;
 }
 
+/**
+ * Parse the rows of a conversions table into conversion factors
+ * 
+ * Columns are located from the header row ("To Convert", "To",
+ * "Multiply by"), defaulting to the first three columns. Rows whose
+ * factor cannot be read as a number are skipped.
+ * 
+ * @param conversions - Volume conversions section
+ * @returns Conversion factors in table order
+ */
+export function parseConversionFactors(conversions: ConversionsSection): ConversionFactor[] {
+  const structure = conversions.table_structure;
+  if (!structure?.body_rows) return [];
+
+  // Locate columns from the last header row
+  const headers = (structure.header_rows?.[structure.header_rows.length - 1] || [])
+    .map((cell) => cleanConversionCell(cell.content).toLowerCase());
+  const findColumn = (pattern: RegExp, fallback: number) => {
+    const index = headers.findIndex((header) => pattern.test(header));
+    return index >= 0 ? index : fallback;
+  };
+  const fromColumn = findColumn(/convert|from/, 0);
+  const toColumn = findColumn(/^to$/, 1);
+  const factorColumn = findColumn(/multiply|factor/, 2);
+
+  const factors: ConversionFactor[] = [];
+
+  for (const row of structure.body_rows) {
+    const fromUnit = cleanConversionCell(row[fromColumn]?.content);
+    const toUnit = cleanConversionCell(row[toColumn]?.content);
+    const expression = cleanConversionCell(row[factorColumn]?.content);
+    if (!fromUnit || !toUnit || !expression) continue;
+
+    // Numbers use spaces as digit group separators (e.g., "0.039 37")
+    const numbers = (expression.match(/\d[\d\s]*(?:\.[\d\s]*\d)?|\.\d[\d\s]*\d?/g) || [])
+      .map((n) => parseFloat(n.replace(/\s/g, '')))
+      .filter((n) => !isNaN(n));
+    if (numbers.length === 0) continue;
+
+    const hasOffset = expression.includes('+') && numbers.length > 1;
+    factors.push({
+      fromUnit,
+      toUnit,
+      factor: numbers[0],
+      offset: hasOffset ? numbers[numbers.length - 1] : undefined,
+      expression,
+    });
+  }
+
+  return factors;
+}
+
+/**
+ * Get the conversion factors of every volume, without duplicates
+ * @param document - BCBC document
+ * @returns Conversion factors (first occurrence of each unit pair wins)
+ */
+export function getConversionFactors(document: BCBCDocument): ConversionFactor[] {
+  const factors: ConversionFactor[] = [];
+  const seen = new Set<string>();
+
+  for (const volume of document.volumes || []) {
+    if (!volume.conversions) continue;
+    for (const factor of parseConversionFactors(volume.conversions)) {
+      const key = `${factor.fromUnit}|${factor.toUnit}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      factors.push(factor);
+    }
+  }
+
+  return factors;
+}
+
+/**
+ * Normalize a conversions table cell to plain text
+ * (superscripts become Unicode, other markup is dropped)
+ */
+function cleanConversionCell(content: string | undefined): string {
+  if (!content) return '';
+  return content
+    .replace(/<sup>2<\/sup>/gi, '²')
+    .replace(/<sup>3<\/sup>/gi, '³')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Get the amendment history of a provision
+ * @param document - BCBC document
+ * @param provisionId - Article, sentence, clause or table ID
+ * @param includeDescendants - Include amendments to provisions within it (e.g., an article's sentences)
+ * @returns Amendment records, oldest first
+ */
+export function getAmendmentHistory(
+  document: BCBCDocument,
+  provisionId: string,
+  includeDescendants = true
+): AmendmentRecord[] {
+  const amendments = document.amendments || {};
+  const records = Object.entries(amendments)
+    .filter(([locationId]) =>
+      locationId === provisionId ||
+      (includeDescendants && locationId.startsWith(`${provisionId}.`))
+    )
+    .flatMap(([, locationRecords]) => locationRecords);
+
+  return records.sort(compareAmendmentRecords);
+}
+
+/**
+ * Get the state of each revision of a provision on a date
+ *
+ * The latest revision effective on or before the date is in force (or
+ * repealed when it deletes the provision); earlier ones are superseded
+ * and later ones pending. Revisions sharing an effective date are ordered
+ * by sequence, originals first.
+ * @param revisions - Revision history of one provision
+ * @param asOf - Date to evaluate (YYYY-MM-DD)
+ * @returns States in the same order as the revisions
+ */
+export function getRevisionStates(revisions: Revision[], asOf: string): RevisionState[] {
+  const order = (revision: Revision) => revision.sequence ?? (revision.type === 'original' ? -1 : 0);
+
+  let inForce = -1;
+  revisions.forEach((revision, index) => {
+    if (revision.effectiveDate > asOf) return;
+
+    const current = revisions[inForce];
+    if (
+      !current ||
+      revision.effectiveDate > current.effectiveDate ||
+      (revision.effectiveDate === current.effectiveDate && order(revision) >= order(current))
+    ) {
+      inForce = index;
+    }
+  });
+
+  return revisions.map((revision, index) => {
+    if (index === inForce) return revision.deleted ? 'repealed' : 'in-force';
+    return revision.effectiveDate > asOf ? 'pending' : 'superseded';
+  });
+}
+
 /**
  * Get all amendment dates from a document
  * @param document - BCBC document
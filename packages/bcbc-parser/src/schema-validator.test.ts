@@ -0,0 +1,149 @@
+/**
+ * Unit tests for JSON Schema (draft-07) validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSchema, type JSONSchema } from './schema-validator';
+
+describe('validateSchema', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    required: ['version', 'volumes'],
+    properties: {
+      version: { type: 'string', pattern: '^\\d{4}$' },
+      generated_timestamp: { type: 'string', format: 'date-time' },
+      volumes: {
+        type: 'array',
+        items: { $ref: '#/definitions/volume' },
+      },
+      back_matter: { type: 'object', deprecated: true },
+    },
+    definitions: {
+      volume: {
+        type: 'object',
+        required: ['id', 'type', 'number'],
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', const: 'volume' },
+          number: { type: 'number', minimum: 1, maximum: 2 },
+          content: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'type'],
+              properties: {
+                id: { type: 'string' },
+                type: { type: 'string', enum: ['sentence', 'table'] },
+              },
+              oneOf: [
+                { properties: { type: { const: 'sentence' } }, required: ['text'] },
+                { properties: { type: { const: 'table' } }, required: ['structure'] },
+              ],
+            },
+          },
+        },
+      },
+    },
+  };
+
+  const createData = () => ({
+    version: '2024',
+    generated_timestamp: '2025-01-15T10:30:00-08:00',
+    volumes: [
+      {
+        id: 'vol1',
+        type: 'volume',
+        number: 1,
+        content: [
+          { id: 's1', type: 'sentence', text: 'Text' },
+          { id: 't1', type: 'table', structure: {} },
+        ],
+      },
+    ],
+  });
+
+  it('should return no errors for conforming data', () => {
+    expect(validateSchema(createData(), schema)).toHaveLength(0);
+  });
+
+  it('should report missing required fields with their parent path', () => {
+    const data = createData() as Record<string, any>;
+    delete data.volumes[0].number;
+
+    expect(validateSchema(data, schema)).toEqual([
+      {
+        path: 'volumes[0]',
+        field: 'number',
+        message: 'Missing required field: number',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report type, const, pattern and range errors at the value path', () => {
+    const data = createData() as Record<string, any>;
+    data.version = '24';
+    data.volumes[0].id = 1;
+    data.volumes[0].type = 'vol';
+    data.volumes[0].number = 3;
+
+    const errors = validateSchema(data, schema);
+    expect(errors.map(e => e.path)).toEqual([
+      'version',
+      'volumes[0].id',
+      'volumes[0].type',
+      'volumes[0].number',
+    ]);
+    expect(errors[1].message).toBe('Invalid type for field id: expected string, got number');
+  });
+
+  it('should report the closest oneOf branch when no branch matches', () => {
+    const data = createData() as Record<string, any>;
+    delete data.volumes[0].content[1].structure;
+
+    const errors = validateSchema(data, schema);
+    expect(errors).toContainEqual(expect.objectContaining({
+      path: 'volumes[0].content[1]',
+      message: expect.stringContaining('oneOf'),
+    }));
+    expect(errors).toContainEqual(expect.objectContaining({
+      path: 'volumes[0].content[1]',
+      field: 'structure',
+      message: 'Missing required field: structure',
+    }));
+  });
+
+  it('should warn about undeclared and deprecated fields', () => {
+    const data = createData() as Record<string, any>;
+    data.divisions = [];
+    data.back_matter = {};
+
+    const errors = validateSchema(data, schema);
+    expect(errors).toHaveLength(2);
+    expect(errors.every(e => e.severity === 'warning')).toBe(true);
+    expect(errors.map(e => e.field).sort()).toEqual(['back_matter', 'divisions']);
+  });
+
+  it('should warn about invalid date-time formats', () => {
+    const data = createData() as Record<string, any>;
+    data.generated_timestamp = 'yesterday';
+
+    const errors = validateSchema(data, schema);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ field: 'generated_timestamp', severity: 'warning' });
+  });
+
+  it('should report warnings as errors in strict mode', () => {
+    const data = createData() as Record<string, any>;
+    data.divisions = [];
+
+    const errors = validateSchema(data, schema, { strict: true });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].severity).toBe('error');
+  });
+
+  it('should report unresolvable references', () => {
+    const errors = validateSchema({}, { $ref: '#/definitions/missing' });
+    expect(errors[0].message).toBe('Unresolvable schema reference: #/definitions/missing');
+  });
+});
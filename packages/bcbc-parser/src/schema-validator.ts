@@ -0,0 +1,538 @@
+/**
+ * JSON Schema (draft-07) validation
+ *
+ * Checks raw source JSON against the BCBC JSON schema before parsing,
+ * so that a new drop from the XML converter cannot silently lose or
+ * rename fields the parser expects.
+ *
+ * Supports the draft-07 validation keywords (type, enum, const, required,
+ * properties, items, composition, conditionals, numeric and string limits)
+ * with local `$ref`s. Properties not declared by an object schema that
+ * leaves `additionalProperties` open (and does not compose other schemas),
+ * deprecated properties and invalid
+ * `date`/`date-time` formats are reported as warnings, or as errors in
+ * strict mode.
+ */
+
+import type { ValidationError } from './types';
+
+/**
+ * Draft-07 JSON Schema (the subset of keywords checked by validateSchema)
+ */
+export interface JSONSchema {
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  deprecated?: boolean;
+  definitions?: Record<string, JSONSchemaDefinition>;
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  // Objects
+  required?: string[];
+  properties?: Record<string, JSONSchemaDefinition>;
+  patternProperties?: Record<string, JSONSchemaDefinition>;
+  additionalProperties?: JSONSchemaDefinition;
+  propertyNames?: JSONSchemaDefinition;
+  minProperties?: number;
+  maxProperties?: number;
+  // Arrays
+  items?: JSONSchemaDefinition | JSONSchemaDefinition[];
+  additionalItems?: JSONSchemaDefinition;
+  contains?: JSONSchemaDefinition;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Composition and conditionals
+  allOf?: JSONSchemaDefinition[];
+  anyOf?: JSONSchemaDefinition[];
+  oneOf?: JSONSchemaDefinition[];
+  not?: JSONSchemaDefinition;
+  if?: JSONSchemaDefinition;
+  then?: JSONSchemaDefinition;
+  else?: JSONSchemaDefinition;
+}
+
+export type JSONSchemaDefinition = JSONSchema | boolean;
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Schema validation options
+ */
+export interface SchemaValidationOptions {
+  /** Report warnings (undeclared or deprecated fields, formats) as errors */
+  strict?: boolean;
+}
+
+/**
+ * Validation state shared across the recursive walk
+ */
+interface SchemaContext {
+  root: JSONSchema;
+  strict: boolean;
+  errors: ValidationError[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Validate data against a draft-07 JSON Schema
+ * @param data - Raw JSON data to validate
+ * @param schema - Root schema (local `$ref`s resolve against it)
+ * @param options - Validation options
+ * @returns Array of validation errors with the path of each offending value
+ */
+export function validateSchema(
+  data: unknown,
+  schema: JSONSchema,
+  options: SchemaValidationOptions = {}
+): ValidationError[] {
+  const context: SchemaContext = {
+    root: schema,
+    strict: options.strict ?? false,
+    errors: [],
+  };
+
+  validateNode(data, schema, 'root', '', context, true);
+
+  return context.errors;
+}
+
+/**
+ * Validate a value against a schema, appending errors to the context
+ *
+ * Undeclared properties are only checked outside composition branches.
+ */
+function validateNode(
+  value: unknown,
+  schema: JSONSchemaDefinition,
+  path: string,
+  field: string,
+  context: SchemaContext,
+  checkUndeclared: boolean
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    report(context, path, field, 'Value is not allowed here', 'error');
+    return;
+  }
+
+  if (schema.$ref) {
+    const target = resolveRef(schema.$ref, context.root);
+    if (target === undefined) {
+      report(context, path, field, `Unresolvable schema reference: ${schema.$ref}`, 'error');
+    } else {
+      validateNode(value, target, path, field, context, checkUndeclared);
+    }
+    // Draft-07 ignores keywords beside $ref
+    return;
+  }
+
+  if (schema.deprecated) {
+    report(context, path, field, `Field ${field || path} is deprecated`, 'warning');
+  }
+
+  // Type
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      report(
+        context,
+        path,
+        field,
+        `Invalid type for field ${field || path}: expected ${types.join(' or ')}, got ${getType(value)}`,
+        'error'
+      );
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    report(
+      context,
+      path,
+      field,
+      `Invalid value for field ${field || path}: expected one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}, got ${JSON.stringify(value)}`,
+      'error'
+    );
+  }
+
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    report(
+      context,
+      path,
+      field,
+      `Invalid value for field ${field || path}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`,
+      'error'
+    );
+  }
+
+  if (typeof value === 'string') {
+    validateString(value, schema, path, field, context);
+  } else if (typeof value === 'number') {
+    validateNumber(value, schema, path, field, context);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, field, context);
+  } else if (value !== null && typeof value === 'object') {
+    validateObject(value as Record<string, unknown>, schema, path, context, checkUndeclared);
+  }
+
+  validateComposition(value, schema, path, field, context);
+}
+
+/**
+ * Validate string length, pattern and format
+ */
+function validateString(
+  value: string,
+  schema: JSONSchema,
+  path: string,
+  field: string,
+  context: SchemaContext
+): void {
+  const length = Array.from(value).length;
+
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    report(context, path, field, `Field ${field || path} must be at least ${schema.minLength} characters`, 'error');
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    report(context, path, field, `Field ${field || path} must be at most ${schema.maxLength} characters`, 'error');
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+    report(context, path, field, `Field ${field || path} does not match pattern ${schema.pattern}: ${JSON.stringify(value)}`, 'error');
+  }
+
+  // Formats are annotations in draft-07, so a mismatch is only a warning
+  if (schema.format === 'date' && !(DATE_PATTERN.test(value) && isValidDate(value))) {
+    report(context, path, field, `Field ${field || path} is not a valid date: ${JSON.stringify(value)}`, 'warning');
+  }
+  if (schema.format === 'date-time' && !(DATE_TIME_PATTERN.test(value) && !isNaN(Date.parse(value)))) {
+    report(context, path, field, `Field ${field || path} is not a valid date-time: ${JSON.stringify(value)}`, 'warning');
+  }
+}
+
+/**
+ * Validate numeric limits
+ */
+function validateNumber(
+  value: number,
+  schema: JSONSchema,
+  path: string,
+  field: string,
+  context: SchemaContext
+): void {
+  const name = field || path;
+
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    report(context, path, field, `Field ${name} must be >= ${schema.minimum}, got ${value}`, 'error');
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    report(context, path, field, `Field ${name} must be <= ${schema.maximum}, got ${value}`, 'error');
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    report(context, path, field, `Field ${name} must be > ${schema.exclusiveMinimum}, got ${value}`, 'error');
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    report(context, path, field, `Field ${name} must be < ${schema.exclusiveMaximum}, got ${value}`, 'error');
+  }
+  if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+    report(context, path, field, `Field ${name} must be a multiple of ${schema.multipleOf}, got ${value}`, 'error');
+  }
+}
+
+/**
+ * Validate array items and limits
+ */
+function validateArray(
+  value: unknown[],
+  schema: JSONSchema,
+  path: string,
+  field: string,
+  context: SchemaContext
+): void {
+  const name = field || path;
+
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    report(context, path, field, `Field ${name} must contain at least ${schema.minItems} item(s)`, 'error');
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    report(context, path, field, `Field ${name} must contain at most ${schema.maxItems} item(s)`, 'error');
+  }
+  if (schema.uniqueItems) {
+    const duplicate = value.findIndex((item, index) =>
+      value.slice(0, index).some(other => deepEqual(other, item))
+    );
+    if (duplicate !== -1) {
+      report(context, path, field, `Field ${name} must not contain duplicate items (duplicate at index ${duplicate})`, 'error');
+    }
+  }
+
+  if (Array.isArray(schema.items)) {
+    // Tuple validation
+    value.forEach((item, index) => {
+      const itemSchema = index < (schema.items as JSONSchemaDefinition[]).length
+        ? (schema.items as JSONSchemaDefinition[])[index]
+        : schema.additionalItems;
+      if (itemSchema !== undefined) {
+        validateNode(item, itemSchema, `${path}[${index}]`, `${field}[${index}]`, context, true);
+      }
+    });
+  } else if (schema.items !== undefined) {
+    value.forEach((item, index) => {
+      validateNode(item, schema.items as JSONSchemaDefinition, `${path}[${index}]`, `${field}[${index}]`, context, true);
+    });
+  }
+
+  if (schema.contains !== undefined) {
+    const contains = schema.contains;
+    if (!value.some(item => collectErrors(item, contains, path, field, context).length === 0)) {
+      report(context, path, field, `Field ${name} must contain at least one matching item`, 'error');
+    }
+  }
+}
+
+/**
+ * Validate object properties and limits
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JSONSchema,
+  path: string,
+  context: SchemaContext,
+  checkUndeclared: boolean
+): void {
+  const keys = Object.keys(value);
+
+  for (const field of schema.required || []) {
+    if (!(field in value) || value[field] === undefined) {
+      report(context, path, field, `Missing required field: ${field}`, 'error');
+    }
+  }
+
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    report(context, path, '', `Object must have at least ${schema.minProperties} properties`, 'error');
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    report(context, path, '', `Object must have at most ${schema.maxProperties} properties`, 'error');
+  }
+
+  const patterns = Object.entries(schema.patternProperties || {}).map(
+    ([pattern, propertySchema]) => [new RegExp(pattern, 'u'), propertySchema] as const
+  );
+
+  for (const key of keys) {
+    const childPath = path === 'root' ? key : `${path}.${key}`;
+    let declared = false;
+
+    if (schema.propertyNames !== undefined) {
+      validateNode(key, schema.propertyNames, childPath, key, context, true);
+    }
+
+    if (schema.properties && key in schema.properties) {
+      declared = true;
+      validateNode(value[key], schema.properties[key], childPath, key, context, true);
+    }
+
+    for (const [pattern, propertySchema] of patterns) {
+      if (pattern.test(key)) {
+        declared = true;
+        validateNode(value[key], propertySchema, childPath, key, context, true);
+      }
+    }
+
+    if (!declared && schema.additionalProperties !== undefined) {
+      validateNode(value[key], schema.additionalProperties, childPath, key, context, true);
+    } else if (!declared && checkUndeclared && schema.properties && !hasComposition(schema)) {
+      report(context, path, key, `Field ${key} is not declared in the schema`, 'warning');
+    }
+  }
+}
+
+/**
+ * Validate allOf, anyOf, oneOf, not and if/then/else
+ */
+function validateComposition(
+  value: unknown,
+  schema: JSONSchema,
+  path: string,
+  field: string,
+  context: SchemaContext
+): void {
+  const name = field || path;
+
+  for (const subschema of schema.allOf || []) {
+    validateNode(value, subschema, path, field, context, false);
+  }
+
+  if (schema.anyOf) {
+    const results = schema.anyOf.map(subschema => collectErrors(value, subschema, path, field, context));
+    if (!results.some(isValid)) {
+      report(context, path, field, `Field ${name} does not match any schema in anyOf`, 'error');
+      closestBranch(results).forEach(error => report(context, error.path, error.field, error.message, error.severity));
+    }
+  }
+
+  if (schema.oneOf) {
+    const results = schema.oneOf.map(subschema => collectErrors(value, subschema, path, field, context));
+    const matches = results.filter(isValid).length;
+    if (matches === 0) {
+      report(context, path, field, `Field ${name} does not match any schema in oneOf`, 'error');
+      closestBranch(results).forEach(error => report(context, error.path, error.field, error.message, error.severity));
+    } else if (matches > 1) {
+      report(context, path, field, `Field ${name} matches ${matches} schemas in oneOf, expected exactly one`, 'error');
+    }
+  }
+
+  if (schema.not !== undefined && isValid(collectErrors(value, schema.not, path, field, context))) {
+    report(context, path, field, `Field ${name} must not match the schema in not`, 'error');
+  }
+
+  if (schema.if !== undefined) {
+    const branch = isValid(collectErrors(value, schema.if, path, field, context)) ? schema.then : schema.else;
+    if (branch !== undefined) {
+      validateNode(value, branch, path, field, context, false);
+    }
+  }
+}
+
+/**
+ * Validate against a subschema without reporting, returning its errors
+ */
+function collectErrors(
+  value: unknown,
+  schema: JSONSchemaDefinition,
+  path: string,
+  field: string,
+  context: SchemaContext
+): ValidationError[] {
+  // Branches are checked leniently so that warnings cannot fail them
+  const branchContext: SchemaContext = { ...context, strict: false, errors: [] };
+  validateNode(value, schema, path, field, branchContext, false);
+  return branchContext.errors;
+}
+
+/**
+ * Whether a branch passed (warnings do not fail a branch)
+ */
+function isValid(errors: ValidationError[]): boolean {
+  return !errors.some(error => error.severity === 'error');
+}
+
+/**
+ * Errors of the branch that came closest to matching, for path-precise reporting
+ */
+function closestBranch(results: ValidationError[][]): ValidationError[] {
+  return results.reduce((best, errors) => (errors.length < best.length ? errors : best));
+}
+
+/**
+ * Whether a schema composes others (their declared properties are not
+ * tracked, so undeclared property warnings are skipped)
+ */
+function hasComposition(schema: JSONSchema): boolean {
+  return Boolean(schema.allOf || schema.anyOf || schema.oneOf || schema.if);
+}
+
+/**
+ * Resolve a local JSON pointer reference (e.g., "#/definitions/article")
+ */
+function resolveRef(ref: string, root: JSONSchema): JSONSchemaDefinition | undefined {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+
+  let target: unknown = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!target || typeof target !== 'object' || !(key in target)) return undefined;
+    target = (target as Record<string, unknown>)[key];
+  }
+
+  return target as JSONSchemaDefinition;
+}
+
+/**
+ * Check a value against a JSON Schema primitive type
+ */
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function getType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check whether a date string is a real calendar date
+ */
+function isValidDate(value: string): boolean {
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value.slice(0, 10);
+}
+
+/**
+ * Structural equality for enum, const and uniqueItems
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+
+  return aKeys.every(key =>
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * Append an error, promoting warnings to errors in strict mode
+ */
+function report(
+  context: SchemaContext,
+  path: string,
+  field: string,
+  message: string,
+  severity: ValidationError['severity']
+): void {
+  context.errors.push({
+    path,
+    field,
+    message,
+    severity: context.strict ? 'error' : severity,
+  });
+}
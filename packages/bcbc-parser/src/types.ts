@@ -38,6 +38,88 @@ export interface PrefaceSection {
   level?: number;  // For headings
 }
 
+/**
+ * Front matter (preface, introduction and committees)
+ */
+export interface FrontMatter {
+  id: string;
+  preface?: FrontMatterSection;
+  introduction?: FrontMatterSection;
+  committees?: CommitteesSection;
+}
+
+/**
+ * Front matter section made of content items (preface or introduction)
+ */
+export interface FrontMatterSection {
+  id: string;
+  type: 'preface' | 'introduction';
+  title: string;
+  content: FrontMatterItem[];
+}
+
+/**
+ * Content item within a front matter section
+ */
+export type FrontMatterItem =
+  | FrontMatterParagraph
+  | FrontMatterHeading
+  | FrontMatterTable
+  | FrontMatterFigure
+  | FrontMatterList;
+
+export interface FrontMatterParagraph {
+  type: 'paragraph';
+  id: string;
+  content: string;
+}
+
+export interface FrontMatterHeading {
+  type: 'heading';
+  id: string;
+  content: string;
+  level: number;  // 1-6
+}
+
+export interface FrontMatterTable {
+  type: 'table';
+  id: string;
+  title?: string;
+  headers: string[][];
+  rows: TableRow[];
+}
+
+export interface FrontMatterFigure {
+  type: 'figure';
+  id: string;
+  title?: string;
+  imageUrl: string;
+  altText: string;
+}
+
+export interface FrontMatterList {
+  type: 'list';
+  id: string;
+  listType: 'bulleted' | 'numbered';
+  items: string[];
+}
+
+/**
+ * Committees section (commission and standing committee members)
+ */
+export interface CommitteesSection {
+  id: string;
+  type: 'committees';
+  title: string;
+  tables: Table[];
+  notes: CommitteeNote[];
+}
+
+export interface CommitteeNote {
+  id: string;
+  content: string;
+}
+
 /**
  * Index structure (inside volume)
  */
@@ -86,9 +168,10 @@ export interface ConversionsSection {
 }
 
 export interface TableStructure {
-  columns: number;
-  column_specs: ColumnSpec[];
-  rows: any[];  // Table row data
+  columns: number | null;
+  column_specs?: ColumnSpec[];
+  header_rows?: TableEntry[][];
+  body_rows: TableEntry[][];
 }
 
 export interface ColumnSpec {
@@ -96,6 +179,25 @@ export interface ColumnSpec {
   width: string;
 }
 
+export interface TableEntry {
+  content: string;
+  align?: 'left' | 'center' | 'right' | 'justify' | 'char';
+  rowspan?: number;
+  colspan?: number;
+}
+
+/**
+ * Conversion factor parsed from a conversions table row
+ * (imperial = metric × factor + offset)
+ */
+export interface ConversionFactor {
+  fromUnit: string;  // Metric unit, e.g., "mm", "m²", "kPa"
+  toUnit: string;    // Imperial unit, e.g., "in.", "ft²", "psf"
+  factor: number;
+  offset?: number;   // Only for temperature (°C → °F)
+  expression: string;  // Factor as printed in the table
+}
+
 /**
  * Volume structure (contains preface, divisions, index, conversions)
  */
@@ -119,9 +221,11 @@ export interface BCBCDocument {
   canonical_version?: string;
   generated_timestamp?: string;
   metadata: DocumentMetadata;
+  frontMatter?: FrontMatter;
   volumes: Volume[];
   glossary: GlossaryEntry[];
   amendmentDates?: AmendmentDate[];
+  amendments?: Record<string, AmendmentRecord[]>;  // bc_amendments by location_id, oldest first
   bc_amendments?: any[];
   statistics?: any;
 }
@@ -147,6 +251,67 @@ export interface Part {
   title: string;
   type: 'part';
   sections: Section[];
+  specialTables?: SpecialTables[];
+  seeAlso?: SeeAlsoLink[];
+  appendix?: PartAppendix;
+}
+
+/**
+ * Special tables grouped at the end of a part
+ * (e.g., the Part 9 span tables)
+ */
+export interface SpecialTables {
+  id: string;
+  type: 'spectables';
+  title: string;
+  tablePrefix?: string;
+  tocEntry?: string;
+  tables: Table[];
+}
+
+/**
+ * Part appendix holding the application notes for a part
+ */
+export interface PartAppendix {
+  id: string;
+  type: 'part_appendix';
+  introduction?: string;
+  applicationNotes: ApplicationNote[];
+}
+
+/**
+ * Application note (e.g., A-9.10.14.1.(1))
+ */
+export interface ApplicationNote {
+  id: string;
+  number: string;
+  title: string;
+  refs?: string;
+  paragraphs: NoteParagraph[];
+  divisions: NoteDivision[];
+  tables?: Table[];
+  figures?: Figure[];
+  deleted?: boolean;
+  revisions?: Revision[];
+}
+
+/**
+ * Titled division within an application note
+ */
+export interface NoteDivision {
+  id: string;
+  title: string;
+  paragraphs: NoteParagraph[];
+  tables?: Table[];
+  figures?: Figure[];
+}
+
+/**
+ * Paragraph of application note text
+ */
+export interface NoteParagraph {
+  id: string;
+  content: string;
 }
 
 /**
@@ -158,6 +323,7 @@ export interface Section {
   title: string;
   type: 'section';
   subsections: Subsection[];
+  deleted?: boolean;
 }
 
 /**
@@ -169,6 +335,8 @@ export interface Subsection {
   title: string;
   type: 'subsection';
   articles: Article[];
+  seeAlso?: SeeAlsoLink[];
+  deleted?: boolean;
 }
 
 /**
@@ -183,6 +351,18 @@ export interface Article {
   notes: NoteReference[];
   effectiveDate?: string;
   amendedDate?: string;
+  seeAlso?: SeeAlsoLink[];
+  deleted?: boolean;
+  revisions?: Revision[];
+}
+
+/**
+ * "See also" cross-link from a provision to related provisions
+ */
+export interface SeeAlsoLink {
+  id?: string;  // Source entry ID (sentence and clause entries only)
+  content: string;  // Text with [REF:...] markers
+  targetIds: string[];  // Internal reference targets in the text
 }
 
 /**
@@ -197,6 +377,88 @@ export interface Clause {
   tables?: Table[];
   figures?: Figure[];
   equations?: Equation[];
+  objectives?: Objective[];  // Sentences only
+  functionalStatements?: FunctionalStatement[];  // Sentences only
+  intentReference?: string;
+  seeAlso?: SeeAlsoLink[];
+  bcAnnotations?: BCAnnotation[];  // Sentences only
+  deleted?: boolean;
+  revisions?: Revision[];
+}
+
+/**
+ * BC-specific annotation marking where a sentence departs from the
+ * National Building Code
+ */
+export interface BCAnnotation {
+  type: string;
+  content: string;
+}
+
+/**
+ * Source of the change a revision makes
+ */
+export type RevisionType = 'amendment' | 'errata' | 'policy' | 'accessibility' | 'correction';
+
+/**
+ * State of a revision on a given date
+ *
+ * The source `status` ("current" or "superseded") only records the state
+ * at publication, so a future-dated revision can be "current" yet pending.
+ */
+export type RevisionState = 'pending' | 'in-force' | 'superseded' | 'repealed';
+
+/**
+ * One version of a provision's wording, from its original enactment onwards
+ */
+export interface Revision {
+  type: 'original' | 'revision';
+  effectiveDate: string;  // YYYY-MM-DD
+  revisionType?: RevisionType;
+  revisionId?: string;
+  sequence?: number;  // Orders revisions sharing an effective date
+  status?: 'current' | 'superseded';
+  deleted?: boolean;  // Provision was removed by this revision
+  changeSummary?: string;
+  note?: string;
+}
+
+/**
+ * Origin of an objective or functional statement
+ */
+export type ObjectiveSource = 'nbc' | 'bc';
+
+/**
+ * Sub-objective within an objective (e.g., OS3.1)
+ */
+export interface SubObjective {
+  id: string;
+  key: string;
+  source?: ObjectiveSource;
+  title: string;
+  definition: string;
+}
+
+/**
+ * Objective attributed to a sentence (e.g., OS3)
+ */
+export interface Objective {
+  id: string;
+  key: string;
+  source?: ObjectiveSource;
+  title: string;
+  definition: string;
+  subObjectives: SubObjective[];
+}
+
+/**
+ * Functional statement attributed to a sentence (e.g., F30)
+ */
+export interface FunctionalStatement {
+  id: string;
+  key: string;
+  source?: ObjectiveSource;
+  definition: string;
 }
 
 /**
@@ -209,6 +471,8 @@ export interface Table {
   caption?: string;
   headers: string[][];
   rows: TableRow[];
+  deleted?: boolean;
+  revisions?: Revision[];
 }
 
 /**
@@ -236,8 +500,11 @@ export interface Figure {
   number: string;
   title: string;
   caption?: string;
-  imageUrl: string;
+  imageUrl: string;  // Source graphic path (graphic.src), often an EPS file
   altText: string;
+  width?: string;   // Print width from the source, e.g. "12cm"
+  height?: string;
+  deleted?: boolean;
 }
 
 /**
@@ -246,19 +513,24 @@ export interface Figure {
 export interface Equation {
   id: string;
   number: string;
+  display: 'block' | 'inline';
   latex: string;
+  plainText?: string;  // Accessible text form, e.g. "C_s(60°-a)/(53°)"
+  mathml?: string;     // Full MathML serialization
+  image?: string;      // Image reference, e.g. "eg02764a"
+  imageSrc?: string;   // Fallback image path, e.g. "graphics/eg02764a.eps"
   description?: string;
 }
 
 /**
- * Reference to an appendix note
+ * Reference to an appendix note, resolved against the part appendices
  */
 export interface NoteReference {
   id: string;
   noteNumber: string;
   noteTitle: string;
   noteContent: string;
-  relatedSections?: string[];
+  relatedSections?: string[];  // IDs of articles referencing this note
 }
 
 /**
@@ -268,6 +540,7 @@ export interface GlossaryEntry {
   id: string;
   term: string;
   definition: string;
+  locationId?: string;  // ID of the provision defining the term
   relatedTerms?: string[];
 }
 
@@ -281,6 +554,31 @@ export interface AmendmentDate {
   isLatest?: boolean;
 }
 
+/**
+ * Kind of BC amendment record
+ */
+export type AmendmentRecordType =
+  | 'original' | 'revision' | 'annotation'
+  | 'insert' | 'replace' | 'modify' | 'delete' | 'remove';
+
+/**
+ * BC amendment to one provision (from bc_amendments)
+ */
+export interface AmendmentRecord {
+  locationId: string;  // ID of the amended provision
+  type: AmendmentRecordType;
+  amendmentId?: string;
+  revisionId?: string;
+  revisionType?: RevisionType;
+  annotationType?: string;
+  sequence?: number;
+  effectiveDate?: string;
+  status?: 'current' | 'superseded';
+  content: string;
+  changeSummary?: string;
+  note?: string;
+}
+
 /**
  * Validation error
  */
@@ -291,6 +589,29 @@ export interface ValidationError {
   severity: 'error' | 'warning';
 }
 
+/**
+ * Kind of reference checked by the broken reference report
+ */
+export type ReferenceKind = 'internal' | 'see-also' | 'index' | 'glossary' | 'amendment';
+
+/**
+ * Reference whose target does not exist in the document tree
+ */
+export interface BrokenReference {
+  type: ReferenceKind;
+  sourceId: string;
+  targetId: string;
+  suggestion?: string;  // Nearest existing ID, if any
+}
+
+/**
+ * Broken reference report
+ */
+export interface BrokenReferenceReport {
+  checked: number;
+  broken: BrokenReference[];
+}
+
 /**
  * Content type for filtering
  */
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest';
 import {
   validateBCBC,
   validateCrossReferences,
+  findBrokenReferences,
   validateRequiredFields,
   validateDataTypes,
 } from './validators';
@@ -553,3 +554,154 @@ describe('validateCrossReferences', () => {
     expect(errors).toHaveLength(0);
   });
 });
+
+describe('findBrokenReferences', () => {
+  const articleId = 'nbc.divB.part9.sect23.subsect3.art4';
+
+  const createDocument = (): BCBCDocument => ({
+    metadata: {
+      title: 'BC Building Code',
+      version: '2024',
+      effectiveDate: '2024-01-01',
+      jurisdiction: 'British Columbia',
+    },
+    volumes: [
+      {
+        id: 'vol1',
+        type: 'volume',
+        number: 1,
+        title: 'Volume 1',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Division B',
+            number: 'B',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                number: '9',
+                title: 'Housing and Small Buildings',
+                type: 'part',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect23',
+                    number: '23',
+                    title: 'Wood-Frame Construction',
+                    type: 'section',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect23.subsect3',
+                        number: '3',
+                        title: 'Fasteners',
+                        type: 'subsection',
+                        articles: [
+                          {
+                            id: articleId,
+                            number: '4',
+                            title: 'Nailing of Framing',
+                            type: 'article',
+                            clauses: [
+                              {
+                                id: `${articleId}.sent1`,
+                                number: '1',
+                                text: `See [REF:internal:${articleId}.table1:short] and [REF:internal:${articleId}.sent9]`,
+                                glossaryTerms: [],
+                                tables: [
+                                  {
+                                    id: `${articleId}.table1`,
+                                    number: '9.23.3.4.',
+                                    title: 'Nailing for Framing',
+                                    headers: [],
+                                    rows: [],
+                                  },
+                                ],
+                                seeAlso: [
+                                  { content: '[REF:internal:nbc.divB.part9.sect99]', targetIds: ['nbc.divB.part9.sect99'] },
+                                ],
+                              },
+                            ],
+                            notes: [],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        index: {
+          id: 'index',
+          type: 'index',
+          introduction: '',
+          letters: [
+            {
+              id: 'index.n',
+              letter: 'N',
+              groups: [
+                {
+                  id: 'index.n.nailing',
+                  term_id: 'nailing',
+                  term: 'Nailing',
+                  references: [{ target: articleId }, { target: 'nbc.divB.part9.sect23.subsect3.art44' }],
+                },
+              ],
+            },
+          ],
+        },
+      },
+    ],
+    glossary: [
+      { id: 'nail', term: 'Nail', definition: 'A fastener', locationId: 'nbc.divA.part1.sect4' },
+    ],
+    bc_amendments: [
+      { amendment_id: 'bc-1', location_id: articleId, type: 'revision', content: '' },
+    ],
+  });
+
+  it('should resolve references against tables and other addressable nodes', () => {
+    const report = findBrokenReferences(createDocument());
+    const targets = report.broken.map((ref) => ref.targetId);
+
+    expect(targets).not.toContain(`${articleId}.table1`);
+    expect(targets).not.toContain(articleId);
+    expect(report.checked).toBe(7);
+  });
+
+  it('should report each broken reference kind with its source', () => {
+    const report = findBrokenReferences(createDocument());
+
+    expect(report.broken).toHaveLength(4);
+    expect(report.broken).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'internal', sourceId: `${articleId}.sent1`, targetId: `${articleId}.sent9` }),
+        expect.objectContaining({ type: 'see-also', sourceId: `${articleId}.sent1`, targetId: 'nbc.divB.part9.sect99' }),
+        expect.objectContaining({ type: 'index', sourceId: 'index.n.nailing' }),
+        expect.objectContaining({ type: 'glossary', sourceId: 'nail', targetId: 'nbc.divA.part1.sect4' }),
+      ])
+    );
+  });
+
+  it('should suggest the nearest existing ID', () => {
+    const report = findBrokenReferences(createDocument());
+    const byTarget = new Map(report.broken.map((ref) => [ref.targetId, ref]));
+
+    expect(byTarget.get(`${articleId}.sent9`)?.suggestion).toBe(`${articleId}.sent1`);
+    expect(byTarget.get('nbc.divB.part9.sect23.subsect3.art44')?.suggestion).toBe(articleId);
+  });
+
+  it('should report broken references through validateCrossReferences', () => {
+    const errors = validateCrossReferences(createDocument());
+
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        path: `${articleId}.sent1`,
+        field: 'internal',
+        message: expect.stringContaining(`did you mean '${articleId}.sent1'`),
+      })
+    );
+  });
+});
@@ -16,8 +16,16 @@ import type {
   Subsection,
   Article,
   Clause,
+  Table,
+  Figure,
+  Equation,
+  NoteParagraph,
+  SeeAlsoLink,
+  ReferenceKind,
+  BrokenReferenceReport,
   ValidationError,
 } from './types';
+import { extractInternalReferenceIds } from './parser';
 
 /**
  * Validate BCBC document structure
@@ -511,60 +519,11 @@ export function validateCrossReferences(document: BCBCDocument): ValidationError
     return errors;
   }
 
-  // Build a set of all valid content IDs
-  const validIds = new Set<string>();
-
   // Get divisions from volumes
   const divisions = document.volumes.flatMap(v => v.divisions || []);
 
-  // Add all division, part, section, subsection, article, and clause IDs
-  for (const division of divisions) {
-    if (!division || typeof division !== 'object') continue;
-    
-    validIds.add(division.id);
-    
-    if (!division.parts || !Array.isArray(division.parts)) continue;
-    
-    for (const part of division.parts) {
-      if (!part || typeof part !== 'object') continue;
-      
-      validIds.add(part.id);
-      
-      if (!part.sections || !Array.isArray(part.sections)) continue;
-      
-      for (const section of part.sections) {
-        if (!section || typeof section !== 'object') continue;
-        
-        validIds.add(section.id);
-        
-        if (!section.subsections || !Array.isArray(section.subsections)) continue;
-        
-        for (const subsection of section.subsections) {
-          if (!subsection || typeof subsection !== 'object') continue;
-          
-          validIds.add(subsection.id);
-          
-          if (!subsection.articles || !Array.isArray(subsection.articles)) continue;
-          
-          for (const article of subsection.articles) {
-            if (!article || typeof article !== 'object') continue;
-            
-            validIds.add(article.id);
-            
-            if (!article.clauses || !Array.isArray(article.clauses)) continue;
-            
-            for (const clause of article.clauses) {
-              if (!clause || typeof clause !== 'object') continue;
-              
-              validIds.add(clause.id);
-              // Add subclause IDs recursively
-              addClauseIds(clause, validIds);
-            }
-          }
-        }
-      }
-    }
-  }
+  // Build a set of all addressable content IDs
+  const validIds = collectAddressableIds(divisions);
 
   // Add glossary term IDs
   if (document.glossary && Array.isArray(document.glossary)) {
@@ -611,19 +570,273 @@ export function validateCrossReferences(document: BCBCDocument): ValidationError
     }
   }
 
+  // Validate internal, see-also, index, glossary and amendment references
+  for (const reference of findBrokenReferences(document).broken) {
+    errors.push({
+      path: reference.sourceId,
+      field: reference.type,
+      message: `Broken ${reference.type} reference: '${reference.targetId}' does not exist` +
+        (reference.suggestion ? ` (did you mean '${reference.suggestion}'?)` : ''),
+      severity: 'error',
+    });
+  }
+
   return errors;
 }
 
 /**
- * Recursively add clause and subclause IDs to the set
+ * Resolve every reference in a document against its addressable nodes
+ * 
+ * Checks internal references in clause and application note text,
+ * "see also" links, back-of-book index references, glossary
+ * location IDs and BC amendment location IDs. Each broken reference
+ * comes with the nearest existing ID as a suggestion.
+ * 
+ * @param document - BCBC document to check
+ * @returns Report of checked and broken references
  */
-function addClauseIds(clause: Clause, ids: Set<string>): void {
-  if (clause.subclauses) {
-    for (const subclause of clause.subclauses) {
-      ids.add(subclause.id);
-      addClauseIds(subclause, ids);
+export function findBrokenReferences(document: BCBCDocument): BrokenReferenceReport {
+  const report: BrokenReferenceReport = { checked: 0, broken: [] };
+
+  if (!document.volumes || !Array.isArray(document.volumes)) {
+    return report;
+  }
+
+  const divisions = document.volumes.flatMap(v => v.divisions || []);
+  const validIds = collectAddressableIds(divisions);
+  const sortedIds = Array.from(validIds).sort();
+  const seen = new Set<string>();
+
+  const check = (type: ReferenceKind, sourceId: string, targetId: string | undefined) => {
+    if (!targetId) return;
+
+    const key = `${type}|${sourceId}|${targetId}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    report.checked++;
+    if (!validIds.has(targetId)) {
+      report.broken.push({
+        type,
+        sourceId,
+        targetId,
+        suggestion: suggestNearestId(targetId, validIds, sortedIds),
+      });
+    }
+  };
+
+  const checkSeeAlso = (nodeId: string, links: SeeAlsoLink[] | undefined) => {
+    for (const link of links || []) {
+      for (const targetId of link.targetIds) {
+        check('see-also', link.id || nodeId, targetId);
+      }
+    }
+  };
+
+  const checkClause = (clause: Clause) => {
+    for (const targetId of extractInternalReferenceIds(clause.text || '')) {
+      check('internal', clause.id, targetId);
+    }
+    checkSeeAlso(clause.id, clause.seeAlso);
+    for (const subclause of clause.subclauses || []) {
+      checkClause(subclause);
+    }
+  };
+
+  const checkParagraphs = (paragraphs: NoteParagraph[] | undefined) => {
+    for (const paragraph of paragraphs || []) {
+      for (const targetId of extractInternalReferenceIds(paragraph.content || '')) {
+        check('internal', paragraph.id, targetId);
+      }
+    }
+  };
+
+  // Internal and see-also references in the code text
+  for (const division of divisions) {
+    for (const part of division?.parts || []) {
+      checkSeeAlso(part.id, part.seeAlso);
+
+      for (const section of part.sections || []) {
+        for (const subsection of section.subsections || []) {
+          checkSeeAlso(subsection.id, subsection.seeAlso);
+
+          for (const article of subsection.articles || []) {
+            checkSeeAlso(article.id, article.seeAlso);
+            for (const clause of article.clauses || []) {
+              checkClause(clause);
+            }
+          }
+        }
+      }
+
+      for (const note of part.appendix?.applicationNotes || []) {
+        checkParagraphs(note.paragraphs);
+        for (const noteDivision of note.divisions || []) {
+          checkParagraphs(noteDivision.paragraphs);
+        }
+      }
     }
   }
+
+  // Back-of-book index references
+  for (const volume of document.volumes) {
+    for (const letter of volume.index?.letters || []) {
+      for (const group of letter.groups || []) {
+        for (const reference of group.references || []) {
+          check('index', group.id, reference.target);
+        }
+        for (const subterm of group.subterms || []) {
+          for (const reference of subterm.references || []) {
+            check('index', subterm.id, reference.target);
+          }
+        }
+      }
+    }
+  }
+
+  // Glossary term locations
+  if (document.glossary && Array.isArray(document.glossary)) {
+    for (const entry of document.glossary) {
+      check('glossary', entry.id, entry.locationId);
+    }
+  }
+
+  // BC amendment locations
+  if (document.bc_amendments && Array.isArray(document.bc_amendments)) {
+    document.bc_amendments.forEach((amendment, index) => {
+      const sourceId = amendment.amendment_id || amendment.revision_id || `bc_amendments[${index}]`;
+      check('amendment', sourceId, amendment.location_id);
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Collect the IDs of every node a reference can point at
+ * (hierarchy, clauses, tables, figures, equations, notes and special tables)
+ */
+function collectAddressableIds(divisions: Division[]): Set<string> {
+  const ids = new Set<string>();
+
+  const addElements = (container: { tables?: Table[]; figures?: Figure[]; equations?: Equation[] }) => {
+    for (const table of container.tables || []) ids.add(table.id);
+    for (const figure of container.figures || []) ids.add(figure.id);
+    for (const equation of container.equations || []) ids.add(equation.id);
+  };
+
+  const addClause = (clause: Clause) => {
+    ids.add(clause.id);
+    addElements(clause);
+    for (const subclause of clause.subclauses || []) {
+      addClause(subclause);
+    }
+  };
+
+  for (const division of divisions) {
+    if (!division || typeof division !== 'object') continue;
+
+    ids.add(division.id);
+
+    for (const part of division.parts || []) {
+      ids.add(part.id);
+
+      for (const section of part.sections || []) {
+        ids.add(section.id);
+
+        for (const subsection of section.subsections || []) {
+          ids.add(subsection.id);
+
+          for (const article of subsection.articles || []) {
+            ids.add(article.id);
+            for (const clause of article.clauses || []) {
+              addClause(clause);
+            }
+            for (const note of article.notes || []) {
+              ids.add(note.id);
+            }
+          }
+        }
+      }
+
+      for (const specialTables of part.specialTables || []) {
+        ids.add(specialTables.id);
+        addElements(specialTables);
+      }
+
+      if (part.appendix) {
+        ids.add(part.appendix.id);
+
+        for (const note of part.appendix.applicationNotes || []) {
+          ids.add(note.id);
+          addElements(note);
+          for (const paragraph of note.paragraphs || []) ids.add(paragraph.id);
+
+          for (const noteDivision of note.divisions || []) {
+            ids.add(noteDivision.id);
+            addElements(noteDivision);
+            for (const paragraph of noteDivision.paragraphs || []) ids.add(paragraph.id);
+          }
+        }
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Suggest the existing ID nearest to a broken target
+ * 
+ * Candidates are limited to the descendants of the deepest existing
+ * ancestor of the target (e.g., the article of a mistyped sentence ID),
+ * falling back to all IDs when no ancestor exists.
+ */
+function suggestNearestId(targetId: string, validIds: Set<string>, sortedIds: string[]): string | undefined {
+  const segments = targetId.split('.');
+  let candidates = sortedIds;
+
+  for (let i = segments.length - 1; i > 0; i--) {
+    const ancestor = segments.slice(0, i).join('.');
+    if (validIds.has(ancestor)) {
+      candidates = [ancestor, ...sortedIds.filter(id => id.startsWith(`${ancestor}.`))];
+      break;
+    }
+  }
+
+  let nearest: string | undefined;
+  let nearestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(targetId, candidate);
+    if (distance < nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
 }
 
 /**
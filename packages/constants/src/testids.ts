@@ -81,6 +81,24 @@ export const TESTID_NOTE_MODAL = 'note-modal';
 // Amendment filter test IDs
 export const TESTID_AMENDMENT_FILTER = 'amendment-filter';
 
+// Future date banner test IDs
+export const TESTID_FUTURE_DATE_BANNER = 'future-date-banner';
+
+// What changed test IDs
+export const TESTID_WHAT_CHANGED = 'what-changed';
+export const GET_TESTID_WHAT_CHANGED_FILTER = (type: string) => `what-changed-filter-${type}`;
+
+// BC annotation test IDs
+export const TESTID_BC_ANNOTATIONS = 'bc-annotations';
+export const TESTID_BC_ANNOTATIONS_TOGGLE = 'bc-annotations-toggle';
+
+// Front matter test IDs
+export const TESTID_FRONT_MATTER = 'front-matter';
+
+// Book index test IDs
+export const TESTID_BOOK_INDEX = 'book-index';
+export const GET_TESTID_BOOK_INDEX_LETTER = (letter: string) => `book-index-letter-${letter.toLowerCase()}`;
+
 // Navigation button test IDs
 export const TESTID_PREV_BUTTON = 'prev-button';
 export const TESTID_NEXT_BUTTON = 'next-button';
@@ -0,0 +1,152 @@
+/**
+ * Tests for the amendment change feed
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractChangeFeed } from './change-feed';
+import type { AmendmentRecord, Article, BCBCDocument } from '@bc-building-code/bcbc-parser';
+
+const articleId = 'nbc.divB.part9.sect10.subsect1.art2';
+
+const createArticle = (id: string, number: string, title: string): Article => ({
+  id,
+  number,
+  title,
+  type: 'article',
+  clauses: [{ id: `${id}.sent1`, number: '1', text: `${title} text`, glossaryTerms: [] }],
+  notes: [],
+});
+
+const createDocument = (amendments: Record<string, AmendmentRecord[]>): BCBCDocument => ({
+  metadata: {
+    title: 'Test BCBC',
+    version: '2024',
+    effectiveDate: '2024-03-08',
+    jurisdiction: 'BC',
+    volumes: [],
+  },
+  volumes: [
+    {
+      id: 'vol-1',
+      type: 'volume',
+      number: 1,
+      title: 'Volume 1',
+      divisions: [
+        {
+          id: 'nbc.divB',
+          type: 'division',
+          letter: 'B',
+          title: 'Acceptable Solutions',
+          number: '',
+          parts: [
+            {
+              id: 'nbc.divB.part9',
+              number: '9',
+              title: 'Housing and Small Buildings',
+              type: 'part',
+              sections: [
+                {
+                  id: 'nbc.divB.part9.sect10',
+                  number: '10',
+                  title: 'Fire Protection',
+                  type: 'section',
+                  subsections: [
+                    {
+                      id: 'nbc.divB.part9.sect10.subsect1',
+                      number: '1',
+                      title: 'Scope',
+                      type: 'subsection',
+                      articles: [
+                        createArticle('nbc.divB.part9.sect10.subsect1.art1', '1', 'Application'),
+                        createArticle(articleId, '2', 'Smoke Alarms'),
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  glossary: [],
+  amendmentDates: [],
+  amendments,
+});
+
+describe('extractChangeFeed', () => {
+  const document = createDocument({
+    [articleId]: [
+      { locationId: articleId, type: 'original', effectiveDate: '2024-03-08', content: '' },
+      {
+        locationId: articleId,
+        type: 'replace',
+        amendmentId: 'BC-2025-01',
+        effectiveDate: '2025-03-10',
+        content: '',
+        changeSummary: 'Requires interconnected smoke alarms',
+      },
+    ],
+    [`${articleId}.sent1`]: [
+      {
+        locationId: `${articleId}.sent1`,
+        type: 'modify',
+        amendmentId: 'BC-2025-02',
+        effectiveDate: '2025-03-10',
+        content: '',
+        changeSummary: 'Clarifies storeys',
+      },
+    ],
+    'nbc.divB.part9.sect10.subsect1.art1.sent1': [
+      {
+        locationId: 'nbc.divB.part9.sect10.subsect1.art1.sent1',
+        type: 'modify',
+        effectiveDate: '2024-12-01',
+        content: '',
+      },
+    ],
+    'unknown.provision': [
+      { locationId: 'unknown.provision', type: 'insert', effectiveDate: '2024-12-01', content: '' },
+    ],
+  });
+
+  it('should list effective dates newest first, leaving out original wording', () => {
+    const feed = extractChangeFeed(document);
+
+    expect(feed.map((entry) => entry.effectiveDate)).toEqual(['2025-03-10', '2024-12-01']);
+  });
+
+  it('should group amendments by the article that contains them', () => {
+    const [latest] = extractChangeFeed(document);
+
+    expect(latest.provisions).toHaveLength(1);
+    expect(latest.provisions[0]).toEqual({
+      locationIds: [articleId, `${articleId}.sent1`],
+      location: {
+        id: articleId,
+        number: '9.10.1.2',
+        title: 'Smoke Alarms',
+        division: 'nbc.divB',
+        part: '9',
+        section: '10',
+        subsection: '1',
+        article: '2',
+      },
+      amendmentIds: ['BC-2025-01', 'BC-2025-02'],
+      changeSummaries: ['Requires interconnected smoke alarms', 'Clarifies storeys'],
+    });
+  });
+
+  it('should keep provisions outside the hierarchy without a location', () => {
+    const entry = extractChangeFeed(document).find((e) => e.effectiveDate === '2024-12-01')!;
+
+    expect(entry.provisions.map((p) => p.location?.number ?? null)).toEqual(['9.10.1.1', null]);
+  });
+
+  it('should list given effective dates that have no amendment records', () => {
+    const feed = extractChangeFeed(createDocument({}), ['2024-03-08']);
+
+    expect(feed).toEqual([{ effectiveDate: '2024-03-08', provisions: [] }]);
+  });
+});
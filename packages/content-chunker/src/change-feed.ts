@@ -0,0 +1,201 @@
+/**
+ * Amendment change feed for BCBC editions
+ */
+
+import type {
+  BCBCDocument,
+  AmendmentRecord,
+} from '@bc-building-code/bcbc-parser';
+
+/**
+ * Where an amended provision sits in the content hierarchy
+ *
+ * The division, part, section, subsection and article segments match the
+ * web app's content path parameters (buildContentPath).
+ */
+export interface ChangeFeedLocation {
+  id: string;
+  number: string;  // Full number (e.g., "9.10.14.2")
+  title: string;
+  division: string;
+  part: string;
+  section?: string;
+  subsection?: string;
+  article?: string;
+}
+
+/**
+ * Provision amended on one effective date
+ */
+export interface ChangeFeedProvision {
+  locationIds: string[];  // Amended provisions (e.g., the article's sentences)
+  location: ChangeFeedLocation | null;  // null when no part, section, subsection or article contains it
+  amendmentIds: string[];
+  changeSummaries: string[];
+}
+
+/**
+ * Effective date with the provisions it amends
+ */
+export interface ChangeFeedEntry {
+  effectiveDate: string;
+  provisions: ChangeFeedProvision[];
+}
+
+/**
+ * Map every part, section, subsection and article ID to its location
+ */
+function indexLocations(document: BCBCDocument): Map<string, ChangeFeedLocation> {
+  const locations = new Map<string, ChangeFeedLocation>();
+  const divisions = document.volumes.flatMap(v => v.divisions);
+
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      locations.set(part.id, {
+        id: part.id,
+        number: part.number,
+        title: part.title,
+        division: division.id,
+        part: part.number,
+      });
+
+      for (const section of part.sections) {
+        const sectionNumber = `${part.number}.${section.number}`;
+        locations.set(section.id, {
+          id: section.id,
+          number: sectionNumber,
+          title: section.title,
+          division: division.id,
+          part: part.number,
+          section: section.number,
+        });
+
+        for (const subsection of section.subsections) {
+          const subsectionNumber = `${sectionNumber}.${subsection.number}`;
+          locations.set(subsection.id, {
+            id: subsection.id,
+            number: subsectionNumber,
+            title: subsection.title,
+            division: division.id,
+            part: part.number,
+            section: section.number,
+            subsection: subsection.number,
+          });
+
+          for (const article of subsection.articles) {
+            locations.set(article.id, {
+              id: article.id,
+              number: `${subsectionNumber}.${article.number}`,
+              title: article.title,
+              division: division.id,
+              part: part.number,
+              section: section.number,
+              subsection: subsection.number,
+              article: article.number,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Find the closest part, section, subsection or article containing a provision
+ * (e.g., the article of "...art3.sent2.clauseA")
+ */
+function resolveLocation(
+  locationId: string,
+  locations: Map<string, ChangeFeedLocation>
+): ChangeFeedLocation | null {
+  let id = locationId;
+  while (id) {
+    const location = locations.get(id);
+    if (location) return location;
+
+    const lastDot = id.lastIndexOf('.');
+    id = lastDot > 0 ? id.slice(0, lastDot) : '';
+  }
+  return null;
+}
+
+/**
+ * Build the change feed of a document: each effective date, newest first,
+ * with the provisions amended on it and their change summaries
+ *
+ * Provisions within the same article (or part, section, subsection) are
+ * listed once. Original wording is not a change and is left out.
+ *
+ * @param document - Parsed BCBC document
+ * @param effectiveDates - Dates to list even when no amendment record falls on them
+ *   (e.g., the amendment dates from amendment-dates.json)
+ * @returns Feed entries, newest first
+ */
+export function extractChangeFeed(
+  document: BCBCDocument,
+  effectiveDates: string[] = []
+): ChangeFeedEntry[] {
+  const locations = indexLocations(document);
+  const recordsByDate = new Map<string, AmendmentRecord[]>();
+
+  for (const date of effectiveDates) {
+    recordsByDate.set(date, []);
+  }
+
+  for (const records of Object.values(document.amendments || {})) {
+    for (const record of records) {
+      if (!record.effectiveDate || record.type === 'original') continue;
+
+      const dateRecords = recordsByDate.get(record.effectiveDate) || [];
+      dateRecords.push(record);
+      recordsByDate.set(record.effectiveDate, dateRecords);
+    }
+  }
+
+  return Array.from(recordsByDate.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([effectiveDate, records]) => ({
+      effectiveDate,
+      provisions: groupProvisions(records, locations),
+    }));
+}
+
+/**
+ * Group the records of one date by the provision that contains them,
+ * in document order
+ */
+function groupProvisions(
+  records: AmendmentRecord[],
+  locations: Map<string, ChangeFeedLocation>
+): ChangeFeedProvision[] {
+  const provisions = new Map<string, ChangeFeedProvision>();
+  const sorted = [...records].sort((a, b) =>
+    a.locationId.localeCompare(b.locationId, undefined, { numeric: true }) ||
+    (a.sequence ?? 0) - (b.sequence ?? 0)
+  );
+
+  for (const record of sorted) {
+    const location = resolveLocation(record.locationId, locations);
+    const key = location?.id || record.locationId;
+
+    let provision = provisions.get(key);
+    if (!provision) {
+      provision = { locationIds: [], location, amendmentIds: [], changeSummaries: [] };
+      provisions.set(key, provision);
+    }
+
+    if (!provision.locationIds.includes(record.locationId)) {
+      provision.locationIds.push(record.locationId);
+    }
+    if (record.amendmentId && !provision.amendmentIds.includes(record.amendmentId)) {
+      provision.amendmentIds.push(record.amendmentId);
+    }
+    if (record.changeSummary && !provision.changeSummaries.includes(record.changeSummary)) {
+      provision.changeSummaries.push(record.changeSummary);
+    }
+  }
+
+  return Array.from(provisions.values());
+}
@@ -3,7 +3,16 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { chunkContent, generateChunkPath, isOptimalChunkSize, getChunkStats } from './chunker';
+import {
+  chunkContent,
+  generateChunkPath,
+  generateAppendixChunkPath,
+  generateFrontMatterChunkPath,
+  generateSpecialTablesChunkPath,
+  generateSpecialTablesSlug,
+  isOptimalChunkSize,
+  getChunkStats,
+} from './chunker';
 import type { BCBCDocument } from '@bc-building-code/bcbc-parser';
 
 describe('chunkContent', () => {
@@ -165,3 +174,252 @@ describe('getChunkStats', () => {
     expect(stats.maxSize).toBe(150 * 1024);
   });
 });
+
+describe('appendix chunks', () => {
+  it('should emit an appendix chunk for parts with application notes', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          divisions: [
+            {
+              id: 'nbc.divB',
+              type: 'division',
+              letter: 'B',
+              title: 'Division B',
+              number: '',
+              parts: [
+                {
+                  id: 'nbc.divB.part9',
+                  number: '9',
+                  title: 'Part 9',
+                  type: 'part',
+                  sections: [
+                    {
+                      id: 'nbc.divB.part9.sect10',
+                      number: '10',
+                      title: 'Section 10',
+                      type: 'section',
+                      subsections: [],
+                    },
+                  ],
+                  appendix: {
+                    id: 'nbc.divB.part9.appendix',
+                    type: 'part_appendix',
+                    applicationNotes: [
+                      {
+                        id: 'note-1',
+                        number: 'A-9.10.14.1.(1)',
+                        title: 'Spatial Separation',
+                        paragraphs: [{ id: 'p1', content: 'Note text' }],
+                        divisions: [],
+                      },
+                    ],
+                  },
+                },
+                {
+                  id: 'nbc.divB.part10',
+                  number: '10',
+                  title: 'Part 10',
+                  type: 'part',
+                  sections: [],
+                  appendix: {
+                    id: 'nbc.divB.part10.appendix',
+                    type: 'part_appendix',
+                    applicationNotes: [],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const chunks = chunkContent(mockDocument);
+
+    expect(chunks.map(c => c.path)).toEqual([
+      'content/nbc-divb/part-9/section-10.json',
+      'content/nbc-divb/part-9/appendix.json',
+    ]);
+    expect(chunks[1].data.type).toBe('part_appendix');
+    expect(chunks[1].data.id).toBe('nbc.divB.part9.appendix');
+  });
+
+  it('should generate appendix chunk path', () => {
+    expect(generateAppendixChunkPath('nbc.divB', '9')).toBe('content/nbc-divb/part-9/appendix.json');
+  });
+});
+
+describe('special tables chunks', () => {
+  it('should emit a chunk for each special tables group', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          divisions: [
+            {
+              id: 'nbc.divB',
+              type: 'division',
+              letter: 'B',
+              title: 'Division B',
+              number: '',
+              parts: [
+                {
+                  id: 'nbc.divB.part9',
+                  number: '9',
+                  title: 'Part 9',
+                  type: 'part',
+                  sections: [
+                    {
+                      id: 'nbc.divB.part9.sect10',
+                      number: '10',
+                      title: 'Section 10',
+                      type: 'section',
+                      subsections: [],
+                    },
+                  ],
+                  specialTables: [
+                    {
+                      id: 'nbc.divB.part9.spectables1',
+                      type: 'spectables',
+                      title: 'Span Tables',
+                      tables: [
+                        {
+                          id: 'nbc.divB.part9.spectables1.table1',
+                          number: '9.1',
+                          title: 'Maximum Spans for Floor Joists',
+                          headers: [],
+                          rows: [],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const chunks = chunkContent(mockDocument);
+
+    expect(chunks.map(c => c.path)).toEqual([
+      'content/nbc-divb/part-9/section-10.json',
+      'content/nbc-divb/part-9/tables-spectables1.json',
+    ]);
+    expect(chunks[1].data.type).toBe('spectables');
+  });
+
+  it('should generate special tables slug and chunk path', () => {
+    expect(generateSpecialTablesSlug('nbc.divB.part9', 'nbc.divB.part9.spectables1')).toBe('spectables1');
+    expect(generateSpecialTablesSlug('nbc.divB.part9', 'other.id')).toBe('other-id');
+    expect(
+      generateSpecialTablesChunkPath('nbc.divB', '9', 'nbc.divB.part9', 'nbc.divB.part9.spectables1')
+    ).toBe('content/nbc-divb/part-9/tables-spectables1.json');
+  });
+});
+
+describe('front matter chunks', () => {
+  it('should emit one chunk per front matter section before the code', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      frontMatter: {
+        id: 'fm',
+        preface: {
+          id: 'preface',
+          type: 'preface',
+          title: 'Preface',
+          content: [{ type: 'paragraph', id: 'p-1', content: 'Preface text' }],
+        },
+        committees: {
+          id: 'committees',
+          type: 'committees',
+          title: 'Committees',
+          tables: [],
+          notes: [],
+        },
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          divisions: [
+            {
+              id: 'nbc.divB',
+              type: 'division',
+              letter: 'B',
+              title: 'Division B',
+              number: '',
+              parts: [
+                {
+                  id: 'nbc.divB.part9',
+                  number: '9',
+                  title: 'Part 9',
+                  type: 'part',
+                  sections: [
+                    {
+                      id: 'nbc.divB.part9.sect10',
+                      number: '10',
+                      title: 'Section 10',
+                      type: 'section',
+                      subsections: [],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const chunks = chunkContent(mockDocument);
+
+    expect(chunks.map(c => c.path)).toEqual([
+      'content/front-matter/preface.json',
+      'content/front-matter/committees.json',
+      'content/nbc-divb/part-9/section-10.json',
+    ]);
+    expect(chunks[0].data.type).toBe('preface');
+  });
+
+  it('should generate front matter chunk path', () => {
+    expect(generateFrontMatterChunkPath('introduction')).toBe('content/front-matter/introduction.json');
+  });
+});
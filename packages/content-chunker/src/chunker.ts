@@ -2,14 +2,25 @@
  * Content splitting logic
  */
 
-import type { BCBCDocument, Section } from '@bc-building-code/bcbc-parser';
+import type {
+  BCBCDocument,
+  Section,
+  PartAppendix,
+  SpecialTables,
+  FrontMatterSection,
+  CommitteesSection,
+} from '@bc-building-code/bcbc-parser';
 
 /**
  * Content chunk with path and data
+ * 
+ * Section, special tables, appendix and front matter chunks are distinguished
+ * by `data.type` ('section', 'spectables', 'part_appendix', 'preface',
+ * 'introduction' or 'committees').
  */
 export interface ContentChunk {
   path: string;
-  data: Section;
+  data: Section | SpecialTables | PartAppendix | FrontMatterSection | CommitteesSection;
   size: number;
 }
 
@@ -18,6 +29,12 @@ export interface ContentChunk {
  * 
  * Each chunk contains a complete section with all subsections and articles.
  * Chunks are organized by path: content/{division}/{part}/{section}.json
+ * Special table groups (e.g., span tables) get one chunk each:
+ * content/{division}/{part}/tables-{group}.json
+ * Parts with application notes get an extra appendix chunk:
+ * content/{division}/{part}/appendix.json
+ * Front matter sections get one chunk each:
+ * content/front-matter/{preface|introduction|committees}.json
  * Typical chunk size: 50-200KB per section
  * 
  * @param document - BCBC document
@@ -26,6 +43,22 @@ export interface ContentChunk {
 export function chunkContent(document: BCBCDocument): ContentChunk[] {
   const chunks: ContentChunk[] = [];
 
+  // Front matter (preface, introduction, committees) comes first
+  const frontMatter = document.frontMatter;
+  const frontMatterSections = [
+    frontMatter?.preface,
+    frontMatter?.introduction,
+    frontMatter?.committees,
+  ];
+  for (const data of frontMatterSections) {
+    if (!data) continue;
+    chunks.push({
+      path: generateFrontMatterChunkPath(data.type),
+      data,
+      size: JSON.stringify(data).length,
+    });
+  }
+
   // Get divisions from volumes
   const divisions = document.volumes.flatMap(v => v.divisions);
 
@@ -43,6 +76,26 @@ export function chunkContent(document: BCBCDocument): ContentChunk[] {
 
         chunks.push({ path, data, size });
       }
+
+      // Special tables (spectables) for this part
+      for (const specialTables of part.specialTables || []) {
+        const data = specialTables;
+        chunks.push({
+          path: generateSpecialTablesChunkPath(division.id, part.number, part.id, specialTables.id),
+          data,
+          size: JSON.stringify(data).length,
+        });
+      }
+
+      // Application notes for this part
+      if (part.appendix && part.appendix.applicationNotes.length > 0) {
+        const data = part.appendix;
+        chunks.push({
+          path: generateAppendixChunkPath(division.id, part.number),
+          data,
+          size: JSON.stringify(data).length,
+        });
+      }
     }
   }
 
@@ -74,6 +127,73 @@ export function generateChunkPath(
   return `content/${normalizedDivision}/part-${partNumber}/section-${normalizedSection}.json`;
 }
 
+/**
+ * Generate the URL/file slug for a special tables group
+ * 
+ * The part ID prefix is dropped and dots become hyphens.
+ * Example: ("nbc.divB.part9", "nbc.divB.part9.spectables1") → "spectables1"
+ * 
+ * @param partId - Part ID (e.g., "nbc.divB.part9")
+ * @param specialTablesId - Special tables group ID
+ * @returns Slug
+ */
+export function generateSpecialTablesSlug(partId: string, specialTablesId: string): string {
+  const localId = specialTablesId.startsWith(`${partId}.`)
+    ? specialTablesId.slice(partId.length + 1)
+    : specialTablesId;
+  return localId.toLowerCase().replace(/\./g, '-');
+}
+
+/**
+ * Generate special tables chunk file path
+ * 
+ * Example: content/nbc-divb/part-9/tables-spectables1.json
+ * 
+ * @param divisionId - Division ID (e.g., "nbc.divB")
+ * @param partNumber - Part number (e.g., "9")
+ * @param partId - Part ID (e.g., "nbc.divB.part9")
+ * @param specialTablesId - Special tables group ID
+ * @returns Chunk file path
+ */
+export function generateSpecialTablesChunkPath(
+  divisionId: string,
+  partNumber: string,
+  partId: string,
+  specialTablesId: string
+): string {
+  const normalizedDivision = divisionId.toLowerCase().replace(/\./g, '-');
+  const slug = generateSpecialTablesSlug(partId, specialTablesId);
+  return `content/${normalizedDivision}/part-${partNumber}/tables-${slug}.json`;
+}
+
+/**
+ * Generate appendix (application notes) chunk file path
+ * 
+ * Example: content/nbc-divb/part-9/appendix.json
+ * 
+ * @param divisionId - Division ID (e.g., "nbc.divB")
+ * @param partNumber - Part number (e.g., "9")
+ * @returns Chunk file path
+ */
+export function generateAppendixChunkPath(divisionId: string, partNumber: string): string {
+  const normalizedDivision = divisionId.toLowerCase().replace(/\./g, '-');
+  return `content/${normalizedDivision}/part-${partNumber}/appendix.json`;
+}
+
+/**
+ * Generate front matter chunk file path
+ * 
+ * Example: content/front-matter/introduction.json
+ * 
+ * @param sectionType - Front matter section type ("preface", "introduction" or "committees")
+ * @returns Chunk file path
+ */
+export function generateFrontMatterChunkPath(
+  sectionType: FrontMatterSection['type'] | CommitteesSection['type']
+): string {
+  return `content/front-matter/${sectionType}.json`;
+}
+
 /**
  * Validate chunk size is within optimal range
  * @param chunk - Content chunk
@@ -0,0 +1,163 @@
+/**
+ * Tests for the figure registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFigureRegistry, extractFigures, getFigureAssetKey } from './figure-registry';
+import type { BCBCDocument, Figure } from '@bc-building-code/bcbc-parser';
+
+const createFigure = (id: string, imageUrl: string, altText: string, extras: Partial<Figure> = {}): Figure => ({
+  id,
+  number: id.split('.').pop() || '',
+  title: `Title of ${id}`,
+  imageUrl,
+  altText,
+  ...extras,
+});
+
+const document: BCBCDocument = {
+  metadata: {
+    title: 'Test BCBC',
+    version: '2024',
+    effectiveDate: '2024-03-08',
+    jurisdiction: 'BC',
+    volumes: [],
+  },
+  frontMatter: {
+    id: 'fm',
+    preface: {
+      id: 'preface',
+      type: 'preface',
+      title: 'Preface',
+      content: [
+        { type: 'figure', id: 'preface-fig', imageUrl: 'graphics/gg/000/gg00001a.eps', altText: 'Code structure' },
+      ],
+    },
+  },
+  volumes: [
+    {
+      id: 'vol-1',
+      type: 'volume',
+      number: 1,
+      title: 'Volume 1',
+      divisions: [
+        {
+          id: 'nbc.divB',
+          type: 'division',
+          letter: 'B',
+          title: 'Acceptable Solutions',
+          number: '',
+          parts: [
+            {
+              id: 'nbc.divB.part9',
+              number: '9',
+              title: 'Housing and Small Buildings',
+              type: 'part',
+              sections: [
+                {
+                  id: 'nbc.divB.part9.sect23',
+                  number: '23',
+                  title: 'Wood-Frame Construction',
+                  type: 'section',
+                  subsections: [
+                    {
+                      id: 'nbc.divB.part9.sect23.subsect13',
+                      number: '13',
+                      title: 'Bracing',
+                      type: 'subsection',
+                      articles: [
+                        {
+                          id: 'nbc.divB.part9.sect23.subsect13.art7',
+                          number: '7',
+                          title: 'Braced Wall Bands',
+                          type: 'article',
+                          clauses: [
+                            {
+                              id: 'sent1',
+                              number: '1',
+                              text: 'See Figure',
+                              glossaryTerms: [],
+                              figures: [createFigure('fig.A', 'graphics/gg/003/gg00312a.eps', 'Plan of bands')],
+                              subclauses: [
+                                {
+                                  id: 'clause-a',
+                                  number: 'a',
+                                  text: 'Old figure',
+                                  glossaryTerms: [],
+                                  figures: [createFigure('fig.B', 'gg00313a.eps', 'Old', { deleted: true })],
+                                },
+                              ],
+                            },
+                          ],
+                          notes: [],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+              appendix: {
+                id: 'nbc.divB.part9.appendix',
+                type: 'part_appendix',
+                applicationNotes: [
+                  {
+                    id: 'note-1',
+                    number: 'A-9.23.13.7.',
+                    title: 'Braced Wall Bands',
+                    paragraphs: [],
+                    divisions: [
+                      {
+                        id: 'note-1-div1',
+                        title: 'Examples',
+                        paragraphs: [],
+                        figures: [createFigure('fig.C', 'gg00314a.eps', 'Title of fig.C')],
+                      },
+                    ],
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  glossary: [],
+};
+
+describe('extractFigures', () => {
+  it('should list front matter, article and application note figures', () => {
+    const figures = extractFigures(document);
+
+    expect(figures.map(figure => [figure.id, figure.provisionId])).toEqual([
+      ['preface-fig', 'preface'],
+      ['fig.A', 'nbc.divB.part9.sect23.subsect13.art7'],
+      ['fig.C', 'note-1'],
+    ]);
+    expect(figures[1]).toMatchObject({ src: 'graphics/gg/003/gg00312a.eps', altText: 'Plan of bands' });
+  });
+});
+
+describe('buildFigureRegistry', () => {
+  it('should list renditions web formats first and flag figures that cannot be shown', () => {
+    const registry = buildFigureRegistry(extractFigures(document), [
+      { path: '/graphics/gg/003/gg00312a.eps', format: 'eps', width: 340, height: 220 },
+      { path: '/graphics/gg/003/gg00312a.jpg', format: 'jpg', width: 1417, height: 917, bytes: 80_000 },
+      { path: '/graphics/gg/003/GG00314A.eps', format: 'eps' },
+    ]);
+
+    expect(registry.figures['fig.A'].renditions.map(asset => asset.format)).toEqual(['jpg', 'eps']);
+    expect(registry.figures['fig.A'].issues).toEqual([]);
+    expect(registry.figures['fig.C'].issues).toEqual(['no-web-image', 'missing-alt-text']);
+    expect(registry.issues).toEqual({
+      'missing-image': ['preface-fig'],
+      'no-web-image': ['fig.C'],
+      'missing-alt-text': ['fig.C'],
+    });
+  });
+
+  it('should match graphics by file name regardless of folder and extension', () => {
+    expect(getFigureAssetKey('graphics/gg/003/GG00312a.eps')).toBe('gg00312a');
+    expect(getFigureAssetKey('/bc-graphics/Figure 9.23.13.7.D.row1.jpg')).toBe('figure 9.23.13.7.d.row1');
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Figure registry for BCBC figures
+ */
+
+import type {
+  BCBCDocument,
+  Clause,
+  Figure,
+} from '@bc-building-code/bcbc-parser';
+
+/**
+ * Image formats found in the graphics folders
+ */
+export type FigureImageFormat = 'jpg' | 'png' | 'gif' | 'svg' | 'webp' | 'eps';
+
+/**
+ * Formats browsers can display, most preferred first
+ */
+export const WEB_IMAGE_FORMATS: FigureImageFormat[] = ['svg', 'png', 'jpg', 'webp', 'gif'];
+
+/**
+ * Image file available for a figure
+ */
+export interface FigureAsset {
+  path: string;  // URL path, e.g. "/graphics/gg/003/gg00312a.jpg"
+  format: FigureImageFormat;
+  width?: number;  // Pixels (points for EPS)
+  height?: number;
+  bytes?: number;
+}
+
+/**
+ * Figure as it appears in the document
+ */
+export interface FigureSource {
+  id: string;
+  number: string;
+  title: string;
+  caption?: string;
+  altText: string;
+  src: string;  // Source graphic path (often EPS)
+  provisionId: string;  // Article, application note or front matter section showing the figure
+}
+
+/**
+ * Problem that keeps a figure from displaying properly
+ *
+ * - `missing-image`: no file matches the figure's graphic
+ * - `no-web-image`: only an EPS file exists (browsers cannot show it)
+ * - `missing-alt-text`: alt text is missing or only repeats the title
+ */
+export type FigureIssue = 'missing-image' | 'no-web-image' | 'missing-alt-text';
+
+/**
+ * Registry entry: a figure with its renditions and issues
+ */
+export interface FigureRegistryEntry extends FigureSource {
+  renditions: FigureAsset[];  // Web formats first (by preference), then EPS
+  issues: FigureIssue[];
+}
+
+/**
+ * Figure registry, keyed by figure ID
+ */
+export interface FigureRegistry {
+  figures: Record<string, FigureRegistryEntry>;
+  issues: Record<FigureIssue, string[]>;  // Figure IDs per issue
+}
+
+/**
+ * Key used to match a graphic path with image files:
+ * the file name without folders or extension, lowercased
+ *
+ * Example: "graphics/gg/003/gg00312a.eps" → "gg00312a"
+ *
+ * @param path - Graphic path or file path
+ * @returns Asset key
+ */
+export function getFigureAssetKey(path: string): string {
+  const fileName = path.split(/[\\/]/).pop() || '';
+  return fileName.replace(/\.[a-z0-9]+$/i, '').toLowerCase();
+}
+
+/**
+ * Collect the figures of clauses and their subclauses
+ */
+function collectClauseFigures(clauses: Clause[], provisionId: string, figures: FigureSource[]): void {
+  for (const clause of clauses) {
+    for (const figure of clause.figures || []) {
+      if (!figure.deleted) figures.push(toFigureSource(figure, provisionId));
+    }
+    collectClauseFigures(clause.subclauses || [], provisionId, figures);
+  }
+}
+
+/**
+ * Describe a parsed figure for the registry
+ */
+function toFigureSource(figure: Figure, provisionId: string): FigureSource {
+  return {
+    id: figure.id,
+    number: figure.number,
+    title: figure.title,
+    caption: figure.caption,
+    altText: figure.altText,
+    src: figure.imageUrl,
+    provisionId,
+  };
+}
+
+/**
+ * List every figure in the document, in reading order
+ *
+ * Covers front matter, articles (clauses and subclauses) and application
+ * notes; deleted figures and the figures of deleted notes are left out.
+ *
+ * @param document - BCBC document
+ * @returns Figures with the provision showing them
+ */
+export function extractFigures(document: BCBCDocument): FigureSource[] {
+  const figures: FigureSource[] = [];
+
+  for (const section of [document.frontMatter?.preface, document.frontMatter?.introduction]) {
+    if (!section) continue;
+    for (const item of section.content) {
+      if (item.type !== 'figure') continue;
+      figures.push({
+        id: item.id,
+        number: '',
+        title: item.title || '',
+        altText: item.altText,
+        src: item.imageUrl,
+        provisionId: section.id,
+      });
+    }
+  }
+
+  const divisions = document.volumes.flatMap(v => v.divisions);
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      for (const section of part.sections) {
+        for (const subsection of section.subsections) {
+          for (const article of subsection.articles) {
+            collectClauseFigures(article.clauses, article.id, figures);
+          }
+        }
+      }
+
+      for (const note of part.appendix?.applicationNotes || []) {
+        if (note.deleted) continue;
+        const noteFigures = [
+          ...(note.figures || []),
+          ...note.divisions.flatMap(noteDivision => noteDivision.figures || []),
+        ];
+        for (const figure of noteFigures) {
+          if (!figure.deleted) figures.push(toFigureSource(figure, note.id));
+        }
+      }
+    }
+  }
+
+  return figures;
+}
+
+/**
+ * Match figures with their image files and flag the ones that cannot be shown
+ *
+ * @param figures - Figures from extractFigures
+ * @param assets - Image files found in the graphics folders (and converted renditions)
+ * @returns Figure registry
+ */
+export function buildFigureRegistry(figures: FigureSource[], assets: FigureAsset[]): FigureRegistry {
+  const assetsByKey = new Map<string, FigureAsset[]>();
+  for (const asset of assets) {
+    const key = getFigureAssetKey(asset.path);
+    assetsByKey.set(key, [...(assetsByKey.get(key) || []), asset]);
+  }
+
+  const registry: FigureRegistry = {
+    figures: {},
+    issues: { 'missing-image': [], 'no-web-image': [], 'missing-alt-text': [] },
+  };
+
+  for (const figure of figures) {
+    const renditions = [...(figure.src ? assetsByKey.get(getFigureAssetKey(figure.src)) || [] : [])]
+      .sort((a, b) => formatRank(a.format) - formatRank(b.format));
+
+    const issues: FigureIssue[] = [];
+    if (renditions.length === 0) {
+      issues.push('missing-image');
+    } else if (!renditions.some(asset => WEB_IMAGE_FORMATS.includes(asset.format))) {
+      issues.push('no-web-image');
+    }
+    const altText = figure.altText.trim();
+    if (!altText || altText === 'Figure' || altText === figure.title.trim()) {
+      issues.push('missing-alt-text');
+    }
+
+    registry.figures[figure.id] = { ...figure, renditions, issues };
+    for (const issue of issues) {
+      registry.issues[issue].push(figure.id);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Sort rank of an image format (web formats by preference, then EPS)
+ */
+function formatRank(format: FigureImageFormat): number {
+  const rank = WEB_IMAGE_FORMATS.indexOf(format);
+  return rank === -1 ? WEB_IMAGE_FORMATS.length : rank;
+}
@@ -8,6 +8,10 @@
 export {
   chunkContent,
   generateChunkPath,
+  generateSpecialTablesChunkPath,
+  generateSpecialTablesSlug,
+  generateAppendixChunkPath,
+  generateFrontMatterChunkPath,
   isOptimalChunkSize,
   getChunkStats,
 } from './chunker';
@@ -20,9 +24,58 @@ export {
   extractGlossaryMap,
   extractContentTypes,
   extractQuickAccess,
+  extractObjectiveIndex,
+  extractBookIndex,
+  extractRelatedLinks,
 } from './metadata-extractor';
 export type {
   NavigationNode,
   QuickAccessSection,
   ExtractedMetadata,
+  ObjectiveIndex,
+  ObjectiveIndexEntry,
+  ObjectiveProvision,
+  BookIndex,
+  BookIndexLetter,
+  BookIndexTerm,
+  BookIndexSubterm,
+  BookIndexReference,
+  RelatedLinks,
+  RelatedLinksEntry,
+  RelatedLink,
 } from './metadata-extractor';
+
+// Export version differ functions
+export { diffVersions } from './version-differ';
+export type {
+  VersionChangeType,
+  ArticleLocation,
+  ArticleChange,
+  VersionChangeGroup,
+  VersionChanges,
+  VersionDiffOptions,
+} from './version-differ';
+
+// Export change feed functions
+export { extractChangeFeed } from './change-feed';
+export type {
+  ChangeFeedLocation,
+  ChangeFeedProvision,
+  ChangeFeedEntry,
+} from './change-feed';
+
+// Export figure registry functions
+export {
+  extractFigures,
+  buildFigureRegistry,
+  getFigureAssetKey,
+  WEB_IMAGE_FORMATS,
+} from './figure-registry';
+export type {
+  FigureImageFormat,
+  FigureAsset,
+  FigureSource,
+  FigureIssue,
+  FigureRegistryEntry,
+  FigureRegistry,
+} from './figure-registry';
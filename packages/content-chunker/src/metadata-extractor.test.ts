@@ -9,6 +9,9 @@ import {
   extractGlossaryMap,
   extractContentTypes,
   extractQuickAccess,
+  extractObjectiveIndex,
+  extractBookIndex,
+  extractRelatedLinks,
 } from './metadata-extractor';
 import type { BCBCDocument } from '@bc-building-code/bcbc-parser';
 
@@ -125,6 +128,223 @@ describe('extractNavigationTree', () => {
   });
 });
 
+describe('extractNavigationTree special tables', () => {
+  it('should list special tables under their part after the sections', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          divisions: [
+            {
+              id: 'nbc.divB',
+              type: 'division',
+              letter: 'B',
+              title: 'Acceptable Solutions',
+              number: '',
+              parts: [
+                {
+                  id: 'nbc.divB.part9',
+                  number: '9',
+                  title: 'Housing and Small Buildings',
+                  type: 'part',
+                  sections: [
+                    {
+                      id: 'nbc.divB.part9.sect10',
+                      number: '10',
+                      title: 'Fire Protection',
+                      type: 'section',
+                      subsections: [],
+                    },
+                  ],
+                  specialTables: [
+                    {
+                      id: 'nbc.divB.part9.spectables1',
+                      type: 'spectables',
+                      title: 'Span Tables',
+                      tocEntry: 'Span Tables for Wood Joists, Rafters and Beams',
+                      tables: [
+                        {
+                          id: 'nbc.divB.part9.spectables1.table1',
+                          number: '9.1',
+                          title: 'Maximum Spans for Floor Joists',
+                          headers: [],
+                          rows: [],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const partNode = extractNavigationTree(mockDocument)[0].children![0].children![0];
+
+    expect(partNode.children!.map(c => c.type)).toEqual(['section', 'spectables']);
+    expect(partNode.children![1]).toMatchObject({
+      id: 'nbc.divB.part9.spectables1',
+      title: 'Span Tables for Wood Joists, Rafters and Beams',
+      path: '/code/nbc.divB/9#nbc.divB.part9.spectables1',
+    });
+    expect(partNode.children![1].children).toEqual([
+      {
+        id: 'nbc.divB.part9.spectables1.table1',
+        type: 'table',
+        number: '9.1',
+        title: 'Maximum Spans for Floor Joists',
+        path: '/code/nbc.divB/9#nbc.divB.part9.spectables1.table1',
+      },
+    ]);
+    expect(extractContentTypes(mockDocument)).toContain('table');
+  });
+});
+
+describe('extractNavigationTree deleted provisions', () => {
+  it('should keep deleted provisions in the tree with a deleted flag', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          divisions: [
+            {
+              id: 'nbc.divB',
+              type: 'division',
+              letter: 'B',
+              title: 'Acceptable Solutions',
+              number: '',
+              parts: [
+                {
+                  id: 'nbc.divB.part9',
+                  number: '9',
+                  title: 'Housing and Small Buildings',
+                  type: 'part',
+                  sections: [
+                    {
+                      id: 'nbc.divB.part9.sect10',
+                      number: '10',
+                      title: 'Fire Protection',
+                      type: 'section',
+                      subsections: [
+                        {
+                          id: 'nbc.divB.part9.sect10.subsect1',
+                          number: '1',
+                          title: 'Scope',
+                          type: 'subsection',
+                          articles: [
+                            {
+                              id: 'nbc.divB.part9.sect10.subsect1.art1',
+                              number: '1',
+                              title: 'Application',
+                              type: 'article',
+                              clauses: [],
+                              notes: [],
+                              deleted: true,
+                            },
+                            {
+                              id: 'nbc.divB.part9.sect10.subsect1.art2',
+                              number: '2',
+                              title: 'Definitions',
+                              type: 'article',
+                              clauses: [],
+                              notes: [],
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const subsectionNode = extractNavigationTree(mockDocument)[0].children![0].children![0].children![0].children![0];
+
+    expect(subsectionNode.deleted).toBeUndefined();
+    expect(subsectionNode.children!.map(c => [c.number, c.deleted])).toEqual([
+      ['9.10.1.1', true],
+      ['9.10.1.2', undefined],
+    ]);
+  });
+});
+
+describe('extractNavigationTree front matter', () => {
+  it('should list front matter sections at the start of the first volume', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      frontMatter: {
+        id: 'fm',
+        preface: { id: 'preface', type: 'preface', title: 'Preface', content: [] },
+        introduction: {
+          id: 'intro',
+          type: 'introduction',
+          title: 'Introduction to the Code',
+          content: [],
+        },
+        committees: { id: 'committees', type: 'committees', title: 'Committees', tables: [], notes: [] },
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          preface: { id: 'vol-1-preface', type: 'preface', content: [] },
+          divisions: [],
+        },
+        { id: 'vol-2', type: 'volume', number: 2, title: 'Volume 2', divisions: [] },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const tree = extractNavigationTree(mockDocument);
+
+    expect(tree[0].children).toEqual([
+      { id: 'preface', type: 'article', title: 'Preface', path: '/code/preface' },
+      { id: 'intro', type: 'article', title: 'Introduction to the Code', path: '/code/introduction' },
+      { id: 'committees', type: 'article', title: 'Committees', path: '/code/committees' },
+    ]);
+    expect(tree[1].children).toEqual([]);
+  });
+});
+
 describe('extractGlossaryMap', () => {
   it('should create map with lowercase keys', () => {
     const mockDocument: BCBCDocument = {
@@ -565,3 +785,380 @@ describe('extractMetadata', () => {
     expect(metadata.contentTypes).toContain('article');
   });
 });
+
+describe('extractObjectiveIndex', () => {
+  it('should map objective, sub-objective and functional statement keys to provisions', () => {
+    const mockDocument: BCBCDocument = {
+      metadata: {
+        title: 'Test BCBC',
+        version: '2024',
+        effectiveDate: '2024-01-01',
+        jurisdiction: 'BC',
+        volumes: [],
+      },
+      volumes: [
+        {
+          id: 'vol-1',
+          type: 'volume',
+          number: 1,
+          title: 'Volume 1',
+          divisions: [
+            {
+              id: 'nbc.divB',
+              type: 'division',
+              letter: 'B',
+              title: 'Acceptable Solutions',
+              number: '',
+              parts: [
+                {
+                  id: 'part-9',
+                  number: '9',
+                  title: 'Housing and Small Buildings',
+                  type: 'part',
+                  sections: [
+                    {
+                      id: 'sect-10',
+                      number: '10',
+                      title: 'Fire Protection',
+                      type: 'section',
+                      subsections: [
+                        {
+                          id: 'subsect-14',
+                          number: '14',
+                          title: 'Spatial Separation',
+                          type: 'subsection',
+                          articles: [
+                            {
+                              id: 'art-1',
+                              number: '1',
+                              title: 'Application',
+                              type: 'article',
+                              notes: [],
+                              clauses: [
+                                {
+                                  id: 'sent-3',
+                                  number: '3',
+                                  text: 'Sentence 3',
+                                  glossaryTerms: [],
+                                  objectives: [
+                                    {
+                                      id: 'obj-os3',
+                                      key: 'OS3',
+                                      source: 'nbc',
+                                      title: 'Fire Safety',
+                                      definition: 'An objective',
+                                      subObjectives: [
+                                        {
+                                          id: 'obj-os3-1',
+                                          key: 'OS3.1',
+                                          title: 'Fire spread',
+                                          definition: 'A sub-objective',
+                                        },
+                                      ],
+                                    },
+                                  ],
+                                  functionalStatements: [
+                                    { id: 'fs-f30', key: 'F30', definition: 'A functional statement' },
+                                  ],
+                                },
+                                {
+                                  id: 'clause-a',
+                                  number: 'a',
+                                  text: 'Clause a',
+                                  glossaryTerms: [],
+                                },
+                              ],
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      glossary: [],
+      amendmentDates: [],
+    };
+
+    const index = extractObjectiveIndex(mockDocument);
+
+    expect(Object.keys(index).sort()).toEqual(['F30', 'OS3', 'OS3.1']);
+    expect(index['OS3'].kind).toBe('objective');
+    expect(index['OS3.1'].kind).toBe('sub-objective');
+    expect(index['F30'].kind).toBe('functional-statement');
+    expect(index['OS3.1'].provisions).toEqual([
+      {
+        id: 'sent-3',
+        number: '9.10.14.1.(3)',
+        articleId: 'art-1',
+        articleTitle: 'Application',
+        path: '/code/nbc.divB/9/10/14/1',
+      },
+    ]);
+  });
+});
+
+describe('extractBookIndex', () => {
+  const article = (id: string, number: string) => ({
+    id,
+    number,
+    title: `Article ${number}`,
+    type: 'article' as const,
+    clauses: [],
+    notes: [],
+  });
+
+  const mockDocument: BCBCDocument = {
+    metadata: {
+      title: 'Test BCBC',
+      version: '2024',
+      effectiveDate: '2024-01-01',
+      jurisdiction: 'BC',
+      volumes: [],
+    },
+    volumes: [
+      {
+        id: 'vol-1',
+        type: 'volume',
+        number: 1,
+        title: 'Volume 1',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Division B',
+            number: '',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                number: '9',
+                title: 'Part 9',
+                type: 'part',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    number: '10',
+                    title: 'Section 10',
+                    type: 'section',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect14',
+                        number: '14',
+                        title: 'Subsection 14',
+                        type: 'subsection',
+                        articles: [article('nbc.divB.part9.sect10.subsect14.art1', '1')],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        index: {
+          id: 'index-1',
+          type: 'index',
+          introduction: 'Index introduction',
+          letters: [
+            {
+              id: 'letter-a',
+              letter: 'A',
+              groups: [
+                {
+                  id: 'group-1',
+                  term_id: 'term-1',
+                  term: 'Attics',
+                  references: [{ target: 'nbc.divB.part9.sect10.subsect14.art1', division: 'B' }],
+                  subterms: [
+                    {
+                      id: 'sub-1',
+                      term: 'fire separations',
+                      references: [
+                        { target: 'nbc.divB.part9.sect10.subsect14.art1.sent2', division: 'B' },
+                        { target: 'unknown.target' },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      },
+      {
+        id: 'vol-2',
+        type: 'volume',
+        number: 2,
+        title: 'Volume 2',
+        divisions: [],
+        index: {
+          id: 'index-2',
+          type: 'index',
+          introduction: '',
+          letters: [
+            {
+              id: 'letter-a-2',
+              letter: 'A',
+              groups: [{ id: 'group-2', term_id: 'term-2', term: 'Awnings', references: [] }],
+            },
+          ],
+        },
+      },
+    ],
+    glossary: [],
+    amendmentDates: [],
+  };
+
+  it('should merge volume indexes by letter', () => {
+    const index = extractBookIndex(mockDocument);
+
+    expect(index.introduction).toBe('Index introduction');
+    expect(index.letters).toHaveLength(1);
+    expect(index.letters[0].terms.map(t => t.term)).toEqual(['Attics', 'Awnings']);
+  });
+
+  it('should resolve references to content paths through the navigation tree', () => {
+    const index = extractBookIndex(mockDocument);
+    const attics = index.letters[0].terms[0];
+
+    expect(attics.references[0]).toEqual({
+      target: 'nbc.divB.part9.sect10.subsect14.art1',
+      label: '9.10.14.1',
+      division: 'B',
+      path: '/code/nbc.divB/9/10/14/1',
+    });
+
+    // Sentence targets resolve to their article; unknown targets stay unresolved
+    expect(attics.subterms[0].references[0].path).toBe('/code/nbc.divB/9/10/14/1');
+    expect(attics.subterms[0].references[1]).toEqual({
+      target: 'unknown.target',
+      label: 'unknown.target',
+      division: undefined,
+      path: null,
+    });
+  });
+});
+
+describe('extractRelatedLinks', () => {
+  const art1 = 'nbc.divB.part9.sect10.subsect14.art1';
+  const art2 = 'nbc.divB.part9.sect10.subsect14.art2';
+
+  const mockDocument: BCBCDocument = {
+    metadata: {
+      title: 'Test BCBC',
+      version: '2024',
+      effectiveDate: '2024-01-01',
+      jurisdiction: 'BC',
+      volumes: [],
+    },
+    volumes: [
+      {
+        id: 'vol-1',
+        type: 'volume',
+        number: 1,
+        title: 'Volume 1',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Division B',
+            number: '',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                number: '9',
+                title: 'Part 9',
+                type: 'part',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    number: '10',
+                    title: 'Section 10',
+                    type: 'section',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect14',
+                        number: '14',
+                        title: 'Subsection 14',
+                        type: 'subsection',
+                        articles: [
+                          {
+                            id: art1,
+                            number: '1',
+                            title: 'Application',
+                            type: 'article',
+                            notes: [],
+                            seeAlso: [
+                              { content: 'See also', targetIds: [`${art2}.sent1`, 'unknown.target'] },
+                            ],
+                            clauses: [
+                              {
+                                id: `${art1}.sent1`,
+                                number: '1',
+                                text: 'Sentence 1',
+                                glossaryTerms: [],
+                                seeAlso: [{ id: 'sa-1', content: 'See', targetIds: [art2, art1] }],
+                              },
+                            ],
+                          },
+                          {
+                            id: art2,
+                            number: '2',
+                            title: 'Openings',
+                            type: 'article',
+                            notes: [],
+                            clauses: [],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    glossary: [],
+    amendmentDates: [],
+  };
+
+  it('should resolve see also targets to navigation nodes', () => {
+    const links = extractRelatedLinks(mockDocument);
+
+    expect(links[art1].seeAlso).toEqual([
+      {
+        id: art2,
+        number: '9.10.14.2',
+        title: '9.10.14.2 Openings',
+        path: '/code/nbc.divB/9/10/14/2',
+        sourceId: undefined,
+      },
+      { id: 'unknown.target', title: 'unknown.target', path: null, sourceId: undefined },
+    ]);
+  });
+
+  it('should add reverse referenced-by links without duplicates or self-links', () => {
+    const links = extractRelatedLinks(mockDocument);
+
+    expect(links[art2].seeAlso).toEqual([]);
+    expect(links[art2].referencedBy).toEqual([
+      {
+        id: art1,
+        number: '9.10.14.1',
+        title: '9.10.14.1 Application',
+        path: '/code/nbc.divB/9/10/14/1',
+        sourceId: undefined,
+      },
+    ]);
+    expect(links[art1].referencedBy).toEqual([]);
+    expect(links['unknown.target']).toBeUndefined();
+  });
+});
@@ -4,10 +4,13 @@
 
 import type {
   BCBCDocument,
+  FrontMatter,
   GlossaryEntry,
   AmendmentDate,
   ContentType,
   Clause,
+  IndexReference,
+  SeeAlsoLink,
 } from '@bc-building-code/bcbc-parser';
 
 /**
@@ -15,10 +18,11 @@ import type {
  */
 export interface NavigationNode {
   id: string;
-  type: 'volume' | 'division' | 'part' | 'section' | 'subsection' | 'article';
+  type: 'volume' | 'division' | 'part' | 'section' | 'subsection' | 'article' | 'spectables' | 'table';
   number?: string;
   title: string;
   path: string;
+  deleted?: boolean;  // Rendered as a "[Deleted]" placeholder to keep numbering intact
   children?: NavigationNode[];
 }
 
@@ -41,8 +45,109 @@ export interface ExtractedMetadata {
   amendmentDates: AmendmentDate[];
   contentTypes: ContentType[];
   quickAccess: QuickAccessSection[];
+  objectiveIndex: ObjectiveIndex;
+  bookIndex: BookIndex;
+  relatedLinks: RelatedLinks;
 }
 
+/**
+ * Related provision in the "See also" / "Referenced by" graph
+ */
+export interface RelatedLink {
+  id: string;  // Navigation node ID, or raw target ID if unresolved
+  number?: string;
+  title: string;
+  path: string | null;  // null when the target is not in the navigation tree
+  sourceId?: string;  // Sentence or clause carrying the see-also text
+}
+
+/**
+ * "See also" and "Referenced by" links of a navigation node
+ */
+export interface RelatedLinksEntry {
+  seeAlso: RelatedLink[];
+  referencedBy: RelatedLink[];
+}
+
+/**
+ * Related-provision adjacency list (navigation node ID → links)
+ */
+export type RelatedLinks = Record<string, RelatedLinksEntry>;
+
+/**
+ * Back-of-book index reference resolved to a content path
+ */
+export interface BookIndexReference {
+  target: string;
+  label: string;  // Provision number (e.g., "9.10.14.1") or raw target if unresolved
+  division?: string;
+  path: string | null;  // null when the target is not in the navigation tree
+}
+
+/**
+ * Back-of-book index subterm
+ */
+export interface BookIndexSubterm {
+  id: string;
+  term: string;
+  references: BookIndexReference[];
+}
+
+/**
+ * Back-of-book index term
+ */
+export interface BookIndexTerm {
+  id: string;
+  termId: string;
+  term: string;
+  references: BookIndexReference[];
+  subterms: BookIndexSubterm[];
+}
+
+/**
+ * Back-of-book index letter group
+ */
+export interface BookIndexLetter {
+  letter: string;
+  terms: BookIndexTerm[];
+}
+
+/**
+ * Back-of-book index (all volumes merged by letter)
+ */
+export interface BookIndex {
+  introduction?: string;
+  letters: BookIndexLetter[];
+}
+
+/**
+ * Provision (sentence) attributed to an objective or functional statement
+ */
+export interface ObjectiveProvision {
+  id: string;
+  number: string;  // e.g., "9.10.14.1.(3)"
+  articleId: string;
+  articleTitle: string;
+  path: string;
+}
+
+/**
+ * Objective index entry, keyed by objective, sub-objective or functional statement key
+ */
+export interface ObjectiveIndexEntry {
+  key: string;
+  kind: 'objective' | 'sub-objective' | 'functional-statement';
+  title: string;
+  definition: string;
+  source?: 'nbc' | 'bc';
+  provisions: ObjectiveProvision[];
+}
+
+/**
+ * Objective index (key → entry)
+ */
+export type ObjectiveIndex = Record<string, ObjectiveIndexEntry>;
+
 /**
  * Extract all metadata from BCBC document
  * 
@@ -52,17 +157,25 @@ export interface ExtractedMetadata {
  * - Amendment dates: Available effective dates for filtering
  * - Content types: Available content types for search filters
  * - Quick access: Frequently accessed sections for homepage
+ * - Objective index: Provisions attributed to each objective/functional statement
+ * - Book index: Back-of-book index with references resolved to content paths
+ * - Related links: "See also" / "Referenced by" adjacency list
  * 
  * @param document - BCBC document
  * @returns Extracted metadata
  */
 export function extractMetadata(document: BCBCDocument): ExtractedMetadata {
+  const navigationTree = extractNavigationTree(document);
+
   return {
-    navigationTree: extractNavigationTree(document),
+    navigationTree,
     glossaryMap: extractGlossaryMap(document),
     amendmentDates: document.amendmentDates || [],
     contentTypes: extractContentTypes(document),
     quickAccess: extractQuickAccess(document),
+    objectiveIndex: extractObjectiveIndex(document),
+    bookIndex: extractBookIndex(document, navigationTree),
+    relatedLinks: extractRelatedLinks(document, navigationTree),
   };
 }
 
@@ -70,7 +183,7 @@ export function extractMetadata(document: BCBCDocument): ExtractedMetadata {
  * Extract navigation tree from BCBC document
  * 
  * Generates a hierarchical navigation structure:
- * Volume → Preface/Divisions/Index/Conversions → Part → Section → Subsection → Article
+ * Volume → Front matter/Divisions/Index/Conversions → Part → Section → Subsection → Article
  * 
  * @param document - BCBC document
  * @returns Navigation tree
@@ -91,8 +204,10 @@ export function extractNavigationTree(document: BCBCDocument): NavigationNode[]
 
     // IMPORTANT: Maintain order as they appear in the volume
 
-    // 1. Add Preface (if exists in this volume)
-    if (volume.preface) {
+    // 1. Add front matter (preface, introduction, committees) to the first volume
+    if (document.frontMatter && volume === document.volumes[0]) {
+      volumeNode.children?.push(...buildFrontMatterNodes(document.frontMatter));
+    } else if (volume.preface && !document.frontMatter) {
       volumeNode.children?.push({
         id: volume.preface.id,
         type: 'article',
@@ -132,6 +247,24 @@ export function extractNavigationTree(document: BCBCDocument): NavigationNode[]
   return tree;
 }
 
+/**
+ * Build navigation nodes for the front matter sections, in reading order
+ * @param frontMatter - Document front matter
+ * @returns Preface, introduction and committees nodes (those present)
+ */
+function buildFrontMatterNodes(frontMatter: FrontMatter): NavigationNode[] {
+  const sections = [frontMatter.preface, frontMatter.introduction, frontMatter.committees];
+
+  return sections
+    .filter((section): section is NonNullable<typeof section> => Boolean(section))
+    .map((section) => ({
+      id: section.id,
+      type: 'article' as const,
+      title: section.title,
+      path: `/code/${section.type}`,
+    }));
+}
+
 /**
  * Build a division node with hierarchical numbering
  * @param division - Division to build node for
@@ -165,6 +298,7 @@ function buildDivisionNode(division: any): NavigationNode {
         number: sectionNumber,
         title: `${sectionNumber} ${section.title}`,
         path: `/code/${division.id}/${part.number}/${section.number}`,
+        deleted: section.deleted || undefined,
         children: [],
       };
 
@@ -177,6 +311,7 @@ function buildDivisionNode(division: any): NavigationNode {
           number: subsectionNumber,
           title: `${subsectionNumber} ${subsection.title}`,
           path: `/code/${division.id}/${part.number}/${section.number}/${subsection.number}`,
+          deleted: subsection.deleted || undefined,
           children: [],
         };
 
@@ -189,6 +324,7 @@ function buildDivisionNode(division: any): NavigationNode {
             number: articleNumber,
             title: `${articleNumber} ${article.title}`,
             path: `/code/${division.id}/${part.number}/${section.number}/${subsection.number}/${article.number}`,
+            deleted: article.deleted || undefined,
           };
 
           subsectionNode.children?.push(articleNode);
@@ -200,6 +336,32 @@ function buildDivisionNode(division: any): NavigationNode {
       partNode.children?.push(sectionNode);
     }
 
+    // Special tables (e.g., span tables) follow the sections of their part
+    // and are anchored on the part page
+    const partPath = `/code/${division.id}/${part.number}`;
+    for (const specialTables of part.specialTables || []) {
+      const specialTablesNode: NavigationNode = {
+        id: specialTables.id,
+        type: 'spectables',
+        title: specialTables.tocEntry || specialTables.title,
+        path: `${partPath}#${specialTables.id}`,
+        children: [],
+      };
+
+      for (const table of specialTables.tables) {
+        specialTablesNode.children?.push({
+          id: table.id,
+          type: 'table',
+          number: table.number,
+          title: table.title,
+          path: `${partPath}#${table.id}`,
+          deleted: table.deleted || undefined,
+        });
+      }
+
+      partNode.children?.push(specialTablesNode);
+    }
+
     divisionNode.children?.push(partNode);
   }
 
@@ -235,7 +397,7 @@ export function extractGlossaryMap(
  * - Table: Tables within clauses
  * - Figure: Figures/images within clauses
  * - Note: Note references in articles
- * - Application Note: Special application notes
+ * - Application Note: Application notes in part appendices
  * 
  * @param document - BCBC document
  * @returns Array of content types found in the document
@@ -252,19 +414,22 @@ export function extractContentTypes(document: BCBCDocument): ContentType[] {
   // Scan through all divisions, parts, sections, subsections, and articles
   for (const division of divisions) {
     for (const part of division.parts) {
+      // Check for application notes in the part appendix
+      if (part.appendix && part.appendix.applicationNotes.length > 0) {
+        contentTypesSet.add('application-note');
+      }
+
+      // Check for special tables
+      if (part.specialTables?.some(specialTables => specialTables.tables.length > 0)) {
+        contentTypesSet.add('table');
+      }
+
       for (const section of part.sections) {
         for (const subsection of section.subsections) {
           for (const article of subsection.articles) {
             // Check for notes
             if (article.notes && article.notes.length > 0) {
               contentTypesSet.add('note');
-              
-              // Check if any notes are application notes
-              for (const note of article.notes) {
-                if (note.noteTitle?.toLowerCase().includes('application')) {
-                  contentTypesSet.add('application-note');
-                }
-              }
             }
 
             // Check clauses for tables and figures
@@ -347,3 +512,276 @@ export function extractQuickAccess(document: BCBCDocument): QuickAccessSection[]
 
   return quickAccess;
 }
+
+/**
+ * Extract objective index from BCBC document
+ * 
+ * Maps every objective, sub-objective and functional statement key
+ * (e.g., "OS3", "OS3.1", "F30") to the sentences attributed to it, so
+ * objective-based reviews can list the provisions serving an objective.
+ * 
+ * @param document - BCBC document
+ * @returns Objective index (key → entry)
+ */
+export function extractObjectiveIndex(document: BCBCDocument): ObjectiveIndex {
+  const index: ObjectiveIndex = {};
+
+  const addProvision = (
+    entry: Omit<ObjectiveIndexEntry, 'provisions'>,
+    provision: ObjectiveProvision
+  ) => {
+    if (!index[entry.key]) {
+      index[entry.key] = { ...entry, provisions: [] };
+    }
+    const provisions = index[entry.key].provisions;
+    if (!provisions.some(p => p.id === provision.id)) {
+      provisions.push(provision);
+    }
+  };
+
+  // Get divisions from volumes
+  const divisions = document.volumes.flatMap(v => v.divisions);
+
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      for (const section of part.sections) {
+        for (const subsection of section.subsections) {
+          for (const article of subsection.articles) {
+            const articleNumber = `${part.number}.${section.number}.${subsection.number}.${article.number}`;
+            const path = `/code/${division.id}/${part.number}/${section.number}/${subsection.number}/${article.number}`;
+
+            for (const clause of article.clauses) {
+              const provision: ObjectiveProvision = {
+                id: clause.id,
+                number: `${articleNumber}.(${clause.number})`,
+                articleId: article.id,
+                articleTitle: article.title,
+                path,
+              };
+
+              for (const objective of clause.objectives || []) {
+                addProvision(
+                  {
+                    key: objective.key,
+                    kind: 'objective',
+                    title: objective.title,
+                    definition: objective.definition,
+                    source: objective.source,
+                  },
+                  provision
+                );
+
+                for (const sub of objective.subObjectives) {
+                  addProvision(
+                    {
+                      key: sub.key,
+                      kind: 'sub-objective',
+                      title: sub.title,
+                      definition: sub.definition,
+                      source: sub.source,
+                    },
+                    provision
+                  );
+                }
+              }
+
+              for (const statement of clause.functionalStatements || []) {
+                addProvision(
+                  {
+                    key: statement.key,
+                    kind: 'functional-statement',
+                    title: statement.key,
+                    definition: statement.definition,
+                    source: statement.source,
+                  },
+                  provision
+                );
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Extract back-of-book index from BCBC document
+ * 
+ * Merges the index of every volume by letter and resolves each reference
+ * target to a `/code/...` path through the navigation tree. Targets below
+ * article level (sentences, clauses) resolve to their nearest ancestor in
+ * the tree.
+ * 
+ * @param document - BCBC document
+ * @param navigationTree - Navigation tree (defaults to extracting one)
+ * @returns Book index
+ */
+export function extractBookIndex(
+  document: BCBCDocument,
+  navigationTree: NavigationNode[] = extractNavigationTree(document)
+): BookIndex {
+  const resolveNode = createNodeResolver(navigationTree);
+
+  const resolveReference = (reference: IndexReference): BookIndexReference => {
+    const node = resolveNode(reference.target);
+
+    return {
+      target: reference.target,
+      label: node?.number || reference.target,
+      division: reference.division,
+      path: node && node.type !== 'volume' ? node.path : null,
+    };
+  };
+
+  const letters: BookIndexLetter[] = [];
+  let introduction: string | undefined;
+
+  for (const volume of document.volumes) {
+    if (!volume.index) continue;
+    introduction = introduction || volume.index.introduction;
+
+    for (const indexLetter of volume.index.letters || []) {
+      let letter = letters.find(l => l.letter === indexLetter.letter);
+      if (!letter) {
+        letter = { letter: indexLetter.letter, terms: [] };
+        letters.push(letter);
+      }
+
+      for (const group of indexLetter.groups || []) {
+        letter.terms.push({
+          id: group.id,
+          termId: group.term_id,
+          term: group.term,
+          references: (group.references || []).map(resolveReference),
+          subterms: (group.subterms || []).map(subterm => ({
+            id: subterm.id,
+            term: subterm.term,
+            references: (subterm.references || []).map(resolveReference),
+          })),
+        });
+      }
+    }
+  }
+
+  return { introduction, letters };
+}
+
+/**
+ * Extract the related-provision graph from "see also" cross-links
+ * 
+ * Links on parts, subsections and articles belong to that node; links on
+ * sentences and clauses belong to their article. Every resolved target gets
+ * the reverse "Referenced by" link. Targets below the navigation tree (e.g.,
+ * sentences) resolve to their nearest navigation ancestor.
+ * 
+ * @param document - BCBC document
+ * @param navigationTree - Navigation tree (extracted from the document if omitted)
+ * @returns Adjacency list keyed by navigation node ID
+ */
+export function extractRelatedLinks(
+  document: BCBCDocument,
+  navigationTree: NavigationNode[] = extractNavigationTree(document)
+): RelatedLinks {
+  const resolveNode = createNodeResolver(navigationTree);
+  const relatedLinks: RelatedLinks = {};
+
+  const getEntry = (id: string): RelatedLinksEntry => {
+    if (!relatedLinks[id]) {
+      relatedLinks[id] = { seeAlso: [], referencedBy: [] };
+    }
+    return relatedLinks[id];
+  };
+
+  const toLink = (node: NavigationNode, sourceId?: string): RelatedLink => ({
+    id: node.id,
+    number: node.number,
+    title: node.title,
+    path: node.path,
+    sourceId,
+  });
+
+  const addLinks = (ownerId: string, seeAlso: SeeAlsoLink[] | undefined, sourceId?: string) => {
+    const owner = resolveNode(ownerId);
+    if (!owner || !seeAlso) return;
+
+    for (const link of seeAlso) {
+      for (const targetId of link.targetIds) {
+        const target = resolveNode(targetId);
+        if (target?.id === owner.id) continue;
+
+        const entry = getEntry(owner.id);
+        const seeAlsoLink: RelatedLink = target
+          ? toLink(target, sourceId)
+          : { id: targetId, title: targetId, path: null, sourceId };
+        if (!entry.seeAlso.some(l => l.id === seeAlsoLink.id)) {
+          entry.seeAlso.push(seeAlsoLink);
+        }
+
+        if (target) {
+          const targetEntry = getEntry(target.id);
+          if (!targetEntry.referencedBy.some(l => l.id === owner.id)) {
+            targetEntry.referencedBy.push(toLink(owner, sourceId));
+          }
+        }
+      }
+    }
+  };
+
+  const addClauseLinks = (articleId: string, clauses: Clause[]) => {
+    for (const clause of clauses) {
+      addLinks(articleId, clause.seeAlso, clause.id);
+      if (clause.subclauses) addClauseLinks(articleId, clause.subclauses);
+    }
+  };
+
+  const divisions = document.volumes.flatMap(v => v.divisions);
+
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      addLinks(part.id, part.seeAlso);
+
+      for (const section of part.sections) {
+        for (const subsection of section.subsections) {
+          addLinks(subsection.id, subsection.seeAlso);
+
+          for (const article of subsection.articles) {
+            addLinks(article.id, article.seeAlso);
+            addClauseLinks(article.id, article.clauses);
+          }
+        }
+      }
+    }
+  }
+
+  return relatedLinks;
+}
+
+/**
+ * Build a lookup that resolves an ID to its navigation node, falling back
+ * to the nearest ancestor by stripping trailing ID segments
+ * (e.g., "nbc.divB.part9.sect10.subsect14.art1.sent1" → the article node)
+ */
+function createNodeResolver(navigationTree: NavigationNode[]) {
+  // Flatten navigation tree by node ID
+  const nodesById = new Map<string, NavigationNode>();
+  const visit = (nodes: NavigationNode[]) => {
+    for (const node of nodes) {
+      nodesById.set(node.id, node);
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(navigationTree);
+
+  return (targetId: string) => {
+    let id = targetId;
+    let node = nodesById.get(id);
+    while (!node && id.includes('.')) {
+      id = id.substring(0, id.lastIndexOf('.'));
+      node = nodesById.get(id);
+    }
+    return node;
+  };
+}
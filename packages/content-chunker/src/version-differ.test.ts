@@ -0,0 +1,155 @@
+/**
+ * Tests for cross-version comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffVersions } from './version-differ';
+import type { Article, BCBCDocument, Subsection } from '@bc-building-code/bcbc-parser';
+
+const createArticle = (id: string, number: string, title: string, text: string): Article => ({
+  id,
+  number,
+  title,
+  type: 'article',
+  clauses: [{ id: `${id}.sent1`, number: '1', text, glossaryTerms: [] }],
+  notes: [],
+});
+
+const createSubsection = (number: string, articles: Article[]): Subsection => ({
+  id: `nbc.divB.part9.sect10.subsect${number}`,
+  number,
+  title: `Subsection ${number}`,
+  type: 'subsection',
+  articles,
+});
+
+const createDocument = (version: string, subsections: Subsection[]): BCBCDocument => ({
+  metadata: {
+    title: 'Test BCBC',
+    version,
+    effectiveDate: `${version}-01-01`,
+    jurisdiction: 'BC',
+    volumes: [],
+  },
+  volumes: [
+    {
+      id: 'vol-1',
+      type: 'volume',
+      number: 1,
+      title: 'Volume 1',
+      divisions: [
+        {
+          id: 'nbc.divB',
+          type: 'division',
+          letter: 'B',
+          title: 'Acceptable Solutions',
+          number: '',
+          parts: [
+            {
+              id: 'nbc.divB.part9',
+              number: '9',
+              title: 'Housing and Small Buildings',
+              type: 'part',
+              sections: [
+                {
+                  id: 'nbc.divB.part9.sect10',
+                  number: '10',
+                  title: 'Fire Protection',
+                  type: 'section',
+                  subsections,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  glossary: [],
+  amendmentDates: [],
+});
+
+const smokeAlarmText = 'Smoke alarms shall be installed in each dwelling unit and on each storey.';
+
+describe('diffVersions', () => {
+  const from = createDocument('2024', [
+    createSubsection('1', [
+      createArticle('art-a', '1', 'Application', 'This Section applies to all buildings.'),
+      createArticle('art-b', '2', 'Definitions', 'Terms are defined in Part 1.'),
+      createArticle('art-c', '3', 'Exits', 'Every floor area shall have an exit.'),
+      createArticle('art-d', '4', 'Smoke Alarms', smokeAlarmText),
+      createArticle('art-h', '6', 'Heating', 'Heating shall be provided.'),
+    ]),
+  ]);
+  const to = createDocument('2027', [
+    createSubsection('1', [
+      createArticle('art-a', '1', 'Application', 'This Section applies to all buildings.'),
+      createArticle('art-e', '3', 'Exits', 'Every floor area shall have two exits.'),
+      createArticle('art-b', '5', 'Definitions', 'Terms are defined in Part 1.'),
+      createArticle('art-f', '7', 'Sprinklers', 'Sprinklers shall be provided.'),
+    ]),
+    createSubsection('2', [
+      createArticle('art-g', '1', 'Smoke Alarms', smokeAlarmText.replace('each storey', 'every storey')),
+    ]),
+  ]);
+
+  it('should detect renumbered, reworded, moved, added and removed articles', () => {
+    const changes = diffVersions(from, to, '2024', '2027');
+
+    expect(changes.from).toBe('2024');
+    expect(changes.to).toBe('2027');
+    expect(changes.summary).toEqual({ added: 1, removed: 1, moved: 1, renumbered: 1, reworded: 2 });
+    expect(changes.groups).toHaveLength(1);
+    expect(changes.groups[0]).toMatchObject({
+      divisionId: 'nbc.divB',
+      partNumber: '9',
+      partTitle: 'Housing and Small Buildings',
+    });
+
+    const byNumber = Object.fromEntries(
+      changes.groups[0].changes.map((c) => [(c.to ?? c.from)!.number, c])
+    );
+    expect(byNumber['9.10.1.3']).toMatchObject({ types: ['reworded'], matchedBy: 'number' });
+    expect(byNumber['9.10.1.5']).toMatchObject({ types: ['renumbered'], matchedBy: 'id' });
+    expect(byNumber['9.10.1.5'].from!.number).toBe('9.10.1.2');
+    expect(byNumber['9.10.1.6']).toMatchObject({ types: ['removed'] });
+    expect(byNumber['9.10.1.7']).toMatchObject({ types: ['added'] });
+    expect(byNumber['9.10.2.1']).toMatchObject({ types: ['moved', 'reworded'], matchedBy: 'text' });
+    expect(byNumber['9.10.2.1'].to!.path).toBe('/code/nbc.divB/9/10/2/1');
+  });
+
+  it('should leave out unchanged articles', () => {
+    const changes = diffVersions(from, from, '2024', '2024');
+
+    expect(changes.groups).toEqual([]);
+    expect(Object.values(changes.summary).every((count) => count === 0)).toBe(true);
+  });
+
+  it('should pair articles with identical wording in document order', () => {
+    const reserved = createDocument('2024', [
+      createSubsection('1', [
+        createArticle('art-x', '1', 'Reserved', 'Reserved.'),
+        createArticle('art-y', '2', 'Reserved', 'Reserved.'),
+      ]),
+    ]);
+    const renumbered = createDocument('2027', [
+      createSubsection('1', [
+        createArticle('art-v', '3', 'Reserved', 'Reserved.'),
+        createArticle('art-w', '4', 'Reserved', 'Reserved.'),
+      ]),
+    ]);
+
+    const changes = diffVersions(reserved, renumbered, '2024', '2027');
+
+    expect(changes.groups[0].changes.map((c) => [c.from!.number, c.to!.number, c.matchedBy])).toEqual([
+      ['9.10.1.1', '9.10.1.3', 'text'],
+      ['9.10.1.2', '9.10.1.4', 'text'],
+    ]);
+  });
+
+  it('should report articles without a close enough match as added and removed', () => {
+    const changes = diffVersions(from, to, '2024', '2027', { similarityThreshold: 1.1 });
+
+    expect(changes.summary).toMatchObject({ added: 2, removed: 2, moved: 0 });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Cross-version comparison of BCBC editions
+ */
+
+import type {
+  BCBCDocument,
+  Division,
+  Part,
+  Article,
+  Clause,
+} from '@bc-building-code/bcbc-parser';
+
+/**
+ * How an article changed between editions
+ *
+ * 'moved' articles changed division, part, section or subsection;
+ * 'renumbered' articles kept their subsection but changed number.
+ */
+export type VersionChangeType = 'added' | 'removed' | 'moved' | 'renumbered' | 'reworded';
+
+/**
+ * Where an article sits in one edition
+ */
+export interface ArticleLocation {
+  id: string;
+  number: string;  // Full number (e.g., "9.10.14.2")
+  title: string;
+  path: string;
+  divisionId: string;
+  partNumber: string;
+}
+
+/**
+ * Change to one article between editions
+ */
+export interface ArticleChange {
+  types: VersionChangeType[];
+  from?: ArticleLocation;  // Missing for added articles
+  to?: ArticleLocation;  // Missing for removed articles
+  matchedBy?: 'id' | 'number' | 'text';
+}
+
+/**
+ * Changes within one part, located in the newer edition
+ * (or the older one for parts that were removed)
+ */
+export interface VersionChangeGroup {
+  divisionId: string;
+  divisionTitle: string;
+  partNumber: string;
+  partTitle: string;
+  changes: ArticleChange[];
+}
+
+/**
+ * Changes between two editions (changes-{from}-{to}.json)
+ */
+export interface VersionChanges {
+  from: string;
+  to: string;
+  summary: Record<VersionChangeType, number>;
+  groups: VersionChangeGroup[];
+}
+
+/**
+ * Options for comparing editions
+ */
+export interface VersionDiffOptions {
+  /**
+   * Minimum word overlap (0-1) for matching articles by text when
+   * neither the ID nor the number matches
+   */
+  similarityThreshold?: number;
+}
+
+/**
+ * How two articles were matched across editions
+ */
+type MatchStrategy = NonNullable<ArticleChange['matchedBy']>;
+
+/**
+ * Article with the context needed to compare it
+ */
+interface IndexedArticle {
+  location: ArticleLocation;
+  parentKey: string;  // Division and subsection it belongs to
+  division: Division;
+  part: Part;
+  text: string;
+  words: Set<string>;
+}
+
+/**
+ * Compare two editions article by article
+ *
+ * Articles are matched by ID first, then by identical wording, then by
+ * full number within the same division, then by similar wording. Matched
+ * articles are checked for moves, renumbering and rewording; unmatched ones
+ * are added or removed. Unchanged articles are left out.
+ *
+ * Articles sharing a key (such as identical wording) are paired in
+ * document order.
+ *
+ * @param fromDocument - Older edition
+ * @param toDocument - Newer edition
+ * @param fromVersion - Older version ID (e.g., "2024")
+ * @param toVersion - Newer version ID (e.g., "2027")
+ * @returns Changes grouped by division and part of the newer edition
+ */
+export function diffVersions(
+  fromDocument: BCBCDocument,
+  toDocument: BCBCDocument,
+  fromVersion: string,
+  toVersion: string,
+  options: VersionDiffOptions = {}
+): VersionChanges {
+  const { similarityThreshold = 0.8 } = options;
+  const fromArticles = indexArticles(fromDocument);
+  const toArticles = indexArticles(toDocument);
+  const pairs: Array<[IndexedArticle, IndexedArticle, MatchStrategy]> = [];
+  const unmatchedFrom = new Set(fromArticles);
+  const unmatchedTo = new Set(toArticles);
+
+  const match = (matchedBy: MatchStrategy) => {
+    const candidates = new Map<string, IndexedArticle[]>();
+    for (const article of unmatchedFrom) {
+      const key = getMatchKey(article, matchedBy);
+      if (!candidates.has(key)) {
+        candidates.set(key, []);
+      }
+      candidates.get(key)!.push(article);
+    }
+    for (const article of unmatchedTo) {
+      const candidate = candidates.get(getMatchKey(article, matchedBy))?.shift();
+      if (candidate) {
+        pairs.push([candidate, article, matchedBy]);
+        unmatchedFrom.delete(candidate);
+        unmatchedTo.delete(article);
+      }
+    }
+  };
+
+  match('id');
+  match('text');
+  match('number');
+
+  // Match what is left by similar wording (best overlap first)
+  for (const article of unmatchedTo) {
+    let best: IndexedArticle | undefined;
+    let bestSimilarity = similarityThreshold;
+    for (const candidate of unmatchedFrom) {
+      const similarity = getSimilarity(candidate.words, article.words);
+      if (similarity >= bestSimilarity) {
+        best = candidate;
+        bestSimilarity = similarity;
+      }
+    }
+    if (best) {
+      pairs.push([best, article, 'text']);
+      unmatchedFrom.delete(best);
+      unmatchedTo.delete(article);
+    }
+  }
+
+  const groups = new Map<string, VersionChangeGroup>();
+  const summary: Record<VersionChangeType, number> = {
+    added: 0,
+    removed: 0,
+    moved: 0,
+    renumbered: 0,
+    reworded: 0,
+  };
+
+  const addChange = (article: IndexedArticle, change: ArticleChange) => {
+    const key = `${article.division.id}:${article.part.number}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        divisionId: article.division.id,
+        divisionTitle: article.division.title,
+        partNumber: article.part.number,
+        partTitle: article.part.title,
+        changes: [],
+      });
+    }
+    groups.get(key)!.changes.push(change);
+    for (const type of change.types) {
+      summary[type]++;
+    }
+  };
+
+  for (const [from, to, matchedBy] of pairs) {
+    const types: VersionChangeType[] = [];
+    if (from.parentKey !== to.parentKey) {
+      types.push('moved');
+    } else if (from.location.number !== to.location.number) {
+      types.push('renumbered');
+    }
+    if (from.text !== to.text) {
+      types.push('reworded');
+    }
+    if (types.length > 0) {
+      addChange(to, { types, from: from.location, to: to.location, matchedBy });
+    }
+  }
+  for (const article of unmatchedTo) {
+    addChange(article, { types: ['added'], to: article.location });
+  }
+  for (const article of unmatchedFrom) {
+    addChange(article, { types: ['removed'], from: article.location });
+  }
+
+  // Order groups and their changes as they appear in the code
+  const compareNumbers = (a: string, b: string) =>
+    a.localeCompare(b, undefined, { numeric: true });
+  const sortedGroups = Array.from(groups.values()).sort((a, b) =>
+    a.divisionId.localeCompare(b.divisionId) || compareNumbers(a.partNumber, b.partNumber)
+  );
+  for (const group of sortedGroups) {
+    group.changes.sort((a, b) =>
+      compareNumbers((a.to ?? a.from)!.number, (b.to ?? b.from)!.number)
+    );
+  }
+
+  return { from: fromVersion, to: toVersion, summary, groups: sortedGroups };
+}
+
+/**
+ * Key two articles must share to match with a strategy
+ */
+function getMatchKey(article: IndexedArticle, matchedBy: MatchStrategy): string {
+  switch (matchedBy) {
+    case 'id':
+      return article.location.id;
+    case 'text':
+      return article.text;
+    case 'number':
+      return `${article.location.divisionId}:${article.location.number}`;
+  }
+}
+
+/**
+ * List every article of a document with its location and normalized wording
+ */
+function indexArticles(document: BCBCDocument): IndexedArticle[] {
+  const articles: IndexedArticle[] = [];
+  const divisions = document.volumes.flatMap(v => v.divisions);
+
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      for (const section of part.sections) {
+        for (const subsection of section.subsections) {
+          const subsectionNumber = `${part.number}.${section.number}.${subsection.number}`;
+
+          for (const article of subsection.articles) {
+            if (article.deleted) continue;
+
+            const text = getArticleText(article);
+            articles.push({
+              location: {
+                id: article.id,
+                number: `${subsectionNumber}.${article.number}`,
+                title: article.title,
+                path: `/code/${division.id}/${part.number}/${section.number}/${subsection.number}/${article.number}`,
+                divisionId: division.id,
+                partNumber: part.number,
+              },
+              parentKey: `${division.id}:${subsectionNumber}`,
+              division,
+              part,
+              text,
+              words: new Set(text.split(' ').filter(Boolean)),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return articles;
+}
+
+/**
+ * Article title and clause text, lower-cased with whitespace collapsed
+ */
+function getArticleText(article: Article): string {
+  const collect = (clauses: Clause[]): string[] =>
+    clauses.flatMap((clause) => [
+      clause.deleted ? '' : clause.text,
+      ...collect(clause.subclauses || []),
+    ]);
+
+  return [article.title, ...collect(article.clauses)]
+    .join(' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function getSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
@@ -62,6 +62,52 @@ export interface FieldConfig {
   scoreWeight: number;
 }
 
+/**
+ * Term weighting configuration (BM25)
+ */
+export interface TermWeightingConfig {
+  /** Term frequency saturation (higher = repeated terms keep adding to the score) */
+  k1: number;
+  /** Field length normalization (0 = none, 1 = full) */
+  b: number;
+}
+
+/**
+ * Proximity boost configuration
+ */
+export interface ProximityConfig {
+  /** Largest span (in words) from the first to the last query word that earns a boost */
+  window: number;
+  /** Score multiplier for adjacent query words (smaller as the span grows) */
+  boost: number;
+}
+
+/**
+ * Ranking configuration
+ */
+export interface RankingConfig {
+  /** BM25 term weighting */
+  termWeighting: TermWeightingConfig;
+  /** Boost for query words close together */
+  proximity: ProximityConfig;
+  /** Score multiplier when the query (or one of its OR alternatives) appears in the title */
+  titleMatchBoost: number;
+}
+
+/**
+ * Ranking model
+ * Serialized into metadata.json so the search client ranks results with the
+ * configuration the index was built with
+ */
+export interface RankingModel extends RankingConfig {
+  /** Indexed fields (FlexSearch options and score weights) */
+  fields: FieldConfig[];
+  /** Priority and amendment boost per content type */
+  contentTypes: Record<IndexableContentType, Pick<ContentTypeConfig, 'priority' | 'amendmentBoost'>>;
+  /** Average length (in words) of each field, for BM25 length normalization */
+  averageFieldLengths: Record<string, number>;
+}
+
 /**
  * Text extraction configuration
  */
@@ -72,6 +118,8 @@ export interface TextExtractionConfig {
   includeClauses: boolean;
   /** Include subclause text (recursive) */
   includeSubclauses: boolean;
+  /** Include equation text (plain text form, or LaTeX) */
+  includeEquations: boolean;
   /** Maximum text length per document (characters) */
   maxTextLength: number;
   /** Snippet length for search results */
@@ -102,6 +150,8 @@ export interface IndexerConfig {
   contentTypes: Record<IndexableContentType, ContentTypeConfig>;
   /** Field indexing settings */
   fields: FieldConfig[];
+  /** Ranking settings */
+  ranking: RankingConfig;
   /** Text extraction settings */
   textExtraction: TextExtractionConfig;
   /** Output settings */
@@ -142,6 +192,15 @@ export const DEFAULT_FIELD_CONFIG: FieldConfig[] = [
   { field: 'path', tokenize: 'forward', resolution: 3, scoreWeight: 2 },
 ];
 
+/**
+ * Default ranking configuration
+ */
+export const DEFAULT_RANKING_CONFIG: RankingConfig = {
+  termWeighting: { k1: 1.2, b: 0.75 },
+  proximity: { window: 8, boost: 1.5 },
+  titleMatchBoost: 2,
+};
+
 /**
  * Default text extraction configuration
  */
@@ -149,6 +208,7 @@ export const DEFAULT_TEXT_EXTRACTION_CONFIG: TextExtractionConfig = {
   includeSentences: true,
   includeClauses: true,
   includeSubclauses: true,
+  includeEquations: true,
   maxTextLength: 10000,
   snippetLength: 200,
 };
@@ -170,6 +230,7 @@ export const DEFAULT_INDEXER_CONFIG: IndexerConfig = {
   references: DEFAULT_REFERENCE_CONFIG,
   contentTypes: DEFAULT_CONTENT_TYPE_CONFIG,
   fields: DEFAULT_FIELD_CONFIG,
+  ranking: DEFAULT_RANKING_CONFIG,
   textExtraction: DEFAULT_TEXT_EXTRACTION_CONFIG,
   output: DEFAULT_OUTPUT_CONFIG,
 };
@@ -221,12 +282,20 @@ export interface SearchDocument {
   hasTermRefs: boolean;
   hasTables: boolean;
   hasFigures: boolean;
+  /** Article has sentences with BC-specific annotations (departures from the NBC) */
+  hasBCAnnotation?: boolean;
+  
+  /** Deleted provision (excluded from search results unless requested) */
+  deleted?: boolean;
   
   /** Search priority (computed from config) */
   searchPriority: number;
   
   /** Extracted reference IDs (if preserveReferenceIds is true) */
   referenceIds?: string[];
+  
+  /** Objective, sub-objective and functional statement keys (e.g., "OS3.1", "F30") */
+  objectiveKeys?: string[];
 }
 
 /**
@@ -237,6 +306,8 @@ export interface RevisionDate {
   displayDate: string;
   count: number;
   type: 'original' | 'amendment' | 'mixed';
+  /** Revisions on this date that repeal a provision */
+  repealedCount?: number;
 }
 
 /**
@@ -252,6 +323,25 @@ export interface TableOfContentsItem {
   hasRevisions?: boolean;
 }
 
+/**
+ * Provision citing a target through an internal reference
+ */
+export interface InboundReference {
+  /** Sentence, clause, table or note whose text contains the reference */
+  sourceId: string;
+  /** Search document of the citing provision (article, table or note) */
+  documentId: string;
+  type: IndexableContentType;
+  articleNumber: string;
+  title: string;
+  urlPath: string;
+}
+
+/**
+ * Inbound reference index (target ID → citing provisions)
+ */
+export type InboundReferenceIndex = Record<string, InboundReference[]>;
+
 /**
  * Search metadata structure
  */
@@ -269,6 +359,7 @@ export interface SearchMetadata {
     totalAmendments: number;
     totalRevisionDates: number;
     totalGlossaryTerms: number;
+    totalApplicationNotes: number;
   };
   divisions: Array<{
     id: string;
@@ -283,6 +374,8 @@ export interface SearchMetadata {
   revisionDates: RevisionDate[];
   tableOfContents: TableOfContentsItem[];
   contentTypes: IndexableContentType[];
+  /** Ranking model (absent in metadata generated before config-driven ranking) */
+  ranking?: RankingModel;
 }
 
 /**
@@ -307,8 +400,14 @@ export interface SearchOptions {
   amendmentsOnly?: boolean;
   tablesOnly?: boolean;
   figuresOnly?: boolean;
+  /** Only articles where BC departs from the National Building Code */
+  bcAnnotationsOnly?: boolean;
   contentTypes?: IndexableContentType[];
+  /** Only documents serving this objective or functional statement key */
+  objectiveFilter?: string;
   effectiveDate?: string;
+  /** Include deleted provisions (excluded by default) */
+  includeDeleted?: boolean;
   limit?: number;
   offset?: number;
 }
@@ -5,8 +5,10 @@
  * Supports both unified metadata.json and individual files.
  */
 
-import type { SearchDocument, SearchMetadata } from './config';
-import { DEFAULT_OUTPUT_CONFIG } from './config';
+import { createHash } from 'crypto';
+import type { SearchDocument, SearchMetadata, InboundReferenceIndex, FieldConfig } from './config';
+import { DEFAULT_OUTPUT_CONFIG, DEFAULT_FIELD_CONFIG } from './config';
+import { SEARCH_INDEX_FORMAT_VERSION, serializeSearchIndex, type SerializedSearchIndex } from './search-index';
 
 /**
  * Export options
@@ -28,6 +30,8 @@ export interface ExportResult {
   documents: string;
   /** metadata.json content (if generateMetadataJson is true) */
   metadata?: string;
+  /** inbound-references.json content (if inbound references were passed) */
+  inboundReferences?: string;
   /** Individual file contents (if generateIndividualFiles is true) */
   individualFiles?: {
     'navigation-tree.json'?: string;
@@ -149,18 +153,83 @@ export function exportGlossaryMap(
   return JSON.stringify(glossaryMap, null, prettyPrint ? 2 : undefined);
 }
 
+/**
+ * Export inbound reference index to JSON string
+ * 
+ * @param inboundReferences - Inbound reference index (target ID → citing provisions)
+ * @param metadata - Search metadata (for version and timestamp)
+ * @param prettyPrint - Whether to format JSON with indentation
+ * @returns JSON string
+ */
+export function exportInboundReferences(
+  inboundReferences: InboundReferenceIndex,
+  metadata: SearchMetadata,
+  prettyPrint: boolean = false
+): string {
+  const output = {
+    version: metadata.version,
+    generatedAt: metadata.generatedAt,
+    references: inboundReferences,
+  };
+  return JSON.stringify(output, null, prettyPrint ? 2 : undefined);
+}
+
+/**
+ * Compute the SHA-256 checksum (hex) of exported file content
+ * 
+ * @param content - File content (e.g. documents.json)
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function computeChecksum(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * Export the prebuilt FlexSearch index to JSON string (search-index.json)
+ * 
+ * The index is stamped with the checksum of documents.json so clients can
+ * detect a stale index and rebuild it from the documents instead.
+ * 
+ * @param documents - Array of search documents
+ * @param metadata - Search metadata (for version and timestamp)
+ * @param documentsJson - Exported documents.json content
+ * @param fields - Field configuration (default: the metadata's ranking model fields, or DEFAULT_FIELD_CONFIG)
+ * @param prettyPrint - Whether to format JSON with indentation
+ * @returns JSON string
+ */
+export async function exportSearchIndex(
+  documents: SearchDocument[],
+  metadata: SearchMetadata,
+  documentsJson: string,
+  fields: FieldConfig[] = metadata.ranking?.fields ?? DEFAULT_FIELD_CONFIG,
+  prettyPrint: boolean = false
+): Promise<string> {
+  const output: SerializedSearchIndex = {
+    formatVersion: SEARCH_INDEX_FORMAT_VERSION,
+    version: metadata.version,
+    generatedAt: metadata.generatedAt,
+    documentsChecksum: computeChecksum(documentsJson),
+    documentCount: documents.length,
+    fields,
+    segments: await serializeSearchIndex(documents, fields),
+  };
+  return JSON.stringify(output, null, prettyPrint ? 2 : undefined);
+}
+
 /**
  * Export all files based on configuration
  * 
  * @param documents - Array of search documents
  * @param metadata - Search metadata
  * @param options - Export options
+ * @param inboundReferences - Optional inbound reference index
  * @returns Export result with all file contents
  */
 export function exportAll(
   documents: SearchDocument[],
   metadata: SearchMetadata,
-  options: ExportOptions = {}
+  options: ExportOptions = {},
+  inboundReferences?: InboundReferenceIndex
 ): ExportResult {
   const opts = {
     ...DEFAULT_OUTPUT_CONFIG,
@@ -175,6 +244,10 @@ export function exportAll(
     result.metadata = exportMetadata(metadata, opts.prettyPrint);
   }
   
+  if (inboundReferences) {
+    result.inboundReferences = exportInboundReferences(inboundReferences, metadata, opts.prettyPrint);
+  }
+  
   if (opts.generateIndividualFiles) {
     result.individualFiles = {
       'navigation-tree.json': exportNavigationTree(metadata, opts.prettyPrint),
@@ -210,6 +283,9 @@ export function getExportStats(
   const metadataSize = exportResult.metadata 
     ? new Blob([exportResult.metadata]).size 
     : 0;
+  const inboundReferencesSize = exportResult.inboundReferences
+    ? new Blob([exportResult.inboundReferences]).size
+    : 0;
   
   let individualFilesSize = 0;
   if (exportResult.individualFiles) {
@@ -220,7 +296,7 @@ export function getExportStats(
     }
   }
   
-  const totalSize = documentsSize + metadataSize + individualFilesSize;
+  const totalSize = documentsSize + metadataSize + inboundReferencesSize + individualFilesSize;
   
   return {
     documentCount: documents.length,
@@ -43,6 +43,7 @@ export {
   DEFAULT_REFERENCE_CONFIG,
   DEFAULT_CONTENT_TYPE_CONFIG,
   DEFAULT_FIELD_CONFIG,
+  DEFAULT_RANKING_CONFIG,
   DEFAULT_TEXT_EXTRACTION_CONFIG,
   DEFAULT_OUTPUT_CONFIG,
 } from './config';
@@ -52,6 +53,10 @@ export type {
   ReferenceParsingConfig,
   ContentTypeConfig,
   FieldConfig,
+  RankingConfig,
+  TermWeightingConfig,
+  ProximityConfig,
+  RankingModel,
   TextExtractionConfig,
   OutputConfig,
   ReferenceType,
@@ -62,6 +67,8 @@ export type {
   SearchOptions,
   RevisionDate,
   TableOfContentsItem,
+  InboundReference,
+  InboundReferenceIndex,
 } from './config';
 
 // Export utilities
@@ -72,12 +79,29 @@ export {
   exportAmendmentDates,
   exportContentTypes,
   exportGlossaryMap,
+  exportInboundReferences,
+  exportSearchIndex,
+  computeChecksum,
   exportAll,
   getExportStats,
 } from './export';
 
 export type { ExportOptions, ExportResult } from './export';
 
+// Prebuilt FlexSearch index
+export {
+  SEARCH_INDEX_FORMAT_VERSION,
+  createFlexSearchIndex,
+  serializeSearchIndex,
+  importSearchIndex,
+  isSearchIndexCurrent,
+} from './search-index';
+
+export type { SerializedSearchIndex } from './search-index';
+
+// Ranking model (metadata.json)
+export { createRankingModel, tokenizeForRanking, getFieldText } from './ranking';
+
 // Text extraction utilities
 export {
   extractReferences,
@@ -86,13 +110,16 @@ export {
   extractArticleText,
   extractTableText,
   extractClauseText,
+  extractEquationText,
   generateSnippet,
   normalizeWhitespace,
   hasTablesInContent,
   hasFiguresInContent,
+  hasBCAnnotationsInContent,
   hasInternalRefs,
   hasExternalRefs,
   hasTermRefs,
+  extractObjectiveKeys,
 } from './text-extractor';
 
 export type { ExtractedReference } from './text-extractor';
@@ -9,8 +9,14 @@ import {
   stripReferences,
   generateSnippet,
   normalizeWhitespace,
+  extractArticleText,
+  extractEquationText,
 } from './text-extractor';
-import { DEFAULT_REFERENCE_CONFIG } from './config';
+import { DEFAULT_INDEXER_CONFIG, DEFAULT_REFERENCE_CONFIG, DEFAULT_TEXT_EXTRACTION_CONFIG } from './config';
+import type { SearchDocument, SearchMetadata } from './config';
+import { computeChecksum, exportDocuments, exportSearchIndex } from './export';
+import { importSearchIndex, isSearchIndexCurrent, SEARCH_INDEX_FORMAT_VERSION } from './search-index';
+import { createRankingModel, tokenizeForRanking } from './ranking';
 
 describe('search-indexer', () => {
   describe('text-extractor', () => {
@@ -97,6 +103,43 @@ describe('search-indexer', () => {
         expect(result).toBe('Line 1 Line 2 Line 3');
       });
     });
+
+    describe('extractEquationText', () => {
+      it('should prefer plain text and fall back to LaTeX', () => {
+        expect(
+          extractEquationText([
+            { id: 'eq1', plainText: 'S = I_s(S_s(C_b C_w C_s C_a) + S_r)', latex: 'S = ...' },
+            { id: 'eq2', latex: 'C_{b}' },
+            { id: 'eq3' },
+          ])
+        ).toBe('S = I_s(S_s(C_b C_w C_s C_a) + S_r) C_{b}');
+        expect(extractEquationText(undefined)).toBe('');
+      });
+
+      it('should make sentence and clause equations searchable', () => {
+        const { text } = extractArticleText(
+          [
+            {
+              type: 'sentence',
+              text: 'The specified snow load shall be',
+              equations: [{ plainText: 'S = I_s(S_s C_b) + S_r' }],
+              clauses: [{ text: 'where', equations: [{ latex: 'C_{w}' }] }],
+            },
+          ],
+          DEFAULT_TEXT_EXTRACTION_CONFIG,
+          DEFAULT_REFERENCE_CONFIG
+        );
+
+        expect(text).toBe('The specified snow load shall be S = I_s(S_s C_b) + S_r where C_{w}');
+        expect(
+          extractArticleText(
+            [{ type: 'sentence', text: 'Load', equations: [{ plainText: 'S' }] }],
+            { ...DEFAULT_TEXT_EXTRACTION_CONFIG, includeEquations: false },
+            DEFAULT_REFERENCE_CONFIG
+          ).text
+        ).toBe('Load');
+      });
+    });
   });
 
   describe('buildSearchIndex', () => {
@@ -269,6 +312,72 @@ describe('search-indexer', () => {
       expect(tocArticle?.hasRevisions).toBe(true);
     });
 
+    it('should count repeals and leave the pending status to the client', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divA',
+            type: 'division',
+            letter: 'A',
+            title: 'Compliance',
+            parts: [
+              {
+                id: 'nbc.divA.part1',
+                type: 'part',
+                number: 1,
+                title: 'General',
+                sections: [
+                  {
+                    id: 'nbc.divA.part1.sect1',
+                    type: 'section',
+                    number: 1,
+                    title: 'Application',
+                    subsections: [
+                      {
+                        id: 'nbc.divA.part1.sect1.subsect1',
+                        type: 'subsection',
+                        number: 1,
+                        title: 'Scope',
+                        articles: [
+                          {
+                            id: 'nbc.divA.part1.sect1.subsect1.art1',
+                            type: 'article',
+                            number: 1,
+                            title: 'Repealed Article',
+                            content: [],
+                            revisions: [
+                              { type: 'original' as const, effective_date: '2020-12-01', status: 'current' as const },
+                              {
+                                type: 'revision' as const,
+                                revision_type: 'delete' as const,
+                                effective_date: '2999-01-01',
+                                status: 'current' as const,
+                                deleted: true,
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { metadata } = buildSearchIndex(mockData as any);
+
+      expect(metadata.revisionDates).toEqual([
+        expect.objectContaining({ effectiveDate: '2999-01-01', repealedCount: 1 }),
+        expect.objectContaining({ effectiveDate: '2020-12-01', repealedCount: undefined }),
+      ]);
+      expect(metadata.revisionDates[0]).not.toHaveProperty('status');
+    });
+
     it('should respect content type configuration', () => {
       const mockData = {
         document_type: 'bc_building_code',
@@ -315,5 +424,683 @@ describe('search-indexer', () => {
       const glossary = documents.find(d => d.type === 'glossary');
       expect(glossary).toBeUndefined();
     });
+
+    it('should tag articles with objective and functional statement keys', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing and Small Buildings',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    type: 'section',
+                    number: 10,
+                    title: 'Fire Protection',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect14',
+                        type: 'subsection',
+                        number: 14,
+                        title: 'Spatial Separations',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect14.art1',
+                            type: 'article',
+                            number: 1,
+                            title: 'Application',
+                            content: [
+                              {
+                                id: 'sent1',
+                                type: 'sentence',
+                                number: 1,
+                                text: 'Buildings shall be separated.',
+                                objectives: [{ key: 'OS3', sub_objectives: [{ key: 'OS3.1' }] }],
+                                functional_statements: [{ key: 'F03' }],
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { documents } = buildSearchIndex(mockData as any);
+
+      const article = documents.find(d => d.type === 'article');
+      expect(article?.objectiveKeys).toEqual(['OS3', 'OS3.1', 'F03']);
+
+      const part = documents.find(d => d.type === 'part');
+      expect(part?.objectiveKeys).toBeUndefined();
+    });
+
+    it('should index application notes next to the article referencing them', () => {
+      const noteId = 'nbc.divB.part9.appendix.note-9.10.14.1';
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing and Small Buildings',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    type: 'section',
+                    number: 10,
+                    title: 'Fire Protection',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect14',
+                        type: 'subsection',
+                        number: 14,
+                        title: 'Spatial Separations',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect14.art1',
+                            type: 'article',
+                            number: 1,
+                            title: 'Application',
+                            content: [
+                              {
+                                id: 'sent1',
+                                type: 'sentence',
+                                number: 1,
+                                text: `Buildings shall be separated (see Note [REF:internal:${noteId}:short]).`,
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+                appendix: {
+                  id: 'nbc.divB.part9.appendix',
+                  type: 'part_appendix',
+                  application_notes: [
+                    {
+                      id: noteId,
+                      type: 'application_note',
+                      number: 'A-9.10.14.1.(1)',
+                      title: 'Spatial Separation',
+                      paragraphs: [{ id: 'p1', content: 'Limiting [REF:term:unprtctd]unprotected openings.' }],
+                      divisions: [
+                        {
+                          id: 'd1',
+                          type: 'note_division',
+                          title: 'Sprinklered Buildings',
+                          paragraphs: [{ id: 'p2', content: 'Sprinklers reduce exposure.' }],
+                        },
+                      ],
+                    },
+                    {
+                      id: `${noteId}-old`,
+                      type: 'application_note',
+                      number: 'A-9.10.14.2.(1)',
+                      title: 'Repealed Note',
+                      deleted: true,
+                      paragraphs: [{ id: 'p1', content: 'No longer applies.' }],
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      const { documents, metadata } = buildSearchIndex(mockData as any);
+
+      const note = documents.find(d => d.id === noteId);
+      expect(note).toBeDefined();
+      expect(note?.deleted).toBeUndefined();
+      expect(note?.articleNumber).toBe('A-9.10.14.1.(1)');
+      expect(note?.title).toBe('Spatial Separation');
+      expect(note?.text).toContain('unprotected openings');
+      expect(note?.text).toContain('Sprinklered Buildings');
+      expect(note?.text).not.toContain('[REF:');
+      expect(note?.urlPath).toBe(`/code/nbc.divB/9/10/14/1#${noteId}`);
+      expect(documents.find(d => d.id === `${noteId}-old`)?.deleted).toBe(true);
+      expect(metadata.statistics.totalApplicationNotes).toBe(2);
+      expect(metadata.contentTypes).toContain('application-note');
+    });
+
+    it('should index special tables as table documents with their own URLs', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing and Small Buildings',
+                sections: [],
+                special_tables: [
+                  {
+                    id: 'nbc.divB.part9.spectables1',
+                    type: 'spectables',
+                    title: 'Span Tables',
+                    table_prefix: 'A-',
+                    toc_entry: 'Span Tables for Wood Joists, Rafters and Beams',
+                    tables: [
+                      {
+                        id: 'nbc.divB.part9.spectables1.table1',
+                        type: 'table',
+                        title: 'Maximum Spans for Floor Joists',
+                        structure: {
+                          columns: 2,
+                          header_rows: [[{ content: 'Species' }, { content: 'Span, mm' }]],
+                          body_rows: [[{ content: 'D.Fir-L' }, { content: '3 980' }]],
+                        },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { documents, metadata } = buildSearchIndex(mockData as any);
+
+      const table = documents.find(d => d.type === 'table');
+      expect(table).toBeDefined();
+      expect(table?.id).toBe('nbc.divB.part9.spectables1.table1');
+      expect(table?.articleNumber).toBe('B.9 Table A-1');
+      expect(table?.title).toBe('Maximum Spans for Floor Joists');
+      expect(table?.urlPath).toBe(
+        '/code/nbc.divB/9#nbc.divB.part9.spectables1.table1'
+      );
+      expect(table?.breadcrumbs).toEqual([
+        'Acceptable Solutions',
+        'Housing and Small Buildings',
+        'Span Tables for Wood Joists, Rafters and Beams',
+        'Table A-1',
+      ]);
+      expect(metadata.statistics.totalTables).toBe(1);
+      expect(metadata.contentTypes).toContain('table');
+    });
+
+    it('should build an inbound reference index for referenced provisions', () => {
+      const tableId = 'nbc.divB.part9.sect23.subsect3.art4.table1';
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing and Small Buildings',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect23',
+                    type: 'section',
+                    number: 23,
+                    title: 'Wood-Frame Construction',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect23.subsect3',
+                        type: 'subsection',
+                        number: 3,
+                        title: 'Fasteners',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect23.subsect3.art5',
+                            type: 'article',
+                            number: 5,
+                            title: 'Fastening of Sheathing',
+                            content: [
+                              {
+                                id: 'nbc.divB.part9.sect23.subsect3.art5.sent1',
+                                type: 'sentence',
+                                number: 1,
+                                text: `Sheathing shall be fastened as in [REF:internal:${tableId}:long] and [REF:internal:${tableId}:short].`,
+                                revisions: [
+                                  { type: 'original', effective_date: '2020-01-01', text: `[REF:internal:old.target:long]` },
+                                ],
+                                clauses: [
+                                  {
+                                    id: 'nbc.divB.part9.sect23.subsect3.art5.sent1.clauseA',
+                                    type: 'clause',
+                                    letter: 'a',
+                                    text: `see [REF:internal:${tableId}:long]`,
+                                  },
+                                ],
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { inboundReferences } = buildSearchIndex(mockData as any);
+
+      expect(inboundReferences[tableId]).toEqual([
+        {
+          sourceId: 'nbc.divB.part9.sect23.subsect3.art5.sent1',
+          documentId: 'nbc.divB.part9.sect23.subsect3.art5',
+          type: 'article',
+          articleNumber: 'B.9.23.3.5',
+          title: 'Fastening of Sheathing',
+          urlPath: '/code/nbc.divB/9/23/3/5',
+        },
+        expect.objectContaining({
+          sourceId: 'nbc.divB.part9.sect23.subsect3.art5.sent1.clauseA',
+        }),
+      ]);
+      expect(inboundReferences['old.target']).toBeUndefined();
+    });
+
+    it('should flag deleted provisions and leave deleted text out of live articles', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    type: 'section',
+                    number: 10,
+                    title: 'Fire Protection',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect1',
+                        type: 'subsection',
+                        number: 1,
+                        title: 'Scope',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect1.art1',
+                            type: 'article',
+                            number: 1,
+                            title: 'Application',
+                            deleted: true,
+                            content: [],
+                          },
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect1.art2',
+                            type: 'article',
+                            number: 2,
+                            title: 'Definitions',
+                            content: [
+                              { id: 's1', type: 'sentence', number: 1, text: 'Live sentence.' },
+                              { id: 's2', type: 'sentence', number: 2, text: 'Repealed sentence.', deleted: true },
+                              {
+                                id: 's3',
+                                type: 'sentence',
+                                number: 3,
+                                text: 'Sentence with clauses:',
+                                clauses: [{ id: 'c1', letter: 'a', text: 'repealed clause', deleted: true }],
+                              },
+                              { id: 'table1', type: 'table', title: 'Old Table', deleted: true },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { documents } = buildSearchIndex(mockData as any);
+      const byId = new Map(documents.map(d => [d.id, d]));
+
+      expect(byId.get('nbc.divB.part9.sect10.subsect1.art1')?.deleted).toBe(true);
+      expect(byId.get('nbc.divB.part9.sect10.subsect1.art2')?.deleted).toBeUndefined();
+      expect(byId.get('table1')?.deleted).toBe(true);
+
+      const text = byId.get('nbc.divB.part9.sect10.subsect1.art2')!.text;
+      expect(text).toContain('Live sentence.');
+      expect(text).not.toContain('Repealed');
+      expect(text).not.toContain('repealed clause');
+    });
+
+    it('should number article tables and figures by their article', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect23',
+                    type: 'section',
+                    number: 23,
+                    title: 'Wood-Frame Construction',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect23.subsect3',
+                        type: 'subsection',
+                        number: 3,
+                        title: 'Fasteners',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect23.subsect3.art4',
+                            type: 'article',
+                            number: 4,
+                            title: 'Nailing of Framing',
+                            content: [
+                              { id: 'nbc.divB.part9.sect23.subsect3.art4.sent1', type: 'sentence', number: 1, text: 'Nailing shall conform to Table 9.23.3.4.' },
+                              { id: 'nbc.divB.part9.sect23.subsect3.art4.table1', type: 'table', title: 'Nailing for Framing', structure: { body_rows: [] } },
+                              { id: 'nbc.divB.part9.sect23.subsect3.art4.fig1', type: 'figure', title: 'Toe nailing', graphic: { src: 'a.png', alt_text: '' } },
+                              { id: 'nbc.divB.part9.sect23.subsect3.art4.fig2', type: 'figure', title: 'End nailing', graphic: { src: 'b.png', alt_text: '' } },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { documents } = buildSearchIndex(mockData as any);
+      const numbers = documents
+        .filter(d => d.type === 'table' || d.type === 'figure')
+        .map(d => d.articleNumber);
+
+      expect(numbers).toEqual([
+        'B.9.23.3.4 Table 9.23.3.4.',
+        'B.9.23.3.4 Figure 9.23.3.4.-A',
+        'B.9.23.3.4 Figure 9.23.3.4.-B',
+      ]);
+    });
+
+    it('should flag articles with BC annotations', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [
+          {
+            id: 'nbc.divB',
+            type: 'division',
+            letter: 'B',
+            title: 'Acceptable Solutions',
+            parts: [
+              {
+                id: 'nbc.divB.part9',
+                type: 'part',
+                number: 9,
+                title: 'Housing',
+                sections: [
+                  {
+                    id: 'nbc.divB.part9.sect10',
+                    type: 'section',
+                    number: 10,
+                    title: 'Fire Protection',
+                    subsections: [
+                      {
+                        id: 'nbc.divB.part9.sect10.subsect1',
+                        type: 'subsection',
+                        number: 1,
+                        title: 'Scope',
+                        articles: [
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect1.art1',
+                            type: 'article',
+                            number: 1,
+                            title: 'Application',
+                            content: [
+                              {
+                                id: 's1',
+                                type: 'sentence',
+                                number: 1,
+                                text: 'BC sentence.',
+                                bc_annotations: [{ type: 'bc_variation', content: 'Differs from the NBC.' }],
+                              },
+                            ],
+                          },
+                          {
+                            id: 'nbc.divB.part9.sect10.subsect1.art2',
+                            type: 'article',
+                            number: 2,
+                            title: 'Definitions',
+                            content: [
+                              { id: 's1', type: 'sentence', number: 1, text: 'NBC sentence.' },
+                              {
+                                id: 's2',
+                                type: 'sentence',
+                                number: 2,
+                                text: 'Repealed sentence.',
+                                deleted: true,
+                                bc_annotations: [{ type: 'bc_variation', content: 'Repealed variation.' }],
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { documents } = buildSearchIndex(mockData as any);
+      const byId = new Map(documents.map(d => [d.id, d]));
+
+      expect(byId.get('nbc.divB.part9.sect10.subsect1.art1')?.hasBCAnnotation).toBe(true);
+      expect(byId.get('nbc.divB.part9.sect10.subsect1.art2')?.hasBCAnnotation).toBeUndefined();
+    });
+
+    it('should index each front matter section with lists and tables as text', () => {
+      const mockData = {
+        document_type: 'bc_building_code',
+        version: '2024',
+        divisions: [],
+        front_matter: {
+          id: 'fm',
+          preface: {
+            id: 'preface',
+            type: 'preface',
+            content: [
+              { type: 'paragraph', id: 'p1', content: 'Objective-based codes.' },
+              { type: 'list', id: 'l1', list_type: 'bulleted', items: ['Fire safety', 'Accessibility'] },
+            ],
+          },
+          introduction: {
+            id: 'intro',
+            type: 'introduction',
+            title: 'Standards and Conformity Assessment',
+            content: [
+              {
+                type: 'table',
+                id: 't1',
+                title: 'Accreditation Bodies',
+                structure: {
+                  header_rows: [[{ content: 'Body' }]],
+                  body_rows: [[{ content: 'Standards Council of Canada' }]],
+                },
+              },
+            ],
+          },
+          committees: {
+            id: 'committees',
+            type: 'committees',
+            tables: [{ id: 'ct1', title: 'Building Code Committee', structure: { body_rows: [[{ content: 'J. Smith' }]] } }],
+            notes: [{ id: 'n1', content: 'Term began in 2022.' }],
+          },
+        },
+      };
+
+      const { documents, metadata } = buildSearchIndex(mockData as any);
+      const byId = new Map(documents.map(d => [d.id, d]));
+
+      expect(byId.get('preface')).toMatchObject({
+        title: 'Preface',
+        urlPath: '/code/preface',
+        text: 'Objective-based codes. Fire safety Accessibility',
+      });
+      expect(byId.get('intro')).toMatchObject({
+        title: 'Standards and Conformity Assessment',
+        urlPath: '/code/introduction',
+        text: 'Accreditation Bodies Body Standards Council of Canada',
+        hasTables: true,
+      });
+      expect(byId.get('committees')).toMatchObject({
+        urlPath: '/code/committees',
+        text: 'Building Code Committee J. Smith Term began in 2022.',
+      });
+      expect(metadata.tableOfContents[0].children?.map(c => c.title)).toEqual([
+        'Preface',
+        'Standards and Conformity Assessment',
+        'Committees',
+      ]);
+    });
+  });
+
+  describe('search-index', () => {
+    const documents = [
+      { id: 'art1', articleNumber: 'B.9.9.1.1', title: 'Stair Width', text: 'Exit stairs shall be 900 mm wide', path: 'Part 9' },
+      { id: 'art2', articleNumber: 'B.9.9.1.2', title: 'Handrails', text: 'Handrails on stairs', path: 'Part 9' },
+    ] as SearchDocument[];
+    const metadata = { version: '2024', generatedAt: '2024-03-08T00:00:00.000Z' } as SearchMetadata;
+
+    it('should export an index that searches like the original once imported', async () => {
+      const documentsJson = exportDocuments(documents);
+      const serialized = JSON.parse(await exportSearchIndex(documents, metadata, documentsJson));
+
+      expect(serialized).toMatchObject({
+        formatVersion: SEARCH_INDEX_FORMAT_VERSION,
+        version: '2024',
+        documentCount: 2,
+        documentsChecksum: computeChecksum(documentsJson),
+      });
+      expect(Object.keys(serialized.segments)).toContain('title.map');
+
+      const index = importSearchIndex(serialized);
+      expect(index.search('stair')).toEqual([
+        { field: 'title', result: ['art1'] },
+        { field: 'text', result: ['art1', 'art2'] },
+      ]);
+    });
+
+    it('should detect an index built from other documents', async () => {
+      const serialized = JSON.parse(await exportSearchIndex(documents, metadata, exportDocuments(documents)));
+
+      expect(isSearchIndexCurrent(serialized, computeChecksum(exportDocuments(documents)))).toBe(true);
+      expect(isSearchIndexCurrent(serialized, computeChecksum(exportDocuments(documents.slice(1))))).toBe(false);
+      expect(isSearchIndexCurrent({ ...serialized, formatVersion: 0 }, serialized.documentsChecksum)).toBe(false);
+    });
+  });
+
+  describe('ranking', () => {
+    const documents = [
+      { id: 'art1', articleNumber: 'B.9.9.1.1', title: 'Stair Width', text: 'Exit stairs shall be 900 mm wide', path: 'Part 9' },
+      { id: 'art2', articleNumber: 'B.9.9.1.2', title: 'Handrails', text: 'Handrails on stairs', path: 'Part 9' },
+    ] as SearchDocument[];
+
+    it('should tokenize text into lowercase words', () => {
+      expect(tokenizeForRanking('Sentence 9.10.14.1.(3) – Béton')).toEqual(['sentence', '9', '10', '14', '1', '3', 'béton']);
+    });
+
+    it('should collect the ranking settings and field statistics', () => {
+      const model = createRankingModel(DEFAULT_INDEXER_CONFIG, documents);
+
+      expect(model.fields).toEqual(DEFAULT_INDEXER_CONFIG.fields);
+      expect(model.contentTypes.table).toEqual({ priority: 7, amendmentBoost: 1.3 });
+      expect(model.termWeighting).toEqual({ k1: 1.2, b: 0.75 });
+      expect(model.averageFieldLengths).toEqual({ articleNumber: 5, title: 1.5, text: 5, path: 2 });
+    });
+
+    it('should write the configured ranking model to metadata', async () => {
+      const data = {
+        version: '2024',
+        divisions: [{ id: 'nbc.divB', letter: 'B', title: 'Acceptable Solutions', parts: [] }],
+      } as unknown as Parameters<typeof buildSearchIndex>[0];
+
+      const { metadata } = buildSearchIndex(data, {
+        fields: [{ field: 'title', tokenize: 'forward', resolution: 9, scoreWeight: 3 }],
+        ranking: { ...DEFAULT_INDEXER_CONFIG.ranking, titleMatchBoost: 4 },
+      });
+
+      expect(metadata.ranking).toMatchObject({
+        fields: [{ field: 'title', scoreWeight: 3 }],
+        titleMatchBoost: 4,
+        proximity: DEFAULT_INDEXER_CONFIG.ranking.proximity,
+        averageFieldLengths: { title: 0 },
+      });
+
+      // The prebuilt index uses the ranking model's fields
+      const serialized = JSON.parse(await exportSearchIndex(documents, metadata, exportDocuments(documents)));
+      expect(serialized.fields.map((field: { field: string }) => field.field)).toEqual(['title']);
+    });
   });
 });
@@ -4,10 +4,11 @@
  * Generates search documents and metadata from BCBC JSON source.
  * Outputs:
  * - documents.json: Flat array of searchable documents
- * - metadata.json: Unified metadata (TOC, revisions, divisions, stats)
+ * - metadata.json: Unified metadata (TOC, revisions, divisions, stats, ranking model)
  * - Individual files: navigation-tree.json, amendment-dates.json, etc.
  */
 
+import { getSpecialTableNumber } from '@bc-building-code/bcbc-parser';
 import type {
   IndexerConfig,
   SearchDocument,
@@ -15,21 +16,26 @@ import type {
   RevisionDate,
   TableOfContentsItem,
   IndexableContentType,
+  InboundReferenceIndex,
 } from './config';
 import {
   DEFAULT_INDEXER_CONFIG,
 } from './config';
+import { createRankingModel } from './ranking';
 import {
   extractArticleText,
   extractTableText,
   generateSnippet,
   hasTablesInContent,
   hasFiguresInContent,
+  hasBCAnnotationsInContent,
   hasInternalRefs,
   hasExternalRefs,
   hasTermRefs,
+  extractObjectiveKeys,
   normalizeWhitespace,
   stripReferences,
+  extractReferences,
 } from './text-extractor';
 
 /**
@@ -49,6 +55,42 @@ interface BCBCPart {
   number: number;
   title: string;
   sections: BCBCSection[];
+  special_tables?: BCBCSpecialTables[];
+  appendix?: BCBCPartAppendix;
+}
+
+interface BCBCSpecialTables {
+  id: string;
+  type: string;
+  title: string;
+  table_prefix?: string;
+  toc_entry?: string;
+  tables: BCBCContent[];
+}
+
+interface BCBCPartAppendix {
+  id: string;
+  type: string;
+  introduction?: string;
+  application_notes: BCBCApplicationNote[];
+}
+
+interface BCBCApplicationNote {
+  id: string;
+  type: string;
+  number: string;
+  title: string;
+  paragraphs?: Array<{ id?: string; content?: string }>;
+  divisions?: Array<{
+    id: string;
+    title: string;
+    paragraphs?: Array<{ id?: string; content?: string }>;
+    tables?: BCBCContent[];
+  }>;
+  tables?: BCBCContent[];
+  figures?: BCBCContent[];
+  revisions?: BCBCRevision[];
+  deleted?: boolean;
 }
 
 interface BCBCSection {
@@ -57,6 +99,7 @@ interface BCBCSection {
   number: number;
   title: string;
   subsections: BCBCSubsection[];
+  deleted?: boolean;
 }
 
 interface BCBCSubsection {
@@ -65,6 +108,7 @@ interface BCBCSubsection {
   number: number;
   title: string;
   articles: BCBCArticle[];
+  deleted?: boolean;
 }
 
 interface BCBCArticle {
@@ -74,6 +118,7 @@ interface BCBCArticle {
   title: string;
   content: BCBCContent[];
   revisions?: BCBCRevision[];
+  deleted?: boolean;
 }
 
 interface BCBCContent {
@@ -85,18 +130,32 @@ interface BCBCContent {
   clauses?: any[];
   structure?: any;
   revisions?: BCBCRevision[];
+  objectives?: Array<{ key: string; sub_objectives?: Array<{ key: string }> }>;
+  functional_statements?: Array<{ key: string }>;
+  bc_annotations?: Array<{ type: string; content: string }>;
+  deleted?: boolean;
 }
 
 interface BCBCRevision {
   type: 'original' | 'revision';
   revision_type?: 'amendment' | 'add' | 'replace' | 'delete';
   effective_date: string;
-  status?: string;
+  status?: 'current' | 'superseded';
+  deleted?: boolean;
   text?: string;
   title?: string;
   content?: any[];
 }
 
+/**
+ * Revisions counted on one effective date
+ */
+interface RevisionDateInfo {
+  count: number;
+  types: Set<string>;
+  repealed: number;
+}
+
 interface BCBCGlossaryEntry {
   id?: string;
   term: string;
@@ -107,20 +166,41 @@ interface BCBCGlossaryEntry {
 
 interface BCBCFrontMatterContent {
   type: string;
-  id: string;
+  id?: string;
   content?: string;
   level?: number;
+  title?: string;
+  structure?: BCBCFrontMatterTableStructure;
+  graphic?: { src?: string; alt_text?: string };
+  list_type?: 'bulleted' | 'numbered';
+  items?: string[];
+}
+
+interface BCBCFrontMatterTableStructure {
+  header_rows?: Array<Array<{ content?: string }>>;
+  body_rows?: Array<Array<{ content?: string }>>;
 }
 
 interface BCBCPreface {
   id: string;
   type: string;
+  title?: string;
   content: BCBCFrontMatterContent[];
 }
 
+interface BCBCCommittees {
+  id: string;
+  type: string;
+  title?: string;
+  tables?: Array<{ id: string; title?: string; structure?: BCBCFrontMatterTableStructure }>;
+  notes?: Array<{ id?: string; content?: string }>;
+}
+
 interface BCBCFrontMatter {
   id: string;
   preface?: BCBCPreface;
+  introduction?: BCBCPreface;
+  committees?: BCBCCommittees;
 }
 
 interface BCBCVolume {
@@ -147,6 +227,7 @@ interface BCBCDocument {
 export interface IndexBuilderResult {
   documents: SearchDocument[];
   metadata: SearchMetadata;
+  inboundReferences: InboundReferenceIndex;
 }
 
 /**
@@ -168,15 +249,16 @@ export function buildSearchIndex(
     contentTypes: { ...DEFAULT_INDEXER_CONFIG.contentTypes, ...config.contentTypes },
     textExtraction: { ...DEFAULT_INDEXER_CONFIG.textExtraction, ...config.textExtraction },
     output: { ...DEFAULT_INDEXER_CONFIG.output, ...config.output },
+    ranking: { ...DEFAULT_INDEXER_CONFIG.ranking, ...config.ranking },
   };
 
   const documents: SearchDocument[] = [];
-  const revisionDatesMap = new Map<string, { count: number; types: Set<string> }>();
+  const revisionDatesMap = new Map<string, RevisionDateInfo>();
   const tableOfContents: TableOfContentsItem[] = [];
   const contentTypesFound = new Set<IndexableContentType>();
 
-  // Process front matter (preface) if present
-  if (bcbcData.front_matter?.preface && fullConfig.contentTypes.article.enabled) {
+  // Process front matter (preface, introduction, committees) if present
+  if (bcbcData.front_matter && fullConfig.contentTypes.article.enabled) {
     const frontMatterTocItem = processFrontMatter(bcbcData.front_matter, documents, fullConfig);
     if (frontMatterTocItem) {
       tableOfContents.push(frontMatterTocItem);
@@ -235,6 +317,7 @@ export function buildSearchIndex(
       totalAmendments: documents.filter(d => d.hasAmendment).length,
       totalRevisionDates: revisionDates.length,
       totalGlossaryTerms: documents.filter(d => d.type === 'glossary').length,
+      totalApplicationNotes: documents.filter(d => d.type === 'application-note').length,
     },
     divisions: divisions.map((d) => ({
       id: d.id,
@@ -249,9 +332,105 @@ export function buildSearchIndex(
     revisionDates,
     tableOfContents,
     contentTypes: Array.from(contentTypesFound),
+    ranking: createRankingModel(fullConfig, documents),
+  };
+
+  // Invert internal references ("what points here?")
+  const inboundReferences = buildInboundReferences(divisions, documents);
+
+  return { documents, metadata, inboundReferences };
+}
+
+/**
+ * Build the inbound reference index from internal references
+ * 
+ * Every `[REF:internal:…]` in article content, application notes and special
+ * tables is recorded under its target ID, attributed to the innermost
+ * sentence, clause, table or note containing it. Revision history is not
+ * scanned, so only current text counts. Targets are stored exactly as
+ * referenced; callers roll up descendants (e.g., sentences of an article).
+ */
+function buildInboundReferences(
+  divisions: BCBCDivision[],
+  documents: SearchDocument[]
+): InboundReferenceIndex {
+  const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+  const inboundReferences: InboundReferenceIndex = {};
+
+  const addReferences = (documentId: string, content: unknown) => {
+    const document = documentsById.get(documentId);
+    if (!document) return;
+
+    for (const { targetId, sourceId } of collectInternalReferences(content, documentId)) {
+      if (targetId === sourceId) continue;
+
+      const references = inboundReferences[targetId] || (inboundReferences[targetId] = []);
+      if (references.some(ref => ref.sourceId === sourceId)) continue;
+
+      references.push({
+        sourceId,
+        documentId,
+        type: document.type,
+        articleNumber: document.articleNumber,
+        title: document.title,
+        urlPath: document.urlPath,
+      });
+    }
   };
 
-  return { documents, metadata };
+  for (const division of divisions) {
+    for (const part of division.parts) {
+      for (const section of part.sections) {
+        for (const subsection of section.subsections) {
+          for (const article of subsection.articles) {
+            addReferences(article.id, article.content);
+          }
+        }
+      }
+
+      for (const specialTables of part.special_tables || []) {
+        for (const table of specialTables.tables || []) {
+          if (table.id) addReferences(table.id, table);
+        }
+      }
+
+      for (const note of part.appendix?.application_notes || []) {
+        addReferences(note.id, note);
+      }
+    }
+  }
+
+  return inboundReferences;
+}
+
+/**
+ * Walk raw content and collect each internal reference with the ID of the
+ * innermost identified node containing it
+ */
+function collectInternalReferences(
+  value: unknown,
+  sourceId: string,
+  results: Array<{ targetId: string; sourceId: string }> = []
+): Array<{ targetId: string; sourceId: string }> {
+  if (typeof value === 'string') {
+    for (const reference of extractReferences(value)) {
+      if (reference.type === 'internal') {
+        results.push({ targetId: reference.id, sourceId });
+      }
+    }
+  } else if (Array.isArray(value)) {
+    for (const item of value) {
+      collectInternalReferences(item, sourceId, results);
+    }
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    const nodeId = typeof node.id === 'string' ? node.id : sourceId;
+    for (const [key, child] of Object.entries(node)) {
+      if (key === 'id' || key === 'revisions') continue;
+      collectInternalReferences(child, nodeId, results);
+    }
+  }
+  return results;
 }
 
 /**
@@ -260,7 +439,7 @@ export function buildSearchIndex(
 function processDivision(
   division: BCBCDivision,
   documents: SearchDocument[],
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>,
+  revisionDatesMap: Map<string, RevisionDateInfo>,
   contentTypesFound: Set<IndexableContentType>,
   config: IndexerConfig
 ): TableOfContentsItem {
@@ -299,7 +478,7 @@ function processPart(
   division: BCBCDivision,
   part: BCBCPart,
   documents: SearchDocument[],
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>,
+  revisionDatesMap: Map<string, RevisionDateInfo>,
   contentTypesFound: Set<IndexableContentType>,
   config: IndexerConfig
 ): TableOfContentsItem {
@@ -335,6 +514,28 @@ function processPart(
     }
   }
 
+  // Add special tables (e.g., span tables) if enabled
+  if (config.contentTypes.table.enabled) {
+    for (const specialTables of part.special_tables || []) {
+      for (const table of specialTables.tables || []) {
+        const tableRevInfo = extractContentRevisionInfo(table, revisionDatesMap);
+        documents.push(createSpecialTableDocument(
+          division, part, specialTables, table, tableRevInfo, config
+        ));
+        contentTypesFound.add('table');
+      }
+    }
+  }
+
+  // Add application notes from the part appendix if enabled
+  if (part.appendix && config.contentTypes['application-note'].enabled) {
+    for (const note of part.appendix.application_notes || []) {
+      const noteRevInfo = extractContentRevisionInfo(note, revisionDatesMap);
+      documents.push(createApplicationNoteDocument(division, part, note, noteRevInfo, config));
+      contentTypesFound.add('application-note');
+    }
+  }
+
   return tocItem;
 }
 
@@ -346,7 +547,7 @@ function processSection(
   part: BCBCPart,
   section: BCBCSection,
   documents: SearchDocument[],
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>,
+  revisionDatesMap: Map<string, RevisionDateInfo>,
   contentTypesFound: Set<IndexableContentType>,
   config: IndexerConfig
 ): TableOfContentsItem {
@@ -395,7 +596,7 @@ function processSubsection(
   section: BCBCSection,
   subsection: BCBCSubsection,
   documents: SearchDocument[],
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>,
+  revisionDatesMap: Map<string, RevisionDateInfo>,
   contentTypesFound: Set<IndexableContentType>,
   config: IndexerConfig
 ): TableOfContentsItem {
@@ -446,7 +647,7 @@ function processArticle(
   subsection: BCBCSubsection,
   article: BCBCArticle,
   documents: SearchDocument[],
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>,
+  revisionDatesMap: Map<string, RevisionDateInfo>,
   contentTypesFound: Set<IndexableContentType>,
   config: IndexerConfig
 ): TableOfContentsItem {
@@ -497,7 +698,7 @@ function processArticle(
  */
 function extractRevisionInfo(
   article: BCBCArticle,
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>
+  revisionDatesMap: Map<string, RevisionDateInfo>
 ): { hasAmendment: boolean; amendmentType?: string; latestDate?: string } {
   let hasAmendment = false;
   let amendmentType: string | undefined;
@@ -543,7 +744,7 @@ function extractRevisionInfo(
  */
 function extractContentRevisionInfo(
   content: BCBCContent,
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>
+  revisionDatesMap: Map<string, RevisionDateInfo>
 ): { hasAmendment: boolean; amendmentType?: string; latestDate?: string } {
   let hasAmendment = false;
   let amendmentType: string | undefined;
@@ -570,16 +771,18 @@ function extractContentRevisionInfo(
  */
 function trackRevisionDate(
   revision: BCBCRevision,
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>
+  revisionDatesMap: Map<string, RevisionDateInfo>
 ): void {
   if (!revision.effective_date) return;
   
   const existing = revisionDatesMap.get(revision.effective_date) || { 
     count: 0, 
-    types: new Set<string>() 
+    types: new Set<string>(),
+    repealed: 0,
   };
   existing.count++;
   existing.types.add(revision.type);
+  if (revision.deleted) existing.repealed++;
   revisionDatesMap.set(revision.effective_date, existing);
 }
 
@@ -587,7 +790,7 @@ function trackRevisionDate(
  * Build revision dates array from map
  */
 function buildRevisionDates(
-  revisionDatesMap: Map<string, { count: number; types: Set<string> }>
+  revisionDatesMap: Map<string, RevisionDateInfo>
 ): RevisionDate[] {
   return Array.from(revisionDatesMap.entries())
     .map(([date, info]) => ({
@@ -595,6 +798,7 @@ function buildRevisionDates(
       displayDate: formatDisplayDate(date),
       count: info.count,
       type: determineRevisionType(info.types),
+      repealedCount: info.repealed || undefined,
     }))
     .sort((a, b) => new Date(b.effectiveDate).getTime() - new Date(a.effectiveDate).getTime());
 }
@@ -654,6 +858,8 @@ function createBaseDocument(
     hasTermRefs: false,
     hasTables: false,
     hasFigures: false,
+    // Deleted sections and subsections delete everything beneath them
+    deleted: section?.deleted || subsection?.deleted || undefined,
   };
 }
 
@@ -763,6 +969,8 @@ function createArticleDocument(
   // Check for references in raw text (before stripping)
   const rawText = article.content?.map(c => c.text || '').join(' ') || '';
   
+  const objectiveKeys = extractObjectiveKeys(article.content);
+  
   // Calculate priority with amendment boost
   let priority = config.contentTypes.article.priority;
   if (revisionInfo.hasAmendment) {
@@ -788,11 +996,35 @@ function createArticleDocument(
     hasTermRefs: hasTermRefs(rawText),
     hasTables: hasTablesInContent(article.content),
     hasFigures: hasFiguresInContent(article.content),
+    hasBCAnnotation: hasBCAnnotationsInContent(article.content) || undefined,
+    deleted: article.deleted || section.deleted || subsection.deleted || undefined,
     searchPriority: priority,
     referenceIds: config.references.preserveReferenceIds ? referenceIds : undefined,
+    objectiveKeys: objectiveKeys.length > 0 ? objectiveKeys : undefined,
   } as SearchDocument;
 }
 
+/**
+ * Number of a table or figure in an article, as the code labels it: the
+ * article number ("9.23.3.4."), lettered when the article has several of the
+ * kind ("9.20.17.4.-A", "9.20.17.4.-B")
+ */
+function getArticleContentNumber(
+  part: BCBCPart,
+  section: BCBCSection,
+  subsection: BCBCSubsection,
+  article: BCBCArticle,
+  content: BCBCContent
+): string {
+  if (content.number) return String(content.number);
+
+  const articleNumber = `${part.number}.${section.number}.${subsection.number}.${article.number}.`;
+  const siblings = (article.content || []).filter((item) => item.type === content.type);
+  if (siblings.length <= 1) return articleNumber;
+
+  return `${articleNumber}-${String.fromCharCode(65 + siblings.indexOf(content))}`;
+}
+
 /**
  * Create table document
  */
@@ -806,7 +1038,7 @@ function createTableDocument(
   revisionInfo: { hasAmendment: boolean; amendmentType?: string; latestDate?: string },
   config: IndexerConfig
 ): SearchDocument {
-  const tableNum = table.number || '1';
+  const tableNum = getArticleContentNumber(part, section, subsection, article, table);
   const articleNumber = `${division.letter}.${part.number}.${section.number}.${subsection.number}.${article.number}`;
   const fullNumber = `${articleNumber} Table ${tableNum}`;
   const urlPath = `/code/${division.id}/${part.number}/${section.number}/${subsection.number}/${article.number}#${table.id}`;
@@ -836,6 +1068,57 @@ function createTableDocument(
     amendmentType: revisionInfo.amendmentType as any,
     latestAmendmentDate: revisionInfo.latestDate,
     hasTables: true,
+    deleted: table.deleted || article.deleted || section.deleted || subsection.deleted || undefined,
+    searchPriority: priority,
+    referenceIds: config.references.preserveReferenceIds ? referenceIds : undefined,
+  } as SearchDocument;
+}
+
+/**
+ * Create special table document
+ * 
+ * Special tables sit outside the section hierarchy, so they link to their
+ * anchor on the part page: /code/{division}/{part}#{table}
+ */
+function createSpecialTableDocument(
+  division: BCBCDivision,
+  part: BCBCPart,
+  specialTables: BCBCSpecialTables,
+  table: BCBCContent,
+  revisionInfo: { hasAmendment: boolean; amendmentType?: string; latestDate?: string },
+  config: IndexerConfig
+): SearchDocument {
+  const tableNum = getSpecialTableNumber(specialTables.table_prefix, table.id || '');
+  const groupTitle = specialTables.toc_entry || specialTables.title;
+  const urlPath = `/code/${division.id}/${part.number}#${table.id}`;
+  
+  // Extract text from table
+  const { text, referenceIds } = extractTableText(table, config.textExtraction, config.references);
+  const label = tableNum ? `Table ${tableNum}` : 'Table';
+  const title = table.title || label;
+  
+  // Calculate priority
+  let priority = config.contentTypes.table.priority;
+  if (revisionInfo.hasAmendment) {
+    priority *= config.contentTypes.table.amendmentBoost;
+  }
+  
+  return {
+    ...createBaseDocument(division, part, null, null, config),
+    id: table.id,
+    type: 'table',
+    articleNumber: `${division.letter}.${part.number} ${label}`,
+    title: stripReferences(title, config.references),
+    text,
+    snippet: generateSnippet(text, config.textExtraction.snippetLength),
+    path: `Division ${division.letter} > Part ${part.number} > ${groupTitle} > ${label}`,
+    breadcrumbs: [division.title, part.title, groupTitle, label],
+    urlPath,
+    hasAmendment: revisionInfo.hasAmendment,
+    amendmentType: revisionInfo.amendmentType as any,
+    latestAmendmentDate: revisionInfo.latestDate,
+    hasTables: true,
+    deleted: table.deleted || undefined,
     searchPriority: priority,
     referenceIds: config.references.preserveReferenceIds ? referenceIds : undefined,
   } as SearchDocument;
@@ -854,7 +1137,7 @@ function createFigureDocument(
   revisionInfo: { hasAmendment: boolean; amendmentType?: string; latestDate?: string },
   config: IndexerConfig
 ): SearchDocument {
-  const figureNum = figure.number || '1';
+  const figureNum = getArticleContentNumber(part, section, subsection, article, figure);
   const articleNumber = `${division.letter}.${part.number}.${section.number}.${subsection.number}.${article.number}`;
   const fullNumber = `${articleNumber} Figure ${figureNum}`;
   const urlPath = `/code/${division.id}/${part.number}/${section.number}/${subsection.number}/${article.number}#${figure.id}`;
@@ -883,64 +1166,198 @@ function createFigureDocument(
     amendmentType: revisionInfo.amendmentType as any,
     latestAmendmentDate: revisionInfo.latestDate,
     hasFigures: true,
+    deleted: figure.deleted || article.deleted || section.deleted || subsection.deleted || undefined,
     searchPriority: priority,
   } as SearchDocument;
 }
 
 /**
- * Process front matter (preface)
+ * Create application note document
+ * 
+ * Notes link to the first article that references them (so they open next
+ * to that article), falling back to the part when no article does.
  */
-function processFrontMatter(
-  frontMatter: BCBCFrontMatter,
-  documents: SearchDocument[],
+function createApplicationNoteDocument(
+  division: BCBCDivision,
+  part: BCBCPart,
+  note: BCBCApplicationNote,
+  revisionInfo: { hasAmendment: boolean; amendmentType?: string; latestDate?: string },
   config: IndexerConfig
-): TableOfContentsItem | null {
-  if (!frontMatter.preface) return null;
-
-  const preface = frontMatter.preface;
+): SearchDocument {
+  const location = findNoteReferencingArticle(part, note.id);
   
-  // Extract text from all content items
+  // Collect paragraphs, note divisions and tables as searchable text
   const textParts: string[] = [];
-  for (const item of preface.content) {
-    if (item.content) {
-      textParts.push(item.content);
+  for (const paragraph of note.paragraphs || []) {
+    if (paragraph.content) textParts.push(paragraph.content);
+  }
+  for (const noteDivision of note.divisions || []) {
+    textParts.push(noteDivision.title);
+    for (const paragraph of noteDivision.paragraphs || []) {
+      if (paragraph.content) textParts.push(paragraph.content);
     }
   }
+  const rawText = textParts.join(' ');
   
-  const fullText = textParts.join(' ');
-  const text = stripReferences(fullText, config.references);
+  const tables = [
+    ...(note.tables || []),
+    ...(note.divisions || []).flatMap(d => d.tables || []),
+  ];
+  const tableTexts = tables.map(table => extractTableText(table, config.textExtraction, config.references).text);
   
-  // Create a single document for the preface
-  documents.push({
-    id: preface.id,
-    type: 'article',
-    articleNumber: 'Preface',
-    title: 'Preface',
+  let text = normalizeWhitespace(
+    [stripReferences(rawText, config.references), ...tableTexts].join(' ')
+  );
+  if (text.length > config.textExtraction.maxTextLength) {
+    text = text.substring(0, config.textExtraction.maxTextLength);
+  }
+  
+  const urlPath = location
+    ? `/code/${division.id}/${part.number}/${location.section.number}/${location.subsection.number}/${location.article.number}#${note.id}`
+    : `/code/${division.id}/${part.number}#${note.id}`;
+  
+  // Calculate priority
+  let priority = config.contentTypes['application-note'].priority;
+  if (revisionInfo.hasAmendment) {
+    priority *= config.contentTypes['application-note'].amendmentBoost;
+  }
+  
+  return {
+    ...createBaseDocument(division, part, location?.section || null, location?.subsection || null, config),
+    id: note.id,
+    type: 'application-note',
+    articleNumber: note.number,
+    title: stripReferences(note.title, config.references),
     text,
     snippet: generateSnippet(text, config.textExtraction.snippetLength),
-    divisionId: 'front-matter',
-    divisionLetter: '',
-    divisionTitle: 'Front Matter',
-    partId: '',
-    partNumber: 0,
-    partTitle: '',
-    sectionId: '',
-    sectionNumber: 0,
-    sectionTitle: '',
-    subsectionId: '',
-    subsectionNumber: 0,
-    subsectionTitle: '',
-    path: 'Front Matter > Preface',
-    breadcrumbs: ['Front Matter', 'Preface'],
-    urlPath: '/preface',
-    hasAmendment: false,
-    hasInternalRefs: hasInternalRefs(fullText),
-    hasExternalRefs: hasExternalRefs(fullText),
-    hasTermRefs: hasTermRefs(fullText),
-    hasTables: false,
-    hasFigures: false,
-    searchPriority: config.contentTypes.article.priority,
-  });
+    path: `Division ${division.letter} > Part ${part.number} > Notes > ${note.number}`,
+    breadcrumbs: [division.title, part.title, 'Notes', note.number],
+    urlPath,
+    hasAmendment: revisionInfo.hasAmendment,
+    amendmentType: revisionInfo.amendmentType as any,
+    latestAmendmentDate: revisionInfo.latestDate,
+    hasInternalRefs: hasInternalRefs(rawText),
+    hasExternalRefs: hasExternalRefs(rawText),
+    hasTermRefs: hasTermRefs(rawText),
+    hasTables: tables.length > 0,
+    hasFigures: (note.figures || []).length > 0,
+    searchPriority: priority,
+    deleted: note.deleted || undefined,
+  } as SearchDocument;
+}
+
+/**
+ * Find the first article in a part whose text references a note
+ */
+function findNoteReferencingArticle(
+  part: BCBCPart,
+  noteId: string
+): { section: BCBCSection; subsection: BCBCSubsection; article: BCBCArticle } | null {
+  const marker = `[REF:internal:${noteId}:`;
+  
+  for (const section of part.sections) {
+    for (const subsection of section.subsections) {
+      for (const article of subsection.articles) {
+        if (JSON.stringify(article.content || []).includes(marker)) {
+          return { section, subsection, article };
+        }
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Process front matter (preface, introduction and committees)
+ *
+ * Each section becomes one searchable document routed to /code/{type},
+ * with its headings, paragraphs, list items and table cells as text.
+ */
+function processFrontMatter(
+  frontMatter: BCBCFrontMatter,
+  documents: SearchDocument[],
+  config: IndexerConfig
+): TableOfContentsItem | null {
+  const sections: Array<{
+    id: string;
+    type: string;
+    title: string;
+    textParts: string[];
+    hasTables: boolean;
+    hasFigures: boolean;
+  }> = [];
+
+  for (const [section, defaultTitle] of [
+    [frontMatter.preface, 'Preface'],
+    [frontMatter.introduction, 'Introduction'],
+  ] as const) {
+    if (!section) continue;
+    sections.push({
+      id: section.id,
+      type: section.type,
+      title: section.title || defaultTitle,
+      textParts: section.content.flatMap(extractFrontMatterItemText),
+      hasTables: section.content.some((item) => item.type === 'table'),
+      hasFigures: section.content.some((item) => item.type === 'figure'),
+    });
+  }
+
+  if (frontMatter.committees) {
+    const committees = frontMatter.committees;
+    sections.push({
+      id: committees.id,
+      type: committees.type,
+      title: committees.title || 'Committees',
+      textParts: [
+        ...(committees.tables || []).flatMap((table) => [
+          ...(table.title ? [table.title] : []),
+          ...extractFrontMatterTableText(table.structure),
+        ]),
+        ...(committees.notes || []).flatMap((note) => (note.content ? [note.content] : [])),
+      ],
+      hasTables: (committees.tables || []).length > 0,
+      hasFigures: false,
+    });
+  }
+
+  if (sections.length === 0) return null;
+
+  for (const section of sections) {
+    const fullText = section.textParts.join(' ');
+    const text = stripReferences(fullText, config.references);
+
+    documents.push({
+      id: section.id,
+      type: 'article',
+      articleNumber: section.title,
+      title: section.title,
+      text,
+      snippet: generateSnippet(text, config.textExtraction.snippetLength),
+      divisionId: 'front-matter',
+      divisionLetter: '',
+      divisionTitle: 'Front Matter',
+      partId: '',
+      partNumber: 0,
+      partTitle: '',
+      sectionId: '',
+      sectionNumber: 0,
+      sectionTitle: '',
+      subsectionId: '',
+      subsectionNumber: 0,
+      subsectionTitle: '',
+      path: `Front Matter > ${section.title}`,
+      breadcrumbs: ['Front Matter', section.title],
+      urlPath: `/code/${section.type}`,
+      hasAmendment: false,
+      hasInternalRefs: hasInternalRefs(fullText),
+      hasExternalRefs: hasExternalRefs(fullText),
+      hasTermRefs: hasTermRefs(fullText),
+      hasTables: section.hasTables,
+      hasFigures: section.hasFigures,
+      searchPriority: config.contentTypes.article.priority,
+    });
+  }
 
   // Create TOC item for front matter
   return {
@@ -949,20 +1366,44 @@ function processFrontMatter(
     number: '',
     title: 'Front Matter',
     level: 0,
-    children: [
-      {
-        id: preface.id,
-        type: 'article',
-        number: '',
-        title: 'Preface',
-        level: 1,
-        hasRevisions: false,
-      }
-    ],
+    children: sections.map((section) => ({
+      id: section.id,
+      type: 'article',
+      number: '',
+      title: section.title,
+      level: 1,
+      hasRevisions: false,
+    })),
     hasRevisions: false,
   };
 }
 
+/**
+ * Extract searchable text from a front matter content item
+ */
+function extractFrontMatterItemText(item: BCBCFrontMatterContent): string[] {
+  switch (item.type) {
+    case 'list':
+      return item.items || [];
+    case 'table':
+      return [...(item.title ? [item.title] : []), ...extractFrontMatterTableText(item.structure)];
+    case 'figure':
+      return [item.title, item.graphic?.alt_text].filter((text): text is string => Boolean(text));
+    default:
+      return item.content ? [item.content] : [];
+  }
+}
+
+/**
+ * Extract the non-empty cell contents of a front matter table, header rows first
+ */
+function extractFrontMatterTableText(structure: BCBCFrontMatterTableStructure | undefined): string[] {
+  return [...(structure?.header_rows || []), ...(structure?.body_rows || [])]
+    .flat()
+    .map((cell) => cell.content?.trim() || '')
+    .filter(Boolean);
+}
+
 /**
  * Process glossary entries
  */
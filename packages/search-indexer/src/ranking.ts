@@ -0,0 +1,63 @@
+/**
+ * Ranking Model
+ *
+ * Collects the ranking settings of an IndexerConfig (field weights, content
+ * type priorities, BM25 and proximity settings) with the field statistics of
+ * the indexed documents. The model is written to metadata.json and applied by
+ * the search client, so ranking is tuned in the indexer configuration alone.
+ *
+ * This module has no Node.js dependencies and is safe to bundle in the web app
+ * (import it from "@bc-building-code/search-indexer/ranking").
+ */
+
+import type { IndexerConfig, RankingModel, SearchDocument } from './config';
+
+/**
+ * Split text into lowercase words (letters and digits) for term weighting
+ *
+ * @param text - Field text
+ * @returns Words in order of appearance
+ */
+export function tokenizeForRanking(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Read a document field as text
+ *
+ * @param doc - Search document
+ * @param field - Field name (from FieldConfig)
+ */
+export function getFieldText(doc: SearchDocument, field: string): string {
+  const value = doc[field as keyof SearchDocument];
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Create the ranking model for a set of documents
+ *
+ * @param config - Indexer configuration (fields, content types and ranking settings)
+ * @param documents - Indexed documents
+ * @returns Ranking model for metadata.json
+ */
+export function createRankingModel(config: IndexerConfig, documents: SearchDocument[]): RankingModel {
+  const averageFieldLengths: Record<string, number> = {};
+  for (const { field } of config.fields) {
+    const totalLength = documents.reduce((sum, doc) => sum + tokenizeForRanking(getFieldText(doc, field)).length, 0);
+    averageFieldLengths[field] = documents.length > 0 ? Math.round((totalLength / documents.length) * 100) / 100 : 0;
+  }
+
+  const contentTypes = {} as RankingModel['contentTypes'];
+  for (const [type, { priority, amendmentBoost }] of Object.entries(config.contentTypes)) {
+    contentTypes[type as keyof RankingModel['contentTypes']] = { priority, amendmentBoost };
+  }
+
+  return {
+    fields: config.fields,
+    contentTypes,
+    termWeighting: config.ranking.termWeighting,
+    proximity: config.ranking.proximity,
+    titleMatchBoost: config.ranking.titleMatchBoost,
+    averageFieldLengths,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Prebuilt FlexSearch Index
+ *
+ * Builds the FlexSearch document index from IndexerConfig.fields, serializes
+ * it per field at build time and restores it in the browser, so clients
+ * import the index instead of re-indexing every document on start-up.
+ *
+ * This module has no Node.js dependencies and is safe to bundle in the web app
+ * (import it from "@bc-building-code/search-indexer/search-index").
+ */
+
+import FlexSearch from 'flexsearch';
+import type { FieldConfig, SearchDocument } from './config';
+import { DEFAULT_FIELD_CONFIG } from './config';
+
+/**
+ * Serialized index format version
+ * Bump when the index options or segment layout change so old files are rebuilt
+ */
+export const SEARCH_INDEX_FORMAT_VERSION = 1;
+
+/**
+ * search-index.json content
+ */
+export interface SerializedSearchIndex {
+  /** Format version (SEARCH_INDEX_FORMAT_VERSION when written) */
+  formatVersion: number;
+  /** BCBC version */
+  version: string;
+  /** Generation timestamp */
+  generatedAt: string;
+  /** SHA-256 (hex) of the documents.json the index was built from */
+  documentsChecksum: string;
+  /** Number of indexed documents */
+  documentCount: number;
+  /** Field configuration the index was built with */
+  fields: FieldConfig[];
+  /** FlexSearch export segments (e.g. "title.map", "text.ctx"), keyed by segment name */
+  segments: Record<string, unknown>;
+}
+
+/**
+ * Create an empty FlexSearch document index with one field index per FieldConfig
+ *
+ * Documents are not stored in the index (clients keep them from documents.json),
+ * so searches return document IDs per field.
+ *
+ * @param fields - Field configuration (default: DEFAULT_FIELD_CONFIG)
+ * @returns FlexSearch document index
+ */
+export function createFlexSearchIndex(
+  fields: FieldConfig[] = DEFAULT_FIELD_CONFIG
+): FlexSearch.Document<SearchDocument> {
+  return new FlexSearch.Document<SearchDocument>({
+    tokenize: 'forward',
+    optimize: true,
+    resolution: 9,
+    cache: 100,
+    context: {
+      depth: 2,
+      bidirectional: true,
+      resolution: 9,
+    },
+    document: {
+      id: 'id',
+      index: fields.map(({ field, tokenize, resolution }) => ({
+        field,
+        tokenize,
+        resolution,
+      })),
+    },
+  });
+}
+
+/**
+ * Build the index for a set of documents and export its segments
+ *
+ * @param documents - Search documents
+ * @param fields - Field configuration (default: DEFAULT_FIELD_CONFIG)
+ * @returns Export segments keyed by segment name
+ */
+export async function serializeSearchIndex(
+  documents: SearchDocument[],
+  fields: FieldConfig[] = DEFAULT_FIELD_CONFIG
+): Promise<Record<string, unknown>> {
+  const index = createFlexSearchIndex(fields);
+  documents.forEach((doc) => index.add(doc));
+
+  const segments: Record<string, unknown> = {};
+  await index.export((key, data: unknown) => {
+    // Empty segments (no tags, no store) are exported as undefined
+    if (data !== undefined && data !== null) {
+      segments[String(key)] = typeof data === 'string' ? JSON.parse(data) : data;
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * Restore a FlexSearch index from search-index.json
+ *
+ * @param serialized - Serialized index
+ * @returns FlexSearch document index, ready to search
+ */
+export function importSearchIndex(serialized: SerializedSearchIndex): FlexSearch.Document<SearchDocument> {
+  const index = createFlexSearchIndex(serialized.fields);
+
+  // FlexSearch's typings declare segments as documents; they are plain index data
+  for (const [key, data] of Object.entries(serialized.segments)) {
+    index.import(key, data as SearchDocument);
+  }
+
+  return index;
+}
+
+/**
+ * Check that a serialized index matches the loaded documents.json
+ *
+ * A mismatch means one of the files is stale (e.g. served from an old cache);
+ * the index must then be rebuilt from the documents.
+ *
+ * @param serialized - Serialized index
+ * @param documentsChecksum - SHA-256 (hex) of the loaded documents.json
+ */
+export function isSearchIndexCurrent(serialized: SerializedSearchIndex, documentsChecksum: string): boolean {
+  return (
+    serialized.formatVersion === SEARCH_INDEX_FORMAT_VERSION &&
+    serialized.documentsChecksum === documentsChecksum
+  );
+}
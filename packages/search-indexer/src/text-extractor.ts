@@ -108,6 +108,15 @@ export function extractReferenceIds(
     .map(ref => `${ref.type}:${ref.id}`);
 }
 
+/**
+ * Equation structure from BCBC JSON
+ */
+interface Equation {
+  id?: string;
+  latex?: string;
+  plainText?: string;
+}
+
 /**
  * Clause structure from BCBC JSON
  */
@@ -119,6 +128,8 @@ interface Clause {
   text?: string;
   clauses?: Clause[];
   subclauses?: Clause[];
+  equations?: Equation[];
+  deleted?: boolean;
 }
 
 /**
@@ -148,6 +159,11 @@ interface ContentItem {
     rows?: Array<{ cells?: Array<{ text?: string } | string> }>;
   };
   caption?: string;
+  equations?: Equation[];
+  objectives?: Array<{ key: string; sub_objectives?: Array<{ key: string }> }>;
+  functional_statements?: Array<{ key: string }>;
+  bc_annotations?: Array<{ type: string; content: string }>;
+  deleted?: boolean;
 }
 
 /**
@@ -170,10 +186,17 @@ export function extractClauseText(
   const texts: string[] = [];
   
   for (const clause of clauses) {
+    // Deleted clauses (and their subclauses) are not searchable
+    if (clause.deleted) continue;
+    
     if (clause.text) {
       texts.push(clause.text);
     }
     
+    if (config.includeEquations) {
+      texts.push(extractEquationText(clause.equations));
+    }
+    
     // Process subclauses if enabled
     if (config.includeSubclauses && clause.subclauses) {
       texts.push(extractClauseText(clause.subclauses, config, depth + 1));
@@ -188,6 +211,25 @@ export function extractClauseText(
   return texts.filter(t => t).join(' ');
 }
 
+/**
+ * Extract searchable text from equations
+ * 
+ * Uses the plain text form (e.g., "C_s(60°-a)/(53°)"), falling back to LaTeX.
+ * 
+ * @param equations - Equations on a sentence or clause
+ * @returns Equation text separated by spaces
+ */
+export function extractEquationText(equations: Equation[] | undefined): string {
+  if (!equations) {
+    return '';
+  }
+  
+  return equations
+    .map((equation) => equation.plainText || equation.latex || '')
+    .filter(t => t)
+    .join(' ');
+}
+
 /**
  * Extract text from article content
  * 
@@ -209,6 +251,8 @@ export function extractArticleText(
   const allReferenceIds: string[] = [];
   
   for (const item of content) {
+    if (item.deleted) continue;
+    
     if (item.type === 'sentence' && config.includeSentences) {
       // Extract sentence text
       if (item.text) {
@@ -216,6 +260,11 @@ export function extractArticleText(
         allReferenceIds.push(...extractReferenceIds(item.text, refConfig));
       }
       
+      // Extract equation text (e.g., snow load formulas)
+      if (config.includeEquations) {
+        texts.push(extractEquationText(item.equations));
+      }
+      
       // Extract clause text
       if (item.clauses) {
         const clauseText = extractClauseText(item.clauses, config);
@@ -373,6 +422,14 @@ export function hasFiguresInContent(content: ContentItem[] | undefined): boolean
   return content.some(item => item.type === 'figure');
 }
 
+/**
+ * Check if content has live sentences with BC-specific annotations
+ */
+export function hasBCAnnotationsInContent(content: ContentItem[] | undefined): boolean {
+  if (!content) return false;
+  return content.some(item => !item.deleted && (item.bc_annotations?.length ?? 0) > 0);
+}
+
 /**
  * Check if text contains internal references
  */
@@ -393,3 +450,26 @@ export function hasExternalRefs(text: string): boolean {
 export function hasTermRefs(text: string): boolean {
   return text.includes('[REF:term:');
 }
+
+/**
+ * Extract objective, sub-objective and functional statement keys
+ * (e.g., "OS3", "OS3.1", "F30") attributed to sentences in content
+ */
+export function extractObjectiveKeys(content: ContentItem[] | undefined): string[] {
+  if (!content) return [];
+
+  const keys = new Set<string>();
+  for (const item of content) {
+    for (const objective of item.objectives || []) {
+      keys.add(objective.key);
+      for (const sub of objective.sub_objectives || []) {
+        keys.add(sub.key);
+      }
+    }
+    for (const statement of item.functional_statements || []) {
+      keys.add(statement.key);
+    }
+  }
+
+  return Array.from(keys);
+}
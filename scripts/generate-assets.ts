@@ -11,7 +11,8 @@
  *    b. Generate search documents and metadata (search-indexer)
  *    c. Extract metadata and chunk content (content-chunker)
  *    d. Write all assets to apps/web/public/data/{versionId}/
- * 3. Generate unified versions.json index
+ * 3. Compare consecutive versions and write {newerVersionId}/changes-{from}-{to}.json
+ * 4. Generate unified versions.json index
  * 
  * Usage:
  *   npx tsx scripts/generate-assets-multi-version.ts
@@ -19,24 +20,36 @@
  * Environment Variables:
  *   VERSIONS_FILE - Path to versions config (default: data/source/versions.json)
  *   OUTPUT_BASE_DIR - Base output directory (default: apps/web/public/data)
+ *   SCHEMA_FILE - Path to the source JSON Schema (default: data/source/bc-building-code-schema.json)
+ *   STRICT_SCHEMA - Fail the build on any schema error or warning (default: false)
+ *   MAX_BROKEN_REFERENCES - Fail the build above this many broken references (default: no limit)
+ *   SITE_URL - Public site URL for links in the change feeds (default: http://localhost:3000)
+ *   GHOSTSCRIPT_BIN - Ghostscript command used to convert EPS-only figures to PNG (default: gs)
  */
 
-import { readFile, writeFile, mkdir, rm } from 'fs/promises';
-import { join, dirname } from 'path';
+import { readFile, writeFile, mkdir, rm, readdir, stat, access } from 'fs/promises';
+import { join, dirname, relative, sep } from 'path';
 import { fileURLToPath } from 'url';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 
 // Import parser package
 import {
   parseBCBC,
   validateBCBC,
+  validateSchema,
+  findBrokenReferences,
+  getConversionFactors,
   type BCBCDocument,
   type ValidationError,
+  type JSONSchema,
 } from '../packages/bcbc-parser/src/index.js';
 
 // Import search indexer
 import {
   buildSearchIndex,
   exportAll,
+  exportSearchIndex,
   getExportStats,
   type IndexerConfig,
   DEFAULT_INDEXER_CONFIG,
@@ -46,10 +59,23 @@ import {
 import {
   chunkContent,
   extractMetadata,
+  extractObjectiveIndex,
+  extractBookIndex,
+  diffVersions,
+  extractChangeFeed,
+  extractFigures,
+  buildFigureRegistry,
+  getFigureAssetKey,
   getChunkStats,
   type ContentChunk,
+  type ChangeFeedEntry,
+  type FigureAsset,
+  type FigureImageFormat,
 } from '../packages/content-chunker/src/index.js';
 
+// Import web app URL builder (deep links in the change feeds)
+import { buildContentPath } from '../apps/web/lib/url-utils.js';
+
 // Get directory paths
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -58,6 +84,19 @@ const rootDir = join(__dirname, '..');
 // Configuration
 const VERSIONS_FILE = process.env.VERSIONS_FILE || join(rootDir, 'data/source/versions.json');
 const OUTPUT_BASE_DIR = process.env.OUTPUT_BASE_DIR || join(rootDir, 'apps/web/public/data');
+const SCHEMA_FILE = process.env.SCHEMA_FILE || join(rootDir, 'data/source/bc-building-code-schema.json');
+const STRICT_SCHEMA = process.env.STRICT_SCHEMA === 'true';
+const MAX_BROKEN_REFERENCES = process.env.MAX_BROKEN_REFERENCES
+  ? parseInt(process.env.MAX_BROKEN_REFERENCES, 10)
+  : Infinity;
+const SITE_URL = (process.env.SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+const GHOSTSCRIPT_BIN = process.env.GHOSTSCRIPT_BIN || 'gs';
+
+// Figure images live under apps/web/public; PNG renditions of EPS-only figures
+// are shared by all versions and kept between builds
+const PUBLIC_DIR = join(rootDir, 'apps/web/public');
+const FIGURE_ASSET_DIRS = ['graphics', 'bc-graphics'];
+const FIGURE_RENDITIONS_DIR = join(OUTPUT_BASE_DIR, 'figures');
 
 // Version configuration interface
 interface VersionConfig {
@@ -83,6 +122,14 @@ interface GeneratedVersionMetadata {
   dataPath: string;
 }
 
+// Amended provision in a change feed item
+interface ChangeFeedLink {
+  label: string;
+  url: string | null;
+  amendmentIds: string[];
+  changeSummaries: string[];
+}
+
 // ANSI color codes
 const colors = {
   reset: '\x1b[0m',
@@ -184,6 +231,49 @@ async function loadSourceData(version: VersionConfig): Promise<any> {
   }
 }
 
+/**
+ * Validate raw source JSON against the JSON Schema
+ * In strict mode, warnings count as errors and any error fails the build
+ */
+async function validateSourceSchema(rawData: unknown): Promise<void> {
+  logger.info(`Validating against schema${STRICT_SCHEMA ? ' (strict)' : ''}...`);
+  
+  const startTime = Date.now();
+  
+  try {
+    const schema = JSON.parse(await readFile(SCHEMA_FILE, 'utf-8')) as JSONSchema;
+    const errors: ValidationError[] = validateSchema(rawData, schema, { strict: STRICT_SCHEMA });
+    const criticalErrors = errors.filter(e => e.severity === 'error');
+    const warnings = errors.filter(e => e.severity === 'warning');
+    
+    const duration = Date.now() - startTime;
+    
+    if (errors.length === 0) {
+      logger.success(`Schema validation passed in ${formatDuration(duration)}`);
+      return;
+    }
+    
+    if (warnings.length > 0) {
+      logger.warn(`Found ${warnings.length} schema warning(s)`);
+    }
+    if (criticalErrors.length > 0) {
+      logger.warn(`Found ${criticalErrors.length} schema error(s)${STRICT_SCHEMA ? '' : ' (continuing anyway)'}`);
+    }
+    errors.slice(0, 20).forEach(e => {
+      logger.info(`  ${e.severity}: ${e.path}${e.field ? ` (${e.field})` : ''} - ${e.message}`);
+    });
+    
+    if (STRICT_SCHEMA && criticalErrors.length > 0) {
+      throw new Error(`${criticalErrors.length} schema error(s) in strict mode`);
+    }
+    
+    logger.success(`Schema validation completed in ${formatDuration(duration)} (with issues)`);
+  } catch (error) {
+    logger.error(`Schema validation failed: ${error}`);
+    throw error;
+  }
+}
+
 /**
  * Validate BCBC document
  */
@@ -216,6 +306,39 @@ async function validateData(document: BCBCDocument): Promise<void> {
   }
 }
 
+/**
+ * Check internal, index, glossary and amendment references
+ * Fails the build when the broken count exceeds MAX_BROKEN_REFERENCES
+ */
+function checkBrokenReferences(document: BCBCDocument): void {
+  logger.info('Checking references...');
+  
+  const report = findBrokenReferences(document);
+  
+  if (report.broken.length === 0) {
+    logger.success(`All ${report.checked} references resolve`);
+    return;
+  }
+  
+  const byType = new Map<string, number>();
+  for (const reference of report.broken) {
+    byType.set(reference.type, (byType.get(reference.type) || 0) + 1);
+  }
+  
+  logger.warn(`Found ${report.broken.length} broken reference(s) of ${report.checked} checked`);
+  byType.forEach((count, type) => logger.info(`  - ${type}: ${count}`));
+  report.broken.slice(0, 20).forEach(reference => {
+    const suggestion = reference.suggestion ? ` (nearest: ${reference.suggestion})` : '';
+    logger.info(`    ${reference.sourceId} → ${reference.targetId}${suggestion}`);
+  });
+  
+  if (report.broken.length > MAX_BROKEN_REFERENCES) {
+    throw new Error(
+      `${report.broken.length} broken references exceed the limit of ${MAX_BROKEN_REFERENCES}`
+    );
+  }
+}
+
 /**
  * Generate search assets for a version
  */
@@ -270,6 +393,11 @@ async function generateSearchAssets(rawData: any, outputDir: string): Promise<{
     await writeFile(join(searchDir, 'documents.json'), exportResult.documents);
     logger.success('Written search/documents.json');
     
+    // Write search-index.json (prebuilt FlexSearch index, stamped with the documents.json checksum)
+    const searchIndex = await exportSearchIndex(documents, metadata, exportResult.documents);
+    await writeFile(join(searchDir, 'search-index.json'), searchIndex);
+    logger.success(`Written search/search-index.json (${Math.round(Buffer.byteLength(searchIndex) / 1024)} KB)`);
+    
     // Write metadata.json
     if (exportResult.metadata) {
       await writeFile(join(searchDir, 'metadata.json'), exportResult.metadata);
@@ -341,6 +469,412 @@ async function generateQuickAccess(document: BCBCDocument, outputDir: string): P
   }
 }
 
+/**
+ * Generate objective index (objective/functional statement key → provisions)
+ */
+async function generateObjectiveIndex(document: BCBCDocument, outputDir: string): Promise<void> {
+  logger.info('Generating objective index...');
+  
+  try {
+    const objectives = extractObjectiveIndex(document);
+    
+    const objectiveIndex = {
+      version: document.metadata.version || '2020',
+      generatedAt: new Date().toISOString(),
+      objectives,
+    };
+    
+    await writeFile(join(outputDir, 'objective-index.json'), JSON.stringify(objectiveIndex, null, 2));
+    logger.success(`Written objective-index.json (${Object.keys(objectives).length} keys)`);
+  } catch (error) {
+    logger.error(`Failed to generate objective index: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * Generate back-of-book index (A–Z terms with resolved references)
+ */
+async function generateBookIndex(document: BCBCDocument, outputDir: string): Promise<void> {
+  logger.info('Generating back-of-book index...');
+  
+  try {
+    const { introduction, letters } = extractBookIndex(document);
+    
+    const bookIndex = {
+      version: document.metadata.version || '2020',
+      generatedAt: new Date().toISOString(),
+      introduction,
+      letters,
+    };
+    
+    await writeFile(join(outputDir, 'index.json'), JSON.stringify(bookIndex, null, 2));
+    
+    const termCount = letters.reduce((sum, l) => sum + l.terms.length, 0);
+    logger.success(`Written index.json (${letters.length} letters, ${termCount} terms)`);
+  } catch (error) {
+    logger.error(`Failed to generate back-of-book index: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * Generate the amendment history of each provision, keyed by location_id
+ * (the wording in each record is what the web app rebuilds earlier wording from)
+ */
+async function generateAmendmentHistory(document: BCBCDocument, outputDir: string): Promise<void> {
+  logger.info('Generating amendment history...');
+  
+  try {
+    const amendments = document.amendments || {};
+    
+    const amendmentHistory = {
+      version: document.metadata.version || '2020',
+      generatedAt: new Date().toISOString(),
+      amendments,
+    };
+    
+    await writeFile(join(outputDir, 'amendment-history.json'), JSON.stringify(amendmentHistory, null, 2));
+    logger.success(`Written amendment-history.json (${Object.keys(amendments).length} provisions)`);
+  } catch (error) {
+    logger.error(`Failed to generate amendment history: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render the provisions of a change feed entry as a list of deep links
+ */
+function renderChangeFeedEntry(
+  entry: ChangeFeedEntry,
+  version: VersionConfig
+): { html: string; provisions: ChangeFeedLink[] } {
+  const provisions = entry.provisions.map(provision => ({
+    label: provision.location
+      ? `${provision.location.number} ${provision.location.title}`
+      : provision.locationIds.join(', '),
+    url: provision.location
+      ? `${SITE_URL}${buildContentPath(provision.location, { version: version.id, date: entry.effectiveDate })}`
+      : null,
+    amendmentIds: provision.amendmentIds,
+    changeSummaries: provision.changeSummaries,
+  }));
+  
+  const items = provisions.map(provision => {
+    const label = provision.url
+      ? `<a href="${escapeXml(provision.url)}">${escapeXml(provision.label)}</a>`
+      : escapeXml(provision.label);
+    const ids = provision.amendmentIds.length > 0 ? ` (${escapeXml(provision.amendmentIds.join(', '))})` : '';
+    const summaries = provision.changeSummaries.length > 0
+      ? `<ul>${provision.changeSummaries.map(summary => `<li>${escapeXml(summary)}</li>`).join('')}</ul>`
+      : '';
+    return `<li>${label}${ids}${summaries}</li>`;
+  });
+  
+  const html = items.length > 0
+    ? `<ul>${items.join('')}</ul>`
+    : '<p>No provision-level amendment records for this date.</p>';
+  
+  return { html, provisions };
+}
+
+/**
+ * Generate the amendment change feed as Atom (feed.xml) and JSON Feed (feed.json),
+ * one entry per effective date with deep links to the amended provisions
+ */
+async function generateChangeFeeds(
+  document: BCBCDocument,
+  version: VersionConfig,
+  outputDir: string
+): Promise<void> {
+  logger.info('Generating change feeds...');
+  
+  try {
+    // Amendment dates are written by the search indexer
+    const amendmentDatesFile = JSON.parse(await readFile(join(outputDir, 'amendment-dates.json'), 'utf-8'));
+    const effectiveDates: string[] = (amendmentDatesFile.dates || [])
+      .filter((date: { type: string }) => date.type !== 'original')
+      .map((date: { effectiveDate: string }) => date.effectiveDate);
+    
+    const entries = extractChangeFeed(document, effectiveDates);
+    
+    const generatedAt = new Date().toISOString();
+    const title = `${version.title} – Code changes`;
+    const homePageUrl = `${SITE_URL}/?version=${encodeURIComponent(version.id)}`;
+    const atomUrl = `${SITE_URL}/data/${version.id}/feed.xml`;
+    const jsonUrl = `${SITE_URL}/data/${version.id}/feed.json`;
+    const updated = entries[0] ? `${entries[0].effectiveDate}T00:00:00Z` : generatedAt;
+    
+    const rendered = entries.map(entry => ({ entry, ...renderChangeFeedEntry(entry, version) }));
+    
+    const atom = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <id>${escapeXml(atomUrl)}</id>`,
+      `  <title>${escapeXml(title)}</title>`,
+      `  <updated>${updated}</updated>`,
+      `  <link rel="self" type="application/atom+xml" href="${escapeXml(atomUrl)}"/>`,
+      `  <link rel="alternate" type="text/html" href="${escapeXml(homePageUrl)}"/>`,
+      '  <author><name>Province of British Columbia</name></author>',
+      ...rendered.map(({ entry, html, provisions }) => [
+        '  <entry>',
+        `    <id>${escapeXml(`${atomUrl}#${entry.effectiveDate}`)}</id>`,
+        `    <title>${escapeXml(`Amendments effective ${entry.effectiveDate} (${provisions.length} provisions)`)}</title>`,
+        `    <updated>${entry.effectiveDate}T00:00:00Z</updated>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(`${homePageUrl}&date=${entry.effectiveDate}`)}"/>`,
+        `    <content type="html">${escapeXml(html)}</content>`,
+        '  </entry>',
+      ].join('\n')),
+      '</feed>',
+      '',
+    ].join('\n');
+    
+    const jsonFeed = {
+      version: 'https://jsonfeed.org/version/1.1',
+      title,
+      home_page_url: homePageUrl,
+      feed_url: jsonUrl,
+      authors: [{ name: 'Province of British Columbia' }],
+      _bcbc: {
+        version: version.id,
+        generatedAt,
+      },
+      items: rendered.map(({ entry, html, provisions }) => ({
+        id: `${jsonUrl}#${entry.effectiveDate}`,
+        url: `${homePageUrl}&date=${entry.effectiveDate}`,
+        title: `Amendments effective ${entry.effectiveDate} (${provisions.length} provisions)`,
+        content_html: html,
+        date_published: `${entry.effectiveDate}T00:00:00Z`,
+        _bcbc: {
+          effectiveDate: entry.effectiveDate,
+          provisions,
+        },
+      })),
+    };
+    
+    await writeFile(join(outputDir, 'feed.xml'), atom);
+    await writeFile(join(outputDir, 'feed.json'), JSON.stringify(jsonFeed, null, 2));
+    logger.success(`Written feed.xml and feed.json (${entries.length} effective dates)`);
+  } catch (error) {
+    logger.error(`Failed to generate change feeds: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * Read the pixel size of a PNG, GIF or JPEG image, or the bounding box of an EPS file
+ */
+function readImageDimensions(
+  data: Buffer,
+  format: FigureImageFormat
+): { width: number; height: number } | undefined {
+  if (format === 'png' && data.length >= 24) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  
+  if (format === 'gif' && data.length >= 10) {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  
+  if (format === 'jpg') {
+    // Walk the JPEG segments up to the first start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return undefined;
+  }
+  
+  if (format === 'eps') {
+    // DOS EPS files start with a binary header pointing at the PostScript section
+    const postScriptStart = data.readUInt32BE(0) === 0xc5d0d3c6 ? data.readUInt32LE(4) : 0;
+    const header = data.subarray(postScriptStart, postScriptStart + 8192).toString('latin1');
+    const match = header.match(/%%BoundingBox:\s*(-?\d+)\s+(-?\d+)\s+(-?\d+)\s+(-?\d+)/);
+    if (match) {
+      const [x0, y0, x1, y1] = match.slice(1).map(Number);
+      return { width: x1 - x0, height: y1 - y0 };
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Describe an image file as a figure asset (URL path, format, size and dimensions)
+ */
+async function readFigureAsset(
+  filePath: string,
+  urlPath: string,
+  format: FigureImageFormat
+): Promise<FigureAsset> {
+  const data = await readFile(filePath);
+  return {
+    path: urlPath,
+    format,
+    ...readImageDimensions(data, format),
+    bytes: data.length,
+  };
+}
+
+/**
+ * List the image files in the public graphics folders
+ */
+async function scanFigureAssets(): Promise<FigureAsset[]> {
+  const assets: FigureAsset[] = [];
+  
+  for (const assetDir of FIGURE_ASSET_DIRS) {
+    const dir = join(PUBLIC_DIR, assetDir);
+    const entries = await readdir(dir, { recursive: true }).catch(() => [] as string[]);
+    
+    for (const entry of entries) {
+      const extension = entry.split('.').pop()?.toLowerCase();
+      const format = extension === 'jpeg' ? 'jpg' : extension;
+      if (!format || !['jpg', 'png', 'gif', 'svg', 'webp', 'eps'].includes(format)) continue;
+      
+      const filePath = join(dir, entry);
+      const urlPath = '/' + relative(PUBLIC_DIR, filePath).split(sep).map(encodeURIComponent).join('/');
+      assets.push(await readFigureAsset(filePath, urlPath, format as FigureImageFormat));
+    }
+  }
+  
+  return assets;
+}
+
+/**
+ * Convert an EPS file to PNG with Ghostscript
+ * 
+ * @returns False when Ghostscript is not installed
+ */
+async function convertEpsToPng(epsPath: string, pngPath: string): Promise<boolean> {
+  try {
+    await promisify(execFile)(GHOSTSCRIPT_BIN, [
+      '-dSAFER',
+      '-dBATCH',
+      '-dNOPAUSE',
+      '-dQUIET',
+      '-dEPSCrop',
+      '-sDEVICE=png16m',
+      '-r150',
+      '-dTextAlphaBits=4',
+      '-dGraphicsAlphaBits=4',
+      `-sOutputFile=${pngPath}`,
+      epsPath,
+    ]);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+/**
+ * Generate the figure registry: every figure with its renditions, dimensions,
+ * alt text and caption, flagging figures that cannot be shown
+ * 
+ * Figures that only have an EPS file get a PNG rendition in
+ * {OUTPUT_BASE_DIR}/figures/ (skipped when Ghostscript is not installed).
+ */
+async function generateFigureRegistry(document: BCBCDocument, outputDir: string): Promise<void> {
+  logger.info('Generating figure registry...');
+  
+  try {
+    const figures = extractFigures(document);
+    const assets = await scanFigureAssets();
+    
+    // Convert EPS-only figures, reusing renditions from earlier builds
+    const converted: FigureAsset[] = [];
+    const epsOnly = buildFigureRegistry(figures, assets).issues['no-web-image'];
+    if (epsOnly.length > 0) {
+      await ensureDir(FIGURE_RENDITIONS_DIR);
+    }
+    
+    const convertedKeys = new Set<string>();
+    for (const figureId of epsOnly) {
+      const figure = figures.find(f => f.id === figureId)!;
+      const key = getFigureAssetKey(figure.src);
+      if (convertedKeys.has(key)) continue;
+      convertedKeys.add(key);
+      
+      const eps = assets.find(asset => asset.format === 'eps' && getFigureAssetKey(asset.path) === key)!;
+      const epsPath = join(PUBLIC_DIR, decodeURIComponent(eps.path));
+      const pngPath = join(FIGURE_RENDITIONS_DIR, `${key}.png`);
+      
+      const exists = await access(pngPath).then(() => true, () => false);
+      if (!exists && !(await convertEpsToPng(epsPath, pngPath))) {
+        logger.warn(`Ghostscript (${GHOSTSCRIPT_BIN}) not found; ${epsOnly.length} EPS-only figure(s) left unconverted`);
+        break;
+      }
+      
+      const urlPath = '/' + relative(PUBLIC_DIR, pngPath).split(sep).map(encodeURIComponent).join('/');
+      converted.push(await readFigureAsset(pngPath, urlPath, 'png'));
+    }
+    
+    const registry = buildFigureRegistry(figures, [...assets, ...converted]);
+    
+    const figureRegistry = {
+      version: document.metadata.version || '2020',
+      generatedAt: new Date().toISOString(),
+      ...registry,
+    };
+    
+    await writeFile(join(outputDir, 'figures.json'), JSON.stringify(figureRegistry, null, 2));
+    logger.success(`Written figures.json (${figures.length} figures, ${converted.length} converted from EPS)`);
+    
+    Object.entries(registry.issues).forEach(([issue, figureIds]) => {
+      if (figureIds.length === 0) return;
+      logger.warn(`  ${issue}: ${figureIds.length} figure(s)`);
+      figureIds.slice(0, 10).forEach(figureId => {
+        logger.info(`    ${figureId} (${registry.figures[figureId].src || 'no graphic'})`);
+      });
+    });
+  } catch (error) {
+    logger.error(`Failed to generate figure registry: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * Generate conversion factors (metric → imperial) for inline unit conversion
+ */
+async function generateConversions(document: BCBCDocument, outputDir: string): Promise<void> {
+  logger.info('Generating conversion factors...');
+  
+  try {
+    const factors = getConversionFactors(document);
+    const title = document.volumes.find(v => v.conversions)?.conversions?.table_title || 'Conversion Factors';
+    
+    const conversions = {
+      version: document.metadata.version || '2020',
+      generatedAt: new Date().toISOString(),
+      title,
+      factors,
+    };
+    
+    await writeFile(join(outputDir, 'conversions.json'), JSON.stringify(conversions, null, 2));
+    logger.success(`Written conversions.json (${factors.length} factors)`);
+  } catch (error) {
+    logger.error(`Failed to generate conversion factors: ${error}`);
+    throw error;
+  }
+}
+
 /**
  * Generate content chunks
  */
@@ -383,7 +917,8 @@ async function generateContentChunks(document: BCBCDocument, outputDir: string):
  * Generate assets for a single version
  */
 async function generateVersionAssets(
-  version: VersionConfig
+  version: VersionConfig,
+  documents: Map<string, BCBCDocument>
 ): Promise<GeneratedVersionMetadata> {
   logger.version(`Processing version: ${version.title} (${version.id})`);
   
@@ -399,6 +934,9 @@ async function generateVersionAssets(
     // Load source data
     const rawData = await loadSourceData(version);
     
+    // Validate source JSON against the schema
+    await validateSourceSchema(rawData);
+    
     // Parse for validation and content chunking
     logger.info('Parsing BCBC structure...');
     const document = parseBCBC(rawData);
@@ -408,15 +946,39 @@ async function generateVersionAssets(
     // Validate data
     await validateData(document);
     
+    // Check references
+    checkBrokenReferences(document);
+    
     // Generate search assets
     const { revisionCount, latestRevision } = await generateSearchAssets(rawData, outputDir);
     
     // Generate quick access pins
     await generateQuickAccess(document, outputDir);
     
+    // Generate objective index
+    await generateObjectiveIndex(document, outputDir);
+    
+    // Generate back-of-book index
+    await generateBookIndex(document, outputDir);
+    
+    // Generate amendment history
+    await generateAmendmentHistory(document, outputDir);
+    
+    // Generate change feeds
+    await generateChangeFeeds(document, version, outputDir);
+    
+    // Generate figure registry
+    await generateFigureRegistry(document, outputDir);
+    
+    // Generate conversion factors
+    await generateConversions(document, outputDir);
+    
     // Generate content chunks
     await generateContentChunks(document, outputDir);
     
+    // Keep the parsed document for the cross-version comparison
+    documents.set(version.id, document);
+    
     const versionDuration = Date.now() - versionStartTime;
     logger.success(`Completed ${version.title} in ${formatDuration(versionDuration)}`);
     
@@ -437,6 +999,48 @@ async function generateVersionAssets(
   }
 }
 
+/**
+ * Compare each version with the one before it (by year) and write
+ * changes-{from}-{to}.json to the newer version's output directory
+ */
+async function generateVersionChanges(
+  versions: VersionConfig[],
+  documents: Map<string, BCBCDocument>
+): Promise<void> {
+  logger.step('Comparing versions');
+  
+  const sortedVersions = [...versions].sort((a, b) => a.year - b.year);
+  if (sortedVersions.length < 2) {
+    logger.info('Only one version, nothing to compare');
+    return;
+  }
+  
+  try {
+    for (let i = 1; i < sortedVersions.length; i++) {
+      const from = sortedVersions[i - 1];
+      const to = sortedVersions[i];
+      const changes = diffVersions(documents.get(from.id)!, documents.get(to.id)!, from.id, to.id);
+      
+      const fileName = `changes-${from.id}-${to.id}.json`;
+      const versionChanges = {
+        generatedAt: new Date().toISOString(),
+        ...changes,
+      };
+      await writeFile(join(OUTPUT_BASE_DIR, to.id, fileName), JSON.stringify(versionChanges, null, 2));
+      
+      const { summary } = changes;
+      logger.success(`Written ${to.id}/${fileName}`);
+      logger.info(
+        `  ${summary.added} added, ${summary.removed} removed, ${summary.moved} moved, ` +
+        `${summary.renumbered} renumbered, ${summary.reworded} reworded`
+      );
+    }
+  } catch (error) {
+    logger.error(`Failed to compare versions: ${error}`);
+    throw error;
+  }
+}
+
 /**
  * Generate unified versions.json index
  */
@@ -492,13 +1096,21 @@ async function generateReport(
   
   console.log(`\nGenerated files per version:`);
   console.log('  ✓ search/documents.json');
+  console.log('  ✓ search/search-index.json');
   console.log('  ✓ search/metadata.json');
   console.log('  ✓ navigation-tree.json');
   console.log('  ✓ glossary-map.json');
   console.log('  ✓ amendment-dates.json');
   console.log('  ✓ content-types.json');
   console.log('  ✓ quick-access.json');
+  console.log('  ✓ objective-index.json');
+  console.log('  ✓ index.json');
+  console.log('  ✓ amendment-history.json');
+  console.log('  ✓ feed.xml, feed.json (change feeds)');
+  console.log('  ✓ figures.json (figure registry)');
+  console.log('  ✓ conversions.json');
   console.log('  ✓ content/ (directory with chunks)');
+  console.log('  ✓ changes-{previous}-{version}.json (except the oldest version)');
   
   console.log(`\n${colors.green}All assets generated successfully!${colors.reset}`);
   console.log('='.repeat(70) + '\n');
@@ -520,12 +1132,16 @@ async function main(): Promise<void> {
     
     // Generate assets for each version
     const generatedVersions: GeneratedVersionMetadata[] = [];
+    const documents = new Map<string, BCBCDocument>();
     
     for (const versionConfig of versionConfigs) {
-      const metadata = await generateVersionAssets(versionConfig);
+      const metadata = await generateVersionAssets(versionConfig, documents);
       generatedVersions.push(metadata);
     }
     
+    // Compare consecutive versions
+    await generateVersionChanges(versionConfigs, documents);
+    
     // Generate unified versions index
     await generateVersionsIndex(generatedVersions);
     